@@ -0,0 +1,331 @@
+import { useRef, useState } from "react";
+import { Download, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChartView } from "./ChartView";
+import type { ColumnDef } from "@/lib/csv";
+import { profileKind } from "@/lib/columnProfile";
+import {
+  CHART_AGGREGATES,
+  CHART_KINDS,
+  chartUsesY,
+  DEFAULT_CHART_BINS,
+  type ChartAggregate,
+  type ChartConfig,
+  type ChartData,
+  type ChartKind,
+} from "@/lib/chart";
+import { downloadBlob } from "@/lib/export";
+import { logger } from "@/lib/logger";
+import { cn } from "@/lib/utils";
+
+const BIN_COUNTS = [10, 20, 50, 100];
+
+/** Render the chart's SVG as a PNG at twice its size. */
+async function svgToPng(svg: Blob, width: number, height: number) {
+  const url = URL.createObjectURL(svg);
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error("Could not render the chart"));
+      image.src = url;
+    });
+    const canvas = document.createElement("canvas");
+    canvas.width = width * 2;
+    canvas.height = height * 2;
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("Canvas is unavailable");
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob((blob) =>
+        blob ? resolve(blob) : reject(new Error("Could not encode the PNG")),
+      ),
+    );
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Chart panel docked under the grid. It charts the filtered view or the
+ * selected rows as the config says; the config lives in the URL with the
+ * rest of the view, so it is owned by the sheet.
+ */
+export function ChartPanel({
+  table,
+  columns,
+  config,
+  onConfigChange,
+  chart,
+  error,
+  isCharting,
+  hasSelection,
+  onClose,
+}: {
+  /** Names the exported file. */
+  table: string;
+  columns: ColumnDef[];
+  config: ChartConfig;
+  onConfigChange: (config: ChartConfig) => void;
+  chart: ChartData | null;
+  error: string | null;
+  isCharting: boolean;
+  hasSelection: boolean;
+  onClose: () => void;
+}) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  // Charts that plot `y` need one; prefer a number column other than x.
+  const update = (patch: Partial<ChartConfig>) => {
+    const next = { ...config, ...patch };
+    if (chartUsesY(next) && !next.y) {
+      const others = columns.filter((column) => column.name !== next.x);
+      next.y = (
+        others.find(
+          (column) => profileKind(column.dataType ?? "") === "number",
+        ) ??
+        others[0] ??
+        columns[0]
+      )?.name;
+    }
+    if (next.kind === "histogram") next.bins ??= DEFAULT_CHART_BINS;
+    else delete next.bins;
+    onConfigChange(next);
+  };
+
+  const exportChart = async (format: "svg" | "png") => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    setExportError(null);
+    const base = `${table}_chart`.replace(/[^A-Za-z0-9_-]+/g, "_");
+    const markup = new XMLSerializer().serializeToString(svg);
+    const blob = new Blob([markup], { type: "image/svg+xml" });
+    try {
+      if (format === "svg") downloadBlob(blob, `${base}.svg`);
+      else {
+        const { width, height } = svg.viewBox.baseVal;
+        downloadBlob(await svgToPng(blob, width, height), `${base}.png`);
+      }
+    } catch (err) {
+      logger.warn("ChartPanel: export failed", err);
+      setExportError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const usesY = chartUsesY(config);
+  const columnSelect = (
+    value: string | undefined,
+    label: string,
+    onChange: (name: string) => void,
+  ) => (
+    <Select value={value ?? ""} onValueChange={onChange}>
+      <SelectTrigger
+        size="sm"
+        className="h-7 max-w-40 text-xs"
+        aria-label={label}
+      >
+        <SelectValue placeholder={label} />
+      </SelectTrigger>
+      <SelectContent>
+        {columns.map((column) => (
+          <SelectItem key={column.name} value={column.name}>
+            {column.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+  const shownError = error ?? exportError;
+
+  return (
+    <section
+      aria-label="Chart"
+      className="flex h-[380px] min-h-0 shrink-0 flex-col border-t border-border/60 bg-background"
+    >
+      <div className="flex flex-wrap items-center gap-2 border-b border-border/60 px-3 py-1.5 text-xs">
+        <span className="text-sm font-medium">Chart</span>
+        <Select
+          value={config.kind}
+          onValueChange={(kind) => update({ kind: kind as ChartKind })}
+        >
+          <SelectTrigger
+            size="sm"
+            className="h-7 text-xs"
+            aria-label="Chart type"
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(CHART_KINDS) as ChartKind[]).map((kind) => (
+              <SelectItem key={kind} value={kind}>
+                {CHART_KINDS[kind]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-muted-foreground">
+          {config.kind === "bar" || config.kind === "pie" ? "By" : "X"}
+        </span>
+        {columnSelect(config.x, "X column", (x) => update({ x }))}
+        {(config.kind === "bar" || config.kind === "pie") && (
+          <Select
+            value={config.aggregate}
+            onValueChange={(aggregate) =>
+              update({ aggregate: aggregate as ChartAggregate })
+            }
+          >
+            <SelectTrigger
+              size="sm"
+              className="h-7 text-xs"
+              aria-label="Aggregate"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(CHART_AGGREGATES) as ChartAggregate[]).map(
+                (aggregate) => (
+                  <SelectItem key={aggregate} value={aggregate}>
+                    {CHART_AGGREGATES[aggregate]}
+                  </SelectItem>
+                ),
+              )}
+            </SelectContent>
+          </Select>
+        )}
+        {usesY && (
+          <>
+            <span className="text-muted-foreground">
+              {config.kind === "bar" || config.kind === "pie" ? "of" : "Y"}
+            </span>
+            {columnSelect(config.y, "Y column", (y) => update({ y }))}
+          </>
+        )}
+        {config.kind === "histogram" && (
+          <Select
+            value={String(config.bins ?? DEFAULT_CHART_BINS)}
+            onValueChange={(bins) => update({ bins: Number(bins) })}
+          >
+            <SelectTrigger size="sm" className="h-7 text-xs" aria-label="Bins">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BIN_COUNTS.map((count) => (
+                <SelectItem key={count} value={String(count)}>
+                  {count} bins
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <div
+          role="group"
+          aria-label="Chart source"
+          className="flex rounded-md border border-border/60"
+        >
+          {(["view", "selection"] as const).map((source) => (
+            <button
+              key={source}
+              type="button"
+              aria-pressed={config.source === source}
+              disabled={source === "selection" && !hasSelection}
+              onClick={() => update({ source })}
+              className={cn(
+                "px-2 py-1 first:rounded-l-md last:rounded-r-md disabled:opacity-50",
+                config.source === source
+                  ? "bg-secondary text-secondary-foreground"
+                  : "text-muted-foreground hover:bg-accent",
+              )}
+            >
+              {source === "view" ? "View" : "Selection"}
+            </button>
+          ))}
+        </div>
+        {isCharting && (
+          <Loader2
+            className="h-3.5 w-3.5 animate-spin text-muted-foreground"
+            aria-label="Drawing chart"
+          />
+        )}
+        {shownError && (
+          <span role="alert" className="truncate text-destructive">
+            {shownError}
+          </span>
+        )}
+        <div className="ml-auto flex items-center gap-1">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                disabled={!chart}
+                aria-label="Export chart"
+              >
+                <Download className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Export chart as</DropdownMenuLabel>
+              <DropdownMenuItem onSelect={() => void exportChart("png")}>
+                PNG image
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => void exportChart("svg")}>
+                SVG image
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={onClose}
+            aria-label="Close chart"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div
+        className={cn(
+          "flex min-h-0 flex-1 items-center justify-center p-2",
+          isCharting && "opacity-60",
+        )}
+      >
+        {chart ? (
+          <ChartView ref={svgRef} data={chart} config={config} />
+        ) : (
+          !shownError && (
+            <p className="text-sm text-muted-foreground">Drawing chart…</p>
+          )
+        )}
+      </div>
+      {chart && (
+        <p className="border-t border-border/60 px-3 py-1 text-xs text-muted-foreground">
+          {chart.kind === "categories" && chart.otherCount > 0
+            ? `${chart.otherCount.toLocaleString()} more categories not shown`
+            : chart.kind === "points" && chart.points.length < chart.total
+              ? `Showing ${chart.points.length.toLocaleString()} of ${chart.total.toLocaleString()} points`
+              : chart.kind === "points"
+                ? `${chart.total.toLocaleString()} points`
+                : config.source === "selection"
+                  ? "Selected rows"
+                  : "Current view"}
+        </p>
+      )}
+    </section>
+  );
+}
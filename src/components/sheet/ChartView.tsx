@@ -0,0 +1,455 @@
+import type { Ref } from "react";
+import {
+  CHART_AGGREGATES,
+  niceTicks,
+  type ChartAxisType,
+  type ChartConfig,
+  type ChartData,
+} from "@/lib/chart";
+
+// A fixed canvas with inline colours and fonts, so the SVG renders the same
+// when exported on its own as it does in the panel.
+const WIDTH = 800;
+const HEIGHT = 320;
+const MARGIN = { top: 16, right: 24, bottom: 56, left: 72 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom;
+const FONT = "ui-sans-serif, system-ui, sans-serif";
+const AXIS_COLOR = "#6b7280";
+const GRID_COLOR = "#e5e7eb";
+const SERIES_COLOR = "#2563eb";
+const PIE_COLORS = [
+  "#2563eb",
+  "#f59e0b",
+  "#10b981",
+  "#ef4444",
+  "#8b5cf6",
+  "#06b6d4",
+  "#ec4899",
+  "#84cc16",
+  "#f97316",
+  "#64748b",
+];
+
+const formatNumber = (value: number) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+/** Axis labels for `type`; dates show their time only over short spans. */
+const axisFormatter = (type: ChartAxisType, span: number) => {
+  if (type === "number") return formatNumber;
+  return (value: number) => {
+    const iso = new Date(value).toISOString();
+    return span < 2 * 86_400_000
+      ? iso.slice(0, 16).replace("T", " ")
+      : iso.slice(0, 10);
+  };
+};
+
+const truncate = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length - 1)}…` : text;
+
+/** A linear scale from `domain` onto `range`; flat domains map to the middle. */
+const linear =
+  ([d0, d1]: [number, number], [r0, r1]: [number, number]) =>
+  (value: number) =>
+    d1 === d0 ? (r0 + r1) / 2 : r0 + ((value - d0) / (d1 - d0)) * (r1 - r0);
+
+/** Value-axis extent padded out to its ticks, always including zero. */
+function valueDomain(values: number[], withZero: boolean) {
+  let low = Math.min(...values);
+  let high = Math.max(...values);
+  if (withZero) {
+    low = Math.min(0, low);
+    high = Math.max(0, high);
+  }
+  if (low === high) high = low + 1;
+  const ticks = niceTicks(low, high);
+  const step = ticks.length > 1 ? ticks[1]! - ticks[0]! : 0;
+  if (ticks.length > 0 && ticks[0]! > low) ticks.unshift(ticks[0]! - step);
+  if (ticks.length > 0 && ticks.at(-1)! < high)
+    ticks.push(ticks.at(-1)! + step);
+  return {
+    domain: [ticks[0] ?? low, ticks.at(-1) ?? high] as [number, number],
+    ticks,
+  };
+}
+
+function ValueAxis({
+  ticks,
+  y,
+  label,
+}: {
+  ticks: number[];
+  y: (value: number) => number;
+  label: string;
+}) {
+  return (
+    <g>
+      {ticks.map((tick) => (
+        <g key={tick}>
+          <line
+            x1={MARGIN.left}
+            x2={WIDTH - MARGIN.right}
+            y1={y(tick)}
+            y2={y(tick)}
+            stroke={GRID_COLOR}
+          />
+          <text
+            x={MARGIN.left - 6}
+            y={y(tick)}
+            dy="0.32em"
+            textAnchor="end"
+            fontSize={11}
+            fill={AXIS_COLOR}
+          >
+            {formatNumber(tick)}
+          </text>
+        </g>
+      ))}
+      <text
+        transform={`translate(14 ${MARGIN.top + PLOT_HEIGHT / 2}) rotate(-90)`}
+        textAnchor="middle"
+        fontSize={11}
+        fill={AXIS_COLOR}
+      >
+        {label}
+      </text>
+    </g>
+  );
+}
+
+function XAxisLabel({ label }: { label: string }) {
+  return (
+    <text
+      x={MARGIN.left + PLOT_WIDTH / 2}
+      y={HEIGHT - 8}
+      textAnchor="middle"
+      fontSize={11}
+      fill={AXIS_COLOR}
+    >
+      {label}
+    </text>
+  );
+}
+
+/** Ticks along a continuous x axis. */
+function ContinuousXAxis({
+  domain,
+  x,
+  type,
+}: {
+  domain: [number, number];
+  x: (value: number) => number;
+  type: ChartAxisType;
+}) {
+  const format = axisFormatter(type, domain[1] - domain[0]);
+  const ticks = niceTicks(domain[0], domain[1], type === "date" ? 4 : 6);
+  const baseline = MARGIN.top + PLOT_HEIGHT;
+  return (
+    <g>
+      <line
+        x1={MARGIN.left}
+        x2={WIDTH - MARGIN.right}
+        y1={baseline}
+        y2={baseline}
+        stroke={AXIS_COLOR}
+      />
+      {ticks.map((tick) => (
+        <g key={tick}>
+          <line
+            x1={x(tick)}
+            x2={x(tick)}
+            y1={baseline}
+            y2={baseline + 4}
+            stroke={AXIS_COLOR}
+          />
+          <text
+            x={x(tick)}
+            y={baseline + 16}
+            textAnchor="middle"
+            fontSize={11}
+            fill={AXIS_COLOR}
+          >
+            {format(tick)}
+          </text>
+        </g>
+      ))}
+    </g>
+  );
+}
+
+function CategoryChart({
+  data,
+  valueLabel,
+  xLabel,
+}: {
+  data: Extract<ChartData, { kind: "categories" }>;
+  valueLabel: string;
+  xLabel: string;
+}) {
+  const { domain, ticks } = valueDomain(
+    data.categories.map((category) => category.value),
+    true,
+  );
+  const y = linear(domain, [MARGIN.top + PLOT_HEIGHT, MARGIN.top]);
+  const band = PLOT_WIDTH / data.categories.length;
+  const rotate = data.categories.length > 8;
+  return (
+    <g>
+      <ValueAxis ticks={ticks} y={y} label={valueLabel} />
+      {data.categories.map((category, index) => {
+        const left = MARGIN.left + index * band;
+        const top = Math.min(y(category.value), y(0));
+        const labelX = left + band / 2;
+        const labelY = MARGIN.top + PLOT_HEIGHT + 14;
+        return (
+          <g key={`${index}:${category.label}`}>
+            <rect
+              x={left + band * 0.1}
+              y={top}
+              width={band * 0.8}
+              height={Math.abs(y(category.value) - y(0))}
+              fill={SERIES_COLOR}
+            >
+              <title>{`${category.label || "(blank)"}: ${formatNumber(category.value)}`}</title>
+            </rect>
+            <text
+              x={labelX}
+              y={labelY}
+              textAnchor={rotate ? "end" : "middle"}
+              transform={rotate ? `rotate(-35 ${labelX} ${labelY})` : undefined}
+              fontSize={11}
+              fill={AXIS_COLOR}
+            >
+              {truncate(category.label || "(blank)", rotate ? 10 : 14)}
+            </text>
+          </g>
+        );
+      })}
+      {!rotate && <XAxisLabel label={xLabel} />}
+    </g>
+  );
+}
+
+function PieChart({
+  data,
+}: {
+  data: Extract<ChartData, { kind: "categories" }>;
+}) {
+  // Only positive values make slices.
+  const slices = data.categories.filter((category) => category.value > 0);
+  const total = slices.reduce((sum, category) => sum + category.value, 0);
+  // Each slice's start angle, clockwise from twelve o'clock.
+  const starts = slices.reduce<number[]>(
+    (angles, category) => [
+      ...angles,
+      angles.at(-1)! + (category.value / total) * 2 * Math.PI,
+    ],
+    [-Math.PI / 2],
+  );
+  const cx = MARGIN.left + PLOT_HEIGHT / 2 + 40;
+  const cy = MARGIN.top + (HEIGHT - MARGIN.top - 16) / 2;
+  const radius = (HEIGHT - MARGIN.top - 32) / 2;
+  const point = (a: number) =>
+    `${cx + radius * Math.cos(a)} ${cy + radius * Math.sin(a)}`;
+  return (
+    <g>
+      {slices.map((category, index) => {
+        const share = category.value / total;
+        const color = PIE_COLORS[index % PIE_COLORS.length];
+        const title = (
+          <title>{`${category.label || "(blank)"}: ${formatNumber(category.value)} (${(share * 100).toFixed(1)}%)`}</title>
+        );
+        return share >= 1 ? (
+          <circle key={index} cx={cx} cy={cy} r={radius} fill={color}>
+            {title}
+          </circle>
+        ) : (
+          <path
+            key={index}
+            d={`M ${cx} ${cy} L ${point(starts[index]!)} A ${radius} ${radius} 0 ${share > 0.5 ? 1 : 0} 1 ${point(starts[index + 1]!)} Z`}
+            fill={color}
+            stroke="#ffffff"
+          >
+            {title}
+          </path>
+        );
+      })}
+      {slices.map((category, index) => (
+        <g
+          key={index}
+          transform={`translate(${cx + radius + 48} ${MARGIN.top + 12 + index * 22})`}
+        >
+          <rect
+            width={12}
+            height={12}
+            y={-10}
+            fill={PIE_COLORS[index % PIE_COLORS.length]}
+          />
+          <text x={18} fontSize={12} fill="#111827">
+            {`${truncate(category.label || "(blank)", 32)} — ${((category.value / total) * 100).toFixed(1)}%`}
+          </text>
+        </g>
+      ))}
+    </g>
+  );
+}
+
+function PointChart({
+  data,
+  line,
+  xLabel,
+  yLabel,
+}: {
+  data: Extract<ChartData, { kind: "points" }>;
+  line: boolean;
+  xLabel: string;
+  yLabel: string;
+}) {
+  const xs = data.points.map(([px]) => px);
+  const xDomain: [number, number] = [Math.min(...xs), Math.max(...xs)];
+  const x = linear(xDomain, [MARGIN.left, WIDTH - MARGIN.right]);
+  const { domain, ticks } = valueDomain(
+    data.points.map(([, py]) => py),
+    false,
+  );
+  const y = linear(domain, [MARGIN.top + PLOT_HEIGHT, MARGIN.top]);
+  return (
+    <g>
+      <ValueAxis ticks={ticks} y={y} label={yLabel} />
+      <ContinuousXAxis domain={xDomain} x={x} type={data.xType} />
+      {line ? (
+        <path
+          d={data.points
+            .map(([px, py], i) => `${i === 0 ? "M" : "L"} ${x(px)} ${y(py)}`)
+            .join(" ")}
+          fill="none"
+          stroke={SERIES_COLOR}
+          strokeWidth={1.5}
+        />
+      ) : (
+        data.points.map(([px, py], i) => (
+          <circle
+            key={i}
+            cx={x(px)}
+            cy={y(py)}
+            r={2.5}
+            fill={SERIES_COLOR}
+            fillOpacity={0.6}
+          />
+        ))
+      )}
+      <XAxisLabel label={xLabel} />
+    </g>
+  );
+}
+
+function BinChart({
+  data,
+  xLabel,
+}: {
+  data: Extract<ChartData, { kind: "bins" }>;
+  xLabel: string;
+}) {
+  const xDomain: [number, number] = [
+    data.bins[0]!.start,
+    data.bins.at(-1)!.end,
+  ];
+  const x = linear(xDomain, [MARGIN.left, WIDTH - MARGIN.right]);
+  const { domain, ticks } = valueDomain(
+    data.bins.map((bin) => bin.count),
+    true,
+  );
+  const y = linear(domain, [MARGIN.top + PLOT_HEIGHT, MARGIN.top]);
+  const format = axisFormatter(data.xType, xDomain[1] - xDomain[0]);
+  // A single bin (every value equal) spans the whole plot.
+  const flat = xDomain[0] === xDomain[1];
+  return (
+    <g>
+      <ValueAxis ticks={ticks} y={y} label="Rows" />
+      <ContinuousXAxis domain={xDomain} x={x} type={data.xType} />
+      {data.bins.map((bin) => {
+        const left = flat ? MARGIN.left : x(bin.start);
+        const width = flat ? PLOT_WIDTH : x(bin.end) - x(bin.start);
+        return (
+          <rect
+            key={bin.start}
+            x={left + 0.5}
+            y={y(bin.count)}
+            width={Math.max(0, width - 1)}
+            height={y(0) - y(bin.count)}
+            fill={SERIES_COLOR}
+          >
+            <title>{`${format(bin.start)} – ${format(bin.end)}: ${bin.count.toLocaleString()}`}</title>
+          </rect>
+        );
+      })}
+      <XAxisLabel label={xLabel} />
+    </g>
+  );
+}
+
+/** The SVG of a chart; `ref` reaches the `<svg>` for exporting it. */
+export function ChartView({
+  data,
+  config,
+  ref,
+}: {
+  data: ChartData;
+  config: ChartConfig;
+  ref?: Ref<SVGSVGElement>;
+}) {
+  const valueLabel =
+    config.aggregate === "count"
+      ? "Rows"
+      : `${CHART_AGGREGATES[config.aggregate]} of ${config.y}`;
+  const empty =
+    (data.kind === "categories" && data.categories.length === 0) ||
+    (data.kind === "points" && data.points.length === 0) ||
+    (data.kind === "bins" && data.bins.length === 0);
+  return (
+    <svg
+      ref={ref}
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      width={WIDTH}
+      height={HEIGHT}
+      fontFamily={FONT}
+      role="img"
+      aria-label={`${config.kind} chart of ${config.x}`}
+      className="h-full max-h-full w-auto max-w-full"
+    >
+      <rect width={WIDTH} height={HEIGHT} fill="#ffffff" />
+      {empty ? (
+        <text
+          x={WIDTH / 2}
+          y={HEIGHT / 2}
+          textAnchor="middle"
+          fontSize={13}
+          fill={AXIS_COLOR}
+        >
+          Nothing to chart
+        </text>
+      ) : data.kind === "categories" ? (
+        config.kind === "pie" ? (
+          <PieChart data={data} />
+        ) : (
+          <CategoryChart
+            data={data}
+            valueLabel={valueLabel}
+            xLabel={config.x}
+          />
+        )
+      ) : data.kind === "points" ? (
+        <PointChart
+          data={data}
+          line={config.kind === "line"}
+          xLabel={config.x}
+          yLabel={config.y ?? ""}
+        />
+      ) : (
+        <BinChart data={data} xLabel={config.x} />
+      )}
+    </svg>
+  );
+}
@@ -0,0 +1,226 @@
+import { useEffect, useRef, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import type { ColumnProfile, ProfileHistogram } from "@/lib/columnProfile";
+
+interface ColumnProfilePanelProps {
+  columnName: string;
+  /** Computes the profile; runs again when it changes (e.g. new filters). */
+  onLoad: () => Promise<ColumnProfile>;
+  onClose: () => void;
+}
+
+const formatStat = (value: number | undefined) =>
+  value === undefined
+    ? "—"
+    : value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+const percentOf = (count: number, total: number) =>
+  total === 0 ? "0%" : `${((count / total) * 100).toFixed(1)}%`;
+
+const binLabel = (
+  bin: ProfileHistogram["bins"][number],
+  of: ProfileHistogram["of"],
+) => {
+  if (of === "length") {
+    const last = Math.max(bin.start, Math.ceil(bin.end) - 1);
+    return last === bin.start
+      ? `${bin.start} chars`
+      : `${bin.start}–${last} chars`;
+  }
+  return `${formatStat(bin.start)} – ${formatStat(bin.end)}`;
+};
+
+export function ColumnProfilePanel({
+  columnName,
+  onLoad,
+  onClose,
+}: ColumnProfilePanelProps) {
+  const closeRef = useRef<HTMLButtonElement>(null);
+  const [profile, setProfile] = useState<ColumnProfile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        e.preventDefault();
+        onClose();
+      }
+    };
+    window.addEventListener("keydown", handler);
+    const id = requestAnimationFrame(() => closeRef.current?.focus());
+    return () => {
+      cancelAnimationFrame(id);
+      window.removeEventListener("keydown", handler);
+    };
+  }, [onClose]);
+
+  useEffect(() => {
+    let cancelled = false;
+    onLoad().then(
+      (result) => {
+        if (cancelled) return;
+        setProfile(result);
+        setError(null);
+      },
+      (err: unknown) => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : String(err));
+      },
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [onLoad]);
+
+  const filled = profile ? profile.count - profile.emptyCount : 0;
+  const topCount = profile?.topValues[0]?.count ?? 0;
+  const binMax = Math.max(
+    0,
+    ...(profile?.histogram.bins ?? []).map((b) => b.count),
+  );
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Profile of ${columnName}`}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <Card className="w-full max-w-lg max-h-[85vh] gap-4 overflow-y-auto p-5 bg-background/95 backdrop-blur border shadow-lg">
+        <div className="flex items-center justify-between gap-3">
+          <div className="min-w-0">
+            <h2 className="text-base font-semibold truncate">{columnName}</h2>
+            {profile && (
+              <p className="text-xs text-muted-foreground font-mono">
+                {profile.type}
+                {profile.inferred && (
+                  <span className="ml-1.5 font-sans">(inferred)</span>
+                )}
+              </p>
+            )}
+          </div>
+          <Button
+            ref={closeRef}
+            size="sm"
+            variant="ghost"
+            onClick={onClose}
+            aria-label="Close column profile"
+          >
+            Close
+          </Button>
+        </div>
+
+        {error && (
+          <p role="alert" className="text-sm text-destructive">
+            {error}
+          </p>
+        )}
+        {!profile && !error && (
+          <p className="text-sm text-muted-foreground">Profiling…</p>
+        )}
+
+        {profile && (
+          <>
+            <dl className="grid grid-cols-3 gap-3 text-sm">
+              {(
+                [
+                  ["Rows", profile.count.toLocaleString()],
+                  [
+                    "Empty",
+                    `${profile.emptyCount.toLocaleString()} (${percentOf(profile.emptyCount, profile.count)})`,
+                  ],
+                  ["Distinct", profile.distinctCount.toLocaleString()],
+                  ...(profile.min !== undefined
+                    ? [
+                        ["Min", profile.min],
+                        ["Max", profile.max ?? "—"],
+                      ]
+                    : []),
+                  ...(profile.kind === "number"
+                    ? [
+                        ["Mean", formatStat(profile.mean)],
+                        ["Median", formatStat(profile.median)],
+                        ["Std dev", formatStat(profile.stddev)],
+                      ]
+                    : []),
+                ] as Array<[string, string]>
+              ).map(([label, value]) => (
+                <div key={label} className="min-w-0">
+                  <dt className="text-xs text-muted-foreground">{label}</dt>
+                  <dd className="font-mono truncate" title={value}>
+                    {value}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+
+            <Separator />
+            <section>
+              <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-2">
+                Top values
+              </h3>
+              {profile.topValues.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No values.</p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {profile.topValues.map(({ value, count }) => (
+                    <li key={value} className="relative flex gap-3 px-1.5">
+                      <span
+                        aria-hidden
+                        className="absolute inset-y-0 left-0 rounded-sm bg-primary/15"
+                        style={{ width: `${(count / topCount) * 100}%` }}
+                      />
+                      <span className="relative flex-1 truncate font-mono">
+                        {value}
+                      </span>
+                      <span className="relative tabular-nums text-muted-foreground">
+                        {count.toLocaleString()} ({percentOf(count, filled)})
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            {profile.histogram.bins.length > 0 && (
+              <>
+                <Separator />
+                <section>
+                  <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-2">
+                    {profile.histogram.of === "value"
+                      ? "Distribution"
+                      : "Value lengths"}
+                  </h3>
+                  <div className="flex h-24 items-end gap-px">
+                    {profile.histogram.bins.map((bin) => (
+                      <div
+                        key={bin.start}
+                        className="flex-1 rounded-t-sm bg-primary/60 hover:bg-primary"
+                        style={{
+                          height: `${binMax === 0 ? 0 : (bin.count / binMax) * 100}%`,
+                          minHeight: bin.count > 0 ? 1 : 0,
+                        }}
+                        title={`${binLabel(bin, profile.histogram.of)}: ${bin.count.toLocaleString()}`}
+                      />
+                    ))}
+                  </div>
+                  <div className="mt-1 flex justify-between text-xs text-muted-foreground font-mono">
+                    <span>{formatStat(profile.histogram.bins[0]!.start)}</span>
+                    <span>
+                      {formatStat(profile.histogram.bins.at(-1)!.end)}
+                    </span>
+                  </div>
+                </section>
+              </>
+            )}
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,374 @@
+import { useEffect, useRef, useState, type FormEvent } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { ColumnDef } from "@/lib/csv";
+import {
+  COLUMN_TYPES,
+  type CastPreview,
+  type SchemaOperation,
+} from "@/lib/schemaOps";
+
+const AUTO_TYPE = "auto";
+
+/** A header-menu action that needs input before it becomes an operation. */
+export interface ColumnSchemaRequest {
+  action:
+    | "rename"
+    | "retype"
+    | "insert"
+    | "drop"
+    | "addFormula"
+    | "editFormula";
+  colIndex: number;
+  /** Where an inserted column goes. */
+  position?: number;
+}
+
+interface ColumnSchemaDialogProps {
+  request: ColumnSchemaRequest;
+  columns: ColumnDef[];
+  /** Expressions are only offered for DuckDB tables. */
+  allowExpressions: boolean;
+  onPreviewCast: (colIndex: number, type: string) => Promise<CastPreview>;
+  /** Rejects with the reason the change was refused. */
+  onSubmit: (operation: SchemaOperation) => Promise<void>;
+  onClose: () => void;
+}
+
+const TITLES: Record<ColumnSchemaRequest["action"], string> = {
+  rename: "Rename column",
+  retype: "Change column type",
+  insert: "Insert column",
+  drop: "Drop column",
+  addFormula: "Add computed column",
+  editFormula: "Edit computed column",
+};
+
+/**
+ * Form for the header menu's rename, change type, insert, drop and formula
+ * actions. A type change previews how many values would not convert and
+ * only empties them once the user confirms. Give each request its own
+ * `key`.
+ */
+export function ColumnSchemaDialog({
+  request,
+  columns,
+  allowExpressions,
+  onPreviewCast,
+  onSubmit,
+  onClose,
+}: ColumnSchemaDialogProps) {
+  const column = columns[request.colIndex];
+  const columnName = column?.name ?? "";
+  const computed = Boolean(column?.formula);
+  const [name, setName] = useState(
+    request.action === "rename" || request.action === "editFormula"
+      ? columnName
+      : "",
+  );
+  const [formula, setFormula] = useState(
+    request.action === "editFormula" ? (column?.formula ?? "") : "",
+  );
+  const [type, setType] = useState<string>(
+    request.action === "retype" ? "VARCHAR" : AUTO_TYPE,
+  );
+  const [expression, setExpression] = useState("");
+  const [preview, setPreview] = useState<CastPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const firstFieldRef = useRef<HTMLInputElement>(null);
+  const confirmRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        e.preventDefault();
+        onClose();
+      }
+    };
+    window.addEventListener("keydown", handler);
+    const id = requestAnimationFrame(() =>
+      (firstFieldRef.current ?? confirmRef.current)?.focus(),
+    );
+    return () => {
+      cancelAnimationFrame(id);
+      window.removeEventListener("keydown", handler);
+    };
+  }, [onClose]);
+
+  useEffect(() => {
+    if (request.action !== "retype") return;
+    let cancelled = false;
+    onPreviewCast(request.colIndex, type).then(
+      (result) => {
+        if (cancelled) return;
+        setPreview(result);
+        setError(null);
+      },
+      (err: unknown) => {
+        if (cancelled) return;
+        setPreview(null);
+        setError(err instanceof Error ? err.message : String(err));
+      },
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [request.action, request.colIndex, type, onPreviewCast]);
+
+  if (!column) return null;
+
+  const buildOperation = (): SchemaOperation => {
+    switch (request.action) {
+      case "rename":
+        return { op: "rename", column: columnName, name: name.trim() };
+      case "retype":
+        return {
+          op: "retype",
+          column: columnName,
+          type,
+          nullOnFailure: (preview?.failed ?? 0) > 0,
+        };
+      case "insert":
+        return {
+          op: "add",
+          name: name.trim(),
+          position: request.position,
+          ...(type !== AUTO_TYPE ? { type } : {}),
+          ...(expression.trim() ? { expression: expression.trim() } : {}),
+        };
+      case "drop":
+        return { op: "drop", column: columnName };
+      case "addFormula":
+      case "editFormula":
+        return {
+          op: "compute",
+          name: name.trim(),
+          formula: formula.trim(),
+          ...(request.action === "editFormula" ? { column: columnName } : {}),
+        };
+    }
+  };
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsBusy(true);
+    setError(null);
+    try {
+      await onSubmit(buildOperation());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const isFormula =
+    request.action === "addFormula" || request.action === "editFormula";
+  const needsName =
+    request.action === "rename" || request.action === "insert" || isFormula;
+  const failed = preview?.failed ?? 0;
+  const title =
+    request.action === "drop" && computed
+      ? "Remove computed column"
+      : TITLES[request.action];
+  const confirmLabel =
+    request.action === "drop"
+      ? computed
+        ? "Remove"
+        : "Drop column"
+      : request.action === "retype"
+        ? failed > 0
+          ? "Convert anyway"
+          : "Change type"
+        : request.action === "insert"
+          ? "Insert"
+          : request.action === "addFormula"
+            ? "Add"
+            : request.action === "editFormula"
+              ? "Save"
+              : "Rename";
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label={title}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <Card className="w-full max-w-md gap-4 p-5 bg-background/95 backdrop-blur border shadow-lg">
+        <form className="flex flex-col gap-4" onSubmit={handleSubmit}>
+          <div className="min-w-0">
+            <h2 className="text-base font-semibold">{title}</h2>
+            <p className="truncate text-xs text-muted-foreground">
+              {request.action === "insert"
+                ? `Next to ${columnName}`
+                : request.action === "addFormula"
+                  ? "Added after the table's own columns"
+                  : `${columnName}${column.dataType ? ` · ${column.dataType}` : ""}`}
+            </p>
+          </div>
+
+          {needsName && (
+            <div className="flex flex-col gap-1.5">
+              <Label
+                htmlFor="column-schema-name"
+                className="text-xs text-muted-foreground"
+              >
+                Name
+              </Label>
+              <Input
+                id="column-schema-name"
+                ref={firstFieldRef}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                autoComplete="off"
+              />
+            </div>
+          )}
+
+          {(request.action === "insert" || request.action === "retype") && (
+            <div className="flex flex-col gap-1.5">
+              <Label
+                htmlFor="column-schema-type"
+                className="text-xs text-muted-foreground"
+              >
+                Type
+              </Label>
+              <Select value={type} onValueChange={setType}>
+                <SelectTrigger
+                  id="column-schema-type"
+                  size="sm"
+                  className="w-full"
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {request.action === "insert" && (
+                    <SelectItem value={AUTO_TYPE}>
+                      {allowExpressions ? "From expression" : "Text"}
+                    </SelectItem>
+                  )}
+                  {COLUMN_TYPES.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {request.action === "insert" && allowExpressions && (
+            <div className="flex flex-col gap-1.5">
+              <Label
+                htmlFor="column-schema-expression"
+                className="text-xs text-muted-foreground"
+              >
+                Value (SQL expression, optional)
+              </Label>
+              <Input
+                id="column-schema-expression"
+                value={expression}
+                onChange={(e) => setExpression(e.target.value)}
+                placeholder="price * qty"
+                className="font-mono"
+                autoComplete="off"
+              />
+            </div>
+          )}
+
+          {isFormula && (
+            <div className="flex flex-col gap-1.5">
+              <Label
+                htmlFor="column-schema-formula"
+                className="text-xs text-muted-foreground"
+              >
+                Formula
+              </Label>
+              <Input
+                id="column-schema-formula"
+                value={formula}
+                onChange={(e) => setFormula(e.target.value)}
+                placeholder="round(price * qty, 2)"
+                className="font-mono"
+                autoComplete="off"
+              />
+              <p className="text-xs text-muted-foreground">
+                Refer to columns by name, or as [Column name]. Use + - * / %,
+                &amp; to join text, comparisons, and/or/not, and functions such
+                as if, coalesce, round, upper and left.
+              </p>
+            </div>
+          )}
+
+          {request.action === "retype" && preview && (
+            <p className="text-xs text-muted-foreground" aria-live="polite">
+              {failed === 0
+                ? `All ${preview.checked.toLocaleString()} values convert.`
+                : `${failed.toLocaleString()} of ${preview.checked.toLocaleString()} values cannot be converted and will become empty` +
+                  (preview.samples.length > 0
+                    ? ` (e.g. ${preview.samples.map((s) => `“${s}”`).join(", ")}).`
+                    : ".")}
+            </p>
+          )}
+
+          {request.action === "drop" &&
+            (computed ? (
+              <p className="text-sm">
+                Remove <span className="font-medium">{columnName}</span> and its
+                formula? The table&apos;s own columns are unchanged.
+              </p>
+            ) : (
+              <p className="text-sm">
+                Drop <span className="font-medium">{columnName}</span> and all
+                its values? This cannot be undone.
+              </p>
+            ))}
+
+          {error && (
+            <p role="alert" className="text-xs text-destructive">
+              {error}
+            </p>
+          )}
+
+          <div className="flex items-center justify-end gap-2">
+            <Button type="button" size="sm" variant="ghost" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              ref={confirmRef}
+              type="submit"
+              size="sm"
+              variant={
+                request.action === "drop" || failed > 0
+                  ? "destructive"
+                  : "default"
+              }
+              disabled={
+                isBusy ||
+                (needsName && !name.trim()) ||
+                (isFormula && !formula.trim()) ||
+                (request.action === "retype" && !preview)
+              }
+            >
+              {confirmLabel}
+            </Button>
+          </div>
+        </form>
+      </Card>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import {
   useCallback,
   useRef,
   useEffect,
+  useMemo,
   type ReactNode,
 } from "react";
 import type { MouseEvent as ReactMouseEvent } from "react";
@@ -20,8 +21,28 @@ import { recordCommit } from "@/lib/perf";
 import { selectionToTSV } from "@/lib/export";
 import { clamp } from "@/lib/math-utils";
 import { logger } from "@/lib/logger";
+import type { SortKeys } from "@/lib/sort";
+import {
+  GroupedRowLayout,
+  MAX_GROUP_COLUMNS,
+  type RowGroup,
+} from "@/lib/rowGroups";
 import { SkeletonGrid } from "./SkeletonGrid";
-import { Hash, Type, Calendar, Tag, Loader2 } from "lucide-react";
+import {
+  Hash,
+  Type,
+  Calendar,
+  Tag,
+  Loader2,
+  Sigma,
+  ChevronDown,
+  ChevronRight,
+} from "lucide-react";
+
+const rowCountLabel = (count: number) =>
+  count === 1 ? "row" : `${count} rows`;
+
+const NO_COLLAPSED_GROUPS: ReadonlySet<string> = new Set();
 
 interface SelectedCell {
   row: number;
@@ -34,7 +55,23 @@ interface FocusCellRequest {
   id: string;
 }
 
-type SortState = { colIndex: number; dir: "asc" | "desc" } | null;
+/** Row changes offered by the cell context menu, for the selected rows. */
+export type RowAction = "insertAbove" | "insertBelow" | "duplicate" | "delete";
+
+/** Column changes offered by the header context menu. */
+export type ColumnAction =
+  | "rename"
+  | "retype"
+  | "insertLeft"
+  | "insertRight"
+  | "moveLeft"
+  | "moveRight"
+  | "drop"
+  | "addFormula"
+  | "editFormula"
+  | "profile"
+  | "group"
+  | "ungroup";
 
 interface DataGridProps {
   columns: ColumnDef[];
@@ -42,7 +79,8 @@ interface DataGridProps {
   rowHeight: number;
   onSelectionChange?: (selection: Set<string>) => void;
   onColumnsResize?: (cols: ColumnDef[]) => void;
-  onHeaderClick?: (colIndex: number) => void;
+  /** `additive` is set for shift-clicks, which add a secondary sort key. */
+  onHeaderClick?: (colIndex: number, additive?: boolean) => void;
   onEditCell?: (row: number, col: number, value: string) => void;
   onPaste?: (startRow: number, startCol: number, values: string[][]) => void;
   onClear?: (cells: Array<{ row: number; col: number }>) => void;
@@ -51,7 +89,7 @@ interface DataGridProps {
   currentSearchKey?: string | null;
   searchQuery?: string;
   focusCellRequest?: FocusCellRequest | null;
-  sortState?: SortState;
+  sortState?: SortKeys;
   filtersRow?: ReactNode;
   filtersHeight?: number;
   headerHeight?: number;
@@ -60,6 +98,23 @@ interface DataGridProps {
   isLoadingChunks?: boolean;
   onUndo?: () => void;
   onRedo?: () => void;
+  /** Disables in-place editing, paste and clear (e.g. query results). */
+  readOnly?: boolean;
+  /** Enables the header menu's rename/retype/insert/move/drop items. */
+  onColumnAction?: (colIndex: number, action: ColumnAction) => void;
+  /** Enables the cell menu's insert/duplicate/delete row items. */
+  onRowAction?: (rows: number[], action: RowAction) => void;
+  /**
+   * Group headers (see `rowGroups.ts`); each is listed above its rows, and
+   * the rows of collapsed groups are skipped. Rows keep their view index.
+   */
+  rowGroups?: RowGroup[] | null;
+  /** Column indexes the rows are grouped by, for the header menu. */
+  groupBy?: number[];
+  /** `rowGroupId`s of the collapsed groups. */
+  collapsedGroups?: ReadonlySet<string>;
+  onToggleGroup?: (key: string[]) => void;
+  ariaLabel?: string;
 }
 
 export function DataGrid({
@@ -86,7 +141,16 @@ export function DataGrid({
   isLoadingChunks = false,
   onUndo,
   onRedo,
+  readOnly = false,
+  onColumnAction,
+  onRowAction,
+  groupBy,
+  rowGroups,
+  collapsedGroups = NO_COLLAPSED_GROUPS,
+  onToggleGroup,
+  ariaLabel = "CSV data grid",
 }: DataGridProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
   const [anchorCell, setAnchorCell] = useState<SelectedCell | null>(null);
   const [selectedCells, setSelectedCells] = useState<Set<string>>(
     () => new Set(),
@@ -97,20 +161,51 @@ export function DataGrid({
     y: number;
     cell: SelectedCell | null;
   }>(() => ({ open: false, x: 0, y: 0, cell: null }));
+  const [headerMenu, setHeaderMenu] = useState<{
+    x: number;
+    y: number;
+    col: number;
+  } | null>(null);
   const totalRowCount =
     typeof totalRows === "number" ? Math.max(0, totalRows) : rows.length;
+  const groupLayout = useMemo(
+    () => (rowGroups ? new GroupedRowLayout(rowGroups, collapsedGroups) : null),
+    [rowGroups, collapsedGroups],
+  );
+  const displayCount = groupLayout ? groupLayout.size : totalRowCount;
+  // The view row shown at a display position; null for group headers.
+  const rowAtDisplay = useCallback(
+    (index: number): number | null => {
+      if (!groupLayout) return index;
+      const entry = groupLayout.at(index);
+      return entry?.kind === "row" ? entry.row : null;
+    },
+    [groupLayout],
+  );
+  // Group labels span the columns before the first one with sums.
+  const groupLabelSpan = useMemo(() => {
+    if (!rowGroups) return 1;
+    for (let c = 1; c < columns.length; c++) {
+      if (rowGroups.some((group) => group.sums[c] != null)) return c;
+    }
+    return Math.max(1, columns.length);
+  }, [rowGroups, columns.length]);
   // eslint-disable-next-line react-hooks/incompatible-library -- TanStack's virtualizer returns imperative helpers; we confine them to this module.
   const rowVirtual = useVirtualizer({
-    count: totalRowCount,
-    getScrollElement: () => document.getElementById("grid-scroll")!,
+    count: displayCount,
+    getScrollElement: () => scrollRef.current,
     estimateSize: () => rowHeight,
     overscan: 4,
   });
   const virtualRows = rowVirtual.getVirtualItems();
-  const firstVisibleIndex =
-    virtualRows.length > 0 ? virtualRows[0]!.index : null;
-  const lastVisibleIndex =
-    virtualRows.length > 0 ? virtualRows[virtualRows.length - 1]!.index : null;
+  let firstVisibleIndex: number | null = null;
+  let lastVisibleIndex: number | null = null;
+  for (const vRow of virtualRows) {
+    const row = rowAtDisplay(vRow.index);
+    if (row == null) continue;
+    firstVisibleIndex ??= row;
+    lastVisibleIndex = row;
+  }
 
   const renderStart = useRef(performance.now());
 
@@ -240,6 +335,50 @@ export function DataGrid({
     [],
   );
 
+  const handleHeaderContextMenu = useCallback(
+    (colIndex: number, e: ReactMouseEvent<HTMLDivElement>) => {
+      e.preventDefault();
+      setHeaderMenu({
+        x: Math.min(e.clientX, window.innerWidth - 8),
+        y: Math.min(e.clientY, window.innerHeight - 8),
+        col: colIndex,
+      });
+    },
+    [],
+  );
+
+  const closeHeaderMenu = useCallback(() => setHeaderMenu(null), []);
+  // Computed columns only offer formula edits and removal.
+  const headerMenuComputed = Boolean(
+    headerMenu && columns[headerMenu.col]?.formula,
+  );
+
+  // Fit a column to its header and the visible cells.
+  const autosizeColumn = useCallback(
+    (col: number) => {
+      const targetColumn = columns[col];
+      if (!targetColumn) return;
+      const sample = virtualRows
+        .slice(0, 100)
+        .map((v) => rows[rowAtDisplay(v.index) ?? -1]?.[col] ?? "");
+      const ctx = document.createElement("canvas").getContext("2d");
+      const font = getComputedStyle(document.body).font;
+      if (ctx && font) ctx.font = font;
+      const measure = (s: string) =>
+        ctx
+          ? Math.ceil(ctx.measureText(s).width) + 24
+          : Math.max(160, s.length * 8 + 24);
+      const max = Math.max(measure(targetColumn.name), ...sample.map(measure));
+      const next = columns.slice();
+      next[col] = {
+        ...targetColumn,
+        width: Math.min(Math.max(60, max), 600),
+      };
+      onColumnsResize?.(next);
+    },
+    [columns, onColumnsResize, rowAtDisplay, rows, virtualRows],
+  );
+
   const copyCell = useCallback(() => {
     if (!menu.cell) return;
     const val = rows[menu.cell.row]?.[menu.cell.col] ?? "";
@@ -247,6 +386,12 @@ export function DataGrid({
     closeMenu();
   }, [closeMenu, menu.cell, rows]);
 
+  const selectedRows = useMemo(() => {
+    const rowSet = new Set<number>();
+    for (const key of selectedCells) rowSet.add(parseSelectionKey(key)[0]);
+    return Array.from(rowSet).sort((a, b) => a - b);
+  }, [parseSelectionKey, selectedCells]);
+
   const copySelection = useCallback(() => {
     if (selectedCells.size === 0) return;
     const text = selectionToTSV(selectedCells, rows);
@@ -257,9 +402,13 @@ export function DataGrid({
   const ensureVisible = useCallback(
     (targetRow: number) => {
       if (targetRow < 0 || targetRow >= totalRowCount) return;
-      rowVirtual.scrollToIndex(targetRow, { align: "auto" });
+      const index = groupLayout
+        ? groupLayout.displayIndexOf(targetRow)
+        : targetRow;
+      if (index == null) return;
+      rowVirtual.scrollToIndex(index, { align: "auto" });
     },
-    [rowVirtual, totalRowCount],
+    [groupLayout, rowVirtual, totalRowCount],
   );
 
   const lastFocusRequestRef = useRef<{
@@ -403,6 +552,7 @@ export function DataGrid({
           break;
         case "Enter":
           e.preventDefault();
+          if (readOnly || columns[cur.col]?.formula) return;
           setEditing({
             row: cur.row,
             col: cur.col,
@@ -415,6 +565,7 @@ export function DataGrid({
           break;
         case "F2":
           e.preventDefault();
+          if (readOnly || columns[cur.col]?.formula) return;
           setEditing({
             row: cur.row,
             col: cur.col,
@@ -467,7 +618,10 @@ export function DataGrid({
           if (mod && !e.shiftKey) {
             e.preventDefault();
             const nextSel = new Set<string>();
-            for (const v of virtualRows) nextSel.add(keyFor(v.index, cur.col));
+            for (const v of virtualRows) {
+              const row = rowAtDisplay(v.index);
+              if (row != null) nextSel.add(keyFor(row, cur.col));
+            }
             applySelection(nextSel, { anchor: cur, focus: cur });
             return;
           }
@@ -479,8 +633,9 @@ export function DataGrid({
             e.preventDefault();
             const nextSel = new Set<string>();
             for (const v of virtualRows) {
-              for (let c = 0; c <= lastCol; c++)
-                nextSel.add(keyFor(v.index, c));
+              const row = rowAtDisplay(v.index);
+              if (row == null) continue;
+              for (let c = 0; c <= lastCol; c++) nextSel.add(keyFor(row, c));
             }
             applySelection(nextSel, { anchor: cur, focus: cur });
             return;
@@ -547,6 +702,15 @@ export function DataGrid({
           return;
       }
 
+      // Step over the rows of collapsed groups.
+      if (groupLayout && next.row !== cur.row) {
+        const direction = next.row > cur.row ? 1 : -1;
+        next.row =
+          groupLayout.nearestVisibleRow(next.row, direction) ??
+          groupLayout.nearestVisibleRow(next.row, direction === 1 ? -1 : 1) ??
+          cur.row;
+      }
+
       ensureVisible(next.row);
       setFocusCell(next);
 
@@ -579,6 +743,7 @@ export function DataGrid({
       editing,
       ensureVisible,
       focusCell,
+      groupLayout,
       keyFor,
       onClear,
       onEditCell,
@@ -588,6 +753,8 @@ export function DataGrid({
       onSearchShortcut,
       onUndo,
       parseSelectionKey,
+      readOnly,
+      rowAtDisplay,
       rows,
       selectedCells,
       totalRowCount,
@@ -609,10 +776,11 @@ export function DataGrid({
 
   return (
     <div
-      id="grid-scroll"
+      ref={scrollRef}
       role="grid"
-      aria-label="CSV data grid"
-      aria-rowcount={columns.length > 0 ? totalRowCount + 1 : totalRowCount}
+      aria-label={ariaLabel}
+      aria-readonly={readOnly || undefined}
+      aria-rowcount={columns.length > 0 ? displayCount + 1 : displayCount}
       aria-colcount={columns.length}
       aria-multiselectable="true"
       className="relative h-full overflow-auto focus:outline-none select-none bg-background scrollbar-thin scrollbar-track-transparent scrollbar-thumb-muted-foreground/20 hover:scrollbar-thumb-muted-foreground/40"
@@ -647,14 +815,18 @@ export function DataGrid({
           columns={columns}
           onColumnsResize={onColumnsResize}
           onHeaderClick={onHeaderClick}
-          sortState={sortState ?? null}
+          onHeaderContextMenu={handleHeaderContextMenu}
+          sortState={sortState ?? []}
           sampleData={rows.slice(0, 50)}
         />
         {filtersRow && (
           <div
-            className="sticky z-10 bg-background/90 backdrop-blur border-b px-1 py-0.5 grid gap-1"
+            role="row"
+            aria-label="Column filters"
+            className="sticky z-20 bg-background/90 backdrop-blur border-b border-border/60 grid items-center"
             style={{
               top: headerHeight,
+              height: filtersHeight,
               gridTemplateColumns: columns
                 .map((c) => `${c.width ?? 160}px`)
                 .join(" "),
@@ -663,28 +835,52 @@ export function DataGrid({
             {filtersRow}
           </div>
         )}
-        {virtualRows.map((vRow) => (
-          <Row
-            key={vRow.key}
-            index={vRow.index}
-            top={vRow.start + headerHeight + (filtersRow ? filtersHeight : 0)}
-            height={vRow.size}
-            columns={columns}
-            row={rows[vRow.index]}
-            selectedCells={selectedCells}
-            onCellClick={handleCellClick}
-            onCellContextMenu={handleContextMenu}
-            onCellDoubleClick={(r, c) =>
-              setEditing({ row: r, col: c, value: rows[r]?.[c] ?? "" })
-            }
-            editing={editing}
-            setEditing={setEditing}
-            editorRef={editorRef}
-            currentSearchKey={currentSearchKey ?? null}
-            searchQuery={searchQuery ?? ""}
-            onEditCell={onEditCell}
-          />
-        ))}
+        {virtualRows.map((vRow) => {
+          const top =
+            vRow.start + headerHeight + (filtersRow ? filtersHeight : 0);
+          const entry = groupLayout?.at(vRow.index);
+          if (entry?.kind === "group") {
+            return (
+              <GroupRow
+                key={vRow.key}
+                ariaRowIndex={vRow.index + 2}
+                top={top}
+                height={vRow.size}
+                columns={columns}
+                group={entry.group}
+                depth={entry.depth}
+                collapsed={entry.collapsed}
+                labelSpan={groupLabelSpan}
+                onToggle={onToggleGroup}
+              />
+            );
+          }
+          const rowIndex = entry ? entry.row : vRow.index;
+          return (
+            <Row
+              key={vRow.key}
+              index={rowIndex}
+              ariaRowIndex={vRow.index + 2}
+              top={top}
+              height={vRow.size}
+              columns={columns}
+              row={rows[rowIndex]}
+              selectedCells={selectedCells}
+              onCellClick={handleCellClick}
+              onCellContextMenu={handleContextMenu}
+              onCellDoubleClick={(r, c) => {
+                if (readOnly || columns[c]?.formula) return;
+                setEditing({ row: r, col: c, value: rows[r]?.[c] ?? "" });
+              }}
+              editing={editing}
+              setEditing={setEditing}
+              editorRef={editorRef}
+              currentSearchKey={currentSearchKey ?? null}
+              searchQuery={searchQuery ?? ""}
+              onEditCell={onEditCell}
+            />
+          );
+        })}
         {/* Progressive Loading Indicator */}
         {isLoadingChunks && (
           <div className="pointer-events-none absolute bottom-4 right-4 z-30">
@@ -706,31 +902,72 @@ export function DataGrid({
           >
             Copy selection (TSV)
           </ContextMenuItem>
-          <ContextMenuItem
-            onSelect={async () => {
-              try {
-                const text = await navigator.clipboard.readText();
-                if (!menu.cell) return;
-                const lines = text.replace(/\r/g, "").split("\n");
-                const values = lines.map((l) => l.split("\t"));
-                onPaste?.(menu.cell.row, menu.cell.col, values);
-              } catch (err) {
-                logger.warn("DataGrid: clipboard paste failed", err);
-              }
-              closeMenu();
-            }}
-          >
-            Paste
-          </ContextMenuItem>
-          <ContextMenuItem
-            onSelect={() => {
-              if (!menu.cell) return;
-              onClear?.([{ row: menu.cell.row, col: menu.cell.col }]);
-              closeMenu();
-            }}
-          >
-            Clear cell
-          </ContextMenuItem>
+          {!readOnly && (
+            <>
+              <ContextMenuItem
+                onSelect={async () => {
+                  try {
+                    const text = await navigator.clipboard.readText();
+                    if (!menu.cell) return;
+                    const lines = text.replace(/\r/g, "").split("\n");
+                    const values = lines.map((l) => l.split("\t"));
+                    onPaste?.(menu.cell.row, menu.cell.col, values);
+                  } catch (err) {
+                    logger.warn("DataGrid: clipboard paste failed", err);
+                  }
+                  closeMenu();
+                }}
+              >
+                Paste
+              </ContextMenuItem>
+              <ContextMenuItem
+                onSelect={() => {
+                  if (!menu.cell) return;
+                  onClear?.([{ row: menu.cell.row, col: menu.cell.col }]);
+                  closeMenu();
+                }}
+              >
+                Clear cell
+              </ContextMenuItem>
+            </>
+          )}
+          {!readOnly && onRowAction && selectedRows.length > 0 && (
+            <>
+              <ContextMenuSeparator />
+              <ContextMenuItem
+                onSelect={() => {
+                  onRowAction(selectedRows, "insertAbove");
+                  closeMenu();
+                }}
+              >
+                Insert {rowCountLabel(selectedRows.length)} above
+              </ContextMenuItem>
+              <ContextMenuItem
+                onSelect={() => {
+                  onRowAction(selectedRows, "insertBelow");
+                  closeMenu();
+                }}
+              >
+                Insert {rowCountLabel(selectedRows.length)} below
+              </ContextMenuItem>
+              <ContextMenuItem
+                onSelect={() => {
+                  onRowAction(selectedRows, "duplicate");
+                  closeMenu();
+                }}
+              >
+                Duplicate {rowCountLabel(selectedRows.length)}
+              </ContextMenuItem>
+              <ContextMenuItem
+                onSelect={() => {
+                  onRowAction(selectedRows, "delete");
+                  closeMenu();
+                }}
+              >
+                Delete {rowCountLabel(selectedRows.length)}
+              </ContextMenuItem>
+            </>
+          )}
           <ContextMenuSeparator />
           {typeof onHeaderClick === "function" && menu.cell && (
             <>
@@ -744,33 +981,15 @@ export function DataGrid({
               </ContextMenuItem>
               <ContextMenuItem
                 onSelect={() => {
-                  const col = menu.cell!.col;
-                  const visible = virtualRows;
-                  const sample = visible
-                    .slice(0, 100)
-                    .map((v) => rows[v.index]?.[col] ?? "");
-                  const ctx = document.createElement("canvas").getContext("2d");
-                  const font = getComputedStyle(document.body).font;
-                  if (ctx && font) ctx.font = font;
-                  const measure = (s: string) =>
-                    ctx
-                      ? Math.ceil(ctx.measureText(s).width) + 24
-                      : Math.max(160, s.length * 8 + 24);
-                  const targetColumn = columns[col];
-                  if (!targetColumn) {
-                    closeMenu();
-                    return;
-                  }
-                  const max = Math.max(
-                    measure(targetColumn.name),
-                    ...sample.map(measure),
-                  );
-                  const next = columns.slice();
-                  next[col] = {
-                    ...targetColumn,
-                    width: Math.min(Math.max(60, max), 600),
-                  };
-                  onColumnsResize?.(next);
+                  onHeaderClick(menu.cell!.col, true);
+                  closeMenu();
+                }}
+              >
+                Add to sort
+              </ContextMenuItem>
+              <ContextMenuItem
+                onSelect={() => {
+                  autosizeColumn(menu.cell!.col);
                   closeMenu();
                 }}
               >
@@ -781,6 +1000,146 @@ export function DataGrid({
           <ContextMenuSeparator />
           <ContextMenuItem onSelect={closeMenu}>Close</ContextMenuItem>
         </ContextMenu>
+        <ContextMenu
+          open={headerMenu !== null}
+          x={headerMenu?.x ?? 0}
+          y={headerMenu?.y ?? 0}
+          onClose={closeHeaderMenu}
+        >
+          {headerMenu && (
+            <>
+              <div className="px-3 py-2 text-xs font-medium text-muted-foreground border-b border-border/50 truncate">
+                {columns[headerMenu.col]?.name}
+                {columns[headerMenu.col]?.dataType && (
+                  <span className="ml-1.5 font-mono text-[10px]">
+                    {columns[headerMenu.col]!.dataType}
+                  </span>
+                )}
+                {columns[headerMenu.col]?.formula && (
+                  <div className="mt-0.5 font-mono text-[10px] font-normal truncate">
+                    = {columns[headerMenu.col]!.formula}
+                  </div>
+                )}
+              </div>
+              {typeof onHeaderClick === "function" && (
+                <>
+                  <ContextMenuItem
+                    onSelect={() => {
+                      onHeaderClick(headerMenu.col);
+                      closeHeaderMenu();
+                    }}
+                  >
+                    Sort (cycle)
+                  </ContextMenuItem>
+                  <ContextMenuItem
+                    onSelect={() => {
+                      onHeaderClick(headerMenu.col, true);
+                      closeHeaderMenu();
+                    }}
+                  >
+                    Add to sort
+                  </ContextMenuItem>
+                </>
+              )}
+              <ContextMenuItem
+                onSelect={() => {
+                  autosizeColumn(headerMenu.col);
+                  closeHeaderMenu();
+                }}
+              >
+                Autosize column
+              </ContextMenuItem>
+              {onColumnAction && (
+                <>
+                  <ContextMenuItem
+                    onSelect={() => {
+                      onColumnAction(headerMenu.col, "profile");
+                      closeHeaderMenu();
+                    }}
+                  >
+                    Column profile…
+                  </ContextMenuItem>
+                  {groupBy?.includes(headerMenu.col) ? (
+                    <ContextMenuItem
+                      onSelect={() => {
+                        onColumnAction(headerMenu.col, "ungroup");
+                        closeHeaderMenu();
+                      }}
+                    >
+                      Remove from grouping
+                    </ContextMenuItem>
+                  ) : (
+                    <ContextMenuItem
+                      disabled={(groupBy?.length ?? 0) >= MAX_GROUP_COLUMNS}
+                      onSelect={() => {
+                        onColumnAction(headerMenu.col, "group");
+                        closeHeaderMenu();
+                      }}
+                    >
+                      {groupBy?.length ? "Add to grouping" : "Group by column"}
+                    </ContextMenuItem>
+                  )}
+                  <ContextMenuSeparator />
+                  {(
+                    [
+                      ["rename", "Rename…", headerMenuComputed],
+                      ["retype", "Change type…", headerMenuComputed],
+                      ["insertLeft", "Insert column left…", headerMenuComputed],
+                      [
+                        "insertRight",
+                        "Insert column right…",
+                        headerMenuComputed,
+                      ],
+                      [
+                        "moveLeft",
+                        "Move left",
+                        headerMenuComputed || headerMenu.col === 0,
+                      ],
+                      [
+                        "moveRight",
+                        "Move right",
+                        headerMenuComputed ||
+                          headerMenu.col === columns.length - 1 ||
+                          Boolean(columns[headerMenu.col + 1]?.formula),
+                      ],
+                      ...(headerMenuComputed
+                        ? ([["editFormula", "Edit formula…", false]] as const)
+                        : []),
+                      ["addFormula", "Add computed column…", false],
+                    ] as const
+                  ).map(([action, label, disabled]) => (
+                    <ContextMenuItem
+                      key={action}
+                      disabled={disabled}
+                      onSelect={() => {
+                        onColumnAction(headerMenu.col, action);
+                        closeHeaderMenu();
+                      }}
+                    >
+                      {label}
+                    </ContextMenuItem>
+                  ))}
+                  <ContextMenuSeparator />
+                  <ContextMenuItem
+                    disabled={
+                      !headerMenuComputed &&
+                      columns.filter((column) => !column.formula).length <= 1
+                    }
+                    className="text-destructive"
+                    onSelect={() => {
+                      onColumnAction(headerMenu.col, "drop");
+                      closeHeaderMenu();
+                    }}
+                  >
+                    {headerMenuComputed
+                      ? "Remove computed column…"
+                      : "Drop column…"}
+                  </ContextMenuItem>
+                </>
+              )}
+            </>
+          )}
+        </ContextMenu>
       </div>
     </div>
   );
@@ -827,13 +1186,15 @@ const Header = memo(function Header({
   columns,
   onColumnsResize,
   onHeaderClick,
+  onHeaderContextMenu,
   sortState,
   sampleData,
 }: {
   columns: ColumnDef[];
   onColumnsResize?: (cols: ColumnDef[]) => void;
-  onHeaderClick?: (i: number) => void;
-  sortState: SortState;
+  onHeaderClick?: (i: number, additive?: boolean) => void;
+  onHeaderContextMenu?: (i: number, e: ReactMouseEvent<HTMLDivElement>) => void;
+  sortState: SortKeys;
   sampleData?: string[][];
 }) {
   if (columns.length === 0) return null;
@@ -849,89 +1210,116 @@ const Header = memo(function Header({
           .join(" "),
       }}
     >
-      {columns.map((c, i) => (
-        <div
-          key={i}
-          role="columnheader"
-          aria-sort={
-            sortState && sortState.colIndex === i
-              ? sortState.dir === "asc"
-                ? "ascending"
-                : "descending"
-              : "none"
-          }
-          className="px-4 py-2.5 text-sm font-medium text-muted-foreground truncate relative group cursor-pointer select-none transition-colors duration-150 hover:text-foreground hover:bg-muted/20"
-          onClick={() => onHeaderClick?.(i)}
-        >
-          <div className="flex items-center gap-2">
-            <span className="text-muted-foreground/70">
-              {getColumnTypeIcon(i, c.name, sampleData)}
-            </span>
-            <span className="flex-1 truncate">{c.name}</span>
-            {sortState && sortState.colIndex === i && (
-              <span className="text-xs text-primary font-medium">
-                {sortState.dir === "asc" ? "↑" : "↓"}
+      {columns.map((c, i) => {
+        const sortIndex = sortState.findIndex((key) => key.colIndex === i);
+        const sortKey = sortIndex >= 0 ? sortState[sortIndex] : undefined;
+        return (
+          <div
+            key={i}
+            role="columnheader"
+            aria-sort={
+              sortKey
+                ? sortKey.dir === "asc"
+                  ? "ascending"
+                  : "descending"
+                : "none"
+            }
+            title={
+              onHeaderClick
+                ? "Click to sort, Shift+click to add a sort key"
+                : undefined
+            }
+            className="px-4 py-2.5 text-sm font-medium text-muted-foreground truncate relative group cursor-pointer select-none transition-colors duration-150 hover:text-foreground hover:bg-muted/20"
+            onClick={(e) => onHeaderClick?.(i, e.shiftKey)}
+            onContextMenu={(e) => onHeaderContextMenu?.(i, e)}
+          >
+            <div className="flex items-center gap-2">
+              <span
+                className="text-muted-foreground/70"
+                title={c.formula ? `= ${c.formula}` : undefined}
+              >
+                {c.formula ? (
+                  <Sigma className="h-3.5 w-3.5" />
+                ) : (
+                  getColumnTypeIcon(i, c.name, sampleData)
+                )}
               </span>
-            )}
-          </div>
-          {onColumnsResize && (
-            <span
-              role="separator"
-              aria-label="Resize column"
-              className="absolute right-0 top-0 h-full w-1 cursor-col-resize select-none bg-transparent group-hover:bg-border"
-              onMouseDown={(e) => {
-                e.preventDefault();
-                const startX = e.clientX;
-                const startWidth = c.width ?? 160;
-                const next = columns.slice();
-                const onMove = (ev: MouseEvent) => {
-                  const dx = ev.clientX - startX;
-                  const currentColumn = next[i];
-                  if (!currentColumn) return;
-                  next[i] = {
-                    ...currentColumn,
-                    width: Math.max(60, startWidth + dx),
+              <span className="flex-1 truncate">{c.name}</span>
+              {sortKey && (
+                <span className="flex items-center gap-0.5 text-xs text-primary font-medium">
+                  {sortKey.dir === "asc" ? "↑" : "↓"}
+                  {sortState.length > 1 && (
+                    <span
+                      className="inline-flex h-4 min-w-4 items-center justify-center rounded-full bg-primary/15 px-1 text-[10px] leading-none"
+                      aria-label={`Sort priority ${sortIndex + 1}`}
+                    >
+                      {sortIndex + 1}
+                    </span>
+                  )}
+                </span>
+              )}
+            </div>
+            {onColumnsResize && (
+              <span
+                role="separator"
+                aria-label="Resize column"
+                className="absolute right-0 top-0 h-full w-1 cursor-col-resize select-none bg-transparent group-hover:bg-border"
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  const startX = e.clientX;
+                  const startWidth = c.width ?? 160;
+                  const next = columns.slice();
+                  const onMove = (ev: MouseEvent) => {
+                    const dx = ev.clientX - startX;
+                    const currentColumn = next[i];
+                    if (!currentColumn) return;
+                    next[i] = {
+                      ...currentColumn,
+                      width: Math.max(60, startWidth + dx),
+                    };
+                    onColumnsResize(next);
+                  };
+                  const onUp = () => {
+                    window.removeEventListener("mousemove", onMove);
+                    window.removeEventListener("mouseup", onUp);
+                  };
+                  window.addEventListener("mousemove", onMove);
+                  window.addEventListener("mouseup", onUp);
+                }}
+                onDoubleClick={(e) => {
+                  // Autosize to content on double-click, similar to Notion.
+                  e.preventDefault();
+                  if (!onColumnsResize) return;
+                  const col = i;
+                  const visible = sampleData ?? [];
+                  const sample = visible
+                    .slice(0, 200)
+                    .map((r) => r?.[col] ?? "");
+                  const ctx = document.createElement("canvas").getContext("2d");
+                  const font = getComputedStyle(document.body).font;
+                  if (ctx && font) ctx.font = font;
+                  const measure = (s: string) =>
+                    ctx
+                      ? Math.ceil(ctx.measureText(s).width) + 24
+                      : Math.max(160, s.length * 8 + 24);
+                  const targetColumn = columns[col];
+                  if (!targetColumn) return;
+                  const max = Math.max(
+                    measure(targetColumn.name),
+                    ...sample.map(measure),
+                  );
+                  const next = columns.slice();
+                  next[col] = {
+                    ...targetColumn,
+                    width: Math.min(Math.max(60, max), 600),
                   };
                   onColumnsResize(next);
-                };
-                const onUp = () => {
-                  window.removeEventListener("mousemove", onMove);
-                  window.removeEventListener("mouseup", onUp);
-                };
-                window.addEventListener("mousemove", onMove);
-                window.addEventListener("mouseup", onUp);
-              }}
-              onDoubleClick={(e) => {
-                // Autosize to content on double-click, similar to Notion.
-                e.preventDefault();
-                if (!onColumnsResize) return;
-                const col = i;
-                const visible = sampleData ?? [];
-                const sample = visible.slice(0, 200).map((r) => r?.[col] ?? "");
-                const ctx = document.createElement("canvas").getContext("2d");
-                const font = getComputedStyle(document.body).font;
-                if (ctx && font) ctx.font = font;
-                const measure = (s: string) =>
-                  ctx
-                    ? Math.ceil(ctx.measureText(s).width) + 24
-                    : Math.max(160, s.length * 8 + 24);
-                const targetColumn = columns[col];
-                if (!targetColumn) return;
-                const max = Math.max(
-                  measure(targetColumn.name),
-                  ...sample.map(measure),
-                );
-                const next = columns.slice();
-                next[col] = {
-                  ...targetColumn,
-                  width: Math.min(Math.max(60, max), 600),
-                };
-                onColumnsResize(next);
-              }}
-            />
-          )}
-        </div>
-      ))}
+                }}
+              />
+            )}
+          </div>
+        );
+      })}
     </div>
   );
 });
@@ -974,6 +1362,7 @@ function highlightValue(value: string, query: string): ReactNode {
 
 const Row = memo(function Row({
   index,
+  ariaRowIndex,
   top,
   height,
   columns,
@@ -990,6 +1379,8 @@ const Row = memo(function Row({
   onEditCell,
 }: {
   index: number;
+  /** Position among the displayed rows, when it differs from `index`. */
+  ariaRowIndex?: number;
   top: number;
   height: number;
   columns: ColumnDef[];
@@ -1020,7 +1411,7 @@ const Row = memo(function Row({
   return (
     <div
       role="row"
-      aria-rowindex={index + 2}
+      aria-rowindex={ariaRowIndex ?? index + 2}
       className={cn(
         "absolute left-0 right-0 grid select-none transition-colors duration-150 group",
         // Subtle row divisions like Notion
@@ -1118,3 +1509,87 @@ const Row = memo(function Row({
     </div>
   );
 });
+
+const formatGroupSum = (value: number) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: 6 });
+
+/** A group header: its key and row count, then the sums of its columns. */
+const GroupRow = memo(function GroupRow({
+  ariaRowIndex,
+  top,
+  height,
+  columns,
+  group,
+  depth,
+  collapsed,
+  labelSpan,
+  onToggle,
+}: {
+  ariaRowIndex: number;
+  top: number;
+  height: number;
+  columns: ColumnDef[];
+  group: RowGroup;
+  depth: number;
+  collapsed: boolean;
+  labelSpan: number;
+  onToggle?: (key: string[]) => void;
+}) {
+  const value = group.key[group.key.length - 1] ?? "";
+  const Chevron = collapsed ? ChevronRight : ChevronDown;
+  return (
+    <div
+      role="row"
+      aria-rowindex={ariaRowIndex}
+      aria-expanded={!collapsed}
+      aria-level={depth + 1}
+      className="absolute left-0 right-0 grid border-b border-border/60 bg-muted/40 text-sm"
+      style={{
+        transform: `translateY(${top}px)`,
+        height,
+        gridTemplateColumns: columns
+          .map((c) => `${c.width ?? 160}px`)
+          .join(" "),
+        contain: "content",
+      }}
+    >
+      <div
+        role="gridcell"
+        aria-colindex={1}
+        className="flex min-w-0 items-center"
+        style={{
+          gridColumn: `span ${labelSpan}`,
+          paddingLeft: 8 + depth * 16,
+        }}
+      >
+        <button
+          type="button"
+          onClick={() => onToggle?.(group.key)}
+          className="flex min-w-0 items-center gap-1 rounded px-1 py-0.5 font-medium hover:bg-accent"
+          aria-label={`${collapsed ? "Expand" : "Collapse"} group ${value || "(blank)"}`}
+        >
+          <Chevron className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <span className={cn("truncate", !value && "italic")}>
+            {value || "(blank)"}
+          </span>
+          <span className="shrink-0 text-xs font-normal text-muted-foreground">
+            ({group.count.toLocaleString()})
+          </span>
+        </button>
+      </div>
+      {columns.slice(labelSpan).map((_, offset) => {
+        const sum = group.sums[labelSpan + offset];
+        return (
+          <div
+            key={labelSpan + offset}
+            role="gridcell"
+            aria-colindex={labelSpan + offset + 1}
+            className="truncate px-4 py-3 text-right font-mono text-xs text-muted-foreground"
+          >
+            {sum != null && `Σ ${formatGroupSum(sum)}`}
+          </div>
+        );
+      })}
+    </div>
+  );
+});
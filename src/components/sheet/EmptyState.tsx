@@ -1,7 +1,8 @@
-import { memo } from "react";
+import { memo, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { FileText, Upload, Link as LinkIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { SUPPORTED_FILE_ACCEPT } from "@/lib/validators";
 
 interface EmptyStateProps {
   type: "loading" | "no-data" | "error";
@@ -12,6 +13,9 @@ interface EmptyStateProps {
     onClick: () => void;
     icon?: React.ReactNode;
   };
+  /** Called with the file chosen from the "Upload file" picker. */
+  onFileSelect?: (file: File) => void;
+  onLoadUrl?: () => void;
   className?: string;
 }
 
@@ -20,8 +24,11 @@ export const EmptyState = memo(function EmptyState({
   title,
   description,
   action,
+  onFileSelect,
+  onLoadUrl,
   className,
 }: EmptyStateProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const getContent = () => {
     switch (type) {
       case "loading":
@@ -36,7 +43,7 @@ export const EmptyState = memo(function EmptyState({
           title: title || "No data to display",
           description:
             description ||
-            "Load a CSV file or connect to a data source to get started",
+            "Load a CSV, Excel, Parquet, JSON or Arrow file, or connect to a data source to get started",
         };
       case "error":
         return {
@@ -83,11 +90,26 @@ export const EmptyState = memo(function EmptyState({
         {/* Quick Actions for no-data state */}
         {type === "no-data" && !action && (
           <div className="flex items-center gap-2 mt-4">
-            <Button variant="outline" size="sm">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={SUPPORTED_FILE_ACCEPT}
+              className="hidden"
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) onFileSelect?.(file);
+                event.target.value = "";
+              }}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+            >
               <Upload className="h-4 w-4" />
-              Upload CSV
+              Upload file
             </Button>
-            <Button variant="outline" size="sm">
+            <Button variant="outline" size="sm" onClick={onLoadUrl}>
               <LinkIcon className="h-4 w-4" />
               Load from URL
             </Button>
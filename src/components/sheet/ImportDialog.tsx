@@ -0,0 +1,361 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  CSV_DATE_FORMATS,
+  CSV_ENCODINGS,
+  decodeCsvSample,
+  parseCsvWithOptions,
+  type CsvImportOptions,
+} from "@/lib/csvDialect";
+
+const PREVIEW_ROWS = 20;
+const AUTO = "auto";
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ",": "Comma ( , )",
+  ";": "Semicolon ( ; )",
+  "\t": "Tab",
+  "|": "Pipe ( | )",
+};
+const QUOTE_LABELS: Record<string, string> = {
+  '"': 'Double ( " )',
+  "'": "Single ( ' )",
+};
+
+interface ImportDialogProps {
+  open: boolean;
+  /** File name or URL shown in the title. */
+  sourceLabel: string;
+  /** First bytes of the file, re-parsed locally for the preview. */
+  sample: Uint8Array;
+  initialOptions: CsvImportOptions;
+  onConfirm: (options: CsvImportOptions) => void;
+  onClose: () => void;
+}
+
+function OptionField({
+  id,
+  label,
+  children,
+}: {
+  id: string;
+  label: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="flex flex-col gap-1.5">
+      <Label htmlFor={id} className="text-xs text-muted-foreground">
+        {label}
+      </Label>
+      {children}
+    </div>
+  );
+}
+
+/**
+ * Import options for delimited text files, pre-filled from the sniffed
+ * dialect, with a live preview of the first rows. Options are only read on
+ * mount, so give each import its own `key`.
+ */
+export function ImportDialog({
+  open,
+  sourceLabel,
+  sample,
+  initialOptions,
+  onConfirm,
+  onClose,
+}: ImportDialogProps) {
+  const confirmRef = useRef<HTMLButtonElement>(null);
+  const [options, setOptions] = useState(initialOptions);
+  const [nullText, setNullText] = useState(
+    initialOptions.nullStrings.join(", "),
+  );
+
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        e.preventDefault();
+        onClose();
+      }
+    };
+    window.addEventListener("keydown", handler);
+    const id = requestAnimationFrame(() => confirmRef.current?.focus());
+    return () => {
+      cancelAnimationFrame(id);
+      window.removeEventListener("keydown", handler);
+    };
+  }, [open, onClose]);
+
+  const preview = useMemo(() => {
+    try {
+      const text = decodeCsvSample(sample, options.encoding);
+      return parseCsvWithOptions(text, options, PREVIEW_ROWS);
+    } catch {
+      return { columns: [], rows: [] };
+    }
+  }, [sample, options]);
+
+  if (!open) return null;
+
+  const update = (patch: Partial<CsvImportOptions>) =>
+    setOptions((prev) => {
+      const next = { ...prev, ...patch };
+      if (patch.quote && prev.escape === prev.quote) next.escape = patch.quote;
+      if (next.delimiter === ",") next.decimalSeparator = ".";
+      return next;
+    });
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Import options"
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <Card className="flex max-h-[90vh] w-full max-w-4xl flex-col gap-4 p-5 bg-background/95 backdrop-blur border shadow-lg">
+        <div className="flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <h2 className="text-base font-semibold">Import options</h2>
+            <p className="truncate text-xs text-muted-foreground">
+              {sourceLabel}
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+          <OptionField id="import-delimiter" label="Delimiter">
+            <Select
+              value={options.delimiter}
+              onValueChange={(delimiter) => update({ delimiter })}
+            >
+              <SelectTrigger id="import-delimiter" size="sm" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(DELIMITER_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </OptionField>
+          <OptionField id="import-quote" label="Quote">
+            <Select
+              value={options.quote}
+              onValueChange={(quote) => update({ quote })}
+            >
+              <SelectTrigger id="import-quote" size="sm" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(QUOTE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </OptionField>
+          <OptionField id="import-escape" label="Escape">
+            <Select
+              value={options.escape === options.quote ? "double" : "backslash"}
+              onValueChange={(value) =>
+                update({ escape: value === "double" ? options.quote : "\\" })
+              }
+            >
+              <SelectTrigger id="import-escape" size="sm" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="double">Doubled quote</SelectItem>
+                <SelectItem value="backslash">Backslash ( \ )</SelectItem>
+              </SelectContent>
+            </Select>
+          </OptionField>
+          <OptionField id="import-encoding" label="Encoding">
+            <Select
+              value={options.encoding}
+              onValueChange={(encoding) =>
+                update({ encoding: encoding as CsvImportOptions["encoding"] })
+              }
+            >
+              <SelectTrigger id="import-encoding" size="sm" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CSV_ENCODINGS.map((encoding) => (
+                  <SelectItem key={encoding} value={encoding}>
+                    {encoding.toUpperCase()}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </OptionField>
+          <OptionField id="import-header" label="First row">
+            <Select
+              value={options.header ? "header" : "data"}
+              onValueChange={(value) => update({ header: value === "header" })}
+            >
+              <SelectTrigger id="import-header" size="sm" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="header">Column names</SelectItem>
+                <SelectItem value="data">Data</SelectItem>
+              </SelectContent>
+            </Select>
+          </OptionField>
+          <OptionField id="import-skip" label="Skip rows">
+            <Input
+              id="import-skip"
+              type="number"
+              min={0}
+              max={1000}
+              value={options.skipRows}
+              onChange={(e) =>
+                update({
+                  skipRows: Math.max(0, Math.floor(Number(e.target.value))),
+                })
+              }
+              className="h-8"
+            />
+          </OptionField>
+          <OptionField id="import-decimal" label="Decimal separator">
+            <Select
+              value={options.decimalSeparator}
+              onValueChange={(value) =>
+                update({
+                  decimalSeparator:
+                    value as CsvImportOptions["decimalSeparator"],
+                })
+              }
+              disabled={options.delimiter === ","}
+            >
+              <SelectTrigger id="import-decimal" size="sm" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value=".">Point ( 1.5 )</SelectItem>
+                <SelectItem value=",">Comma ( 1,5 )</SelectItem>
+              </SelectContent>
+            </Select>
+          </OptionField>
+          <OptionField id="import-date" label="Date format">
+            <Select
+              value={options.dateFormat ?? AUTO}
+              onValueChange={(value) =>
+                update({ dateFormat: value === AUTO ? null : value })
+              }
+            >
+              <SelectTrigger id="import-date" size="sm" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={AUTO}>Auto (ISO)</SelectItem>
+                {CSV_DATE_FORMATS.map((format) => (
+                  <SelectItem key={format} value={format}>
+                    {format}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </OptionField>
+          <div className="col-span-2 sm:col-span-4">
+            <OptionField
+              id="import-nulls"
+              label="Null values (comma separated)"
+            >
+              <Input
+                id="import-nulls"
+                value={nullText}
+                placeholder="NULL, NA"
+                onChange={(e) => {
+                  setNullText(e.target.value);
+                  update({
+                    nullStrings: e.target.value
+                      .split(",")
+                      .map((s) => s.trim())
+                      .filter(Boolean),
+                  });
+                }}
+                className="h-8"
+              />
+            </OptionField>
+          </div>
+        </div>
+
+        <div className="min-h-0 flex-1 overflow-auto rounded-md border">
+          {preview.columns.length === 0 ? (
+            <p className="p-4 text-sm text-muted-foreground">
+              Nothing to preview with these options.
+            </p>
+          ) : (
+            <table className="w-full text-xs">
+              <thead className="sticky top-0 bg-muted">
+                <tr>
+                  {preview.columns.map((name, i) => (
+                    <th
+                      key={i}
+                      className="whitespace-nowrap px-2 py-1.5 text-left font-medium"
+                    >
+                      {name}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {preview.rows.map((row, r) => (
+                  <tr key={r} className="border-t border-border/50">
+                    {preview.columns.map((_, c) => (
+                      <td
+                        key={c}
+                        className="max-w-48 truncate whitespace-nowrap px-2 py-1 font-mono"
+                      >
+                        {row[c] ?? ""}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-muted-foreground">
+            {preview.columns.length} columns · showing the first{" "}
+            {preview.rows.length} rows
+          </span>
+          <div className="flex items-center gap-2">
+            <Button size="sm" variant="ghost" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              ref={confirmRef}
+              size="sm"
+              onClick={() => onConfirm(options)}
+              disabled={preview.columns.length === 0}
+            >
+              Import
+            </Button>
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+}
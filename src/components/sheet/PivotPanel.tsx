@@ -0,0 +1,446 @@
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useState,
+  type DragEvent,
+} from "react";
+import { Download, GripVertical, Loader2, RefreshCw, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DataGrid } from "./DataGrid";
+import type { ColumnDef } from "@/lib/csv";
+import { profileKind } from "@/lib/columnProfile";
+import {
+  EXPORT_FORMATS,
+  downloadBlob,
+  exportFilename,
+  serializeRows,
+  type ExportFormat,
+} from "@/lib/export";
+import {
+  PIVOT_AGGREGATES,
+  pivotCellKeys,
+  pivotTableRows,
+  type PivotAggregate,
+  type PivotResult,
+  type PivotSpec,
+} from "@/lib/pivot";
+import { parseSelectionKey } from "@/lib/selection";
+import { useDebouncedValue } from "@/lib/useDebouncedValue";
+import { cn } from "@/lib/utils";
+
+type PivotZone = "rows" | "columns" | "values";
+
+const ZONES: Array<{ zone: PivotZone; label: string }> = [
+  { zone: "rows", label: "Rows" },
+  { zone: "columns", label: "Columns" },
+  { zone: "values", label: "Values" },
+];
+
+const DRAG_TYPE = "application/x-pivot-field";
+
+type DragPayload = { field: string; from: PivotZone | null; index: number };
+
+const PIVOT_EXPORT_FORMATS = (
+  Object.keys(EXPORT_FORMATS) as ExportFormat[]
+).filter(
+  (format): format is Exclude<ExportFormat, "parquet"> => format !== "parquet",
+);
+
+/**
+ * Put `field` into `zone`. A field groups the pivot at most once, so adding
+ * it to rows or columns takes it out of the other; values can repeat a
+ * field with different aggregates.
+ */
+function addField(
+  spec: PivotSpec,
+  field: string,
+  zone: PivotZone,
+  aggregate: PivotAggregate,
+): PivotSpec {
+  if (zone === "values") {
+    return { ...spec, values: [...spec.values, { column: field, aggregate }] };
+  }
+  const rows = spec.rows.filter((name) => name !== field);
+  const columns = spec.columns.filter((name) => name !== field);
+  return zone === "rows"
+    ? { ...spec, rows: [...rows, field], columns }
+    : { ...spec, rows, columns: [...columns, field] };
+}
+
+function removeField(
+  spec: PivotSpec,
+  zone: PivotZone,
+  index: number,
+): PivotSpec {
+  if (zone === "values") {
+    return { ...spec, values: spec.values.filter((_, i) => i !== index) };
+  }
+  return { ...spec, [zone]: spec[zone].filter((_, i) => i !== index) };
+}
+
+/**
+ * Pivot builder docked under the grid. Columns are dragged (or added from
+ * their menu) into rows, columns and values; the pivot reruns as the layout
+ * changes. Selecting a pivot cell filters the sheet to the rows behind it.
+ */
+export function PivotPanel({
+  table,
+  columns,
+  onRun,
+  onDrillDown,
+  onClose,
+}: {
+  /** Names the exported file. */
+  table: string;
+  columns: ColumnDef[];
+  onRun: (spec: PivotSpec) => Promise<PivotResult>;
+  onDrillDown: (keys: Array<{ column: string; value: string }>) => void;
+  onClose: () => void;
+}) {
+  const [spec, setSpec] = useState<PivotSpec>({
+    rows: [],
+    columns: [],
+    values: [],
+  });
+  const [result, setResult] = useState<PivotResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // `${spec}#${run}` of the last pivot that came back, to tell whether the
+  // one on screen is current.
+  const [settledKey, setSettledKey] = useState<string | null>(null);
+  const [dropZone, setDropZone] = useState<PivotZone | null>(null);
+  const [runCount, setRunCount] = useState(0);
+
+  // Drop fields the table no longer has (e.g. after a schema change).
+  const names = useMemo(() => columns.map((c) => c.name), [columns]);
+  const liveSpec = useMemo<PivotSpec>(
+    () => ({
+      rows: spec.rows.filter((name) => names.includes(name)),
+      columns: spec.columns.filter((name) => names.includes(name)),
+      values: spec.values.filter((value) => names.includes(value.column)),
+    }),
+    [spec, names],
+  );
+  const liveKey = JSON.stringify(liveSpec);
+  const specKey = useDebouncedValue(liveKey, 300);
+  const isRunning =
+    liveSpec.values.length > 0 && settledKey !== `${liveKey}#${runCount}`;
+
+  useEffect(() => {
+    const next = JSON.parse(specKey) as PivotSpec;
+    if (next.values.length === 0) return;
+    let cancelled = false;
+    onRun(next)
+      .then(
+        (pivot) => {
+          if (cancelled) return;
+          setResult(pivot);
+          setError(null);
+        },
+        (err: unknown) => {
+          if (cancelled) return;
+          setError(err instanceof Error ? err.message : String(err));
+        },
+      )
+      .finally(() => {
+        if (!cancelled) setSettledKey(`${specKey}#${runCount}`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [specKey, onRun, runCount]);
+
+  const defaultAggregate = useCallback(
+    (field: string): PivotAggregate => {
+      const column = columns.find((c) => c.name === field);
+      return profileKind(column?.dataType ?? "") === "number" ? "sum" : "count";
+    },
+    [columns],
+  );
+
+  const handleDrop = (zone: PivotZone) => (event: DragEvent) => {
+    event.preventDefault();
+    setDropZone(null);
+    const raw = event.dataTransfer.getData(DRAG_TYPE);
+    if (!raw) return;
+    const { field, from, index } = JSON.parse(raw) as DragPayload;
+    let next = liveSpec;
+    let aggregate = defaultAggregate(field);
+    if (from) {
+      if (from === "values")
+        aggregate = liveSpec.values[index]?.aggregate ?? aggregate;
+      next = removeField(next, from, index);
+    }
+    setSpec(addField(next, field, zone, aggregate));
+  };
+
+  const dragProps = (field: string, from: PivotZone | null, index = -1) => ({
+    draggable: true,
+    onDragStart: (event: DragEvent) => {
+      const payload: DragPayload = { field, from, index };
+      event.dataTransfer.setData(DRAG_TYPE, JSON.stringify(payload));
+      event.dataTransfer.effectAllowed = "move";
+    },
+  });
+
+  const layout = useMemo(
+    () => (result ? pivotTableRows(result) : null),
+    [result],
+  );
+  const gridColumns = useMemo<ColumnDef[]>(
+    () => (layout ? layout.columns.map((name) => ({ name })) : []),
+    [layout],
+  );
+
+  const handleSelection = useCallback(
+    (selection: Set<string>) => {
+      if (!result || selection.size !== 1) return;
+      const [row, col] = parseSelectionKey(selection.values().next().value!);
+      const keys = pivotCellKeys(result, row, col);
+      if (keys) onDrillDown(keys);
+    },
+    [result, onDrillDown],
+  );
+
+  const exportPivot = (format: Exclude<ExportFormat, "parquet">) => {
+    if (!layout) return;
+    const parts = Array.from(
+      serializeRows(format, layout.columns, layout.rows, {
+        tableName: `${table}_pivot`,
+      }),
+    );
+    downloadBlob(
+      new Blob(parts, { type: EXPORT_FORMATS[format].mimeType }),
+      exportFilename(`${table}_pivot`, format),
+    );
+  };
+
+  const zoneItems = (zone: PivotZone) =>
+    zone === "values"
+      ? liveSpec.values.map((value) => value.column)
+      : liveSpec[zone];
+
+  return (
+    <section
+      aria-label="Pivot"
+      className="flex h-[360px] min-h-0 shrink-0 flex-col border-t border-border/60 bg-background"
+    >
+      <div className="flex items-center gap-2 border-b border-border/60 px-3 py-1.5">
+        <span className="text-sm font-medium">Pivot</span>
+        {isRunning && (
+          <Loader2
+            className="h-3.5 w-3.5 animate-spin text-muted-foreground"
+            aria-label="Running pivot"
+          />
+        )}
+        {error && (
+          <span role="alert" className="truncate text-xs text-destructive">
+            {error}
+          </span>
+        )}
+        <div className="ml-auto flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => setRunCount((count) => count + 1)}
+            disabled={liveSpec.values.length === 0}
+            aria-label="Refresh pivot"
+          >
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                disabled={!layout}
+                aria-label="Export pivot"
+              >
+                <Download className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Export pivot as</DropdownMenuLabel>
+              {PIVOT_EXPORT_FORMATS.map((format) => (
+                <DropdownMenuItem
+                  key={format}
+                  onSelect={() => exportPivot(format)}
+                >
+                  {EXPORT_FORMATS[format].label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={onClose}
+            aria-label="Close pivot"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex min-h-0 flex-1">
+        <div className="flex w-64 shrink-0 flex-col gap-2 overflow-y-auto border-r border-border/60 p-2 text-xs">
+          <div>
+            <h3 className="mb-1 font-semibold uppercase tracking-wider text-muted-foreground">
+              Fields
+            </h3>
+            <ul className="flex flex-wrap gap-1">
+              {names.map((field) => (
+                <li key={field}>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <button
+                        type="button"
+                        {...dragProps(field, null)}
+                        className="flex max-w-[14rem] cursor-grab items-center gap-1 rounded border border-border/60 px-1.5 py-0.5 hover:bg-accent"
+                      >
+                        <GripVertical className="h-3 w-3 shrink-0 text-muted-foreground" />
+                        <span className="truncate">{field}</span>
+                      </button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="start">
+                      {ZONES.map(({ zone, label }) => (
+                        <DropdownMenuItem
+                          key={zone}
+                          onSelect={() =>
+                            setSpec(
+                              addField(
+                                liveSpec,
+                                field,
+                                zone,
+                                defaultAggregate(field),
+                              ),
+                            )
+                          }
+                        >
+                          Add to {label.toLowerCase()}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </li>
+              ))}
+            </ul>
+          </div>
+          {ZONES.map(({ zone, label }) => (
+            <div
+              key={zone}
+              role="group"
+              aria-label={`Pivot ${label.toLowerCase()}`}
+              onDragOver={(event) => {
+                if (!event.dataTransfer.types.includes(DRAG_TYPE)) return;
+                event.preventDefault();
+                setDropZone(zone);
+              }}
+              onDragLeave={() => setDropZone(null)}
+              onDrop={handleDrop(zone)}
+              className={cn(
+                "min-h-12 rounded-md border border-dashed border-border p-1.5",
+                dropZone === zone && "border-primary bg-primary/5",
+              )}
+            >
+              <h3 className="mb-1 font-semibold uppercase tracking-wider text-muted-foreground">
+                {label}
+              </h3>
+              {zoneItems(zone).length === 0 && (
+                <p className="text-muted-foreground">Drop fields here</p>
+              )}
+              <ul className="flex flex-col gap-1">
+                {zoneItems(zone).map((field, index) => (
+                  <li
+                    key={`${field}-${index}`}
+                    {...dragProps(field, zone, index)}
+                    className="flex cursor-grab items-center gap-1 rounded bg-muted px-1.5 py-0.5"
+                  >
+                    <GripVertical className="h-3 w-3 shrink-0 text-muted-foreground" />
+                    <span className="min-w-0 flex-1 truncate">{field}</span>
+                    {zone === "values" && (
+                      <Select
+                        value={liveSpec.values[index]!.aggregate}
+                        onValueChange={(aggregate) =>
+                          setSpec({
+                            ...liveSpec,
+                            values: liveSpec.values.map((value, i) =>
+                              i === index
+                                ? {
+                                    ...value,
+                                    aggregate: aggregate as PivotAggregate,
+                                  }
+                                : value,
+                            ),
+                          })
+                        }
+                      >
+                        <SelectTrigger
+                          size="sm"
+                          className="h-6 px-1.5 text-xs"
+                          aria-label={`Aggregate of ${field}`}
+                        >
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(
+                            Object.keys(PIVOT_AGGREGATES) as PivotAggregate[]
+                          ).map((aggregate) => (
+                            <SelectItem key={aggregate} value={aggregate}>
+                              {PIVOT_AGGREGATES[aggregate]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setSpec(removeField(liveSpec, zone, index))
+                      }
+                      className="rounded text-muted-foreground hover:text-foreground"
+                      aria-label={`Remove ${field} from ${label.toLowerCase()}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+        <div className="min-h-0 min-w-0 flex-1 overflow-hidden">
+          {layout && liveSpec.values.length > 0 ? (
+            <DataGrid
+              columns={gridColumns}
+              rows={layout.rows}
+              rowHeight={28}
+              readOnly
+              ariaLabel="Pivot results"
+              onSelectionChange={handleSelection}
+            />
+          ) : (
+            <p className="p-4 text-xs text-muted-foreground">
+              Drag columns into rows, columns and values to build a pivot.
+              Select a cell to show its rows in the sheet.
+            </p>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,81 @@
+import { Fragment } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import type { SelectionAggregate } from "@/lib/selection";
+
+interface SelectionStatsProps {
+  stats: SelectionAggregate | null;
+  isAggregating: boolean;
+  /** Called with the figure's full-precision text. */
+  onCopy: (label: string, value: string) => void;
+}
+
+const FIGURES: Array<{
+  key: keyof SelectionAggregate;
+  label: string;
+  hint: string;
+}> = [
+  { key: "sum", label: "Sum", hint: "Sum of the numeric cells" },
+  { key: "avg", label: "Average", hint: "Mean of the numeric cells" },
+  { key: "filledCount", label: "Count", hint: "Non-empty cells" },
+  {
+    key: "numericCount",
+    label: "Numeric count",
+    hint: "Cells that read as numbers",
+  },
+  { key: "min", label: "Min", hint: "Smallest numeric cell" },
+  { key: "max", label: "Max", hint: "Largest numeric cell" },
+];
+
+const formatFigure = (value: number) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: 6 });
+
+/** Footer figures for the selected cells; click one to copy it. */
+export function SelectionStats({
+  stats,
+  isAggregating,
+  onCopy,
+}: SelectionStatsProps) {
+  if (!stats) {
+    return isAggregating ? (
+      <>
+        <Separator orientation="vertical" className="h-4" />
+        <span className="text-muted-foreground">Aggregating…</span>
+      </>
+    ) : null;
+  }
+  return (
+    <>
+      {FIGURES.map(({ key, label, hint }) => {
+        const value = stats[key];
+        // Without numbers, only the count means anything.
+        if (value === null) return null;
+        return (
+          <Fragment key={key}>
+            <Separator orientation="vertical" className="h-4" />
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <button
+                  type="button"
+                  className="flex items-center gap-1.5 rounded-sm hover:text-foreground"
+                  onClick={() => onCopy(label, String(value))}
+                >
+                  <span className="text-muted-foreground">{label}:</span>
+                  <Badge variant="outline" className="font-mono">
+                    {formatFigure(value)}
+                  </Badge>
+                </button>
+              </TooltipTrigger>
+              <TooltipContent>{hint} — click to copy</TooltipContent>
+            </Tooltip>
+          </Fragment>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,73 @@
+import { memo } from "react";
+import { Layers } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+interface SheetTabsProps {
+  sheets: string[];
+  /** Sheet name → table for the sheets already loaded into DuckDB. */
+  loaded: Record<string, string>;
+  activeSheet: string;
+  disabled?: boolean;
+  onSelect: (sheets: string[]) => void;
+}
+
+/**
+ * Workbook tab bar. Sheets that are not loaded yet are shown muted and load
+ * on click; "Load all" imports the rest in one request.
+ */
+export const SheetTabs = memo(function SheetTabs({
+  sheets,
+  loaded,
+  activeSheet,
+  disabled,
+  onSelect,
+}: SheetTabsProps) {
+  const pending = sheets.filter((sheet) => !loaded[sheet]);
+
+  return (
+    <div
+      role="tablist"
+      aria-label="Workbook sheets"
+      className="flex items-center gap-1 border-t border-border/50 bg-muted/20 px-2 sm:px-4 py-1 overflow-x-auto"
+    >
+      {sheets.map((sheet) => {
+        const isActive = sheet === activeSheet;
+        return (
+          <button
+            key={sheet}
+            type="button"
+            role="tab"
+            aria-selected={isActive}
+            disabled={disabled}
+            title={loaded[sheet] ? `Table ${loaded[sheet]}` : "Load this sheet"}
+            onClick={() => {
+              if (!isActive) onSelect([sheet]);
+            }}
+            className={cn(
+              "shrink-0 rounded-md px-3 py-1 text-xs transition-colors disabled:opacity-50",
+              isActive
+                ? "bg-background font-medium text-foreground shadow-xs"
+                : "text-muted-foreground hover:bg-accent hover:text-accent-foreground",
+              !loaded[sheet] && !isActive && "italic opacity-70",
+            )}
+          >
+            {sheet}
+          </button>
+        );
+      })}
+      {pending.length > 1 && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="ml-auto h-7 text-xs"
+          disabled={disabled}
+          onClick={() => onSelect(pending)}
+        >
+          <Layers className="h-3.5 w-3.5" />
+          Load all
+        </Button>
+      )}
+    </div>
+  );
+});
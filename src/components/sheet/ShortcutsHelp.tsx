@@ -102,6 +102,10 @@ export function ShortcutsHelp({
               <Shortcut name="Copy" kbd={<Kbd keys={[modKey, "C"]} />} />
               <Shortcut name="Paste" kbd={<Kbd keys={[modKey, "V"]} />} />
               <Shortcut name="Cut" kbd={<Kbd keys={[modKey, "X"]} />} />
+              <Shortcut
+                name="Run SQL (console)"
+                kbd={<Kbd keys={[modKey, "Enter"]} />}
+              />
             </div>
           </div>
 
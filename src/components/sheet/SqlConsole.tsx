@@ -0,0 +1,694 @@
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type KeyboardEvent as ReactKeyboardEvent,
+  type MouseEvent as ReactMouseEvent,
+  type RefObject,
+} from "react";
+import {
+  ChevronRight,
+  History,
+  Loader2,
+  PanelBottom,
+  PanelRight,
+  Play,
+  RefreshCw,
+  Save,
+  Square,
+  Table2,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/components/ui/toast-provider";
+import { DataGrid } from "./DataGrid";
+import {
+  useQueryResultPages,
+  type QueryResultPayload,
+} from "@/hooks/useQueryResultPages";
+import {
+  useDuckDBTables,
+  type DuckDBTableSummary,
+} from "@/hooks/useDuckDBTables";
+import { escapeIdentifier, isValidTableName } from "@/lib/duckdb-utils";
+import {
+  SQL_KEYWORDS,
+  tokenizeSql,
+  type SqlTokenKind,
+} from "@/lib/sqlHighlight";
+import {
+  addQueryToHistory,
+  readQueryHistory,
+  writeQueryHistory,
+  type QueryHistoryEntry,
+} from "@/lib/queryHistory";
+import { logger } from "@/lib/logger";
+import { cn } from "@/lib/utils";
+
+export type SqlConsoleDock = "bottom" | "right";
+
+type RunStatus =
+  | { kind: "idle" }
+  | { kind: "running"; startedAt: number }
+  | { kind: "done"; elapsedMs: number; rowCount: number }
+  | { kind: "failed"; error: string }
+  | { kind: "cancelled" };
+
+const SIZE_STORAGE_KEY = "sheet.sql.size";
+const DEFAULT_SIZE: Record<SqlConsoleDock, number> = {
+  bottom: 320,
+  right: 560,
+};
+const MIN_SIZE = 180;
+
+const TOKEN_CLASSES: Record<SqlTokenKind, string> = {
+  keyword: "font-semibold text-sky-700 dark:text-sky-400",
+  function: "text-violet-700 dark:text-violet-400",
+  identifier: "text-foreground",
+  quoted: "text-foreground",
+  string: "text-emerald-700 dark:text-emerald-400",
+  number: "text-amber-700 dark:text-amber-400",
+  comment: "italic text-muted-foreground",
+  operator: "text-pink-700 dark:text-pink-400",
+  whitespace: "",
+  other: "text-foreground",
+};
+
+/** Bare identifiers stay readable; anything else is double-quoted. */
+const sqlIdentifier = (name: string) =>
+  /^[a-z_][a-z0-9_]*$/.test(name) && !SQL_KEYWORDS.has(name.toUpperCase())
+    ? name
+    : escapeIdentifier(name);
+
+const formatElapsed = (ms: number) =>
+  ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(2)} s`;
+
+const readStoredSizes = (): Record<SqlConsoleDock, number> => {
+  if (typeof window === "undefined") return DEFAULT_SIZE;
+  try {
+    const saved = JSON.parse(
+      window.localStorage.getItem(SIZE_STORAGE_KEY) ?? "{}",
+    ) as Partial<Record<SqlConsoleDock, unknown>>;
+    return {
+      bottom:
+        typeof saved.bottom === "number" ? saved.bottom : DEFAULT_SIZE.bottom,
+      right: typeof saved.right === "number" ? saved.right : DEFAULT_SIZE.right,
+    };
+  } catch {
+    return DEFAULT_SIZE;
+  }
+};
+
+async function readError(response: Response): Promise<string> {
+  const payload = (await response.json().catch(() => null)) as {
+    error?: unknown;
+  } | null;
+  return typeof payload?.error === "string"
+    ? payload.error
+    : `Request failed (${response.status})`;
+}
+
+/**
+ * Textarea over a highlighted copy of its own text. Both layers share font,
+ * padding and wrapping, and the copy follows the textarea's scroll.
+ */
+function SqlEditor({
+  value,
+  onChange,
+  onRun,
+  textareaRef,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  onRun: () => void;
+  textareaRef: RefObject<HTMLTextAreaElement | null>;
+}) {
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const tokens = useMemo(() => tokenizeSql(value), [value]);
+
+  const handleKeyDown = (e: ReactKeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      onRun();
+      return;
+    }
+    if (e.key === "Tab" && !e.shiftKey) {
+      e.preventDefault();
+      const target = e.currentTarget;
+      target.setRangeText(
+        "  ",
+        target.selectionStart,
+        target.selectionEnd,
+        "end",
+      );
+      onChange(target.value);
+    }
+  };
+
+  const layer =
+    "m-0 whitespace-pre-wrap break-words p-3 font-mono text-xs leading-5";
+
+  return (
+    <div className="relative h-full min-h-0 overflow-hidden rounded-md border bg-muted/20 focus-within:ring-1 focus-within:ring-ring">
+      <pre
+        ref={highlightRef}
+        aria-hidden="true"
+        className={cn(layer, "pointer-events-none absolute inset-0")}
+      >
+        {tokens.map((token, i) => (
+          <span key={i} className={TOKEN_CLASSES[token.kind]}>
+            {token.text}
+          </span>
+        ))}
+        {/* Keep a trailing newline visible so both layers have equal height. */}
+        {"\n"}
+      </pre>
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onScroll={(e) => {
+          const pre = highlightRef.current;
+          if (!pre) return;
+          pre.scrollTop = e.currentTarget.scrollTop;
+          pre.scrollLeft = e.currentTarget.scrollLeft;
+        }}
+        spellCheck={false}
+        autoCapitalize="off"
+        autoComplete="off"
+        aria-label="SQL query"
+        placeholder="SELECT * FROM …"
+        className={cn(
+          layer,
+          "absolute inset-0 h-full w-full resize-none overflow-auto bg-transparent text-transparent caret-foreground outline-none placeholder:text-muted-foreground selection:bg-primary/25 selection:text-transparent",
+        )}
+      />
+    </div>
+  );
+}
+
+function TableList({
+  tables,
+  isLoading,
+  onInsert,
+  onRefresh,
+}: {
+  tables: DuckDBTableSummary[];
+  isLoading: boolean;
+  onInsert: (text: string) => void;
+  onRefresh: () => void;
+}) {
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set());
+
+  const toggle = (name: string) =>
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+
+  return (
+    <div className="flex min-h-0 w-52 shrink-0 flex-col border-r border-border/60">
+      <div className="flex items-center justify-between px-3 py-1.5 text-xs font-medium text-muted-foreground">
+        <span>Tables</span>
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          onClick={onRefresh}
+          aria-label="Refresh tables"
+          disabled={isLoading}
+        >
+          <RefreshCw
+            className={cn("h-3.5 w-3.5", isLoading && "animate-spin")}
+          />
+        </Button>
+      </div>
+      <ul className="min-h-0 flex-1 overflow-auto pb-2 text-xs" role="tree">
+        {tables.length === 0 && !isLoading && (
+          <li className="px-3 py-1 text-muted-foreground">No tables</li>
+        )}
+        {tables.map((table) => {
+          const isOpen = expanded.has(table.name);
+          return (
+            <li
+              key={table.name}
+              role="treeitem"
+              aria-expanded={isOpen}
+              aria-selected={false}
+            >
+              <div className="flex items-center gap-1 px-1.5">
+                <button
+                  type="button"
+                  className="rounded p-0.5 text-muted-foreground hover:bg-muted"
+                  onClick={() => toggle(table.name)}
+                  aria-label={`${isOpen ? "Hide" : "Show"} columns of ${table.name}`}
+                >
+                  <ChevronRight
+                    className={cn(
+                      "h-3.5 w-3.5 transition-transform",
+                      isOpen && "rotate-90",
+                    )}
+                  />
+                </button>
+                <button
+                  type="button"
+                  className="flex min-w-0 flex-1 items-center gap-1.5 rounded px-1 py-1 text-left hover:bg-muted"
+                  title="Insert table name"
+                  onClick={() => onInsert(sqlIdentifier(table.name))}
+                >
+                  <Table2 className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                  <span className="truncate font-mono">{table.name}</span>
+                  <span className="ml-auto shrink-0 text-[10px] text-muted-foreground">
+                    {table.rowCount.toLocaleString()}
+                  </span>
+                </button>
+              </div>
+              {isOpen && (
+                <ul role="group">
+                  {table.columns.map((column) => (
+                    <li key={column.name} role="treeitem" aria-selected={false}>
+                      <button
+                        type="button"
+                        className="flex w-full items-center gap-2 rounded py-0.5 pl-9 pr-2 text-left hover:bg-muted"
+                        title="Insert column name"
+                        onClick={() => onInsert(sqlIdentifier(column.name))}
+                      >
+                        <span className="truncate font-mono">
+                          {column.name}
+                        </span>
+                        <span className="ml-auto shrink-0 text-[10px] uppercase text-muted-foreground">
+                          {column.type}
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Dockable SQL editor for the DuckDB backend. Queries go through
+ * `/api/db/query`; results render in a read-only `DataGrid` and can be saved
+ * as a table. History is kept in localStorage, so it is per browser.
+ */
+export function SqlConsole({
+  dock,
+  defaultTable,
+  onDockChange,
+  onClose,
+}: {
+  dock: SqlConsoleDock;
+  /** Table the first query selects from when there is no history. */
+  defaultTable: string;
+  onDockChange: (dock: SqlConsoleDock) => void;
+  onClose: () => void;
+}) {
+  const { showToast } = useToast();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [history, setHistory] = useState<QueryHistoryEntry[]>(() =>
+    typeof window === "undefined" ? [] : readQueryHistory(window.localStorage),
+  );
+  const [sql, setSql] = useState(
+    () =>
+      history[0]?.sql ??
+      `SELECT *\nFROM ${sqlIdentifier(defaultTable)}\nLIMIT 100`,
+  );
+  const {
+    tables,
+    isLoading: tablesLoading,
+    refresh: refreshTables,
+  } = useDuckDBTables();
+  const { result, pageError, showResult, loadRange, resizeColumns } =
+    useQueryResultPages();
+  const [status, setStatus] = useState<RunStatus>({ kind: "idle" });
+  const [saveName, setSaveName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [sizes, setSizes] = useState(readStoredSizes);
+  const size = sizes[dock];
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(SIZE_STORAGE_KEY, JSON.stringify(sizes));
+    } catch (error) {
+      logger.warn("SqlConsole: failed to persist panel size", error);
+    }
+  }, [sizes]);
+
+  const rememberRun = useCallback((entry: QueryHistoryEntry) => {
+    setHistory((prev) => {
+      const next = addQueryToHistory(prev, entry);
+      try {
+        writeQueryHistory(window.localStorage, next);
+      } catch (error) {
+        logger.warn("SqlConsole: failed to persist query history", error);
+      }
+      return next;
+    });
+  }, []);
+
+  const insertText = useCallback((text: string) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.focus();
+    textarea.setRangeText(
+      text,
+      textarea.selectionStart,
+      textarea.selectionEnd,
+      "end",
+    );
+    setSql(textarea.value);
+  }, []);
+
+  // Runs the selected text when there is a selection, else the whole editor.
+  const runQuery = useCallback(async () => {
+    const textarea = textareaRef.current;
+    const selected =
+      textarea && textarea.selectionStart !== textarea.selectionEnd
+        ? textarea.value.slice(textarea.selectionStart, textarea.selectionEnd)
+        : "";
+    const query = (selected.trim() ? selected : sql).trim();
+    if (!query) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const startedAt = performance.now();
+    setStatus({ kind: "running", startedAt });
+    try {
+      const response = await fetch("/api/db/query", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sql: query }),
+        signal: controller.signal,
+      });
+      if (!response.ok) throw new Error(await readError(response));
+      const payload = (await response.json()) as QueryResultPayload;
+      const elapsedMs = performance.now() - startedAt;
+      showResult(payload, query);
+      setStatus({ kind: "done", elapsedMs, rowCount: payload.rowCount });
+      rememberRun({
+        sql: query,
+        ranAt: Date.now(),
+        elapsedMs,
+        rowCount: payload.rowCount,
+      });
+    } catch (err) {
+      if (controller.signal.aborted) {
+        setStatus({ kind: "cancelled" });
+        return;
+      }
+      const message = err instanceof Error ? err.message : String(err);
+      setStatus({ kind: "failed", error: message });
+      rememberRun({ sql: query, ranAt: Date.now(), error: message });
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  }, [rememberRun, showResult, sql]);
+
+  // DuckDB's Node binding cannot interrupt a statement, so the server still
+  // finishes it; cancelling only stops waiting for the result.
+  const cancelQuery = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  const saveResult = useCallback(async () => {
+    if (!result || !isValidTableName(saveName)) return;
+    setIsSaving(true);
+    try {
+      const response = await fetch(
+        `/api/db/tables/${encodeURIComponent(saveName)}`,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ sql: result.sql }),
+        },
+      );
+      if (!response.ok) throw new Error(await readError(response));
+      const payload = (await response.json()) as {
+        table: DuckDBTableSummary;
+      };
+      showToast({
+        variant: "success",
+        title: "Table saved",
+        description: `${payload.table.name} has ${payload.table.rowCount.toLocaleString()} rows.`,
+      });
+      setSaveName("");
+      void refreshTables();
+    } catch (err) {
+      showToast({
+        variant: "error",
+        title: "Failed to save table",
+        description: err instanceof Error ? err.message : String(err),
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }, [refreshTables, result, saveName, showToast]);
+
+  const startResize = (e: ReactMouseEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const start = dock === "bottom" ? e.clientY : e.clientX;
+    const startSize = size;
+    const onMove = (ev: MouseEvent) => {
+      const delta = start - (dock === "bottom" ? ev.clientY : ev.clientX);
+      const limit =
+        (dock === "bottom" ? window.innerHeight : window.innerWidth) - MIN_SIZE;
+      const next = Math.min(Math.max(MIN_SIZE, startSize + delta), limit);
+      setSizes((prev) => ({ ...prev, [dock]: next }));
+    };
+    const onUp = () => {
+      window.removeEventListener("mousemove", onMove);
+      window.removeEventListener("mouseup", onUp);
+    };
+    window.addEventListener("mousemove", onMove);
+    window.addEventListener("mouseup", onUp);
+  };
+
+  const isRunning = status.kind === "running";
+  const statusText =
+    status.kind === "running"
+      ? "Running…"
+      : status.kind === "done"
+        ? `${status.rowCount.toLocaleString()} rows in ${formatElapsed(status.elapsedMs)}`
+        : status.kind === "cancelled"
+          ? "Cancelled"
+          : status.kind === "failed"
+            ? "Query failed"
+            : null;
+  const canSave =
+    !!result && isValidTableName(saveName) && !isSaving && !isRunning;
+
+  return (
+    <section
+      aria-label="SQL console"
+      className={cn(
+        "relative flex min-h-0 min-w-0 shrink-0 flex-col border-border/60 bg-background",
+        dock === "bottom" ? "border-t" : "border-l",
+      )}
+      style={dock === "bottom" ? { height: size } : { width: size }}
+    >
+      <div
+        role="separator"
+        aria-orientation={dock === "bottom" ? "horizontal" : "vertical"}
+        aria-label="Resize SQL console"
+        onMouseDown={startResize}
+        className={cn(
+          "absolute z-10 bg-transparent hover:bg-border",
+          dock === "bottom"
+            ? "inset-x-0 -top-0.5 h-1 cursor-row-resize"
+            : "inset-y-0 -left-0.5 w-1 cursor-col-resize",
+        )}
+      />
+      <div className="flex items-center gap-2 border-b border-border/60 px-3 py-1.5">
+        <span className="text-sm font-medium">SQL</span>
+        <Button
+          size="sm"
+          onClick={() => void runQuery()}
+          disabled={isRunning || !sql.trim()}
+          title="Run (Ctrl/Cmd+Enter)"
+        >
+          <Play className="h-3.5 w-3.5" />
+          Run
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={cancelQuery}
+          disabled={!isRunning}
+        >
+          <Square className="h-3.5 w-3.5" />
+          Cancel
+        </Button>
+        {statusText && (
+          <span
+            className={cn(
+              "flex items-center gap-1.5 text-xs",
+              status.kind === "failed"
+                ? "text-destructive"
+                : "text-muted-foreground",
+            )}
+            role="status"
+          >
+            {isRunning && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+            {statusText}
+          </span>
+        )}
+        <div className="ml-auto flex items-center gap-1">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                aria-label="Query history"
+                disabled={history.length === 0}
+              >
+                <History className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="max-w-md">
+              <DropdownMenuLabel>Recent queries</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {history.map((entry) => (
+                <DropdownMenuItem
+                  key={entry.sql}
+                  onSelect={() => setSql(entry.sql)}
+                  className="flex flex-col items-start gap-0.5"
+                >
+                  <span className="w-full truncate font-mono text-xs">
+                    {entry.sql.replace(/\s+/g, " ")}
+                  </span>
+                  <span className="text-[10px] text-muted-foreground">
+                    {new Date(entry.ranAt).toLocaleString()}
+                    {entry.error
+                      ? " · failed"
+                      : entry.elapsedMs != null
+                        ? ` · ${formatElapsed(entry.elapsedMs)}`
+                        : ""}
+                  </span>
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => onDockChange(dock === "bottom" ? "right" : "bottom")}
+            aria-label={
+              dock === "bottom" ? "Dock to the right" : "Dock to the bottom"
+            }
+          >
+            {dock === "bottom" ? (
+              <PanelRight className="h-4 w-4" />
+            ) : (
+              <PanelBottom className="h-4 w-4" />
+            )}
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={onClose}
+            aria-label="Close SQL console"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex min-h-0 flex-1">
+        <TableList
+          tables={tables}
+          isLoading={tablesLoading}
+          onInsert={insertText}
+          onRefresh={() => void refreshTables()}
+        />
+        <div className="flex min-h-0 min-w-0 flex-1 flex-col gap-2 p-2">
+          <div className="h-32 shrink-0">
+            <SqlEditor
+              value={sql}
+              onChange={setSql}
+              onRun={() => void runQuery()}
+              textareaRef={textareaRef}
+            />
+          </div>
+          {pageError && status.kind !== "failed" && (
+            <p className="shrink-0 text-xs text-destructive" role="alert">
+              {pageError}
+            </p>
+          )}
+          {status.kind === "failed" && (
+            <pre className="max-h-24 shrink-0 overflow-auto whitespace-pre-wrap rounded-md border border-destructive/40 bg-destructive/5 p-2 font-mono text-xs text-destructive">
+              {status.error}
+            </pre>
+          )}
+          <form
+            className="flex shrink-0 items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              void saveResult();
+            }}
+          >
+            <Input
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              placeholder="new_table"
+              aria-label="New table name"
+              aria-invalid={saveName !== "" && !isValidTableName(saveName)}
+              className="h-8 w-44 font-mono text-xs"
+              disabled={!result}
+            />
+            <Button
+              type="submit"
+              size="sm"
+              variant="secondary"
+              disabled={!canSave}
+            >
+              <Save className="h-3.5 w-3.5" />
+              Save result as table
+            </Button>
+          </form>
+          <div className="min-h-0 flex-1 overflow-hidden rounded-md border">
+            {result ? (
+              <DataGrid
+                key={result.id}
+                columns={result.columns}
+                rows={result.rows}
+                totalRows={result.rowCount}
+                rowHeight={28}
+                readOnly
+                ariaLabel="Query results"
+                onRangeChange={loadRange}
+                onColumnsResize={resizeColumns}
+              />
+            ) : (
+              <p className="p-4 text-xs text-muted-foreground">
+                Run a query to see its results here.
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+}
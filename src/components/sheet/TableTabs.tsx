@@ -0,0 +1,250 @@
+import { memo, useState, type KeyboardEvent } from "react";
+import { Table2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  ContextMenu,
+  ContextMenuItem,
+  ContextMenuSeparator,
+} from "@/components/ui/context-menu";
+import type { DuckDBTableSummary } from "@/hooks/useDuckDBTables";
+import { isValidTableName } from "@/lib/duckdb-utils";
+import { cn } from "@/lib/utils";
+
+interface TableTabsProps {
+  tables: DuckDBTableSummary[];
+  activeTable: string;
+  disabled?: boolean;
+  onSelect: (table: string) => void;
+  onRename: (from: string, to: string) => Promise<void>;
+  onDrop: (table: string) => Promise<void>;
+}
+
+const describeTable = (table: DuckDBTableSummary) =>
+  [
+    table.description,
+    table.source ? `Source: ${table.source}` : null,
+    `${table.rowCount.toLocaleString()} rows, ${table.columns.length} columns`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+/**
+ * Tab strip over every DuckDB table. Click switches the grid to a table;
+ * double-click or F2 renames it in place and the context menu (or Delete)
+ * drops it after a confirmation. The last table cannot be dropped.
+ */
+export const TableTabs = memo(function TableTabs({
+  tables,
+  activeTable,
+  disabled,
+  onSelect,
+  onRename,
+  onDrop,
+}: TableTabsProps) {
+  const [menu, setMenu] = useState<{ x: number; y: number; table: string }>();
+  const [renaming, setRenaming] = useState<{ table: string; draft: string }>();
+  const [confirmDrop, setConfirmDrop] = useState<string>();
+  const [isBusy, setIsBusy] = useState(false);
+  const canDrop = tables.length > 1;
+
+  const startRename = (table: string) => {
+    setConfirmDrop(undefined);
+    setRenaming({ table, draft: table });
+  };
+  const startDrop = (table: string) => {
+    if (!canDrop) return;
+    setRenaming(undefined);
+    setConfirmDrop(table);
+  };
+
+  const commitRename = async () => {
+    if (!renaming) return;
+    const draft = renaming.draft.trim();
+    if (draft === renaming.table) {
+      setRenaming(undefined);
+      return;
+    }
+    if (!isValidTableName(draft)) return;
+    setIsBusy(true);
+    try {
+      await onRename(renaming.table, draft);
+      setRenaming(undefined);
+    } catch {
+      // The caller reports the failure; keep the editor open to retry.
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const commitDrop = async (table: string) => {
+    setIsBusy(true);
+    try {
+      await onDrop(table);
+    } catch {
+      // Reported by the caller.
+    } finally {
+      setIsBusy(false);
+      setConfirmDrop(undefined);
+    }
+  };
+
+  const handleTabKeyDown = (e: KeyboardEvent, table: string) => {
+    if (e.key === "F2") {
+      e.preventDefault();
+      startRename(table);
+    } else if (e.key === "Delete") {
+      e.preventDefault();
+      startDrop(table);
+    }
+  };
+
+  return (
+    <div
+      role="tablist"
+      aria-label="Tables"
+      className="flex items-center gap-1 border-t border-border/50 bg-muted/20 px-2 sm:px-4 py-1 overflow-x-auto"
+    >
+      {tables.map((table) => {
+        const isActive = table.name === activeTable;
+        if (renaming?.table === table.name) {
+          const invalid = !isValidTableName(renaming.draft.trim());
+          return (
+            <Input
+              key={table.name}
+              autoFocus
+              value={renaming.draft}
+              readOnly={isBusy}
+              aria-label={`New name for ${table.name}`}
+              aria-invalid={invalid}
+              title={
+                invalid ? "Use letters, digits and underscores" : undefined
+              }
+              className="h-7 w-40 shrink-0 text-xs"
+              onChange={(e) =>
+                setRenaming({ table: table.name, draft: e.target.value })
+              }
+              onBlur={() => {
+                if (!isBusy) setRenaming(undefined);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  void commitRename();
+                } else if (e.key === "Escape") {
+                  e.preventDefault();
+                  setRenaming(undefined);
+                }
+              }}
+            />
+          );
+        }
+        if (confirmDrop === table.name) {
+          return (
+            <div
+              key={table.name}
+              className="flex shrink-0 items-center gap-1 rounded-md bg-background px-2 py-0.5 text-xs shadow-xs"
+              onKeyDown={(e) => {
+                if (e.key === "Escape") setConfirmDrop(undefined);
+              }}
+            >
+              <span>Drop {table.name}?</span>
+              <Button
+                autoFocus
+                variant="destructive"
+                size="sm"
+                className="h-6 px-2 text-xs"
+                disabled={isBusy}
+                onClick={() => void commitDrop(table.name)}
+              >
+                Drop
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs"
+                disabled={isBusy}
+                onClick={() => setConfirmDrop(undefined)}
+              >
+                Cancel
+              </Button>
+            </div>
+          );
+        }
+        return (
+          <button
+            key={table.name}
+            type="button"
+            role="tab"
+            aria-selected={isActive}
+            disabled={disabled}
+            title={describeTable(table)}
+            onClick={() => {
+              if (!isActive) onSelect(table.name);
+            }}
+            onDoubleClick={() => startRename(table.name)}
+            onKeyDown={(e) => handleTabKeyDown(e, table.name)}
+            onContextMenu={(e) => {
+              e.preventDefault();
+              setMenu({
+                x: Math.min(e.clientX, window.innerWidth - 8),
+                y: Math.min(e.clientY, window.innerHeight - 8),
+                table: table.name,
+              });
+            }}
+            className={cn(
+              "flex shrink-0 items-center gap-1.5 rounded-md px-3 py-1 text-xs transition-colors disabled:opacity-50",
+              isActive
+                ? "bg-background font-medium text-foreground shadow-xs"
+                : "text-muted-foreground hover:bg-accent hover:text-accent-foreground",
+            )}
+          >
+            <Table2 className="h-3.5 w-3.5 shrink-0 opacity-70" />
+            <span>{table.name}</span>
+            <span className="font-mono text-[10px] text-muted-foreground">
+              {table.rowCount.toLocaleString()}×{table.columns.length}
+            </span>
+          </button>
+        );
+      })}
+      <ContextMenu
+        open={menu !== undefined}
+        x={menu?.x ?? 0}
+        y={menu?.y ?? 0}
+        onClose={() => setMenu(undefined)}
+      >
+        <div className="px-3 py-2 text-xs font-medium text-muted-foreground border-b border-border/50">
+          {menu?.table}
+        </div>
+        <ContextMenuItem
+          disabled={disabled || menu?.table === activeTable}
+          onSelect={() => {
+            if (menu) onSelect(menu.table);
+            setMenu(undefined);
+          }}
+        >
+          Open
+        </ContextMenuItem>
+        <ContextMenuSeparator />
+        <ContextMenuItem
+          onSelect={() => {
+            if (menu) startRename(menu.table);
+            setMenu(undefined);
+          }}
+        >
+          Rename…
+        </ContextMenuItem>
+        <ContextMenuItem
+          disabled={!canDrop}
+          className="text-destructive"
+          onSelect={() => {
+            if (menu) startDrop(menu.table);
+            setMenu(undefined);
+          }}
+        >
+          Drop table…
+        </ContextMenuItem>
+      </ContextMenu>
+    </div>
+  );
+});
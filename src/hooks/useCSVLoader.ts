@@ -3,11 +3,47 @@ import { DEFAULT_DUCKDB_TABLE } from "@/constants/duckdb";
 import type { ColumnDef } from "@/lib/csv";
 import { parseCSVFile } from "@/lib/csvParser";
 import { parseExcelFile } from "@/lib/excelParser";
-import { isExcelFile } from "@/lib/validators";
+import {
+  NATIVE_FORMAT_LABELS,
+  getNativeDataFormat,
+  isExcelFile,
+} from "@/lib/validators";
 import { csvEvent } from "@/lib/perf";
 import { useToast } from "@/components/ui/toast-provider";
 import { sanitizeTableName } from "@/lib/duckdb-utils";
 import { logger } from "@/lib/logger";
+import type { SortKeys } from "@/lib/sort";
+import type { CsvImportOptions } from "@/lib/csvDialect";
+import {
+  applySchemaOperation,
+  previewCast,
+  remapColumnKeys,
+  remapColumnRecord,
+  resolveSchemaOperation,
+  schemaIndexMapper,
+  toFormulaColumns,
+  type CastPreview,
+  type SchemaOperation,
+} from "@/lib/schemaOps";
+import {
+  compileComputedColumns,
+  fillComputedCells,
+  type ComputedColumn,
+} from "@/lib/formulaEval";
+import {
+  applyRowOperation,
+  invertRowOperation,
+  type RowCopies,
+  type RowOperation,
+  type RowOperationResult,
+} from "@/lib/rowOps";
+import { profileValues, type ColumnProfile } from "@/lib/columnProfile";
+import {
+  computePivot,
+  parsePivotSpec,
+  type PivotResult,
+  type PivotSpec,
+} from "@/lib/pivot";
 
 const MAX_BUFFER_SIZE = 10000;
 const MAX_FILE_SIZE = 500 * 1024 * 1024;
@@ -34,6 +70,12 @@ function createWorker(path: string, fallbackName: string): Worker | null {
 const csvWorkerFactory = () => createWorker("/workers/csv-worker.js", "CSV");
 const tableWorkerFactory = () =>
   createWorker("/workers/table-worker.js", "DuckDB table");
+const formulaWorkerFactory = () =>
+  createWorker("/workers/formula-worker.js", "Formula");
+const profileWorkerFactory = () =>
+  createWorker("/workers/profile-worker.js", "Profile");
+const pivotWorkerFactory = () =>
+  createWorker("/workers/pivot-worker.js", "Pivot");
 
 type DuckDBSource = {
   type: "duckdb";
@@ -41,24 +83,35 @@ type DuckDBSource = {
   batchSize?: number;
   url?: string;
   file?: File;
+  /** Worksheets to load from an Excel source, each into its own table. */
+  sheets?: string[];
+  /** CSV dialect chosen in the import dialog; DuckDB sniffs when unset. */
+  csvOptions?: CsvImportOptions;
 };
 
 type CSVSource = {
   type?: "csv";
   url?: string;
   file?: File;
+  csvOptions?: CsvImportOptions;
 };
 
 type LoadSource = DuckDBSource | CSVSource;
 
-type TableWorkerColumn = { name: string; type: string };
+type TableWorkerColumn = { name: string; type: string; formula?: string };
+
+const toColumnDef = (col: TableWorkerColumn): ColumnDef => ({
+  name: col.name,
+  dataType: col.type,
+  ...(col.formula ? { formula: col.formula } : {}),
+});
 
 type TableWorkerResponse =
   | { type: "ready"; columns?: TableWorkerColumn[]; rowCount?: number }
   | {
       type: "rows";
       requestId: number;
-      rows: Array<{ index: number; values: string[] }>;
+      rows: Array<{ index: number; values: string[]; id: number }>;
       rowCount?: number;
       columns?: TableWorkerColumn[];
     }
@@ -83,9 +136,106 @@ type CsvWorkerMessage =
   | CsvWorkerAbortedMessage
   | CsvWorkerErrorMessage;
 
+type FormulaWorkerMessage =
+  | { type: "values"; columns: Array<{ index: number; values: string[] }> }
+  | { type: "error"; message: string };
+
+/**
+ * Fill the computed cells of client rows, in a worker when one can be
+ * started. Returns `rows` itself when there are no computed columns.
+ */
+async function computeFormulaRows(
+  columns: ColumnDef[],
+  rows: string[][],
+): Promise<string[][]> {
+  const formulaColumns = toFormulaColumns(columns);
+  const computed = compileComputedColumns(formulaColumns);
+  if (computed.length === 0) return rows;
+  const worker = formulaWorkerFactory();
+  if (!worker) {
+    return rows.map((row) => (row ? fillComputedCells(row, computed) : row));
+  }
+  try {
+    const results = await new Promise<
+      Array<{ index: number; values: string[] }>
+    >((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<FormulaWorkerMessage>) => {
+        if (event.data.type === "values") resolve(event.data.columns);
+        else reject(new Error(event.data.message));
+      };
+      worker.onerror = (event) =>
+        reject(new Error(event.message || "Formula worker failed"));
+      worker.postMessage({ columns: formulaColumns, rows });
+    });
+    return rows.map((row, rowIndex) => {
+      if (!row) return row;
+      const next = row.slice();
+      for (const { index, values } of results) {
+        next[index] = values[rowIndex] ?? "";
+      }
+      return next;
+    });
+  } finally {
+    worker.terminate();
+  }
+}
+
+type ProfileWorkerMessage =
+  | { type: "profile"; profile: ColumnProfile }
+  | { type: "error"; message: string };
+
+/** Profile client cells, in a worker when one can be started. */
+async function profileCells(
+  column: string,
+  cells: Array<string | undefined>,
+): Promise<ColumnProfile> {
+  const worker = profileWorkerFactory();
+  if (!worker) return profileValues(column, cells);
+  try {
+    return await new Promise<ColumnProfile>((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<ProfileWorkerMessage>) => {
+        if (event.data.type === "profile") resolve(event.data.profile);
+        else reject(new Error(event.data.message));
+      };
+      worker.onerror = (event) =>
+        reject(new Error(event.message || "Profile worker failed"));
+      worker.postMessage({ column, cells });
+    });
+  } finally {
+    worker.terminate();
+  }
+}
+
+type PivotWorkerMessage =
+  | { type: "pivot"; pivot: PivotResult }
+  | { type: "error"; message: string };
+
+/** Pivot client rows, in a worker when one can be started. */
+async function pivotRows(
+  spec: PivotSpec,
+  columns: string[],
+  rows: string[][],
+): Promise<PivotResult> {
+  const worker = pivotWorkerFactory();
+  if (!worker) return computePivot(spec, columns, rows);
+  try {
+    return await new Promise<PivotResult>((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<PivotWorkerMessage>) => {
+        if (event.data.type === "pivot") resolve(event.data.pivot);
+        else reject(new Error(event.data.message));
+      };
+      worker.onerror = (event) =>
+        reject(new Error(event.message || "Pivot worker failed"));
+      worker.postMessage({ spec, columns, rows });
+    });
+  } finally {
+    worker.terminate();
+  }
+}
+
 type MutatePayload = {
   table: string;
-  updates: Array<{ rowIndex: number; column: string; value: string }>;
+  updates: Array<{ rowId: number; column: string; value: string }>;
 };
 
 const mutateTable = async (payload: MutatePayload) => {
@@ -100,6 +250,93 @@ const mutateTable = async (payload: MutatePayload) => {
   }
 };
 
+// `/api/db/schema`, `/api/db/profile`, `/api/db/pivot` and row operations on
+// `/api/db/mutate` answer errors as `{ error }`.
+const requestJSON = async <T>(input: string, init?: RequestInit) => {
+  const response = await fetch(input, init);
+  const payload = (await response.json().catch(() => null)) as
+    | (T & { error?: string })
+    | null;
+  if (!response.ok || !payload) {
+    throw new Error(payload?.error ?? `Request failed (${response.status})`);
+  }
+  return payload;
+};
+
+type LoadedTable = {
+  table?: string;
+  columns?: Array<{ name: string; type?: string; formula?: string }>;
+  rowCount?: number;
+  sheet?: string;
+  workbookSheets?: string[];
+};
+
+type LoadJobStatus = {
+  id: string;
+  state: "queued" | "fetching" | "parsing" | "done" | "failed" | "cancelled";
+  bytes: number;
+  totalBytes?: number;
+  rows: number;
+  results?: LoadedTable[];
+  error?: string;
+};
+
+const LOAD_JOB_POLL_MS = 500;
+
+/**
+ * Poll `/api/db/load/jobs/:id` until the job finishes, reporting progress
+ * along the way. Polling starts before the POST that creates the job (so
+ * uploads show progress), so a 404 just means "not yet".
+ */
+function watchLoadJob(
+  jobId: string,
+  signal: AbortSignal,
+  onStatus: (job: LoadJobStatus) => void,
+): Promise<LoadJobStatus> {
+  return new Promise((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const onAbort = () => {
+      if (timer) clearTimeout(timer);
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+    const tick = async () => {
+      try {
+        const response = await fetch(`/api/db/load/jobs/${jobId}`, {
+          signal,
+        });
+        if (response.ok) {
+          const { job } = (await response.json()) as { job: LoadJobStatus };
+          onStatus(job);
+          if (
+            job.state === "done" ||
+            job.state === "failed" ||
+            job.state === "cancelled"
+          ) {
+            signal.removeEventListener("abort", onAbort);
+            resolve(job);
+            return;
+          }
+        }
+      } catch (error) {
+        if (signal.aborted) return;
+        logger.warn("useCSVLoader: load job poll failed", error);
+      }
+      if (!signal.aborted) timer = setTimeout(tick, LOAD_JOB_POLL_MS);
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+    timer = setTimeout(tick, LOAD_JOB_POLL_MS);
+  });
+}
+
+// Aborting the request alone would leave the server-side job running.
+function cancelLoadJob(jobId: string) {
+  void fetch(`/api/db/load/jobs/${jobId}`, { method: "DELETE" }).catch(
+    (error) => {
+      logger.warn("useCSVLoader: failed to cancel load job", error);
+    },
+  );
+}
+
 export interface CSVLoaderState {
   columns: ColumnDef[];
   rows: string[][];
@@ -109,6 +346,16 @@ export interface CSVLoaderState {
   rowCount: number;
   isChunked: boolean;
   loadedRowIndices: number[];
+  isDuckDB: boolean;
+}
+
+/** Sheets of the Excel workbook behind the current DuckDB dataset. */
+export interface WorkbookState {
+  source: { url?: string; file?: File };
+  sheets: string[];
+  /** Sheet name → DuckDB table, for sheets loaded so far. */
+  tables: Record<string, string>;
+  activeSheet: string;
 }
 
 export function useCSVLoader() {
@@ -121,13 +368,24 @@ export function useCSVLoader() {
     rowCount: 0,
     isChunked: false,
     loadedRowIndices: [],
+    isDuckDB: false,
   });
   useEffect(() => {
     columnsRef.current = state.columns;
   }, [state.columns]);
+  useEffect(() => {
+    rowsRef.current = state.rows;
+  }, [state.rows]);
   const { showToast } = useToast();
+  const [workbook, setWorkbook] = useState<WorkbookState | null>(null);
+  const workbookRef = useRef<WorkbookState | null>(null);
+  useEffect(() => {
+    workbookRef.current = workbook;
+  }, [workbook]);
   const workerRef = useRef<Worker | null>(null);
   const duckdbAbortRef = useRef<AbortController | null>(null);
+  /** Server-side load job in flight, cancelled along with the request. */
+  const duckdbJobRef = useRef<string | null>(null);
   const duckdbClientRef = useRef<{
     worker: Worker;
     chunkSize: number;
@@ -139,8 +397,34 @@ export function useCSVLoader() {
     >;
   } | null>(null);
   const duckdbLoadedRowsRef = useRef<Set<number>>(new Set());
+  /** Table row id of each loaded view row, which edits address. */
+  const duckdbRowIdsRef = useRef<Map<number, number>>(new Map());
   const duckdbTableRef = useRef<string>(DEFAULT_DUCKDB_TABLE);
+  // Filters and sort survive dataset reloads so the worker starts on the
+  // same view the sheet (and its URL) describes.
+  const duckdbViewRef = useRef<{
+    filters: Record<number, string>;
+    sort: SortKeys;
+  }>({ filters: {}, sort: [] });
   const columnsRef = useRef<ColumnDef[]>([]);
+  const rowsRef = useRef<string[][]>([]);
+  // Client-mode formulas, compiled once per column set; DuckDB tables
+  // compute their own.
+  const computedColumnsRef = useRef<{
+    columns: ColumnDef[];
+    computed: ComputedColumn[];
+  }>({ columns: [], computed: [] });
+  const clientComputedColumns = useCallback((): ComputedColumn[] => {
+    if (duckdbClientRef.current) return [];
+    const columns = columnsRef.current;
+    if (computedColumnsRef.current.columns !== columns) {
+      computedColumnsRef.current = {
+        columns,
+        computed: compileComputedColumns(toFormulaColumns(columns)),
+      };
+    }
+    return computedColumnsRef.current.computed;
+  }, []);
   const ensureRangeRef = useRef<
     ((start: number, end: number) => Promise<void>) | null
   >(null);
@@ -155,9 +439,27 @@ export function useCSVLoader() {
   const pendingWritesRef = useRef(0);
   const [pendingWrites, setPendingWrites] = useState(0);
 
+  // Edits and history address rows by id: the table row id in DuckDB mode
+  // (unknown until the row is loaded), the row's index otherwise. DuckDB ids
+  // never change; client row operations shift the indexes after them.
+  const rowIdAt = useCallback(
+    (rowIndex: number): number | undefined =>
+      duckdbClientRef.current
+        ? duckdbRowIdsRef.current.get(rowIndex)
+        : rowIndex,
+    [],
+  );
+  const rowIndexOf = useCallback((rowId: number): number => {
+    if (!duckdbClientRef.current) return rowId;
+    for (const [index, id] of duckdbRowIdsRef.current) {
+      if (id === rowId) return index;
+    }
+    return -1;
+  }, []);
+
   const persistDuckDBUpdates = useCallback(
     async (
-      mutations: Array<{ rowIndex: number; colIndex: number; value: string }>,
+      mutations: Array<{ rowId: number; colIndex: number; value: string }>,
     ) => {
       if (!duckdbClientRef.current || mutations.length === 0) return;
       const columns = columnsRef.current;
@@ -165,15 +467,15 @@ export function useCSVLoader() {
       pendingWritesRef.current += 1;
       setPendingWrites(pendingWritesRef.current);
       const updates = mutations
-        .map(({ rowIndex, colIndex, value }) => {
+        .map(({ rowId, colIndex, value }) => {
           const columnName = columns[colIndex]?.name;
           if (!columnName) return null;
-          return { rowIndex, column: columnName, value };
+          return { rowId, column: columnName, value };
         })
         .filter(
           (
             update,
-          ): update is { rowIndex: number; column: string; value: string } =>
+          ): update is { rowId: number; column: string; value: string } =>
             update !== null,
         );
       if (updates.length === 0) {
@@ -189,7 +491,10 @@ export function useCSVLoader() {
           pendingWritesRef.current = Math.max(0, pendingWritesRef.current - 1);
           setPendingWrites(pendingWritesRef.current);
         });
-      const affectedRows = updates.map((update) => update.rowIndex);
+      const affectedRows = updates
+        .map((update) => rowIndexOf(update.rowId))
+        .filter((row) => row >= 0);
+      if (affectedRows.length === 0) return;
       duckdbClientRef.current.worker.postMessage({
         type: "invalidate",
         rows: affectedRows,
@@ -201,18 +506,24 @@ export function useCSVLoader() {
         await ensureRangeRef.current(Math.max(0, min), max);
       }
     },
-    [],
+    [rowIndexOf],
   );
 
   // Undo/Redo support
   type CellMutation = {
-    rowIndex: number;
+    rowId: number;
     colIndex: number;
     prev: string;
     next: string;
   };
-  const undoStackRef = useRef<CellMutation[][]>([]);
-  const redoStackRef = useRef<CellMutation[][]>([]);
+  // A row insert, duplicate or delete and the operation that reverts it.
+  // Running either one yields the other anew (a delete makes a new copy).
+  type RowStep = { redo: RowOperation; undo: RowOperation };
+  type HistoryStep = CellMutation[] | RowStep;
+  const undoStackRef = useRef<HistoryStep[]>([]);
+  const redoStackRef = useRef<HistoryStep[]>([]);
+  // Rows deleted in client mode, for undo (DuckDB keeps its own copies).
+  const rowCopiesRef = useRef<RowCopies>(new Map());
   const [historyCounts, setHistoryCounts] = useState({ undo: 0, redo: 0 });
   const COALESCE_WINDOW_MS = 600;
   const pendingUndoGroupRef = useRef<CellMutation[] | null>(null);
@@ -260,24 +571,26 @@ export function useCSVLoader() {
   }, []);
 
   const applyMutationsToState = useCallback(
-    (
-      mutations: Array<{ rowIndex: number; colIndex: number; value: string }>,
-    ) => {
+    (mutations: Array<{ rowId: number; colIndex: number; value: string }>) => {
+      const computed = clientComputedColumns();
       setState((prev) => {
         const nextRows = prev.rows.slice();
-        for (const { rowIndex, colIndex, value } of mutations) {
+        for (const { rowId, colIndex, value } of mutations) {
+          // Rows that are not loaded pick the change up from the server.
+          const rowIndex = rowIndexOf(rowId);
+          if (rowIndex < 0) continue;
           if (nextRows.length <= rowIndex) nextRows.length = rowIndex + 1;
           const row = nextRows[rowIndex]
             ? nextRows[rowIndex]!.slice()
             : ([] as string[]);
           if (colIndex >= row.length) row.length = colIndex + 1;
           row[colIndex] = value ?? "";
-          nextRows[rowIndex] = row;
+          nextRows[rowIndex] = fillComputedCells(row, computed);
         }
         return { ...prev, rows: nextRows };
       });
     },
-    [],
+    [clientComputedColumns, rowIndexOf],
   );
 
   const cleanupWorker = useCallback((worker: Worker | null) => {
@@ -340,19 +653,24 @@ export function useCSVLoader() {
       flushCoalescedUndo();
       undoStackRef.current = [];
       redoStackRef.current = [];
+      rowCopiesRef.current.clear();
       setHistoryCounts({ undo: 0, redo: 0 });
       const isDuckDB = source.type === "duckdb";
       const progressUnit: "bytes" | "rows" = isDuckDB ? "rows" : "bytes";
 
-      // OPTIMIZATION: Force DuckDB for large files (>5MB) or Excel files
+      // OPTIMIZATION: Force DuckDB for large files (>5MB) or Excel files.
+      // Parquet, JSON and Arrow are only readable by DuckDB.
       if (!isDuckDB && source.file) {
         const FORCE_DUCKDB_SIZE = 5 * 1024 * 1024; // 5MB
         const isExcel = isExcelFile(source.file.name);
-
-        if (source.file.size > FORCE_DUCKDB_SIZE || isExcel) {
-          const reason = isExcel
-            ? "Excel files"
-            : `Files larger than ${(FORCE_DUCKDB_SIZE / 1024 / 1024).toFixed(0)}MB`;
+        const nativeFormat = getNativeDataFormat(source.file.name);
+
+        if (source.file.size > FORCE_DUCKDB_SIZE || isExcel || nativeFormat) {
+          const reason = nativeFormat
+            ? `${NATIVE_FORMAT_LABELS[nativeFormat]} files`
+            : isExcel
+              ? "Excel files"
+              : `Files larger than ${(FORCE_DUCKDB_SIZE / 1024 / 1024).toFixed(0)}MB`;
           showToast({
             title: "Using database mode",
             description: `${reason} are automatically loaded into DuckDB for better performance.`,
@@ -375,6 +693,7 @@ export function useCSVLoader() {
             rowCount: 0,
             isChunked: false,
             loadedRowIndices: [],
+            isDuckDB: false,
           });
           return;
         }
@@ -396,6 +715,7 @@ export function useCSVLoader() {
               rowCount: 0,
               isChunked: false,
               loadedRowIndices: [],
+              isDuckDB: false,
             });
             return;
           }
@@ -420,6 +740,7 @@ export function useCSVLoader() {
             rowCount: 0,
             isChunked: false,
             loadedRowIndices: [],
+            isDuckDB: false,
           });
           return;
         }
@@ -434,6 +755,7 @@ export function useCSVLoader() {
         rowCount: 0,
         isChunked: isDuckDB,
         loadedRowIndices: [],
+        isDuckDB,
       });
 
       if (workerRef.current) {
@@ -453,6 +775,10 @@ export function useCSVLoader() {
         duckdbAbortRef.current.abort();
         duckdbAbortRef.current = null;
       }
+      if (duckdbJobRef.current) {
+        cancelLoadJob(duckdbJobRef.current);
+        duckdbJobRef.current = null;
+      }
 
       if (duckdbClientRef.current) {
         cleanupWorker(duckdbClientRef.current.worker);
@@ -460,17 +786,38 @@ export function useCSVLoader() {
       }
 
       duckdbLoadedRowsRef.current = new Set();
+      duckdbRowIdsRef.current = new Map();
       ensureRangeRef.current = null;
 
       if (isDuckDB) {
         const duckdbSource = source as DuckDBSource;
-        const table = sanitizeTableName(duckdbSource.table);
+        let table = sanitizeTableName(duckdbSource.table);
         duckdbTableRef.current = table;
         const datasetUrl =
           typeof duckdbSource.url === "string"
             ? duckdbSource.url.trim()
             : undefined;
         const file = duckdbSource.file;
+        const sheets = duckdbSource.sheets ?? [];
+        // Switching to an already-loaded sheet keeps the workbook tabs;
+        // any other dataset replaces them once its load response arrives.
+        const currentWorkbook = workbookRef.current;
+        const sameWorkbook =
+          currentWorkbook !== null &&
+          (file || datasetUrl
+            ? (file !== undefined && file === currentWorkbook.source.file) ||
+              (datasetUrl !== undefined &&
+                datasetUrl === currentWorkbook.source.url)
+            : Object.values(currentWorkbook.tables).includes(table));
+        if (!sameWorkbook) setWorkbook(null);
+        else if (!file && !datasetUrl) {
+          const sheet = Object.entries(currentWorkbook.tables).find(
+            ([, name]) => name === table,
+          )?.[0];
+          if (sheet) {
+            setWorkbook({ ...currentWorkbook, activeSheet: sheet });
+          }
+        }
         const chunkSize =
           duckdbSource.batchSize && duckdbSource.batchSize > 0
             ? Math.floor(duckdbSource.batchSize)
@@ -483,6 +830,7 @@ export function useCSVLoader() {
             error: "DuckDB table worker unavailable",
             isLoading: false,
             isChunked: false,
+            isDuckDB: false,
           }));
           return;
         }
@@ -500,6 +848,7 @@ export function useCSVLoader() {
         duckdbClientRef.current = client;
         duckdbTableRef.current = table;
         duckdbLoadedRowsRef.current = new Set();
+        duckdbRowIdsRef.current = new Map();
 
         worker.onerror = (event: ErrorEvent) => {
           logger.error(
@@ -528,10 +877,7 @@ export function useCSVLoader() {
                   ...prev,
                   columns:
                     data.columns && data.columns.length > 0
-                      ? data.columns.map((col) => ({
-                          name: col.name,
-                          dataType: col.type,
-                        }))
+                      ? data.columns.map(toColumnDef)
                       : prev.columns,
                   rowCount:
                     typeof data.rowCount === "number" &&
@@ -547,14 +893,14 @@ export function useCSVLoader() {
               const pending = active.pending.get(data.requestId);
               if (pending) active.pending.delete(data.requestId);
               const hasPending = active.pending.size > 0;
+              for (const entry of data.rows) {
+                duckdbRowIdsRef.current.set(entry.index, entry.id);
+              }
 
               setState((prev) => {
                 const incomingColumns =
                   data.columns && data.columns.length > 0
-                    ? data.columns.map((col) => ({
-                        name: col.name,
-                        dataType: col.type,
-                      }))
+                    ? data.columns.map(toColumnDef)
                     : prev.columns;
                 const previousRowCount =
                   prev.rowCount > 0 ? prev.rowCount : prev.rows.length;
@@ -649,41 +995,115 @@ export function useCSVLoader() {
         if (datasetUrl || file) {
           const controller = new AbortController();
           duckdbAbortRef.current = controller;
+          const jobId = crypto.randomUUID();
           try {
+            duckdbJobRef.current = jobId;
+            const jobDone = watchLoadJob(jobId, controller.signal, (job) => {
+              setState((prev) => ({
+                ...prev,
+                progress: {
+                  loaded: job.bytes,
+                  total: job.totalBytes,
+                  unit: "bytes",
+                },
+              }));
+            });
+            // Settled below or by the abort; keep an early failure from
+            // going unhandled.
+            jobDone.catch(() => undefined);
             let response: Response;
-            if (file) {
+            if (file && !datasetUrl) {
+              // The raw body streams to the server's temp dir; multipart
+              // would be buffered in memory first.
+              const params = new URLSearchParams({
+                jobId,
+                table,
+                name: file.name,
+              });
+              for (const sheet of sheets) params.append("sheet", sheet);
+              if (duckdbSource.csvOptions) {
+                params.set(
+                  "csvOptions",
+                  JSON.stringify(duckdbSource.csvOptions),
+                );
+              }
+              response = await fetch(`/api/db/load?${params.toString()}`, {
+                method: "POST",
+                headers: { "Content-Type": "application/octet-stream" },
+                body: file,
+                signal: controller.signal,
+              });
+            } else if (file) {
               const form = new FormData();
               form.append("table", table);
               form.append("file", file, file.name);
               if (datasetUrl) form.append("url", datasetUrl);
-              response = await fetch("/api/db/load", {
+              for (const sheet of sheets) form.append("sheet", sheet);
+              if (duckdbSource.csvOptions) {
+                form.append(
+                  "csvOptions",
+                  JSON.stringify(duckdbSource.csvOptions),
+                );
+              }
+              response = await fetch(`/api/db/load?jobId=${jobId}`, {
                 method: "POST",
                 body: form,
                 signal: controller.signal,
               });
             } else {
-              response = await fetch("/api/db/load", {
+              response = await fetch(`/api/db/load?jobId=${jobId}`, {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ table, url: datasetUrl }),
+                body: JSON.stringify({
+                  table,
+                  url: datasetUrl,
+                  sheets: sheets.length > 0 ? sheets : undefined,
+                  csvOptions: duckdbSource.csvOptions,
+                }),
                 signal: controller.signal,
               });
             }
 
             if (!response.ok) {
+              controller.abort();
               const detail = await response.text().catch(() => "");
               throw new Error(
                 detail || `DuckDB load failed (${response.status})`,
               );
             }
-            const payload = (await response.json()) as {
-              columns?: Array<{ name: string; type?: string }>;
-              rowCount?: number;
-            };
+            const job = await jobDone;
+            if (job.state !== "done") {
+              throw new Error(job.error ?? "DuckDB load was cancelled");
+            }
+            // Several sheets come back together; show the first one.
+            const loaded = job.results ?? [];
+            const payload = loaded[0] ?? {};
+            if (typeof payload.table === "string") {
+              table = sanitizeTableName(payload.table);
+              client.table = table;
+              duckdbTableRef.current = table;
+            }
+            if (payload.workbookSheets && payload.sheet) {
+              const tables: Record<string, string> = sameWorkbook
+                ? { ...currentWorkbook.tables }
+                : {};
+              for (const entry of loaded) {
+                if (entry.sheet && entry.table) {
+                  tables[entry.sheet] = entry.table;
+                }
+              }
+              setWorkbook({
+                source: { url: datasetUrl, file },
+                sheets: payload.workbookSheets,
+                tables,
+                activeSheet: payload.sheet,
+              });
+            }
             if (Array.isArray(payload.columns) && payload.columns.length > 0) {
               initialColumnsMeta = payload.columns.map((col) => ({
                 name: col?.name ?? "",
                 type: typeof col?.type === "string" ? col.type : "",
+                ...(col?.formula ? { formula: col.formula } : {}),
               }));
             }
             if (
@@ -696,10 +1116,7 @@ export function useCSVLoader() {
               ...prev,
               columns:
                 initialColumnsMeta && initialColumnsMeta.length > 0
-                  ? initialColumnsMeta.map((col) => ({
-                      name: col.name,
-                      dataType: col.type,
-                    }))
+                  ? initialColumnsMeta.map(toColumnDef)
                   : prev.columns,
               rowCount:
                 typeof initialRowCount === "number"
@@ -724,6 +1141,7 @@ export function useCSVLoader() {
             }
             duckdbClientRef.current = null;
             duckdbLoadedRowsRef.current = new Set();
+            duckdbRowIdsRef.current = new Map();
             ensureRangeRef.current = null;
             if (error instanceof DOMException && error.name === "AbortError") {
               setState((prev) => ({ ...prev, isLoading: false }));
@@ -741,6 +1159,7 @@ export function useCSVLoader() {
             return;
           } finally {
             duckdbAbortRef.current = null;
+            if (duckdbJobRef.current === jobId) duckdbJobRef.current = null;
           }
         } else {
           duckdbAbortRef.current = null;
@@ -752,6 +1171,8 @@ export function useCSVLoader() {
           chunkSize,
           columns: initialColumnsMeta,
           rowCount: initialRowCount,
+          filters: duckdbViewRef.current.filters,
+          sort: duckdbViewRef.current.sort,
         });
 
         ensureRangeRef.current = (start: number, end: number) => {
@@ -920,6 +1341,7 @@ export function useCSVLoader() {
               url: source.url,
               file: source.file,
               batchSize: 2000,
+              csvOptions: source.csvOptions,
             });
             return;
           }
@@ -936,7 +1358,11 @@ export function useCSVLoader() {
           });
 
           // Convert to DuckDB source and reload
-          return loadSource({ type: "duckdb", url: source.url });
+          return loadSource({
+            type: "duckdb",
+            url: source.url,
+            csvOptions: source.csvOptions,
+          });
         }
 
         let result;
@@ -946,7 +1372,7 @@ export function useCSVLoader() {
           if (isExcelFile(file.name)) {
             result = await parseExcelFile(file);
           } else {
-            result = await parseCSVFile(file);
+            result = await parseCSVFile(file, source.csvOptions);
           }
           setState((prev) => ({
             ...prev,
@@ -980,6 +1406,7 @@ export function useCSVLoader() {
           rowCount: result.rows.length,
           isChunked: false,
           loadedRowIndices,
+          isDuckDB: false,
         });
       } catch (error) {
         logger.error("CSV loading error:", error);
@@ -1021,11 +1448,16 @@ export function useCSVLoader() {
       duckdbAbortRef.current.abort();
       duckdbAbortRef.current = null;
     }
+    if (duckdbJobRef.current) {
+      cancelLoadJob(duckdbJobRef.current);
+      duckdbJobRef.current = null;
+    }
     if (duckdbClientRef.current) {
       cleanupWorker(duckdbClientRef.current.worker);
       duckdbClientRef.current = null;
     }
     duckdbLoadedRowsRef.current = new Set();
+    duckdbRowIdsRef.current = new Map();
     ensureRangeRef.current = null;
     setState((prev) => ({ ...prev, isLoading: false }));
   }, [flushStreamingRows, cleanupWorker]);
@@ -1036,6 +1468,7 @@ export function useCSVLoader() {
     flushCoalescedUndo();
     undoStackRef.current = [];
     redoStackRef.current = [];
+    rowCopiesRef.current.clear();
     setHistoryCounts({ undo: 0, redo: 0 });
     setState({
       columns: [],
@@ -1046,6 +1479,7 @@ export function useCSVLoader() {
       rowCount: 0,
       isChunked: false,
       loadedRowIndices: [],
+      isDuckDB: false,
     });
     if (workerRef.current) {
       cleanupWorker(workerRef.current);
@@ -1058,56 +1492,354 @@ export function useCSVLoader() {
       duckdbClientRef.current = null;
     }
     duckdbLoadedRowsRef.current = new Set();
+    duckdbRowIdsRef.current = new Map();
     ensureRangeRef.current = null;
   }, [flushCoalescedUndo, flushStreamingRows, cleanupWorker]);
 
-  const setFiltersAndSort = useCallback(
-    async (
-      filters: Record<number, string>,
-      sort?: { colIndex: number; dir: "asc" | "desc" },
-    ) => {
-      const client = duckdbClientRef.current;
-      if (!client) return;
+  // Re-read the DuckDB view from the top; `resetChunks` also drops pages
+  // the worker cached for the same filters and sort.
+  const refetchDuckDBView = useCallback(async (resetChunks = false) => {
+    const client = duckdbClientRef.current;
+    if (!client) return;
+
+    const columns = columnsRef.current;
+    const { filters, sort } = duckdbViewRef.current;
+
+    if (resetChunks) client.worker.postMessage({ type: "reset" });
+    client.worker.postMessage({
+      type: "init",
+      table: duckdbTableRef.current,
+      chunkSize: client.chunkSize,
+      columns: columns.map((col) => ({
+        name: col.name,
+        type: col.dataType ?? "",
+        ...(col.formula ? { formula: col.formula } : {}),
+      })),
+      filters,
+      sort,
+    });
 
-      const columns = columnsRef.current;
+    duckdbLoadedRowsRef.current = new Set();
+    duckdbRowIdsRef.current = new Map();
+
+    setState((prev) => ({
+      ...prev,
+      // Keep the length so the grid doesn't collapse while the first chunk
+      // of the new view is fetched, but drop rows from the old ordering.
+      rows: new Array<string[]>(prev.rows.length),
+      isLoading: true,
+      isChunked: true,
+      loadedRowIndices: [],
+    }));
 
-      client.worker.postMessage({
-        type: "init",
-        table: duckdbTableRef.current,
-        chunkSize: client.chunkSize,
-        columns: columns.map((col) => ({
-          name: col.name,
-          type: col.dataType ?? "",
-        })),
-        filters,
-        sort,
-      });
+    if (ensureRangeRef.current) {
+      try {
+        await ensureRangeRef.current(0, client.chunkSize - 1);
+      } catch (error) {
+        logger.error("Failed to fetch filtered data:", error);
+      }
+    }
+  }, []);
 
-      duckdbLoadedRowsRef.current = new Set();
+  const setFiltersAndSort = useCallback(
+    async (filters: Record<number, string>, sort: SortKeys = []) => {
+      duckdbViewRef.current = { filters, sort };
+      await refetchDuckDBView();
+    },
+    [refetchDuckDBView],
+  );
 
-      setState((prev) => ({
-        ...prev,
-        isLoading: true,
-        loadedRowIndices: [],
-      }));
+  /**
+   * Add, drop, rename, move or retype a column, or define a computed one.
+   * DuckDB tables are altered on the server and re-read; client rows are
+   * transformed in place and their computed cells re-evaluated. Edit
+   * history is cleared because it addresses cells by column index. Returns
+   * the old → new column index mapping so callers can move their own
+   * index-keyed state.
+   */
+  const alterSchema = useCallback(
+    async (requested: SchemaOperation) => {
+      const operation = resolveSchemaOperation(
+        toFormulaColumns(columnsRef.current),
+        requested,
+      );
+      const mapIndex = schemaIndexMapper(
+        columnsRef.current.map((col) => col.name),
+        operation,
+      );
+      if (duckdbClientRef.current) {
+        const { columns } = await requestJSON<{
+          columns: TableWorkerColumn[];
+        }>("/api/db/schema", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ table: duckdbTableRef.current, operation }),
+        });
+        const nextColumns = columns.map(toColumnDef);
+        columnsRef.current = nextColumns;
+        const { filters, sort } = duckdbViewRef.current;
+        duckdbViewRef.current = {
+          filters: remapColumnRecord(filters, mapIndex),
+          sort: remapColumnKeys(sort, mapIndex),
+        };
+        setState((prev) => ({ ...prev, columns: nextColumns }));
+        await refetchDuckDBView(true);
+      } else {
+        const next = applySchemaOperation(
+          columnsRef.current,
+          rowsRef.current,
+          operation,
+        );
+        const rows = await computeFormulaRows(next.columns, next.rows);
+        columnsRef.current = next.columns;
+        rowsRef.current = rows;
+        setState((prev) => ({ ...prev, columns: next.columns, rows }));
+      }
+      flushCoalescedUndo();
+      undoStackRef.current = [];
+      redoStackRef.current = [];
+      rowCopiesRef.current.clear();
+      setHistoryCounts({ undo: 0, redo: 0 });
+      return mapIndex;
+    },
+    [flushCoalescedUndo, refetchDuckDBView],
+  );
 
-      if (ensureRangeRef.current) {
+  /**
+   * Insert, duplicate or delete rows (see `RowOperation`). DuckDB tables
+   * change on the server and the view is re-read; client rows are spliced
+   * and inserted ones get their computed cells.
+   */
+  const runRowOperation = useCallback(
+    async (operation: RowOperation): Promise<RowOperationResult> => {
+      if (duckdbClientRef.current) {
+        pendingWritesRef.current += 1;
+        setPendingWrites(pendingWritesRef.current);
         try {
-          await ensureRangeRef.current(0, client.chunkSize - 1);
-        } catch (error) {
-          logger.error("Failed to fetch filtered data:", error);
+          const { rowIds, copy } = await requestJSON<RowOperationResult>(
+            "/api/db/mutate",
+            {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({
+                table: duckdbTableRef.current,
+                operation,
+              }),
+            },
+          );
+          await refetchDuckDBView(true);
+          return { rowIds, copy };
+        } finally {
+          pendingWritesRef.current = Math.max(0, pendingWritesRef.current - 1);
+          setPendingWrites(pendingWritesRef.current);
+        }
+      }
+      const { rows, result } = applyRowOperation(
+        rowsRef.current,
+        operation,
+        columnsRef.current.length,
+        rowCopiesRef.current,
+      );
+      if (operation.op === "insert") {
+        const computed = clientComputedColumns();
+        for (const id of result.rowIds) {
+          rows[id] = fillComputedCells(rows[id]!, computed);
         }
       }
+      rowsRef.current = rows;
+      setState((prev) => ({ ...prev, rows, rowCount: rows.length }));
+      return result;
+    },
+    [clientComputedColumns, refetchDuckDBView],
+  );
+
+  /** Run a row operation as a new undo step. */
+  const changeRows = useCallback(
+    async (operation: RowOperation) => {
+      flushCoalescedUndo();
+      const result = await runRowOperation(operation);
+      if (result.rowIds.length === 0) return;
+      undoStackRef.current.push({
+        redo: operation,
+        undo: invertRowOperation(operation, result),
+      });
+      redoStackRef.current = [];
+      setHistoryCounts({ undo: undoStackRef.current.length, redo: 0 });
+    },
+    [flushCoalescedUndo, runRowOperation],
+  );
+
+  // Row ids of grid rows (absolute indexes in client mode), skipping rows
+  // that are not loaded.
+  const rowIdsAt = useCallback(
+    (rowIndexes: number[]) =>
+      rowIndexes.map(rowIdAt).filter((id): id is number => id !== undefined),
+    [rowIdAt],
+  );
+
+  /** Insert one blank row per given row, above the first or below the last. */
+  const insertRows = useCallback(
+    async (rowIndexes: number[], position: "above" | "below") => {
+      const rowIds = rowIdsAt(rowIndexes);
+      if (rowIds.length === 0) return;
+      await changeRows({
+        op: "insert",
+        rows: rowIds.map(() => []),
+        anchor:
+          position === "above"
+            ? { rowId: rowIds[0]!, side: "above" }
+            : { rowId: rowIds[rowIds.length - 1]!, side: "below" },
+      });
+    },
+    [changeRows, rowIdsAt],
+  );
+
+  /** Copy each given row to just below itself. */
+  const duplicateRows = useCallback(
+    async (rowIndexes: number[]) => {
+      const rowIds = rowIdsAt(rowIndexes);
+      if (rowIds.length > 0) await changeRows({ op: "duplicate", rowIds });
+    },
+    [changeRows, rowIdsAt],
+  );
+
+  const deleteRows = useCallback(
+    async (rowIndexes: number[]) => {
+      const rowIds = rowIdsAt(rowIndexes);
+      if (rowIds.length > 0) await changeRows({ op: "delete", rowIds });
+    },
+    [changeRows, rowIdsAt],
+  );
+
+  /** How many values of a column would fail a change to `type`. */
+  const previewColumnCast = useCallback(
+    async (colIndex: number, type: string): Promise<CastPreview> => {
+      const column = columnsRef.current[colIndex];
+      if (!column) throw new Error(`Unknown column ${colIndex}`);
+      if (!duckdbClientRef.current) {
+        return previewCast(
+          rowsRef.current.map((row) => row?.[colIndex]),
+          type,
+        );
+      }
+      const params = new URLSearchParams({
+        table: duckdbTableRef.current,
+        column: column.name,
+        type,
+      });
+      const { preview } = await requestJSON<{ preview: CastPreview }>(
+        `/api/db/schema?${params.toString()}`,
+      );
+      return preview;
     },
     [],
   );
 
+  /**
+   * Summary statistics of a column over the current view. Client mode
+   * profiles the given absolute rows (all rows when unset); DuckDB tables
+   * apply the view's filters server-side.
+   */
+  const profileColumn = useCallback(
+    async (colIndex: number, rowIndexes?: number[]): Promise<ColumnProfile> => {
+      const column = columnsRef.current[colIndex];
+      if (!column) throw new Error(`Unknown column ${colIndex}`);
+      if (!duckdbClientRef.current) {
+        const rows = rowsRef.current;
+        const cells = rowIndexes
+          ? rowIndexes.map((index) => rows[index]?.[colIndex])
+          : rows.map((row) => row?.[colIndex]);
+        return profileCells(column.name, cells);
+      }
+      const params = new URLSearchParams({
+        table: duckdbTableRef.current,
+        column: column.name,
+      });
+      const { filters } = duckdbViewRef.current;
+      if (Object.keys(filters).length > 0) {
+        params.set("filters", JSON.stringify(filters));
+      }
+      const { profile } = await requestJSON<{ profile: ColumnProfile }>(
+        `/api/db/profile?${params.toString()}`,
+      );
+      return profile;
+    },
+    [],
+  );
+
+  /**
+   * Aggregate the current view as a pivot. Client mode pivots the given
+   * absolute rows (all rows when unset); DuckDB tables apply `filters`
+   * server-side.
+   */
+  const runPivot = useCallback(
+    async (
+      spec: PivotSpec,
+      filters: Record<number, string>,
+      rowIndexes?: number[],
+    ) => {
+      const names = columnsRef.current.map((column) => column.name);
+      if (!duckdbClientRef.current) {
+        const rows = rowsRef.current;
+        return pivotRows(
+          parsePivotSpec(spec, names),
+          names,
+          rowIndexes
+            ? rowIndexes.flatMap((index) => (rows[index] ? [rows[index]] : []))
+            : rows,
+        );
+      }
+      const { pivot } = await requestJSON<{ pivot: PivotResult }>(
+        "/api/db/pivot",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            table: duckdbTableRef.current,
+            spec,
+            filters,
+          }),
+        },
+      );
+      return pivot;
+    },
+    [],
+  );
+
+  /** Show a workbook sheet, loading it into DuckDB on first use. */
+  const loadWorkbookSheets = useCallback(
+    (sheets: string[]) => {
+      const current = workbookRef.current;
+      if (!current || sheets.length === 0) return Promise.resolve();
+      const first = sheets[0]!;
+      const pending = sheets.filter((sheet) => !current.tables[sheet]);
+      if (sheets.length === 1 && current.tables[first]) {
+        return loadSource({ type: "duckdb", table: current.tables[first] });
+      }
+      return loadSource({
+        type: "duckdb",
+        ...current.source,
+        sheets: pending.length > 0 ? pending : [first],
+      });
+    },
+    [loadSource],
+  );
+
   return {
     ...state,
     loadSource,
     reset,
     cancel,
     setFiltersAndSort,
+    alterSchema,
+    insertRows,
+    duplicateRows,
+    deleteRows,
+    previewColumnCast,
+    profileColumn,
+    runPivot,
+    workbook,
+    loadWorkbookSheets,
     currentTable: duckdbTableRef.current,
     ensureRange: (start: number, end: number) =>
       ensureRangeRef.current
@@ -1120,51 +1852,96 @@ export function useCSVLoader() {
     undo: async () => {
       // Ensure pending coalesced edits become a committed undo step
       flushCoalescedUndo();
-      const tx = undoStackRef.current.pop();
-      if (!tx || tx.length === 0) return;
-      const mutations = tx.map(({ rowIndex, colIndex, prev }) => ({
-        rowIndex,
-        colIndex,
-        value: prev ?? "",
-      }));
-      applyMutationsToState(mutations);
-      if (duckdbClientRef.current) {
+      const step = undoStackRef.current.pop();
+      if (!step) return;
+      let undone: HistoryStep = step;
+      if (!Array.isArray(step)) {
         try {
-          await persistDuckDBUpdates(mutations);
+          const result = await runRowOperation(step.undo);
+          undone = {
+            undo: step.undo,
+            redo: invertRowOperation(step.undo, result),
+          };
         } catch (err) {
-          logger.error("DuckDB undo mutation error:", err);
+          // Keep the step so the history still matches the table.
+          undoStackRef.current.push(step);
+          logger.error("Row undo error:", err);
+          setState((prev) => ({
+            ...prev,
+            error: err instanceof Error ? err.message : "Failed to undo",
+          }));
+          return;
+        }
+      } else {
+        if (step.length === 0) return;
+        const mutations = step.map(({ rowId, colIndex, prev }) => ({
+          rowId,
+          colIndex,
+          value: prev ?? "",
+        }));
+        applyMutationsToState(mutations);
+        if (duckdbClientRef.current) {
+          try {
+            await persistDuckDBUpdates(mutations);
+          } catch (err) {
+            logger.error("DuckDB undo mutation error:", err);
+          }
         }
       }
-      redoStackRef.current.push(tx);
+      redoStackRef.current.push(undone);
       setHistoryCounts({
         undo: undoStackRef.current.length,
         redo: redoStackRef.current.length,
       });
     },
     redo: async () => {
-      const tx = redoStackRef.current.pop();
-      if (!tx || tx.length === 0) return;
-      const mutations = tx.map(({ rowIndex, colIndex, next }) => ({
-        rowIndex,
-        colIndex,
-        value: next ?? "",
-      }));
-      applyMutationsToState(mutations);
-      if (duckdbClientRef.current) {
+      const step = redoStackRef.current.pop();
+      if (!step) return;
+      let redone: HistoryStep = step;
+      if (!Array.isArray(step)) {
         try {
-          await persistDuckDBUpdates(mutations);
+          const result = await runRowOperation(step.redo);
+          redone = {
+            redo: step.redo,
+            undo: invertRowOperation(step.redo, result),
+          };
         } catch (err) {
-          logger.error("DuckDB redo mutation error:", err);
+          redoStackRef.current.push(step);
+          logger.error("Row redo error:", err);
+          setState((prev) => ({
+            ...prev,
+            error: err instanceof Error ? err.message : "Failed to redo",
+          }));
+          return;
+        }
+      } else {
+        if (step.length === 0) return;
+        const mutations = step.map(({ rowId, colIndex, next }) => ({
+          rowId,
+          colIndex,
+          value: next ?? "",
+        }));
+        applyMutationsToState(mutations);
+        if (duckdbClientRef.current) {
+          try {
+            await persistDuckDBUpdates(mutations);
+          } catch (err) {
+            logger.error("DuckDB redo mutation error:", err);
+          }
         }
       }
-      undoStackRef.current.push(tx);
+      undoStackRef.current.push(redone);
       setHistoryCounts({
         undo: undoStackRef.current.length,
         redo: redoStackRef.current.length,
       });
     },
     updateCell: (rowIndex: number, colIndex: number, value: string) => {
+      if (columnsRef.current[colIndex]?.formula) return;
+      const rowId = rowIdAt(rowIndex);
+      if (rowId === undefined) return;
       const normalizedValue = value ?? "";
+      const computed = clientComputedColumns();
       let prevValue = "";
       setState((prev) => {
         const nextRows = prev.rows.slice();
@@ -1175,18 +1952,18 @@ export function useCSVLoader() {
         prevValue = row[colIndex] ?? "";
         if (colIndex >= row.length) row.length = colIndex + 1;
         row[colIndex] = normalizedValue;
-        nextRows[rowIndex] = row;
+        nextRows[rowIndex] = fillComputedCells(row, computed);
         return { ...prev, rows: nextRows };
       });
       scheduleCoalescedUndo({
-        rowIndex,
+        rowId,
         colIndex,
         prev: prevValue,
         next: normalizedValue,
       });
       if (duckdbClientRef.current) {
         persistDuckDBUpdates([
-          { rowIndex, colIndex, value: normalizedValue },
+          { rowId, colIndex, value: normalizedValue },
         ]).catch((err) => {
           logger.error("DuckDB mutation error:", err);
           setState((prev) => ({
@@ -1202,10 +1979,14 @@ export function useCSVLoader() {
         (row) => row.map((cell) => cell ?? "") as string[],
       );
       const tx: CellMutation[] = [];
+      const columns = columnsRef.current;
+      const computed = clientComputedColumns();
       setState((prev) => {
         const nextRows = prev.rows.slice();
         for (let rOff = 0; rOff < normalized.length; rOff++) {
           const rIndex = startRow + rOff;
+          const rowId = rowIdAt(rIndex);
+          if (rowId === undefined) continue;
           const src = (normalized[rOff] ?? []) as string[];
           if (nextRows.length <= rIndex) nextRows.length = rIndex + 1;
           const row = nextRows[rIndex]
@@ -1213,30 +1994,31 @@ export function useCSVLoader() {
             : ([] as string[]);
           for (let cOff = 0; cOff < src.length; cOff++) {
             const cIndex = startCol + cOff;
+            if (columns[cIndex]?.formula) continue;
             const prevVal = row[cIndex] ?? "";
             if (cIndex >= row.length) row.length = cIndex + 1;
             row[cIndex] = src[cOff] ?? "";
             tx.push({
-              rowIndex: rIndex,
+              rowId,
               colIndex: cIndex,
               prev: prevVal,
               next: src[cOff] ?? "",
             });
           }
-          nextRows[rIndex] = row;
+          nextRows[rIndex] = fillComputedCells(row, computed);
         }
         return { ...prev, rows: nextRows };
       });
       pushUndo(tx);
       if (duckdbClientRef.current) {
         const mutations: Array<{
-          rowIndex: number;
+          rowId: number;
           colIndex: number;
           value: string;
         }> = [];
         for (const m of tx) {
           mutations.push({
-            rowIndex: m.rowIndex,
+            rowId: m.rowId,
             colIndex: m.colIndex,
             value: m.next,
           });
@@ -1256,6 +2038,8 @@ export function useCSVLoader() {
     clearCells: (cells: Array<{ row: number; col: number }>) => {
       if (cells.length === 0) return;
       const tx: CellMutation[] = [];
+      const columns = columnsRef.current;
+      const computed = clientComputedColumns();
       setState((prev) => {
         const nextRows = prev.rows.slice();
         const touched = new Map<number, number[]>();
@@ -1264,30 +2048,32 @@ export function useCSVLoader() {
           touched.get(row)!.push(col);
         }
         for (const [rIndex, cols] of touched) {
+          const rowId = rowIdAt(rIndex);
+          if (rowId === undefined) continue;
           if (nextRows.length <= rIndex) nextRows.length = rIndex + 1;
           const row = nextRows[rIndex]
             ? nextRows[rIndex]!.slice()
             : ([] as string[]);
           for (const col of cols) {
-            if (col < row.length) {
+            if (col < row.length && !columns[col]?.formula) {
               const prevVal = row[col] ?? "";
               row[col] = "";
               tx.push({
-                rowIndex: rIndex,
+                rowId,
                 colIndex: col,
                 prev: prevVal,
                 next: "",
               });
             }
           }
-          nextRows[rIndex] = row;
+          nextRows[rIndex] = fillComputedCells(row, computed);
         }
         return { ...prev, rows: nextRows };
       });
       pushUndo(tx);
       if (duckdbClientRef.current) {
-        const mutations = tx.map(({ rowIndex, colIndex, next }) => ({
-          rowIndex,
+        const mutations = tx.map(({ rowId, colIndex, next }) => ({
+          rowId,
           colIndex,
           value: next,
         }));
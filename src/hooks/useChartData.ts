@@ -0,0 +1,187 @@
+import { useEffect, useMemo, useState } from "react";
+import { computeChart, type ChartConfig, type ChartData } from "@/lib/chart";
+import { logger } from "@/lib/logger";
+import { MAX_AGGREGATE_RANGES, SelectionModel } from "@/lib/selection";
+import type { SortKeys } from "@/lib/sort";
+import { useDebouncedValue } from "@/lib/useDebouncedValue";
+
+interface UseChartDataOptions {
+  isDuckDB: boolean;
+  table: string;
+  /** Null while the chart panel is closed. */
+  config: ChartConfig | null;
+  /** Column names, in the order of the row cells. */
+  columns: string[];
+  /** Rows as the grid shows them; all of them in client mode. */
+  viewRows: string[][];
+  filters: Record<number, string>;
+  sort: SortKeys;
+  selection: Set<string>;
+  /** Changes whenever table data may have changed (e.g. a save finished). */
+  version?: unknown;
+}
+
+type ChartWorkerMessage =
+  | { type: "chart"; chart: ChartData }
+  | { type: "error"; message: string };
+
+/** Chart client rows, in a worker when one can be started. */
+async function chartRows(
+  config: ChartConfig,
+  columns: string[],
+  rows: string[][],
+): Promise<ChartData> {
+  let worker: Worker;
+  try {
+    worker = new Worker("/workers/chart-worker.js", { type: "module" });
+  } catch (error) {
+    logger.warn("Chart worker unavailable:", error);
+    return computeChart(config, columns, rows);
+  }
+  try {
+    return await new Promise<ChartData>((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<ChartWorkerMessage>) => {
+        if (event.data.type === "chart") resolve(event.data.chart);
+        else reject(new Error(event.data.message));
+      };
+      worker.onerror = (event) =>
+        reject(new Error(event.message || "Chart worker failed"));
+      worker.postMessage({ config, columns, rows });
+    });
+  } finally {
+    worker.terminate();
+  }
+}
+
+/**
+ * Data for the chart panel. Client mode charts the view rows (or the
+ * selected ones) in a worker; DuckDB posts the view and selection to
+ * `/api/db/chart`, which bins and downsamples server-side. `chart` stays
+ * the last one drawn while `isCharting`; `error` is the current one's.
+ */
+export function useChartData({
+  isDuckDB,
+  table,
+  config,
+  columns,
+  viewRows,
+  filters,
+  sort,
+  selection,
+  version,
+}: UseChartDataOptions) {
+  const model = useMemo(() => SelectionModel.fromSet(selection), [selection]);
+  const source = config?.source ?? "view";
+
+  // Client mode: the charted rows, each selected view row once.
+  const localRows = useMemo(() => {
+    if (isDuckDB || !config) return null;
+    if (source === "view") return viewRows;
+    const picked = new Set<number>();
+    for (const range of model.getRanges()) {
+      for (let r = range.r1; r <= range.r2; r++) picked.add(r);
+    }
+    return Array.from(picked)
+      .sort((a, b) => a - b)
+      .flatMap((r) => (viewRows[r] ? [viewRows[r]] : []));
+  }, [isDuckDB, config, source, viewRows, model]);
+
+  const liveKey =
+    isDuckDB && config
+      ? JSON.stringify({
+          table,
+          config,
+          filters,
+          sort,
+          ranges:
+            source === "selection"
+              ? model
+                  .getRanges()
+                  .slice(0, MAX_AGGREGATE_RANGES)
+                  .map(({ r1, r2 }) => ({ r1, r2 }))
+              : undefined,
+        })
+      : null;
+  // Drag-selecting changes the ranges on every move; wait for a pause.
+  const requestKey = useDebouncedValue(liveKey, 250);
+  // The last answer and what it was for: a request key, or the client rows
+  // and config.
+  const [result, setResult] = useState<{
+    key: unknown;
+    config: ChartConfig | null;
+    chart: ChartData | null;
+    error: string | null;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!localRows || !config) return;
+    let cancelled = false;
+    chartRows(config, columns, localRows).then(
+      (chart) => {
+        if (!cancelled)
+          setResult({ key: localRows, config, chart, error: null });
+      },
+      (error: unknown) => {
+        if (cancelled) return;
+        setResult({
+          key: localRows,
+          config,
+          chart: null,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      },
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [localRows, config, columns]);
+
+  useEffect(() => {
+    if (!requestKey) return;
+    const controller = new AbortController();
+    fetch("/api/db/chart", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: requestKey,
+      signal: controller.signal,
+    })
+      .then(async (response) => {
+        const payload = (await response.json().catch(() => null)) as {
+          chart?: ChartData;
+          error?: string;
+        } | null;
+        if (!response.ok || !payload?.chart) {
+          throw new Error(
+            payload?.error ?? `Chart failed (${response.status})`,
+          );
+        }
+        setResult({
+          key: requestKey,
+          config: null,
+          chart: payload.chart,
+          error: null,
+        });
+      })
+      .catch((error: unknown) => {
+        if (controller.signal.aborted) return;
+        logger.warn("useChartData: failed to chart the view", error);
+        setResult({
+          key: requestKey,
+          config: null,
+          chart: null,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    return () => controller.abort();
+  }, [requestKey, version]);
+
+  if (!config) return { chart: null, error: null, isCharting: false };
+  const answered = localRows
+    ? result?.key === localRows && result.config === config
+    : liveKey !== null && requestKey === liveKey && result?.key === liveKey;
+  return {
+    chart: result?.chart ?? null,
+    error: answered ? result!.error : null,
+    isCharting: !answered,
+  };
+}
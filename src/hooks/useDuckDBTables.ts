@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useState } from "react";
+import { logger } from "@/lib/logger";
+
+/** One entry of `GET /api/db/tables`. */
+export interface DuckDBTableSummary {
+  name: string;
+  columns: Array<{ name: string; type: string }>;
+  rowCount: number;
+  source?: string | null;
+  sourceKind?: "file" | "url" | "query" | "sample" | null;
+  loadedAt?: string | null;
+  description?: string | null;
+}
+
+const readError = async (response: Response) => {
+  const payload = (await response.json().catch(() => null)) as {
+    error?: string;
+  } | null;
+  return payload?.error ?? `Request failed (${response.status})`;
+};
+
+/**
+ * The server's table list, plus rename and drop. Both mutations refresh the
+ * list and throw with the server's message when they fail.
+ */
+export function useDuckDBTables({
+  enabled = true,
+}: { enabled?: boolean } = {}) {
+  const [tables, setTables] = useState<DuckDBTableSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/db/tables");
+      if (!response.ok) throw new Error(await readError(response));
+      const payload = (await response.json()) as {
+        tables?: DuckDBTableSummary[];
+      };
+      setTables(Array.isArray(payload.tables) ? payload.tables : []);
+    } catch (error) {
+      logger.warn("useDuckDBTables: failed to list tables", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (enabled) void refresh();
+  }, [enabled, refresh]);
+
+  const renameTable = useCallback(
+    async (from: string, to: string) => {
+      const response = await fetch(
+        `/api/db/tables/${encodeURIComponent(from)}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ name: to }),
+        },
+      );
+      if (!response.ok) throw new Error(await readError(response));
+      await refresh();
+    },
+    [refresh],
+  );
+
+  const dropTable = useCallback(
+    async (name: string) => {
+      const response = await fetch("/api/db/drop", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tables: [name] }),
+      });
+      if (!response.ok) throw new Error(await readError(response));
+      await refresh();
+    },
+    [refresh],
+  );
+
+  return { tables, isLoading, refresh, renameTable, dropTable };
+}
@@ -0,0 +1,144 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { ColumnDef } from "@/lib/csv";
+import { logger } from "@/lib/logger";
+
+const PAGE_SIZE = 500;
+
+/** Body of `POST /api/db/query` and `GET /api/db/query/:id`. */
+export interface QueryResultPayload {
+  id: string;
+  table: string;
+  columns: Array<{ name: string; type: string }>;
+  rowCount: number;
+  elapsedMs: number;
+  offset: number;
+  limit: number;
+  rows: string[][];
+}
+
+export interface QueryResultView {
+  id: string;
+  sql: string;
+  columns: ColumnDef[];
+  rowCount: number;
+  /** Sparse; rows outside the fetched pages are holes. */
+  rows: string[][];
+}
+
+const dropResult = (id: string) => {
+  void fetch(`/api/db/query/${encodeURIComponent(id)}`, {
+    method: "DELETE",
+  }).catch((error) => {
+    logger.warn("useQueryResultPages: failed to drop query result", error);
+  });
+};
+
+/**
+ * Client side of a server query handle: keeps the first page from the run
+ * and fetches further pages as the grid scrolls. Replacing or unmounting a
+ * result drops it on the server.
+ */
+export function useQueryResultPages() {
+  const [result, setResult] = useState<QueryResultView | null>(null);
+  const [pageError, setPageError] = useState<string | null>(null);
+  const resultIdRef = useRef<string | null>(null);
+  const requestedPagesRef = useRef<Set<number>>(new Set());
+
+  useEffect(
+    () => () => {
+      if (resultIdRef.current) dropResult(resultIdRef.current);
+    },
+    [],
+  );
+
+  const showResult = useCallback((payload: QueryResultPayload, sql: string) => {
+    const previous = resultIdRef.current;
+    if (previous && previous !== payload.id) dropResult(previous);
+    resultIdRef.current = payload.id;
+
+    const rows: string[][] = new Array(payload.rowCount);
+    payload.rows.forEach((row, i) => {
+      rows[payload.offset + i] = row;
+    });
+    const requested = new Set<number>();
+    const firstPage = Math.ceil(payload.offset / PAGE_SIZE);
+    const loadedEnd = payload.offset + payload.rows.length;
+    // A short final page still covers the rest of the result.
+    const lastPage =
+      loadedEnd >= payload.rowCount
+        ? Math.ceil(payload.rowCount / PAGE_SIZE) - 1
+        : Math.floor(loadedEnd / PAGE_SIZE) - 1;
+    for (let page = firstPage; page <= lastPage; page++) requested.add(page);
+    requestedPagesRef.current = requested;
+
+    setPageError(null);
+    setResult({
+      id: payload.id,
+      sql,
+      columns: payload.columns.map((column) => ({
+        name: column.name,
+        dataType: column.type,
+        width: 160,
+      })),
+      rowCount: payload.rowCount,
+      rows,
+    });
+  }, []);
+
+  const fetchPage = useCallback(async (id: string, page: number) => {
+    const params = new URLSearchParams({
+      offset: String(page * PAGE_SIZE),
+      limit: String(PAGE_SIZE),
+    });
+    try {
+      const response = await fetch(
+        `/api/db/query/${encodeURIComponent(id)}?${params.toString()}`,
+      );
+      if (resultIdRef.current !== id) return;
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => null)) as {
+          error?: string;
+        } | null;
+        throw new Error(
+          payload?.error ?? `Query page failed (${response.status})`,
+        );
+      }
+      const payload = (await response.json()) as QueryResultPayload;
+      if (resultIdRef.current !== id) return;
+      setResult((prev) => {
+        if (!prev || prev.id !== id) return prev;
+        const rows = prev.rows.slice();
+        payload.rows.forEach((row, i) => {
+          rows[payload.offset + i] = row;
+        });
+        return { ...prev, rows };
+      });
+    } catch (error) {
+      if (resultIdRef.current !== id) return;
+      requestedPagesRef.current.delete(page);
+      setPageError(error instanceof Error ? error.message : String(error));
+    }
+  }, []);
+
+  const loadRange = useCallback(
+    ({ startIndex, endIndex }: { startIndex: number; endIndex: number }) => {
+      const id = resultIdRef.current;
+      if (!id) return;
+      const requested = requestedPagesRef.current;
+      const firstPage = Math.floor(startIndex / PAGE_SIZE);
+      const lastPage = Math.floor(endIndex / PAGE_SIZE);
+      for (let page = firstPage; page <= lastPage; page++) {
+        if (requested.has(page)) continue;
+        requested.add(page);
+        void fetchPage(id, page);
+      }
+    },
+    [fetchPage],
+  );
+
+  const resizeColumns = useCallback((columns: ColumnDef[]) => {
+    setResult((prev) => (prev ? { ...prev, columns } : prev));
+  }, []);
+
+  return { result, pageError, showResult, loadRange, resizeColumns };
+}
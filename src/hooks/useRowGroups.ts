@@ -0,0 +1,102 @@
+import { useEffect, useMemo, useState } from "react";
+import type { ColumnKind } from "@/lib/filterAst";
+import { logger } from "@/lib/logger";
+import { groupViewRows, type RowGroup } from "@/lib/rowGroups";
+import type { SortKeys } from "@/lib/sort";
+
+interface UseRowGroupsOptions {
+  isDuckDB: boolean;
+  table: string;
+  /** Group column indexes, outermost first; empty when not grouped. */
+  groupBy: number[];
+  /** Rows as the grid shows them, already ordered by the group columns. */
+  viewRows: string[][];
+  /** Client-mode column kinds; number columns get per-group sums. */
+  columnKinds: ColumnKind[];
+  filters: Record<number, string>;
+  /** The view's sort keys, led by the group columns. */
+  sort: SortKeys;
+  /** Changes whenever table data may have changed (e.g. a save finished). */
+  version?: unknown;
+}
+
+/**
+ * Group headers for the grid. Client mode scans the view rows; DuckDB asks
+ * `/api/db/groups`, so grouping covers rows that are not loaded. `groups` is
+ * null when not grouped, while the server is working, or on an error.
+ */
+export function useRowGroups({
+  isDuckDB,
+  table,
+  groupBy,
+  viewRows,
+  columnKinds,
+  filters,
+  sort,
+  version,
+}: UseRowGroupsOptions) {
+  const local = useMemo(() => {
+    if (isDuckDB || groupBy.length === 0) return null;
+    try {
+      const totals = columnKinds.map((kind) => kind === "number");
+      return { groups: groupViewRows(viewRows, groupBy, totals), error: null };
+    } catch (error) {
+      return {
+        groups: null,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }, [isDuckDB, groupBy, viewRows, columnKinds]);
+
+  const requestKey =
+    isDuckDB && groupBy.length > 0
+      ? new URLSearchParams({
+          table,
+          groupBy: JSON.stringify(groupBy),
+          filters: JSON.stringify(filters),
+          sort: JSON.stringify(sort),
+        }).toString()
+      : null;
+  // The last answer and the request it was for.
+  const [server, setServer] = useState<{
+    key: string;
+    groups: RowGroup[] | null;
+    error: string | null;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!requestKey) return;
+    const controller = new AbortController();
+    fetch(`/api/db/groups?${requestKey}`, { signal: controller.signal })
+      .then(async (response) => {
+        const payload = (await response.json().catch(() => null)) as {
+          groups?: RowGroup[];
+          error?: string;
+        } | null;
+        if (!response.ok || !payload?.groups) {
+          throw new Error(
+            payload?.error ?? `Grouping failed (${response.status})`,
+          );
+        }
+        setServer({ key: requestKey, groups: payload.groups, error: null });
+      })
+      .catch((error: unknown) => {
+        if (controller.signal.aborted) return;
+        logger.warn("useRowGroups: failed to group rows", error);
+        setServer({
+          key: requestKey,
+          groups: null,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    return () => controller.abort();
+  }, [requestKey, version]);
+
+  if (local) return { ...local, isGrouping: false };
+  const answered = requestKey !== null && server?.key === requestKey;
+  return {
+    groups: answered ? server.groups : null,
+    error: answered ? server.error : null,
+    isGrouping: requestKey !== null && !answered,
+  };
+}
@@ -0,0 +1,105 @@
+import { useEffect, useMemo, useState } from "react";
+import { logger } from "@/lib/logger";
+import { useDebouncedValue } from "@/lib/useDebouncedValue";
+import {
+  computeSelectionStats,
+  MAX_AGGREGATE_RANGES,
+  SelectionModel,
+  type SelectionAggregate,
+} from "@/lib/selection";
+import type { SortKeys } from "@/lib/sort";
+
+interface UseSelectionStatsOptions {
+  isDuckDB: boolean;
+  table: string;
+  /** Rows as the grid shows them; unloaded DuckDB rows are missing. */
+  viewRows: string[][];
+  filters: Record<number, string>;
+  sort: SortKeys;
+  selection: Set<string>;
+  /** Changes whenever table data may have changed (e.g. a save finished). */
+  version?: unknown;
+}
+
+/**
+ * Sum, average, counts, min and max over the selected cells. Loaded rows are
+ * aggregated in place; a DuckDB selection that reaches rows not loaded yet
+ * is sent to `/api/db/aggregate` instead of fetching every chunk. `stats` is
+ * null while the server is working, or when it failed.
+ */
+export function useSelectionStats({
+  isDuckDB,
+  table,
+  viewRows,
+  filters,
+  sort,
+  selection,
+  version,
+}: UseSelectionStatsOptions) {
+  const model = useMemo(() => SelectionModel.fromSet(selection), [selection]);
+
+  const needsServer = useMemo(() => {
+    if (!isDuckDB || model.isEmpty()) return false;
+    if (model.getRanges().length > MAX_AGGREGATE_RANGES) return false;
+    return model.getRanges().some((range) => {
+      for (let r = range.r1; r <= range.r2; r++) {
+        if (viewRows[r] === undefined) return true;
+      }
+      return false;
+    });
+  }, [isDuckDB, model, viewRows]);
+
+  const localStats = useMemo<SelectionAggregate | null>(
+    () =>
+      model.isEmpty() || needsServer
+        ? null
+        : computeSelectionStats(model, viewRows),
+    [model, needsServer, viewRows],
+  );
+
+  // Drag-selecting changes the ranges on every move; wait for a pause.
+  const requestKey = needsServer
+    ? JSON.stringify({ table, filters, sort, ranges: model.getRanges() })
+    : null;
+  const debouncedKey = useDebouncedValue(requestKey, 250);
+  // The last answer and the request it was for; null when it failed.
+  const [serverStats, setServerStats] = useState<{
+    key: string;
+    aggregate: SelectionAggregate | null;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!debouncedKey) return;
+    const controller = new AbortController();
+    fetch("/api/db/aggregate", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: debouncedKey,
+      signal: controller.signal,
+    })
+      .then(async (response) => {
+        const payload = (await response.json().catch(() => null)) as {
+          aggregate?: SelectionAggregate;
+          error?: string;
+        } | null;
+        if (!response.ok || !payload?.aggregate) {
+          throw new Error(
+            payload?.error ?? `Aggregate failed (${response.status})`,
+          );
+        }
+        setServerStats({ key: debouncedKey, aggregate: payload.aggregate });
+      })
+      .catch((error: unknown) => {
+        if (controller.signal.aborted) return;
+        logger.warn("useSelectionStats: failed to aggregate selection", error);
+        setServerStats({ key: debouncedKey, aggregate: null });
+      });
+    return () => controller.abort();
+  }, [debouncedKey, version]);
+
+  const answered = requestKey !== null && serverStats?.key === requestKey;
+  return {
+    stats: localStats ?? (answered ? serverStats.aggregate : null),
+    isAggregating: requestKey !== null && !answered,
+  };
+}
@@ -0,0 +1,103 @@
+import { useCallback, useState } from "react";
+import {
+  EXPORT_FORMATS,
+  downloadBlob,
+  exportFilename,
+  selectionExportSlice,
+  serializeRows,
+  type ExportFormat,
+  type ExportScope,
+} from "@/lib/export";
+import type { SortKeys } from "@/lib/sort";
+
+interface UseSheetExportOptions {
+  isDuckDB: boolean;
+  table: string;
+  columns: { name: string }[];
+  /** Every loaded row (client mode only). */
+  rows: string[][];
+  /** Rows after filters and sort, as shown in the grid (client mode only). */
+  viewRows: string[][];
+  filters: Record<number, string>;
+  sort: SortKeys;
+  selection: Set<string>;
+}
+
+/**
+ * Export the table, the current view or the selection. Client mode
+ * serializes the in-memory rows; DuckDB mode has the server `COPY` the same
+ * view and streams the file back.
+ */
+export function useSheetExport({
+  isDuckDB,
+  table,
+  columns,
+  rows,
+  viewRows,
+  filters,
+  sort,
+  selection,
+}: UseSheetExportOptions) {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const exportData = useCallback(
+    async (format: ExportFormat, scope: ExportScope) => {
+      const filename = exportFilename(table || "export", format);
+      setIsExporting(true);
+      try {
+        if (isDuckDB) {
+          const slice =
+            scope === "selection" ? selectionExportSlice(selection) : null;
+          const response = await fetch("/api/db/export", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              table,
+              format,
+              scope,
+              filters,
+              sort,
+              selection: slice
+                ? { ranges: slice.ranges, columns: slice.columns }
+                : undefined,
+            }),
+          });
+          if (!response.ok) {
+            const detail = await response.text().catch(() => "");
+            throw new Error(detail || `Export failed (${response.status})`);
+          }
+          downloadBlob(await response.blob(), filename);
+          return;
+        }
+
+        if (format === "parquet") {
+          throw new Error("Parquet export requires DuckDB mode");
+        }
+        let names = columns.map((c) => c.name);
+        let source: string[][] = scope === "table" ? rows : viewRows;
+        if (scope === "selection") {
+          const slice = selectionExportSlice(selection);
+          const selected = new Set(selection);
+          names = slice.columns.map((c) => columns[c]?.name ?? `column_${c}`);
+          source = slice.rows.map((r) =>
+            slice.columns.map((c) =>
+              selected.has(`${r}:${c}`) ? (viewRows[r]?.[c] ?? "") : "",
+            ),
+          );
+        }
+        const parts = Array.from(
+          serializeRows(format, names, source, { tableName: table || "data" }),
+        );
+        downloadBlob(
+          new Blob(parts, { type: EXPORT_FORMATS[format].mimeType }),
+          filename,
+        );
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    [isDuckDB, table, columns, rows, viewRows, filters, sort, selection],
+  );
+
+  return { exportData, isExporting };
+}
@@ -1,7 +1,12 @@
 import { useState, useEffect, useCallback } from "react";
 import { logger } from "@/lib/logger";
-
-type SortState = { colIndex: number; dir: "asc" | "desc" } | null;
+import {
+  formatSortParam,
+  normalizeSortKeys,
+  parseSortParam,
+  toggleSortKey,
+  type SortKeys,
+} from "@/lib/sort";
 
 interface UseSheetSortOptions {
   initialSortParam?: string;
@@ -12,39 +17,29 @@ export function useSheetSort({
   initialSortParam,
   onSearchChange,
 }: UseSheetSortOptions = {}) {
-  const readInitialSort = (): SortState => {
+  const readInitialSort = (): SortKeys => {
     try {
       if (typeof initialSortParam === "string") {
-        const [c, d] = initialSortParam.split(":");
-        const col = Number(c);
-        if (Number.isFinite(col) && (d === "asc" || d === "desc")) {
-          return { colIndex: col, dir: d as "asc" | "desc" };
-        }
+        const keys = parseSortParam(initialSortParam);
+        if (keys.length > 0) return keys;
       }
       const saved = localStorage.getItem("sheet.sort");
-      if (saved) {
-        const v = JSON.parse(saved) as SortState;
-        if (
-          v &&
-          Number.isFinite(v.colIndex) &&
-          (v.dir === "asc" || v.dir === "desc")
-        ) {
-          return v;
-        }
-      }
+      // Older sessions stored a single `{ colIndex, dir }` object.
+      if (saved) return normalizeSortKeys(JSON.parse(saved));
     } catch (err) {
       logger.warn("Failed to read initial sort:", err);
     }
-    return null;
+    return [];
   };
 
-  const [sort, setSort] = useState<SortState>(() => readInitialSort());
+  const [sort, setSort] = useState<SortKeys>(() => readInitialSort());
 
   useEffect(() => {
     try {
-      if (sort) localStorage.setItem("sheet.sort", JSON.stringify(sort));
+      if (sort.length > 0)
+        localStorage.setItem("sheet.sort", JSON.stringify(sort));
       else localStorage.removeItem("sheet.sort");
-      const sortParam = sort ? `${sort.colIndex}:${sort.dir}` : null;
+      const sortParam = formatSortParam(sort);
       if (onSearchChange) onSearchChange({ sort: sortParam });
       else if (typeof window !== "undefined") {
         const url = new URL(window.location.href);
@@ -57,13 +52,10 @@ export function useSheetSort({
     }
   }, [sort, onSearchChange]);
 
-  const toggleSort = useCallback((colIndex: number) => {
-    setSort((prev) => {
-      if (!prev || prev.colIndex !== colIndex) return { colIndex, dir: "asc" };
-      if (prev.dir === "asc") return { colIndex, dir: "desc" };
-      return null;
-    });
+  /** `additive` (shift-click) adds or cycles a secondary key. */
+  const toggleSort = useCallback((colIndex: number, additive = false) => {
+    setSort((prev) => toggleSortKey(prev, colIndex, additive));
   }, []);
 
-  return { sort, toggleSort };
+  return { sort, setSort, toggleSort };
 }
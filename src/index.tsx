@@ -1,19 +1,83 @@
 import { serve } from "bun";
+import { unlink } from "node:fs/promises";
 import { join } from "node:path";
 import {
   getTableChunk,
-  getTableColumns,
+  getTableRowCount,
+  getViewColumns,
+  getDistinctValues,
+  profileTableColumn,
+  aggregateTableSelection,
+  pivotTable,
+  chartTable,
+  groupTableRows,
   initDuckDB,
-  runQuery,
+  createQueryResult,
+  getQueryResult,
+  dropQueryResult,
+  isQueryResultTable,
   updateTableCells,
+  mutateTableRows,
+  alterTableSchema,
+  previewColumnCast,
   listTables,
   loadMultipleSources,
-  getTableInfo,
+  listTableDetails,
+  getTableDetails,
+  setTableDescription,
+  renameTable,
+  duplicateTable,
+  createTableFromQuery,
   dropTables,
+  exportTable,
+  listWorkbookSheets,
+  sniffSource,
+  stageUpload,
   type DuckDBCellUpdate,
+  type DuckDBFilter,
+  type DuckDBSelectionRange,
+  type DuckDBSort,
 } from "@/lib/duckdb";
-import { sanitizeTableName } from "@/lib/duckdb-utils";
-import { jsonResponse } from "@/lib/api-helpers";
+import { isValidTableName, sanitizeTableName } from "@/lib/duckdb-utils";
+import { isSupportedFile } from "@/lib/validators";
+import { ReadOnlySqlError } from "@/lib/sqlGuard";
+import {
+  isValidColumnType,
+  parseSchemaOperation,
+  SchemaOperationError,
+} from "@/lib/schemaOps";
+import { parseRowOperation, RowOperationError } from "@/lib/rowOps";
+import {
+  MAX_UPLOAD_BYTES,
+  readJsonBody,
+  readMultipartForm,
+  UploadTooLargeError,
+} from "@/lib/upload";
+import { isLoadJobId, loadJobs, type LoadJobReceive } from "@/lib/load-jobs";
+import {
+  jsonResponse,
+  normalizeFilterMap,
+  parseCsvOptionsParam,
+  parseFiltersParam,
+  parseSheetsParam,
+  parseSortKeysParam,
+  parseGroupByParam,
+} from "@/lib/api-helpers";
+import {
+  EXPORT_FORMATS,
+  exportFilename,
+  isExportFormat,
+  type ExportScope,
+} from "@/lib/export";
+import { normalizeSortKeys } from "@/lib/sort";
+import { MAX_AGGREGATE_RANGES } from "@/lib/selection";
+import { parsePivotSpec, PivotError } from "@/lib/pivot";
+import { ChartError, parseChartConfig } from "@/lib/chart";
+import {
+  groupSortKeys,
+  MAX_GROUP_COLUMNS,
+  RowGroupError,
+} from "@/lib/rowGroups";
 import { responseCache } from "@/lib/response-cache";
 import { TempCleanupService } from "@/lib/temp-cleanup";
 import { logger } from "@/lib/logger";
@@ -31,7 +95,13 @@ if (process.env.NODE_ENV === "production") {
 const workerCodeCache = new Map<string, string>();
 
 async function buildWorker(
-  workerName: "csv-worker" | "table-worker",
+  workerName:
+    | "csv-worker"
+    | "table-worker"
+    | "formula-worker"
+    | "profile-worker"
+    | "pivot-worker"
+    | "chart-worker",
   entrypoint: string,
 ): Promise<Response> {
   try {
@@ -154,8 +224,21 @@ async function serveCompressedStatic(
   return null;
 }
 
+// Cached preview and distinct-value responses for a table that was
+// reloaded, edited, renamed or dropped.
+function invalidateTableResponses(table: string) {
+  responseCache.invalidate(`preview:${table}:`);
+  responseCache.invalidate(`distinct:${table}:`);
+  responseCache.invalidate(`profile:${table}:`);
+  responseCache.invalidate(`groups:${table}:`);
+}
+
 const server = serve({
   port: 6969,
+  // Bun's body limit covers every route, so it has to admit raw uploads,
+  // which stream to disk. JSON and multipart bodies are buffered, so they
+  // are capped as they are read (`readJsonBody`, `readMultipartForm`).
+  maxRequestBodySize: MAX_UPLOAD_BYTES,
   async fetch(request) {
     if (process.env.NODE_ENV === "production") {
       const compressed = await serveCompressedStatic(request);
@@ -175,6 +258,26 @@ const server = serve({
         return buildWorker("table-worker", "./src/workers/tableWorker.ts");
       },
     },
+    "/workers/formula-worker.js": {
+      async GET() {
+        return buildWorker("formula-worker", "./src/workers/formulaWorker.ts");
+      },
+    },
+    "/workers/profile-worker.js": {
+      async GET() {
+        return buildWorker("profile-worker", "./src/workers/profileWorker.ts");
+      },
+    },
+    "/workers/pivot-worker.js": {
+      async GET() {
+        return buildWorker("pivot-worker", "./src/workers/pivotWorker.ts");
+      },
+    },
+    "/workers/chart-worker.js": {
+      async GET() {
+        return buildWorker("chart-worker", "./src/workers/chartWorker.ts");
+      },
+    },
     "/data/sample.csv": {
       async GET() {
         const file = Bun.file("./src/data/sample.csv");
@@ -185,17 +288,76 @@ const server = serve({
     },
     "/api/db/load": {
       async POST(request) {
+        const params = new URL(request.url).searchParams;
+        // Clients may pick the job id so they can poll while still uploading.
+        const jobIdParam = params.get("jobId");
+        if (jobIdParam !== null && !isLoadJobId(jobIdParam)) {
+          return jsonResponse({ error: "Invalid jobId" }, request, {
+            status: 400,
+          });
+        }
+        const jobId = jobIdParam ?? crypto.randomUUID();
+        if (loadJobs.has(jobId)) {
+          return jsonResponse(
+            { error: `Load job ${jobId} already exists` },
+            request,
+            { status: 409 },
+          );
+        }
+        const declaredBytes =
+          Number(request.headers.get("content-length")) || undefined;
         try {
           await initDuckDB();
           const contentType = request.headers.get("content-type") ?? "";
-          let results: Array<{
-            table: string;
-            columns: { name: string; type: string }[];
-            rowCount: number;
-          }> = [];
-
-          if (contentType.includes("application/json")) {
-            const payload = await request.json().catch(() => null);
+          let sources: Parameters<typeof loadMultipleSources>[0] = [];
+          let receive: LoadJobReceive | undefined;
+          // The raw upload once it is on disk, loaded as a local file.
+          let upload: { path: string; name: string } | undefined;
+
+          if (contentType.includes("application/octet-stream")) {
+            // Raw file body: streamed to the temp dir instead of buffered
+            // like multipart, right away rather than when the job's turn
+            // comes. Metadata travels in the query string.
+            const name = params.get("name")?.trim() ?? "";
+            if (!isSupportedFile(name)) {
+              return jsonResponse(
+                {
+                  error: `Unsupported file type: ${name || "(no name)"}. Use CSV, TSV, Excel, Parquet, JSON, NDJSON or Arrow.`,
+                },
+                request,
+                { status: 415 },
+              );
+            }
+            if (!request.body) {
+              return jsonResponse({ error: "Request body is empty" }, request, {
+                status: 400,
+              });
+            }
+            if (declaredBytes && declaredBytes > MAX_UPLOAD_BYTES) {
+              throw new UploadTooLargeError(MAX_UPLOAD_BYTES);
+            }
+            const body = request.body;
+            const staged = { path: "", name };
+            upload = staged;
+            receive = async ({ signal, onBytes }) => {
+              staged.path = await stageUpload(body, name, {
+                size: declaredBytes,
+                signal,
+                onBytes,
+              });
+            };
+            sources = [
+              {
+                source: staged,
+                table: sanitizeTableName(params.get("table")),
+                sheets: parseSheetsParam(
+                  params.get("sheets") === "*" ? "*" : params.getAll("sheet"),
+                ),
+                csvOptions: parseCsvOptionsParam(params.get("csvOptions")),
+              },
+            ];
+          } else if (contentType.includes("application/json")) {
+            const payload = await readJsonBody(request);
             const urls: string[] = Array.isArray(payload?.urls)
               ? payload.urls
                   .map((u: unknown) => String(u))
@@ -208,6 +370,8 @@ const server = serve({
                 ? payload.tablePrefix
                 : undefined;
             const tableName = sanitizeTableName(payload?.table);
+            const sheets = parseSheetsParam(payload?.sheets);
+            const csvOptions = parseCsvOptionsParam(payload?.csvOptions);
 
             if (urls.length === 0 && !singleUrl) {
               return Response.json(
@@ -217,7 +381,7 @@ const server = serve({
             }
 
             const allUrls = [...urls, ...(singleUrl ? [singleUrl] : [])];
-            const sources = allUrls.map((url, i) => {
+            sources = allUrls.map((url, i) => {
               const nameFromUrl = (() => {
                 try {
                   const u = new URL(url);
@@ -231,27 +395,39 @@ const server = serve({
                 allUrls.length === 1
                   ? tableName
                   : sanitizeTableName(`${tablePrefix ?? "t"}_${i + 1}`);
-              return { source: { url, name: nameFromUrl }, table };
+              return {
+                source: { url, name: nameFromUrl },
+                table,
+                sheets,
+                csvOptions,
+              };
             });
-            results = await loadMultipleSources(sources);
           } else if (contentType.includes("multipart/form-data")) {
-            const form = await request.formData();
+            const form = await readMultipartForm(request);
             const tablePrefixRaw = form.get("tablePrefix");
             const tablePrefix =
               typeof tablePrefixRaw === "string" && tablePrefixRaw
                 ? tablePrefixRaw
                 : undefined;
             const singleTable = sanitizeTableName(form.get("table"));
+            const sheets = parseSheetsParam(
+              form.get("sheets") === "*" ? "*" : form.getAll("sheet"),
+            );
+            const csvOptions = parseCsvOptionsParam(form.get("csvOptions"));
 
+            // Accept both `file` (repeatable) and `files` fields
             const files: File[] = [];
-            const fromFile = form.get("file");
-            if (fromFile instanceof File) files.push(fromFile);
-            for (const f of form.getAll("files")) {
+            for (const f of [...form.getAll("file"), ...form.getAll("files")]) {
               if (f instanceof File) files.push(f);
             }
-            // Support repeated 'file' fields
-            for (const f of form.getAll("file")) {
-              if (f instanceof File) files.push(f);
+            const unsupported = files.find((f) => !isSupportedFile(f.name));
+            if (unsupported) {
+              return Response.json(
+                {
+                  error: `Unsupported file type: ${unsupported.name}. Use CSV, TSV, Excel, Parquet, JSON, NDJSON or Arrow.`,
+                },
+                { status: 415 },
+              );
             }
 
             const urls: string[] = [];
@@ -286,6 +462,8 @@ const server = serve({
               return {
                 source: { blob: file, name: file.name },
                 table,
+                sheets,
+                csvOptions,
               } as const;
             });
             const urlSources = urls.map((u, i) => {
@@ -305,13 +483,15 @@ const server = serve({
                   : sanitizeTableName(
                       `${tablePrefix ?? "t"}_${files.length + i + 1}`,
                     );
-              return { source: { url: u, name: nameFromUrl }, table } as const;
+              return {
+                source: { url: u, name: nameFromUrl },
+                table,
+                sheets,
+                csvOptions,
+              } as const;
             });
 
-            results = await loadMultipleSources([
-              ...fileSources,
-              ...urlSources,
-            ]);
+            sources = [...fileSources, ...urlSources];
           } else {
             return Response.json(
               { error: "Unsupported content type" },
@@ -319,6 +499,57 @@ const server = serve({
             );
           }
 
+          loadJobs.submit(
+            jobId,
+            async (context) => {
+              const results = await loadMultipleSources(sources, context);
+              for (const result of results) {
+                invalidateTableResponses(result.table);
+              }
+              return results;
+            },
+            receive,
+          );
+          if (receive) {
+            // The staged upload goes once the job ends, however it ends.
+            void loadJobs.wait(jobId).then(async () => {
+              if (upload?.path) {
+                await unlink(upload.path).catch(() => undefined);
+              }
+            });
+            // A streamed body must be read before the response goes out.
+            await loadJobs.received(jobId);
+          }
+          if (params.get("wait") !== "true") {
+            return jsonResponse({ job: loadJobs.get(jobId) }, request, {
+              status: 202,
+            });
+          }
+
+          // `?wait=true` answers with the loaded tables, like a plain
+          // request; hanging up cancels the job.
+          request.signal.addEventListener(
+            "abort",
+            () => loadJobs.cancel(jobId),
+            { once: true },
+          );
+          const outcome = await loadJobs.wait(jobId);
+          const job = outcome?.job;
+          if (!job || job.state !== "done") {
+            return jsonResponse(
+              { error: job?.error ?? "Load cancelled", job },
+              request,
+              {
+                status:
+                  outcome?.failure instanceof UploadTooLargeError
+                    ? 413
+                    : job?.state === "cancelled"
+                      ? 409
+                      : 500,
+              },
+            );
+          }
+          const results = job.results ?? [];
           if (results.length === 1) {
             const only = results[0]!;
             return jsonResponse(
@@ -326,6 +557,8 @@ const server = serve({
                 table: only.table,
                 columns: only.columns,
                 rowCount: only.rowCount,
+                sheet: only.sheet,
+                workbookSheets: only.workbookSheets,
               },
               request,
             );
@@ -339,7 +572,115 @@ const server = serve({
                 error instanceof Error ? error.message : "DuckDB load failed",
             },
             request,
-            { status: 500 },
+            { status: error instanceof UploadTooLargeError ? 413 : 500 },
+          );
+        }
+      },
+    },
+
+    "/api/db/load/jobs/:id": {
+      GET(request) {
+        const job = loadJobs.get(request.params.id);
+        if (!job) {
+          return jsonResponse({ error: "Unknown load job" }, request, {
+            status: 404,
+          });
+        }
+        return jsonResponse({ job }, request, {
+          headers: { "Cache-Control": "no-store" },
+        });
+      },
+      DELETE(request) {
+        const job = loadJobs.cancel(request.params.id);
+        if (!job) {
+          return jsonResponse({ error: "Unknown load job" }, request, {
+            status: 404,
+          });
+        }
+        return jsonResponse({ job }, request);
+      },
+    },
+
+    "/api/db/load/sheets": {
+      async POST(request) {
+        try {
+          const contentType = request.headers.get("content-type") ?? "";
+          let source: { blob: Blob; name: string } | { url: string } | null =
+            null;
+          if (contentType.includes("multipart/form-data")) {
+            const form = await readMultipartForm(request);
+            const file = form.get("file");
+            if (file instanceof File) source = { blob: file, name: file.name };
+          } else {
+            const payload = await readJsonBody(request);
+            if (typeof payload?.url === "string" && payload.url.trim()) {
+              source = { url: payload.url.trim() };
+            }
+          }
+          if (!source) {
+            return jsonResponse(
+              { error: "Provide a workbook file or url" },
+              request,
+              { status: 400 },
+            );
+          }
+          const sheets = await listWorkbookSheets(source);
+          return jsonResponse({ sheets }, request);
+        } catch (error) {
+          logger.error("Workbook sheet listing error:", error);
+          return jsonResponse(
+            {
+              error:
+                error instanceof Error
+                  ? error.message
+                  : "Failed to list workbook sheets",
+            },
+            request,
+            { status: error instanceof UploadTooLargeError ? 413 : 500 },
+          );
+        }
+      },
+    },
+
+    "/api/db/load/sniff": {
+      async POST(request) {
+        try {
+          const contentType = request.headers.get("content-type") ?? "";
+          let source: { blob: Blob; name: string } | { url: string } | null =
+            null;
+          if (contentType.includes("multipart/form-data")) {
+            const form = await readMultipartForm(request);
+            const file = form.get("file");
+            if (file instanceof File) source = { blob: file, name: file.name };
+          } else {
+            const payload = await readJsonBody(request);
+            if (typeof payload?.url === "string" && payload.url.trim()) {
+              source = { url: payload.url.trim() };
+            }
+          }
+          if (!source) {
+            return jsonResponse(
+              { error: "Provide a file or url to inspect" },
+              request,
+              { status: 400 },
+            );
+          }
+          const { options, sample } = await sniffSource(source);
+          return jsonResponse(
+            { options, sample: Buffer.from(sample).toString("base64") },
+            request,
+          );
+        } catch (error) {
+          logger.error("CSV sniff error:", error);
+          return jsonResponse(
+            {
+              error:
+                error instanceof Error
+                  ? error.message
+                  : "Failed to inspect the file",
+            },
+            request,
+            { status: error instanceof UploadTooLargeError ? 413 : 500 },
           );
         }
       },
@@ -349,17 +690,8 @@ const server = serve({
       async GET(request) {
         try {
           await initDuckDB();
-          const names = await listTables();
-          const details = await Promise.all(
-            names.map((n) =>
-              getTableInfo(n).catch(() => ({
-                name: n,
-                columns: [],
-                rowCount: 0,
-              })),
-            ),
-          );
-          return jsonResponse({ tables: details }, request);
+          const tables = await listTableDetails();
+          return jsonResponse({ tables }, request);
         } catch (error) {
           logger.error("DuckDB list tables error:", error);
           return jsonResponse(
@@ -376,11 +708,187 @@ const server = serve({
       },
     },
 
+    "/api/db/tables/:name": {
+      // Create a table from a SELECT, e.g. the SQL console's "Save result".
+      async PUT(request) {
+        try {
+          await initDuckDB();
+          const name = request.params.name;
+          if (!isValidTableName(name)) {
+            return jsonResponse(
+              {
+                error:
+                  "Table names may only contain letters, digits and underscores",
+              },
+              request,
+              { status: 400 },
+            );
+          }
+          const payload = await readJsonBody(request);
+          const sql = typeof payload?.sql === "string" ? payload.sql : "";
+          const replace = payload?.replace === true;
+          if (!replace && (await listTables()).includes(name)) {
+            return jsonResponse(
+              { error: `Table ${name} already exists` },
+              request,
+              { status: 409 },
+            );
+          }
+          const table = await createTableFromQuery(name, sql, { replace });
+          invalidateTableResponses(name);
+          return jsonResponse({ table }, request, { status: 201 });
+        } catch (error) {
+          logger.error("DuckDB create table error:", error);
+          return jsonResponse(
+            {
+              error:
+                error instanceof Error
+                  ? error.message
+                  : "Failed to create table",
+            },
+            request,
+            {
+              status:
+                error instanceof UploadTooLargeError
+                  ? 413
+                  : error instanceof ReadOnlySqlError
+                    ? 400
+                    : 500,
+            },
+          );
+        }
+      },
+
+      // Rename a table and/or edit its catalog description.
+      async PATCH(request) {
+        try {
+          await initDuckDB();
+          const name = request.params.name;
+          const tables = await listTables();
+          if (!tables.includes(name)) {
+            return jsonResponse(
+              { error: `Table ${name} does not exist` },
+              request,
+              { status: 404 },
+            );
+          }
+          const payload = await readJsonBody(request);
+          const description = payload?.description;
+          if (
+            description !== undefined &&
+            description !== null &&
+            typeof description !== "string"
+          ) {
+            return jsonResponse(
+              { error: "description must be a string or null" },
+              request,
+              { status: 400 },
+            );
+          }
+          const newName = payload?.name ?? name;
+          if (!isValidTableName(newName)) {
+            return jsonResponse(
+              {
+                error:
+                  "Table names may only contain letters, digits and underscores",
+              },
+              request,
+              { status: 400 },
+            );
+          }
+          if (newName !== name) {
+            if (tables.includes(newName)) {
+              return jsonResponse(
+                { error: `Table ${newName} already exists` },
+                request,
+                { status: 409 },
+              );
+            }
+            await renameTable(name, newName);
+            // The new name may have cached responses from a dropped table.
+            invalidateTableResponses(name);
+            invalidateTableResponses(newName);
+          }
+          if (description !== undefined) {
+            await setTableDescription(newName, description?.trim() || null);
+          }
+          return jsonResponse(
+            { table: await getTableDetails(newName) },
+            request,
+          );
+        } catch (error) {
+          logger.error("DuckDB update table error:", error);
+          return jsonResponse(
+            {
+              error:
+                error instanceof Error
+                  ? error.message
+                  : "Failed to update table",
+            },
+            request,
+            { status: error instanceof UploadTooLargeError ? 413 : 500 },
+          );
+        }
+      },
+    },
+
+    "/api/db/tables/:name/duplicate": {
+      // Copy a table under a new name; JSON `{ name }`.
+      async POST(request) {
+        try {
+          await initDuckDB();
+          const name = request.params.name;
+          const tables = await listTables();
+          if (!tables.includes(name)) {
+            return jsonResponse(
+              { error: `Table ${name} does not exist` },
+              request,
+              { status: 404 },
+            );
+          }
+          const payload = await readJsonBody(request);
+          const newName = payload?.name;
+          if (!isValidTableName(newName)) {
+            return jsonResponse(
+              {
+                error:
+                  "Table names may only contain letters, digits and underscores",
+              },
+              request,
+              { status: 400 },
+            );
+          }
+          if (tables.includes(newName)) {
+            return jsonResponse(
+              { error: `Table ${newName} already exists` },
+              request,
+              { status: 409 },
+            );
+          }
+          const table = await duplicateTable(name, newName);
+          invalidateTableResponses(newName);
+          return jsonResponse({ table }, request, { status: 201 });
+        } catch (error) {
+          logger.error("DuckDB duplicate table error:", error);
+          return jsonResponse(
+            {
+              error:
+                error instanceof Error
+                  ? error.message
+                  : "Failed to duplicate table",
+            },
+            request,
+            { status: error instanceof UploadTooLargeError ? 413 : 500 },
+          );
+        }
+      },
+    },
+
     "/api/db/drop": {
       async POST(request) {
         try {
           await initDuckDB();
-          const payload = await request.json().catch(() => null);
+          const payload = await readJsonBody(request);
           const tablesRaw = payload?.tables ?? payload?.table;
           const tables: string[] = Array.isArray(tablesRaw)
             ? tablesRaw.map((t: unknown) => String(t)).filter(Boolean)
@@ -395,6 +903,7 @@ const server = serve({
             );
           }
           const count = await dropTables(tables);
+          for (const table of tables) invalidateTableResponses(table);
           return jsonResponse({ dropped: count }, request);
         } catch (error) {
           logger.error("DuckDB drop tables error:", error);
@@ -406,7 +915,7 @@ const server = serve({
                   : "Failed to drop tables",
             },
             request,
-            { status: 500 },
+            { status: error instanceof UploadTooLargeError ? 413 : 500 },
           );
         }
       },
@@ -418,6 +927,14 @@ const server = serve({
           await initDuckDB();
           const url = new URL(request.url);
           const table = sanitizeTableName(url.searchParams.get("table"));
+          // Query results page like tables but expire; keep them alive.
+          if (isQueryResultTable(table) && !getQueryResult(table)) {
+            return jsonResponse(
+              { error: "Query result expired; run the query again" },
+              request,
+              { status: 404 },
+            );
+          }
           const offsetParam = Number.parseInt(
             url.searchParams.get("offset") ?? "0",
             10,
@@ -428,7 +945,14 @@ const server = serve({
           );
 
           const sortParam = url.searchParams.get("sort");
-          const cacheKey = `preview:${table}:${offsetParam}:${limitParam}:${sortParam ?? ""}`;
+          const filtersByIndex = parseFiltersParam(
+            url.searchParams.get("filters"),
+          );
+          const filtersKey =
+            Object.keys(filtersByIndex).length > 0
+              ? JSON.stringify(filtersByIndex)
+              : "";
+          const cacheKey = `preview:${table}:${offsetParam}:${limitParam}:${sortParam ?? ""}:${filtersKey}`;
           const ifNoneMatch = request.headers.get("if-none-match");
 
           if (ifNoneMatch) {
@@ -454,30 +978,24 @@ const server = serve({
             });
           }
 
-          // Filters disabled for now
-          const filters: Array<{ columnName: string; value: string }> = [];
+          const filters: DuckDBFilter[] = [];
+          if (filtersKey) {
+            const tableColumns = await getViewColumns(table);
+            for (const [key, value] of Object.entries(filtersByIndex)) {
+              const column = tableColumns[Number(key)];
+              if (!column) continue;
+              filters.push({ columnName: column.name, value });
+            }
+          }
 
-          let sort:
-            | { columnName: string; direction: "asc" | "desc" }
-            | undefined;
-          if (sortParam) {
-            try {
-              const parsed = JSON.parse(sortParam) as {
-                colIndex: number;
-                dir: string;
-              };
-              const tableColumns = await getTableColumns(table);
-              if (
-                Number.isFinite(parsed.colIndex) &&
-                tableColumns[parsed.colIndex]
-              ) {
-                sort = {
-                  columnName: tableColumns[parsed.colIndex]!.name,
-                  direction: parsed.dir === "desc" ? "desc" : "asc",
-                };
-              }
-            } catch (error) {
-              logger.warn("Failed to parse sort param:", error);
+          const sort: DuckDBSort[] = [];
+          const sortKeys = parseSortKeysParam(sortParam);
+          if (sortKeys.length > 0) {
+            const tableColumns = await getViewColumns(table);
+            for (const key of sortKeys) {
+              const column = tableColumns[key.colIndex];
+              if (!column) continue;
+              sort.push({ columnName: column.name, direction: key.dir });
             }
           }
 
@@ -496,6 +1014,7 @@ const server = serve({
             rowCount: chunk.rowCount,
             columns: chunk.columns,
             rows: chunk.rows,
+            rowIds: chunk.rowIds,
           };
 
           const etag = responseCache.set(cacheKey, responseData);
@@ -522,30 +1041,419 @@ const server = serve({
       },
     },
 
-    // Distinct-values API removed (filters disabled)
-
-    "/api/db/query": {
-      async POST(request) {
+    "/api/db/distinct": {
+      async GET(request) {
         try {
           await initDuckDB();
-          const payload = await request.json().catch(() => null);
-          const sql = typeof payload?.sql === "string" ? payload.sql : "";
-          if (!sql.trim()) {
-            return jsonResponse({ error: "SQL query is required" }, request, {
+          const url = new URL(request.url);
+          const table = sanitizeTableName(url.searchParams.get("table"));
+          const column = url.searchParams.get("column") ?? "";
+          const limitParam = Number.parseInt(
+            url.searchParams.get("limit") ?? "100",
+            10,
+          );
+          const tableColumns = await getViewColumns(table);
+          if (!tableColumns.some((c) => c.name === column)) {
+            return jsonResponse({ error: "Unknown column" }, request, {
               status: 400,
             });
           }
-          if (!/^\s*select/i.test(sql)) {
-            return jsonResponse(
-              { error: "Only SELECT queries are permitted" },
-              request,
-              { status: 400 },
-            );
-          }
-          const params = Array.isArray(payload?.params) ? payload.params : [];
-          const rows = await runQuery(sql, params);
-          const columns = rows[0] ? Object.keys(rows[0] ?? {}) : [];
-          return jsonResponse({ rows, columns }, request);
+
+          const cacheKey = `distinct:${table}:${column}:${limitParam}`;
+          const cached = responseCache.get(cacheKey);
+          if (cached) {
+            return jsonResponse(cached.data, request, {
+              headers: { ETag: cached.etag },
+            });
+          }
+
+          const values = await getDistinctValues(table, column, limitParam);
+          const responseData = { table, column, values };
+          const etag = responseCache.set(cacheKey, responseData);
+          return jsonResponse(responseData, request, {
+            headers: { ETag: etag },
+          });
+        } catch (error) {
+          logger.error("DuckDB distinct values error:", error);
+          return jsonResponse(
+            {
+              error:
+                error instanceof Error
+                  ? error.message
+                  : "Failed to load distinct values",
+            },
+            request,
+            { status: 500 },
+          );
+        }
+      },
+    },
+
+    "/api/db/profile": {
+      // Column statistics: ?table=&column=&filters= (as for the preview).
+      async GET(request) {
+        try {
+          await initDuckDB();
+          const url = new URL(request.url);
+          const table = sanitizeTableName(url.searchParams.get("table"));
+          const column = url.searchParams.get("column") ?? "";
+          const tableColumns = await getViewColumns(table);
+          if (!tableColumns.some((c) => c.name === column)) {
+            return jsonResponse({ error: "Unknown column" }, request, {
+              status: 400,
+            });
+          }
+          const filtersByIndex = parseFiltersParam(
+            url.searchParams.get("filters"),
+          );
+          const filters: DuckDBFilter[] = [];
+          for (const [key, value] of Object.entries(filtersByIndex)) {
+            const filterColumn = tableColumns[Number(key)];
+            if (filterColumn) {
+              filters.push({ columnName: filterColumn.name, value });
+            }
+          }
+
+          const cacheKey = `profile:${table}:${column}:${JSON.stringify(filters)}`;
+          const cached = responseCache.get(cacheKey);
+          if (cached) {
+            return jsonResponse(cached.data, request, {
+              headers: { ETag: cached.etag },
+            });
+          }
+
+          const profile = await profileTableColumn(table, column, filters);
+          const responseData = { table, profile };
+          const etag = responseCache.set(cacheKey, responseData);
+          return jsonResponse(responseData, request, {
+            headers: { ETag: etag },
+          });
+        } catch (error) {
+          logger.error("DuckDB column profile error:", error);
+          return jsonResponse(
+            {
+              error:
+                error instanceof Error
+                  ? error.message
+                  : "Failed to profile the column",
+            },
+            request,
+            { status: 500 },
+          );
+        }
+      },
+    },
+
+    "/api/db/aggregate": {
+      // Selection stats over view positions: { table, filters?, sort?,
+      // ranges: [{ r1, r2, c1, c2 }] } as in the grid's SelectionModel.
+      async POST(request) {
+        try {
+          await initDuckDB();
+          const payload = await readJsonBody(request);
+          const table = sanitizeTableName(payload?.table);
+          const tableColumns = await getViewColumns(table);
+          const rawRanges: unknown[] = Array.isArray(payload?.ranges)
+            ? payload.ranges
+            : [];
+          if (rawRanges.length > MAX_AGGREGATE_RANGES) {
+            return jsonResponse(
+              {
+                error: `At most ${MAX_AGGREGATE_RANGES} selection ranges can be aggregated`,
+              },
+              request,
+              { status: 400 },
+            );
+          }
+          const ranges: DuckDBSelectionRange[] = [];
+          for (const raw of rawRanges) {
+            const { r1, r2, c1, c2 } = (raw ?? {}) as Record<string, unknown>;
+            const bounds = [r1, r2, c1, c2];
+            if (!bounds.every((n) => Number.isInteger(n) && Number(n) >= 0)) {
+              continue;
+            }
+            const [rowA, rowB, colA, colB] = bounds as number[];
+            ranges.push({
+              start: Math.min(rowA!, rowB!),
+              end: Math.max(rowA!, rowB!),
+              columns: tableColumns
+                .slice(Math.min(colA!, colB!), Math.max(colA!, colB!) + 1)
+                .map((column) => column.name),
+            });
+          }
+          if (ranges.every((range) => range.columns.length === 0)) {
+            return jsonResponse({ error: "Selection is empty" }, request, {
+              status: 400,
+            });
+          }
+
+          const filters: DuckDBFilter[] = [];
+          for (const [key, value] of Object.entries(
+            normalizeFilterMap(payload?.filters),
+          )) {
+            const column = tableColumns[Number(key)];
+            if (column) filters.push({ columnName: column.name, value });
+          }
+          const sort: DuckDBSort[] = [];
+          for (const key of normalizeSortKeys(payload?.sort)) {
+            const column = tableColumns[key.colIndex];
+            if (column) {
+              sort.push({ columnName: column.name, direction: key.dir });
+            }
+          }
+
+          const aggregate = await aggregateTableSelection(table, ranges, {
+            filters,
+            sort,
+          });
+          return jsonResponse({ table, aggregate }, request);
+        } catch (error) {
+          logger.error("DuckDB selection aggregate error:", error);
+          return jsonResponse(
+            {
+              error:
+                error instanceof Error
+                  ? error.message
+                  : "Failed to aggregate the selection",
+            },
+            request,
+            { status: error instanceof UploadTooLargeError ? 413 : 500 },
+          );
+        }
+      },
+    },
+
+    "/api/db/pivot": {
+      // { table, spec: { rows, columns, values: [{ column, aggregate }] },
+      // filters? } with filters keyed by column index, as for the preview.
+      async POST(request) {
+        try {
+          await initDuckDB();
+          const payload = await readJsonBody(request);
+          const table = sanitizeTableName(payload?.table);
+          const tableColumns = await getViewColumns(table);
+          const spec = parsePivotSpec(
+            payload?.spec,
+            tableColumns.map((column) => column.name),
+          );
+          const filters: DuckDBFilter[] = [];
+          for (const [key, value] of Object.entries(
+            normalizeFilterMap(payload?.filters),
+          )) {
+            const column = tableColumns[Number(key)];
+            if (column) filters.push({ columnName: column.name, value });
+          }
+          const pivot = await pivotTable(table, spec, { filters });
+          return jsonResponse({ table, pivot }, request);
+        } catch (error) {
+          if (error instanceof PivotError) {
+            return jsonResponse({ error: error.message }, request, {
+              status: 400,
+            });
+          }
+          logger.error("DuckDB pivot error:", error);
+          return jsonResponse(
+            {
+              error:
+                error instanceof Error ? error.message : "DuckDB pivot failed",
+            },
+            request,
+            { status: error instanceof UploadTooLargeError ? 413 : 500 },
+          );
+        }
+      },
+    },
+
+    "/api/db/chart": {
+      // { table, config, filters?, sort?, ranges?: [{ r1, r2 }] }; ranges
+      // are the selected view rows when config.source is "selection".
+      async POST(request) {
+        try {
+          await initDuckDB();
+          const payload = await readJsonBody(request);
+          const table = sanitizeTableName(payload?.table);
+          const tableColumns = await getViewColumns(table);
+          const config = parseChartConfig(
+            payload?.config,
+            tableColumns.map((column) => column.name),
+          );
+          let ranges: Array<{ start: number; end: number }> | undefined;
+          if (config.source === "selection") {
+            const rawRanges: unknown[] = Array.isArray(payload?.ranges)
+              ? payload.ranges
+              : [];
+            if (rawRanges.length > MAX_AGGREGATE_RANGES) {
+              return jsonResponse(
+                {
+                  error: `At most ${MAX_AGGREGATE_RANGES} selection ranges can be charted`,
+                },
+                request,
+                { status: 400 },
+              );
+            }
+            ranges = [];
+            for (const raw of rawRanges) {
+              const { r1, r2 } = (raw ?? {}) as Record<string, unknown>;
+              if (
+                ![r1, r2].every((n) => Number.isInteger(n) && Number(n) >= 0)
+              ) {
+                continue;
+              }
+              ranges.push({
+                start: Math.min(Number(r1), Number(r2)),
+                end: Math.max(Number(r1), Number(r2)),
+              });
+            }
+          }
+
+          const filters: DuckDBFilter[] = [];
+          for (const [key, value] of Object.entries(
+            normalizeFilterMap(payload?.filters),
+          )) {
+            const column = tableColumns[Number(key)];
+            if (column) filters.push({ columnName: column.name, value });
+          }
+          const sort: DuckDBSort[] = [];
+          for (const key of normalizeSortKeys(payload?.sort)) {
+            const column = tableColumns[key.colIndex];
+            if (column) {
+              sort.push({ columnName: column.name, direction: key.dir });
+            }
+          }
+
+          const chart = await chartTable(table, config, {
+            filters,
+            sort,
+            ranges,
+          });
+          return jsonResponse({ table, chart }, request);
+        } catch (error) {
+          if (error instanceof ChartError) {
+            return jsonResponse({ error: error.message }, request, {
+              status: 400,
+            });
+          }
+          logger.error("DuckDB chart error:", error);
+          return jsonResponse(
+            {
+              error:
+                error instanceof Error ? error.message : "DuckDB chart failed",
+            },
+            request,
+            { status: error instanceof UploadTooLargeError ? 413 : 500 },
+          );
+        }
+      },
+    },
+
+    "/api/db/groups": {
+      // Group headers: ?table=&groupBy=[colIndex…]&filters=&sort= (as for the
+      // preview). Child rows page through the preview with the returned sort.
+      async GET(request) {
+        try {
+          await initDuckDB();
+          const url = new URL(request.url);
+          const table = sanitizeTableName(url.searchParams.get("table"));
+          const tableColumns = await getViewColumns(table);
+          const groupBy = parseGroupByParam(url.searchParams.get("groupBy"));
+          if (
+            groupBy.length === 0 ||
+            groupBy.some((colIndex) => !tableColumns[colIndex])
+          ) {
+            return jsonResponse({ error: "Unknown group column" }, request, {
+              status: 400,
+            });
+          }
+          if (groupBy.length > MAX_GROUP_COLUMNS) {
+            return jsonResponse(
+              { error: `Group by at most ${MAX_GROUP_COLUMNS} columns` },
+              request,
+              { status: 400 },
+            );
+          }
+          const filtersByIndex = parseFiltersParam(
+            url.searchParams.get("filters"),
+          );
+          const filters: DuckDBFilter[] = [];
+          for (const [key, value] of Object.entries(filtersByIndex)) {
+            const column = tableColumns[Number(key)];
+            if (column) filters.push({ columnName: column.name, value });
+          }
+          const sortKeys = groupSortKeys(
+            parseSortKeysParam(url.searchParams.get("sort")).filter(
+              (key) => tableColumns[key.colIndex],
+            ),
+            groupBy,
+          );
+          const sort: DuckDBSort[] = sortKeys.map((key) => ({
+            columnName: tableColumns[key.colIndex]!.name,
+            direction: key.dir,
+          }));
+
+          const cacheKey = `groups:${table}:${JSON.stringify(groupBy)}:${JSON.stringify(sortKeys)}:${JSON.stringify(filters)}`;
+          const cached = responseCache.get(cacheKey);
+          if (cached) {
+            return jsonResponse(cached.data, request, {
+              headers: { ETag: cached.etag },
+            });
+          }
+
+          const groups = await groupTableRows(
+            table,
+            groupBy.map((colIndex) => tableColumns[colIndex]!.name),
+            { filters, sort },
+          );
+          const responseData = { table, sort: sortKeys, groups };
+          const etag = responseCache.set(cacheKey, responseData);
+          return jsonResponse(responseData, request, {
+            headers: { ETag: etag },
+          });
+        } catch (error) {
+          if (error instanceof RowGroupError) {
+            return jsonResponse({ error: error.message }, request, {
+              status: 400,
+            });
+          }
+          logger.error("DuckDB row groups error:", error);
+          return jsonResponse(
+            {
+              error:
+                error instanceof Error
+                  ? error.message
+                  : "Failed to group the rows",
+            },
+            request,
+            { status: 500 },
+          );
+        }
+      },
+    },
+
+    "/api/db/query": {
+      async POST(request) {
+        try {
+          await initDuckDB();
+          const payload = await readJsonBody(request);
+          const sql = typeof payload?.sql === "string" ? payload.sql : "";
+          if (!sql.trim()) {
+            return jsonResponse({ error: "SQL query is required" }, request, {
+              status: 400,
+            });
+          }
+          const params = Array.isArray(payload?.params) ? payload.params : [];
+          const limit =
+            typeof payload?.limit === "number" ? payload.limit : 500;
+          const result = await createQueryResult(sql, params);
+          const chunk = await getTableChunk(result.table, 0, limit);
+          return jsonResponse(
+            {
+              ...result,
+              offset: chunk.offset,
+              limit: chunk.limit,
+              rows: chunk.rows,
+            },
+            request,
+          );
         } catch (error) {
           logger.error("DuckDB query error:", error);
           return jsonResponse(
@@ -554,17 +1462,213 @@ const server = serve({
                 error instanceof Error ? error.message : "DuckDB query failed",
             },
             request,
+            {
+              status:
+                error instanceof UploadTooLargeError
+                  ? 413
+                  : error instanceof ReadOnlySqlError
+                    ? 400
+                    : 500,
+            },
+          );
+        }
+      },
+    },
+
+    "/api/db/query/:id": {
+      async GET(request) {
+        try {
+          const result = getQueryResult(request.params.id);
+          if (!result) {
+            return jsonResponse(
+              { error: "Query result expired; run the query again" },
+              request,
+              { status: 404 },
+            );
+          }
+          const url = new URL(request.url);
+          const chunk = await getTableChunk(
+            result.table,
+            Number.parseInt(url.searchParams.get("offset") ?? "0", 10),
+            Number.parseInt(url.searchParams.get("limit") ?? "500", 10),
+          );
+          return jsonResponse(
+            {
+              ...result,
+              offset: chunk.offset,
+              limit: chunk.limit,
+              rows: chunk.rows,
+            },
+            request,
+          );
+        } catch (error) {
+          logger.error("DuckDB query page error:", error);
+          return jsonResponse(
+            {
+              error:
+                error instanceof Error
+                  ? error.message
+                  : "Failed to read query result",
+            },
+            request,
+            { status: 500 },
+          );
+        }
+      },
+      async DELETE(request) {
+        try {
+          const dropped = await dropQueryResult(request.params.id);
+          return jsonResponse({ dropped }, request, {
+            status: dropped ? 200 : 404,
+          });
+        } catch (error) {
+          logger.error("DuckDB drop query result error:", error);
+          return jsonResponse(
+            {
+              error:
+                error instanceof Error
+                  ? error.message
+                  : "Failed to drop query result",
+            },
+            request,
             { status: 500 },
           );
         }
       },
     },
 
+    "/api/db/export": {
+      async POST(request) {
+        try {
+          await initDuckDB();
+          const payload = await readJsonBody(request);
+          const format = payload?.format;
+          if (!isExportFormat(format)) {
+            return jsonResponse({ error: "Unknown export format" }, request, {
+              status: 400,
+            });
+          }
+          const table = sanitizeTableName(payload?.table);
+          const scope: ExportScope =
+            payload?.scope === "table" || payload?.scope === "selection"
+              ? payload.scope
+              : "view";
+          const tableColumns = await getViewColumns(table);
+
+          // The whole-table scope ignores the grid's filters and sort.
+          const filters: DuckDBFilter[] = [];
+          const sort: DuckDBSort[] = [];
+          if (scope !== "table") {
+            const filtersByIndex = normalizeFilterMap(payload?.filters);
+            for (const [key, value] of Object.entries(filtersByIndex)) {
+              const column = tableColumns[Number(key)];
+              if (column) filters.push({ columnName: column.name, value });
+            }
+            for (const key of normalizeSortKeys(payload?.sort)) {
+              const column = tableColumns[key.colIndex];
+              if (column) {
+                sort.push({ columnName: column.name, direction: key.dir });
+              }
+            }
+          }
+
+          let columns: string[] | undefined;
+          let rowRanges: Array<[number, number]> | undefined;
+          if (scope === "selection") {
+            const selection = payload?.selection;
+            columns = (
+              Array.isArray(selection?.columns) ? selection.columns : []
+            )
+              .map((index: unknown) => tableColumns[Number(index)]?.name)
+              .filter((name: string | undefined): name is string => !!name);
+            rowRanges = (
+              Array.isArray(selection?.ranges) ? selection.ranges : []
+            )
+              .filter(
+                (range: unknown): range is [number, number] =>
+                  Array.isArray(range) &&
+                  range.length === 2 &&
+                  range.every((n) => Number.isInteger(n) && n >= 0),
+              )
+              .map(([a, b]: [number, number]) => [
+                Math.min(a, b),
+                Math.max(a, b),
+              ]);
+            if (columns!.length === 0 || rowRanges!.length === 0) {
+              return jsonResponse({ error: "Selection is empty" }, request, {
+                status: 400,
+              });
+            }
+          }
+
+          const path = await exportTable(table, format, {
+            filters,
+            sort,
+            columns,
+            rowRanges,
+          });
+          // Stream the file back and remove it once the client has it (or
+          // gives up); the temp cleanup service catches anything left over.
+          const reader = Bun.file(path).stream().getReader();
+          const removeFile = () => unlink(path).catch(() => undefined);
+          const body = new ReadableStream<Uint8Array>({
+            async pull(controller) {
+              const { done, value } = await reader.read();
+              if (done) {
+                controller.close();
+                await removeFile();
+              } else {
+                controller.enqueue(value);
+              }
+            },
+            async cancel() {
+              await reader.cancel();
+              await removeFile();
+            },
+          });
+          return new Response(body, {
+            headers: {
+              "Content-Type": EXPORT_FORMATS[format].mimeType,
+              "Content-Disposition": `attachment; filename="${exportFilename(table, format)}"`,
+              "Cache-Control": "no-store",
+            },
+          });
+        } catch (error) {
+          logger.error("DuckDB export error:", error);
+          return jsonResponse(
+            {
+              error:
+                error instanceof Error ? error.message : "DuckDB export failed",
+            },
+            request,
+            { status: error instanceof UploadTooLargeError ? 413 : 500 },
+          );
+        }
+      },
+    },
+
     "/api/db/mutate": {
+      // Cell edits (`{ table, updates }`) or a row insert, duplicate or
+      // delete (`{ table, operation }`); rows are addressed by row id.
       async POST(request) {
         try {
           await initDuckDB();
-          const payload = await request.json().catch(() => null);
+          const payload = await readJsonBody(request);
+          const table = sanitizeTableName(payload?.table);
+          if (isQueryResultTable(table)) {
+            return jsonResponse(
+              { error: "Query results are read-only" },
+              request,
+              { status: 400 },
+            );
+          }
+          if (payload?.operation != null) {
+            const operation = parseRowOperation(payload.operation);
+            const result = await mutateTableRows(table, operation);
+            invalidateTableResponses(table);
+            const rowCount = await getTableRowCount(table);
+            return jsonResponse({ ...result, rowCount }, request);
+          }
           const updates = Array.isArray(payload?.updates)
             ? payload.updates
             : [];
@@ -573,13 +1677,12 @@ const server = serve({
               status: 400,
             });
           }
-          const table = sanitizeTableName(payload?.table);
           const normalized: DuckDBCellUpdate[] = [];
           for (const entry of updates) {
             if (
-              typeof entry?.rowIndex !== "number" ||
-              !Number.isFinite(entry.rowIndex) ||
-              entry.rowIndex < 0 ||
+              typeof entry?.rowId !== "number" ||
+              !Number.isFinite(entry.rowId) ||
+              entry.rowId < 0 ||
               typeof entry?.column !== "string" ||
               entry.column.length === 0
             ) {
@@ -590,7 +1693,7 @@ const server = serve({
               );
             }
             normalized.push({
-              rowIndex: Math.floor(entry.rowIndex),
+              rowId: Math.floor(entry.rowId),
               column: entry.column,
               value:
                 typeof entry.value === "string"
@@ -599,7 +1702,7 @@ const server = serve({
             });
           }
           const applied = await updateTableCells(normalized, table);
-          responseCache.invalidate(`preview:${table}:`);
+          invalidateTableResponses(table);
           return jsonResponse({ updated: applied }, request);
         } catch (error) {
           logger.error("DuckDB mutate error:", error);
@@ -609,7 +1712,102 @@ const server = serve({
                 error instanceof Error ? error.message : "DuckDB mutate failed",
             },
             request,
-            { status: 500 },
+            {
+              status:
+                error instanceof UploadTooLargeError
+                  ? 413
+                  : error instanceof RowOperationError
+                    ? 400
+                    : 500,
+            },
+          );
+        }
+      },
+    },
+
+    "/api/db/schema": {
+      // TRY_CAST preview for a type change: ?table=&column=&type=
+      async GET(request) {
+        try {
+          await initDuckDB();
+          const params = new URL(request.url).searchParams;
+          const table = params.get("table");
+          const column = params.get("column") ?? "";
+          const type = params.get("type");
+          if (
+            !isValidTableName(table) ||
+            !(await listTables()).includes(table)
+          ) {
+            return jsonResponse(
+              { error: `Table ${table ?? ""} does not exist` },
+              request,
+              { status: 404 },
+            );
+          }
+          if (!isValidColumnType(type)) {
+            return jsonResponse(
+              { error: `Unsupported column type: ${type ?? ""}` },
+              request,
+              { status: 400 },
+            );
+          }
+          const preview = await previewColumnCast(table, column, type);
+          return jsonResponse({ preview }, request);
+        } catch (error) {
+          logger.error("DuckDB cast preview error:", error);
+          return jsonResponse(
+            {
+              error:
+                error instanceof Error
+                  ? error.message
+                  : "Failed to preview the type change",
+            },
+            request,
+            { status: error instanceof SchemaOperationError ? 400 : 500 },
+          );
+        }
+      },
+
+      // Column add/drop/rename/move/retype: JSON `{ table, operation }`.
+      async POST(request) {
+        try {
+          await initDuckDB();
+          const payload = await readJsonBody(request);
+          const table = payload?.table;
+          if (
+            !isValidTableName(table) ||
+            isQueryResultTable(table) ||
+            !(await listTables()).includes(table)
+          ) {
+            return jsonResponse(
+              { error: `Table ${String(table ?? "")} does not exist` },
+              request,
+              { status: 404 },
+            );
+          }
+          const operation = parseSchemaOperation(payload?.operation);
+          const columns = await alterTableSchema(table, operation);
+          invalidateTableResponses(table);
+          return jsonResponse({ columns }, request);
+        } catch (error) {
+          logger.error("DuckDB schema change error:", error);
+          return jsonResponse(
+            {
+              error:
+                error instanceof Error
+                  ? error.message
+                  : "Failed to change the table schema",
+            },
+            request,
+            {
+              status:
+                error instanceof UploadTooLargeError
+                  ? 413
+                  : error instanceof SchemaOperationError ||
+                      error instanceof ReadOnlySqlError
+                    ? 400
+                    : 500,
+            },
           );
         }
       },
@@ -1,5 +1,11 @@
 import { describe, it, expect } from "bun:test";
-import { jsonResponse } from "./api-helpers";
+import {
+  jsonResponse,
+  parseFiltersParam,
+  parseGroupByParam,
+  parseSheetsParam,
+  parseSortKeysParam,
+} from "./api-helpers";
 
 describe("jsonResponse", () => {
   it("should return compressed response when size exceeds threshold", async () => {
@@ -149,4 +155,93 @@ describe("jsonResponse", () => {
 
     expect(json).toEqual(unicodeData);
   });
+
+  it("should serialize bigint values", async () => {
+    const request = new Request("http://localhost:6969/api/db/query");
+
+    const response = jsonResponse(
+      { rows: [{ total: 42n, huge: 2n ** 70n }] },
+      request,
+    );
+    const json = await response.json();
+
+    expect(json.rows[0]).toEqual({ total: 42, huge: "1180591620717411303424" });
+  });
+});
+
+describe("parseFiltersParam", () => {
+  it("should return an empty object for missing or invalid input", () => {
+    expect(parseFiltersParam(null)).toEqual({});
+    expect(parseFiltersParam("")).toEqual({});
+    expect(parseFiltersParam("not json")).toEqual({});
+    expect(parseFiltersParam("[1,2]")).toEqual({});
+  });
+
+  it("should keep non-empty string filters keyed by column index", () => {
+    const parsed = parseFiltersParam(
+      JSON.stringify({ "2": ">10", "0": "foo", "1": "  " }),
+    );
+    expect(parsed).toEqual({ 0: "foo", 2: ">10" });
+  });
+
+  it("should drop non-numeric keys and non-string values", () => {
+    const parsed = parseFiltersParam(
+      JSON.stringify({ name: "x", "-1": "y", "3": 5, "4": "ok" }),
+    );
+    expect(parsed).toEqual({ 4: "ok" });
+  });
+});
+
+describe("parseSortKeysParam", () => {
+  it("should accept an ordered array of keys", () => {
+    const parsed = parseSortKeysParam(
+      JSON.stringify([
+        { colIndex: 3, dir: "desc" },
+        { colIndex: 0, dir: "asc" },
+      ]),
+    );
+    expect(parsed).toEqual([
+      { colIndex: 3, dir: "desc" },
+      { colIndex: 0, dir: "asc" },
+    ]);
+  });
+
+  it("should accept the legacy single-key object", () => {
+    expect(parseSortKeysParam('{"colIndex":1,"dir":"asc"}')).toEqual([
+      { colIndex: 1, dir: "asc" },
+    ]);
+  });
+
+  it("should return no keys for invalid input", () => {
+    expect(parseSortKeysParam("not json")).toEqual([]);
+    expect(parseSortKeysParam('[{"colIndex":-1,"dir":"asc"}]')).toEqual([]);
+  });
+});
+
+describe("parseGroupByParam", () => {
+  it("should keep valid column indexes in order", () => {
+    expect(parseGroupByParam("[2, 0, 2]")).toEqual([2, 0]);
+  });
+
+  it("should drop invalid entries", () => {
+    expect(parseGroupByParam('[1, -1, 1.5, "3"]')).toEqual([1]);
+    expect(parseGroupByParam('{"0":1}')).toEqual([]);
+    expect(parseGroupByParam("not json")).toEqual([]);
+  });
+});
+
+describe("parseSheetsParam", () => {
+  it("should pass through the all-sheets marker", () => {
+    expect(parseSheetsParam("*")).toBe("*");
+  });
+
+  it("should keep unique, non-empty sheet names", () => {
+    expect(parseSheetsParam(["Q1", "", 3, "Q2", "Q1"])).toEqual(["Q1", "Q2"]);
+  });
+
+  it("should fall back to the default for anything else", () => {
+    expect(parseSheetsParam(undefined)).toBeUndefined();
+    expect(parseSheetsParam([])).toBeUndefined();
+    expect(parseSheetsParam("Q1")).toBeUndefined();
+  });
 });
@@ -1,11 +1,24 @@
 import { compressResponse, shouldCompress } from "./compression";
+import { normalizeSortKeys, type SortKeys } from "./sort";
+import { normalizeCsvImportOptions, type CsvImportOptions } from "./csvDialect";
+
+// DuckDB returns BIGINT/HUGEINT as bigint, which JSON.stringify rejects.
+// Integers that fit a double become numbers; larger ones keep every digit
+// as a string.
+function bigintReplacer(_key: string, value: unknown): unknown {
+  if (typeof value !== "bigint") return value;
+  return value >= BigInt(Number.MIN_SAFE_INTEGER) &&
+    value <= BigInt(Number.MAX_SAFE_INTEGER)
+    ? Number(value)
+    : value.toString();
+}
 
 export function jsonResponse(
   data: unknown,
   request: Request,
   options?: { status?: number; headers?: Record<string, string> },
 ): Response {
-  const json = JSON.stringify(data);
+  const json = JSON.stringify(data, bigintReplacer);
   const acceptEncoding = request.headers.get("accept-encoding");
 
   if (shouldCompress(new URL(request.url).pathname, json.length)) {
@@ -32,5 +45,106 @@ export function jsonResponse(
     });
   }
 
-  return Response.json(data, options);
+  return new Response(json, {
+    status: options?.status ?? 200,
+    headers: {
+      "Content-Type": "application/json",
+      ...(options?.headers ?? {}),
+    },
+  });
+}
+
+export function parseFiltersParam(
+  raw: string | null | undefined,
+): Record<number, string> {
+  if (!raw) return {};
+  try {
+    return normalizeFilterMap(JSON.parse(raw));
+  } catch {
+    return {};
+  }
+}
+
+/** Keep only `column index → non-blank filter string` entries. */
+export function normalizeFilterMap(value: unknown): Record<number, string> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {};
+  }
+  const out: Record<number, string> = {};
+  for (const [key, filter] of Object.entries(value)) {
+    const colIndex = Number(key);
+    if (!Number.isInteger(colIndex) || colIndex < 0) continue;
+    if (typeof filter !== "string" || filter.trim().length === 0) continue;
+    out[colIndex] = filter;
+  }
+  return out;
+}
+
+/**
+ * Parse the preview `sort` param: a JSON array of `{ colIndex, dir }` in
+ * priority order (a single object is accepted too).
+ */
+export function parseSortKeysParam(raw: string | null | undefined): SortKeys {
+  if (!raw) return [];
+  try {
+    return normalizeSortKeys(JSON.parse(raw));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Parse the groups `groupBy` param: a JSON array of column indexes, in group
+ * order. Invalid and repeated entries are dropped.
+ */
+export function parseGroupByParam(raw: string | null | undefined): number[] {
+  if (!raw) return [];
+  try {
+    const value: unknown = JSON.parse(raw);
+    if (!Array.isArray(value)) return [];
+    const out: number[] = [];
+    for (const entry of value) {
+      if (!Number.isInteger(entry) || entry < 0 || out.includes(entry)) {
+        continue;
+      }
+      out.push(entry);
+    }
+    return out;
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Worksheets to load from an Excel source: `"*"` for all, a list of names,
+ * or `undefined` for the default (first sheet into the requested table).
+ */
+export function parseSheetsParam(value: unknown): string[] | "*" | undefined {
+  if (value === "*") return "*";
+  if (!Array.isArray(value)) return undefined;
+  const names = value.filter(
+    (name): name is string => typeof name === "string" && name.length > 0,
+  );
+  return names.length > 0 ? Array.from(new Set(names)) : undefined;
+}
+
+/**
+ * CSV import options from a JSON body field or a multipart string field.
+ * `undefined` leaves dialect detection to DuckDB.
+ */
+export function parseCsvOptionsParam(
+  value: unknown,
+): CsvImportOptions | undefined {
+  let parsed = value;
+  if (typeof value === "string") {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return undefined;
+    }
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    return undefined;
+  }
+  return normalizeCsvImportOptions(parsed);
 }
@@ -0,0 +1,140 @@
+import { describe, expect, test } from "bun:test";
+import {
+  computeChart,
+  lttb,
+  niceTicks,
+  parseChartConfig,
+  parseChartParam,
+} from "./chart";
+
+const COLUMNS = ["region", "day", "amount"];
+const ROWS = [
+  ["North", "2024-01-03", "10"],
+  ["South", "2024-01-01", "4"],
+  ["North", "2024-01-02", "n/a"],
+  ["", "2024-01-04", "2.5"],
+  ["South", "2024-01-05", "7"],
+];
+
+describe("parseChartConfig", () => {
+  test("fills defaults and checks the charted columns", () => {
+    expect(parseChartConfig({ kind: "histogram", x: "amount" })).toEqual({
+      kind: "histogram",
+      x: "amount",
+      aggregate: "count",
+      source: "view",
+      bins: 20,
+    });
+    expect(() => parseChartConfig({ kind: "area", x: "a" })).toThrow(
+      "kind must be one of",
+    );
+    expect(() => parseChartConfig({ kind: "line", x: "day" })).toThrow(
+      "Choose a column for the y axis",
+    );
+    expect(() =>
+      parseChartConfig(
+        { kind: "bar", x: "region", y: "nope", aggregate: "sum" },
+        COLUMNS,
+      ),
+    ).toThrow("Unknown column nope");
+    expect(parseChartParam("{oops")).toBeNull();
+  });
+
+  test("rejects names inherited from Object.prototype", () => {
+    expect(() => parseChartConfig({ kind: "toString", x: "a" })).toThrow(
+      "kind must be one of",
+    );
+    for (const aggregate of ["constructor", "__proto__", "hasOwnProperty"]) {
+      expect(() =>
+        parseChartConfig({ kind: "bar", x: "a", y: "b", aggregate }),
+      ).toThrow("aggregate must be one of");
+    }
+  });
+});
+
+describe("computeChart", () => {
+  test("aggregates categories, largest first", () => {
+    const config = parseChartConfig({
+      kind: "bar",
+      x: "region",
+      y: "amount",
+      aggregate: "sum",
+    });
+    expect(computeChart(config, COLUMNS, ROWS)).toEqual({
+      kind: "categories",
+      categories: [
+        { label: "South", value: 11 },
+        { label: "North", value: 10 },
+        { label: "", value: 2.5 },
+      ],
+      otherCount: 0,
+    });
+    const counts = computeChart(
+      { ...config, kind: "pie", aggregate: "count" },
+      COLUMNS,
+      ROWS,
+    );
+    expect(counts.kind === "categories" && counts.categories[0]).toEqual({
+      label: "North",
+      value: 2,
+    });
+  });
+
+  test("plots dates against numbers in x order", () => {
+    const chart = computeChart(
+      parseChartConfig({ kind: "line", x: "day", y: "amount" }),
+      COLUMNS,
+      ROWS,
+    );
+    expect(chart).toEqual({
+      kind: "points",
+      points: [
+        [Date.UTC(2024, 0, 1), 4],
+        [Date.UTC(2024, 0, 3), 10],
+        [Date.UTC(2024, 0, 4), 2.5],
+        [Date.UTC(2024, 0, 5), 7],
+      ],
+      total: 4,
+      xType: "date",
+    });
+  });
+
+  test("bins numbers into the configured bin count", () => {
+    const chart = computeChart(
+      parseChartConfig({ kind: "histogram", x: "amount", bins: 2 }),
+      COLUMNS,
+      ROWS,
+    );
+    expect(chart).toEqual({
+      kind: "bins",
+      bins: [
+        { start: 2.5, end: 6.25, count: 2 },
+        { start: 6.25, end: 10, count: 2 },
+      ],
+      xType: "number",
+    });
+  });
+});
+
+describe("lttb", () => {
+  test("keeps the ends and the peaks", () => {
+    const points = Array.from({ length: 100 }, (_, i): [number, number] => [
+      i,
+      i === 37 ? 100 : 0,
+    ]);
+    const sampled = lttb(points, 10);
+    expect(sampled).toHaveLength(10);
+    expect(sampled[0]).toEqual([0, 0]);
+    expect(sampled[9]).toEqual([99, 0]);
+    expect(sampled).toContainEqual([37, 100]);
+    expect(lttb(points.slice(0, 5), 10)).toHaveLength(5);
+  });
+});
+
+describe("niceTicks", () => {
+  test("steps by round numbers", () => {
+    expect(niceTicks(0, 1, 5)).toEqual([0, 0.2, 0.4, 0.6, 0.8, 1]);
+    expect(niceTicks(3, 97, 4)).toEqual([20, 40, 60, 80]);
+    expect(niceTicks(5, 5)).toEqual([5]);
+  });
+});
@@ -0,0 +1,376 @@
+import { histogramBins, inferColumnType, profileKind } from "./columnProfile";
+import { parseDateValue } from "./date-utils";
+import { PIVOT_AGGREGATES, type PivotAggregate } from "./pivot";
+import { numericCellValue } from "./selection";
+
+/**
+ * A chart of the current view, or of the selected rows. Bar and pie charts
+ * aggregate `y` per `x` category; line and scatter charts plot `x` against
+ * `y`; histograms bin `x`. DuckDB tables reduce the data in SQL
+ * (`chartTable`) so only what is drawn leaves the server; client mode runs
+ * `computeChart` in a worker. Both return `ChartData`.
+ */
+export interface ChartConfig {
+  kind: ChartKind;
+  x: string;
+  /** Plotted against `x`; bar and pie charts only need it to aggregate. */
+  y?: string;
+  /** Bar and pie charts: how `y` is aggregated per category. */
+  aggregate: ChartAggregate;
+  source: ChartSource;
+  /** Histogram bin count. */
+  bins?: number;
+}
+
+export type ChartKind = "bar" | "line" | "scatter" | "histogram" | "pie";
+
+export const CHART_KINDS: Record<ChartKind, string> = {
+  bar: "Bar",
+  line: "Line",
+  scatter: "Scatter",
+  histogram: "Histogram",
+  pie: "Pie",
+};
+
+/** `count` counts rows; the others cover `y` cells that read as numbers. */
+export type ChartAggregate = Exclude<PivotAggregate, "countDistinct">;
+
+export const CHART_AGGREGATES: Record<ChartAggregate, string> = {
+  count: "Count",
+  sum: PIVOT_AGGREGATES.sum,
+  avg: PIVOT_AGGREGATES.avg,
+  min: PIVOT_AGGREGATES.min,
+  max: PIVOT_AGGREGATES.max,
+};
+
+/** Chart the filtered view, or only the rows the selection covers. */
+export type ChartSource = "view" | "selection";
+
+export type ChartData =
+  | {
+      kind: "categories";
+      /** Largest first. */
+      categories: Array<{ label: string; value: number }>;
+      /** Categories left out past the chart's limit. */
+      otherCount: number;
+    }
+  | {
+      kind: "points";
+      /** `[x, y]` in x order for line charts. */
+      points: Array<[number, number]>;
+      /** Points before downsampling. */
+      total: number;
+      xType: ChartAxisType;
+    }
+  | {
+      kind: "bins";
+      bins: Array<{ start: number; end: number; count: number }>;
+      xType: ChartAxisType;
+    };
+
+/** Dates plot as epoch milliseconds and label as dates. */
+export type ChartAxisType = "number" | "date";
+
+export class ChartError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChartError";
+  }
+}
+
+/** Limits that keep charts readable and their payloads small. */
+export const CHART_CATEGORY_LIMITS = { bar: 30, pie: 10 } as const;
+export const MAX_LINE_POINTS = 1000;
+export const MAX_SCATTER_POINTS = 2000;
+export const DEFAULT_CHART_BINS = 20;
+export const MAX_CHART_BINS = 100;
+
+/** Whether the chart reads `y`: bar and pie charts only to aggregate it. */
+export const chartUsesY = (config: Pick<ChartConfig, "kind" | "aggregate">) =>
+  config.kind === "line" ||
+  config.kind === "scatter" ||
+  ((config.kind === "bar" || config.kind === "pie") &&
+    config.aggregate !== "count");
+
+const KINDS = new Set(Object.keys(CHART_KINDS));
+const AGGREGATES = new Set(Object.keys(CHART_AGGREGATES));
+
+/**
+ * Validate a chart config from a request or the URL. `columnNames`, when
+ * given, must contain the charted columns. Throws `ChartError`.
+ */
+export function parseChartConfig(
+  value: unknown,
+  columnNames?: string[],
+): ChartConfig {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new ChartError("Chart config must be an object");
+  }
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.kind !== "string" || !KINDS.has(raw.kind)) {
+    throw new ChartError(
+      `kind must be one of ${Object.keys(CHART_KINDS).join(", ")}`,
+    );
+  }
+  const aggregate = raw.aggregate ?? "count";
+  if (typeof aggregate !== "string" || !AGGREGATES.has(aggregate)) {
+    throw new ChartError(
+      `aggregate must be one of ${Object.keys(CHART_AGGREGATES).join(", ")}`,
+    );
+  }
+  const config: ChartConfig = {
+    kind: raw.kind as ChartKind,
+    x: typeof raw.x === "string" ? raw.x : "",
+    aggregate: aggregate as ChartAggregate,
+    source: raw.source === "selection" ? "selection" : "view",
+  };
+  if (typeof raw.y === "string" && raw.y) config.y = raw.y;
+  if (config.kind === "histogram") {
+    const bins = Number(raw.bins ?? DEFAULT_CHART_BINS);
+    if (!Number.isInteger(bins) || bins < 1 || bins > MAX_CHART_BINS) {
+      throw new ChartError(`bins must be between 1 and ${MAX_CHART_BINS}`);
+    }
+    config.bins = bins;
+  }
+  if (!config.x) throw new ChartError("Choose a column for the x axis");
+  if (chartUsesY(config) && !config.y) {
+    throw new ChartError("Choose a column for the y axis");
+  }
+  if (columnNames) {
+    for (const name of [config.x, chartUsesY(config) ? config.y! : null]) {
+      if (name !== null && !columnNames.includes(name)) {
+        throw new ChartError(`Unknown column ${name}`);
+      }
+    }
+  }
+  return config;
+}
+
+/** The chart a new panel starts with: rows counted per first-column value. */
+export function defaultChartConfig(columnNames: string[]): ChartConfig {
+  return {
+    kind: "bar",
+    x: columnNames[0] ?? "",
+    aggregate: "count",
+    source: "view",
+  };
+}
+
+/** The `chart` URL param: the config as JSON, or null when it is invalid. */
+export function parseChartParam(
+  raw: string | null | undefined,
+): ChartConfig | null {
+  if (!raw) return null;
+  try {
+    return parseChartConfig(JSON.parse(raw));
+  } catch {
+    return null;
+  }
+}
+
+export function formatChartParam(config: ChartConfig | null): string | null {
+  return config ? JSON.stringify(config) : null;
+}
+
+/** A cell as a plotted number: numbers as is, dates as epoch milliseconds. */
+export function chartValue(value: string | undefined): number | null {
+  return numericCellValue(value) ?? parseDateValue(value ?? "");
+}
+
+const collator =
+  typeof Intl !== "undefined" && typeof Intl.Collator === "function"
+    ? new Intl.Collator(undefined, { numeric: true, sensitivity: "base" })
+    : null;
+
+/** Largest value first, then by label; the limit's worth are kept. */
+export function topCategories(
+  categories: Array<{ label: string; value: number }>,
+  limit: number,
+): Extract<ChartData, { kind: "categories" }> {
+  const sorted = categories
+    .slice()
+    .sort(
+      (a, b) =>
+        b.value - a.value ||
+        (collator
+          ? collator.compare(a.label, b.label)
+          : a.label.localeCompare(b.label)),
+    );
+  return {
+    kind: "categories",
+    categories: sorted.slice(0, limit),
+    otherCount: Math.max(0, sorted.length - limit),
+  };
+}
+
+/**
+ * Largest-Triangle-Three-Buckets downsampling: keeps the first and last
+ * points and, per bucket, the point that spans the largest triangle with
+ * its neighbours, so peaks and dips survive. `points` must be in x order.
+ */
+export function lttb(
+  points: Array<[number, number]>,
+  threshold: number,
+): Array<[number, number]> {
+  if (threshold < 3 || points.length <= threshold) return points;
+  const sampled: Array<[number, number]> = [points[0]!];
+  const every = (points.length - 2) / (threshold - 2);
+  let previous = 0;
+  for (let i = 0; i < threshold - 2; i++) {
+    const nextStart = Math.floor((i + 1) * every) + 1;
+    const nextEnd = Math.min(Math.floor((i + 2) * every) + 1, points.length);
+    let avgX = 0;
+    let avgY = 0;
+    for (let j = nextStart; j < nextEnd; j++) {
+      avgX += points[j]![0];
+      avgY += points[j]![1];
+    }
+    avgX /= nextEnd - nextStart;
+    avgY /= nextEnd - nextStart;
+
+    const [ax, ay] = points[previous]!;
+    let maxArea = -1;
+    let chosen = Math.floor(i * every) + 1;
+    for (let j = chosen; j < nextStart; j++) {
+      const [px, py] = points[j]!;
+      const area = Math.abs((ax - avgX) * (py - ay) - (ax - px) * (avgY - ay));
+      if (area > maxArea) {
+        maxArea = area;
+        chosen = j;
+      }
+    }
+    sampled.push(points[chosen]!);
+    previous = chosen;
+  }
+  sampled.push(points[points.length - 1]!);
+  return sampled;
+}
+
+/** Every `total / limit`-th point, for scatter charts over many rows. */
+export function strideSample<T>(items: T[], limit: number): T[] {
+  if (items.length <= limit) return items;
+  return Array.from(
+    { length: limit },
+    (_, i) => items[Math.floor((i * items.length) / limit)]!,
+  );
+}
+
+const byX = (a: [number, number], b: [number, number]) =>
+  a[0] - b[0] || a[1] - b[1];
+
+/**
+ * Chart rows in memory. `rows` are the charted rows (the view or the
+ * selection); `columns` names their cells.
+ */
+export function computeChart(
+  config: ChartConfig,
+  columns: string[],
+  rows: string[][],
+): ChartData {
+  const xIndex = columns.indexOf(config.x);
+  const yIndex = config.y ? columns.indexOf(config.y) : -1;
+  if (xIndex < 0) throw new ChartError(`Unknown column ${config.x}`);
+  if (chartUsesY(config) && yIndex < 0) {
+    throw new ChartError(`Unknown column ${config.y}`);
+  }
+  const xType = (): ChartAxisType =>
+    profileKind(inferColumnType(rows.map((row) => row[xIndex] ?? ""))) ===
+    "date"
+      ? "date"
+      : "number";
+
+  if (config.kind === "bar" || config.kind === "pie") {
+    const groups = new Map<string, number[]>();
+    const counts = new Map<string, number>();
+    for (const row of rows) {
+      const label = row[xIndex] ?? "";
+      counts.set(label, (counts.get(label) ?? 0) + 1);
+      let values = groups.get(label);
+      if (!values) groups.set(label, (values = []));
+      if (config.aggregate === "count") continue;
+      const n = numericCellValue(row[yIndex]);
+      if (n !== null) values.push(n);
+    }
+    const categories: Array<{ label: string; value: number }> = [];
+    for (const [label, values] of groups) {
+      let value: number | null;
+      if (config.aggregate === "count") value = counts.get(label)!;
+      else if (values.length === 0) value = null;
+      else if (config.aggregate === "sum" || config.aggregate === "avg") {
+        const sum = values.reduce((total, n) => total + n, 0);
+        value = config.aggregate === "sum" ? sum : sum / values.length;
+      } else {
+        value = values.reduce((best, n) =>
+          config.aggregate === "min" ? Math.min(best, n) : Math.max(best, n),
+        );
+      }
+      if (value !== null) categories.push({ label, value });
+    }
+    return topCategories(categories, CHART_CATEGORY_LIMITS[config.kind]);
+  }
+
+  if (config.kind === "histogram") {
+    const values: number[] = [];
+    for (const row of rows) {
+      const n = chartValue(row[xIndex]);
+      if (n !== null) values.push(n);
+    }
+    if (values.length === 0) return { kind: "bins", bins: [], xType: xType() };
+    let min = values[0]!;
+    let max = values[0]!;
+    for (const n of values) {
+      if (n < min) min = n;
+      if (n > max) max = n;
+    }
+    const { bins, binOf } = histogramBins(
+      min,
+      max,
+      false,
+      config.bins ?? DEFAULT_CHART_BINS,
+    );
+    for (const n of values) bins[binOf(n)]!.count++;
+    return { kind: "bins", bins, xType: xType() };
+  }
+
+  const points: Array<[number, number]> = [];
+  for (const row of rows) {
+    const x = chartValue(row[xIndex]);
+    const y = numericCellValue(row[yIndex]);
+    if (x !== null && y !== null) points.push([x, y]);
+  }
+  points.sort(byX);
+  return {
+    kind: "points",
+    points:
+      config.kind === "line"
+        ? lttb(points, MAX_LINE_POINTS)
+        : strideSample(points, MAX_SCATTER_POINTS),
+    total: points.length,
+    xType: xType(),
+  };
+}
+
+/**
+ * About `count` evenly spaced round tick values within `min..max`: steps
+ * of 1, 2 or 5 times a power of ten, whichever is closest to the span over
+ * `count`.
+ */
+export function niceTicks(min: number, max: number, count = 5): number[] {
+  if (!Number.isFinite(min) || !Number.isFinite(max)) return [];
+  if (min === max) return [min];
+  const rough = (max - min) / Math.max(1, count);
+  const power = 10 ** Math.floor(Math.log10(rough));
+  const ratio = rough / power;
+  const step =
+    power * (ratio >= 7.07 ? 10 : ratio >= 3.16 ? 5 : ratio >= 1.41 ? 2 : 1);
+  const ticks: number[] = [];
+  for (
+    let tick = Math.ceil(min / step) * step;
+    tick <= max + step * 1e-9;
+    tick += step
+  ) {
+    // Round away float noise such as 0.30000000000000004.
+    ticks.push(Number(tick.toPrecision(12)));
+  }
+  return ticks;
+}
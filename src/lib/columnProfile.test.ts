@@ -0,0 +1,120 @@
+import { describe, expect, test } from "bun:test";
+import {
+  histogramBins,
+  inferColumnType,
+  profileKind,
+  profileValues,
+} from "./columnProfile";
+
+describe("inferColumnType", () => {
+  test("picks the narrowest type every value reads as", () => {
+    expect(inferColumnType(["1", " 2 ", ""])).toBe("BIGINT");
+    expect(inferColumnType(["1", "2.5"])).toBe("DOUBLE");
+    expect(inferColumnType(["true", "FALSE"])).toBe("BOOLEAN");
+    expect(inferColumnType(["2024-01-02", "2024-03-04"])).toBe("DATE");
+    expect(inferColumnType(["2024-01-02", "2024-03-04T10:30:00Z"])).toBe(
+      "TIMESTAMP",
+    );
+    expect(inferColumnType(["1", "one"])).toBe("VARCHAR");
+    expect(inferColumnType(["", "  "])).toBe("VARCHAR");
+  });
+});
+
+describe("profileKind", () => {
+  test("classifies by the base type, not the element types", () => {
+    expect(profileKind("DECIMAL(18,3)")).toBe("number");
+    expect(profileKind("TIMESTAMP WITH TIME ZONE")).toBe("date");
+    expect(profileKind("INTERVAL")).toBe("text");
+    for (const type of [
+      "INTEGER[]",
+      "DATE[3]",
+      "STRUCT(a INTEGER)",
+      "MAP(VARCHAR, BIGINT)",
+      "UNION(n INTEGER, s VARCHAR)",
+    ]) {
+      expect(profileKind(type)).toBe("text");
+    }
+  });
+});
+
+describe("histogramBins", () => {
+  test("splits a range into equal bins and clamps the maximum", () => {
+    const { bins, binOf } = histogramBins(0, 10);
+    expect(bins).toHaveLength(20);
+    expect(bins[1]).toEqual({ start: 0.5, end: 1, count: 0 });
+    expect(bins.at(-1)!.end).toBe(10);
+    expect(binOf(0)).toBe(0);
+    expect(binOf(10)).toBe(19);
+  });
+
+  test("uses whole-number bins for lengths and one bin for a single value", () => {
+    const lengths = histogramBins(1, 4, true);
+    expect(lengths.bins.map((bin) => bin.start)).toEqual([1, 2, 3, 4]);
+    expect(lengths.binOf(4)).toBe(3);
+    expect(histogramBins(5, 5).bins).toEqual([{ start: 5, end: 5, count: 0 }]);
+  });
+});
+
+describe("profileValues", () => {
+  test("computes numeric stats over inferred numbers", () => {
+    const profile = profileValues("n", ["4", "1", "", undefined, "4", "3"]);
+    expect(profile).toMatchObject({
+      type: "BIGINT",
+      inferred: true,
+      kind: "number",
+      count: 6,
+      emptyCount: 2,
+      distinctCount: 3,
+      min: "1",
+      max: "4",
+      mean: 3,
+      median: 3.5,
+      topValues: [
+        { value: "4", count: 2 },
+        { value: "1", count: 1 },
+        { value: "3", count: 1 },
+      ],
+    });
+    expect(profile.stddev).toBeCloseTo(Math.sqrt(2));
+    expect(profile.histogram.of).toBe("value");
+    const counts = profile.histogram.bins.map((bin) => bin.count);
+    expect(counts[0]).toBe(1);
+    expect(counts.at(-1)).toBe(2);
+    expect(counts.reduce((a, b) => a + b, 0)).toBe(4);
+  });
+
+  test("bins text by length and keeps the given type", () => {
+    const profile = profileValues("s", ["a", "abc", "abc", "  "], "VARCHAR");
+    expect(profile).toMatchObject({
+      type: "VARCHAR",
+      inferred: false,
+      kind: "text",
+      emptyCount: 1,
+      distinctCount: 2,
+      topValues: [
+        { value: "abc", count: 2 },
+        { value: "a", count: 1 },
+      ],
+      histogram: {
+        of: "length",
+        bins: [
+          { start: 1, end: 2, count: 1 },
+          { start: 2, end: 3, count: 0 },
+          { start: 3, end: 3, count: 2 },
+        ],
+      },
+    });
+    expect(profile.min).toBeUndefined();
+    expect(profile.mean).toBeUndefined();
+  });
+
+  test("reports the earliest and latest dates", () => {
+    const profile = profileValues("d", ["2024-05-01", "2023-01-31", ""]);
+    expect(profile).toMatchObject({
+      type: "DATE",
+      kind: "date",
+      min: "2023-01-31",
+      max: "2024-05-01",
+    });
+  });
+});
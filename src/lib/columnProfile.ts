@@ -0,0 +1,238 @@
+import { parseDateValue } from "./date-utils";
+import { isDateType, isNumericType } from "./duckdb-utils";
+import { parseNumber } from "./validators";
+
+/**
+ * Summary statistics for one column, as the profile panel shows them.
+ * DuckDB tables compute these with aggregate queries (`profileTableColumn`);
+ * client mode runs `profileValues` in a worker. Cells are counted as empty
+ * when null or blank.
+ */
+export interface ColumnProfile {
+  column: string;
+  /** The column's DuckDB type, or the type its values read as in client mode. */
+  type: string;
+  /** Whether `type` was inferred from the values. */
+  inferred: boolean;
+  /** `number` columns get numeric stats and a value histogram. */
+  kind: ProfileKind;
+  count: number;
+  emptyCount: number;
+  distinctCount: number;
+  /** Smallest and largest value of number and date columns. */
+  min?: string;
+  max?: string;
+  mean?: number;
+  median?: number;
+  /** Sample standard deviation; unset with fewer than two values. */
+  stddev?: number;
+  /** Most frequent values, most frequent first. */
+  topValues: Array<{ value: string; count: number }>;
+  histogram: ProfileHistogram;
+}
+
+export type ProfileKind = "number" | "date" | "text";
+
+/**
+ * Equal-width bins over the values (`value`) or, for columns that are not
+ * numeric, over value lengths in characters (`length`). Bins are `[start,
+ * end)` except the last, which includes `end`.
+ */
+export interface ProfileHistogram {
+  of: "value" | "length";
+  bins: Array<{ start: number; end: number; count: number }>;
+}
+
+export const PROFILE_TOP_VALUES = 10;
+export const PROFILE_HISTOGRAM_BINS = 20;
+
+/** How the stats of a column of DuckDB `type` are computed. */
+export function profileKind(type: string): ProfileKind {
+  const upper = type.toUpperCase();
+  if (isNumericType(upper) && !upper.startsWith("INTERVAL")) return "number";
+  if (isDateType(upper)) return "date";
+  return "text";
+}
+
+const FRACTION_TEXT = /[.e]/i;
+const BOOLEAN_WORDS = new Set(["true", "false"]);
+
+/**
+ * The narrowest of BIGINT, DOUBLE, BOOLEAN, DATE, TIMESTAMP and VARCHAR
+ * that every non-empty value reads as; VARCHAR for an empty column.
+ */
+export function inferColumnType(values: Iterable<string>): string {
+  let integer = true;
+  let number = true;
+  let boolean = true;
+  let date = true;
+  let timestamp = true;
+  let seen = false;
+  for (const raw of values) {
+    const text = raw.trim();
+    if (!text) continue;
+    seen = true;
+    const parsed = number ? parseNumber(text) : null;
+    if (parsed === null) number = false;
+    if (integer && (parsed === null || FRACTION_TEXT.test(text))) {
+      integer = false;
+    }
+    if (boolean && !BOOLEAN_WORDS.has(text.toLowerCase())) boolean = false;
+    if (date || timestamp) {
+      const ms = number ? null : parseDateValue(text);
+      if (ms === null) {
+        date = false;
+        timestamp = false;
+      } else if (ms % 86_400_000 !== 0) {
+        date = false;
+      }
+    }
+    if (!number && !boolean && !date && !timestamp) break;
+  }
+  if (!seen) return "VARCHAR";
+  if (integer) return "BIGINT";
+  if (number) return "DOUBLE";
+  if (boolean) return "BOOLEAN";
+  if (date) return "DATE";
+  if (timestamp) return "TIMESTAMP";
+  return "VARCHAR";
+}
+
+/**
+ * Up to `binCount` equal-width bins for values between `min` and `max`;
+ * `integral` bins (value lengths) get whole-number edges. `binOf` maps a
+ * value to its bin, which is `floor((value - min) / width)` clamped to the
+ * bins.
+ */
+export function histogramBins(
+  min: number,
+  max: number,
+  integral = false,
+  binCount = PROFILE_HISTOGRAM_BINS,
+): {
+  bins: Array<{ start: number; end: number; count: number }>;
+  width: number;
+  binOf: (value: number) => number;
+} {
+  const span = max - min;
+  let count = binCount;
+  if (span === 0) count = 1;
+  else if (integral) count = Math.min(count, span + 1);
+  const width =
+    span === 0 ? 1 : integral ? Math.ceil((span + 1) / count) : span / count;
+  if (integral) count = Math.ceil((span + 1) / width);
+  const bins = Array.from({ length: count }, (_, index) => ({
+    start: min + index * width,
+    end: index === count - 1 ? max : min + (index + 1) * width,
+    count: 0,
+  }));
+  return {
+    bins,
+    width,
+    binOf: (value) =>
+      Math.min(count - 1, Math.max(0, Math.floor((value - min) / width))),
+  };
+}
+
+const median = (sorted: number[]) => {
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]!
+    : (sorted[middle - 1]! + sorted[middle]!) / 2;
+};
+
+/**
+ * Profile a column from its cells. `type` is the column's DuckDB type when
+ * known; otherwise one is inferred from the values.
+ */
+export function profileValues(
+  column: string,
+  cells: ReadonlyArray<string | undefined>,
+  type?: string,
+): ColumnProfile {
+  const values: string[] = [];
+  for (const cell of cells) {
+    if (cell !== undefined && cell.trim() !== "") values.push(cell);
+  }
+  const resolvedType = type || inferColumnType(values);
+  const kind = profileKind(resolvedType);
+
+  const frequencies = new Map<string, number>();
+  for (const value of values) {
+    frequencies.set(value, (frequencies.get(value) ?? 0) + 1);
+  }
+  const topValues = Array.from(frequencies, ([value, count]) => ({
+    value,
+    count,
+  }))
+    .sort((a, b) => b.count - a.count || (a.value < b.value ? -1 : 1))
+    .slice(0, PROFILE_TOP_VALUES);
+
+  const profile: ColumnProfile = {
+    column,
+    type: resolvedType,
+    inferred: !type,
+    kind,
+    count: cells.length,
+    emptyCount: cells.length - values.length,
+    distinctCount: frequencies.size,
+    topValues,
+    histogram: { of: kind === "number" ? "value" : "length", bins: [] },
+  };
+
+  if (kind === "number") {
+    const numbers = values
+      .map(parseNumber)
+      .filter((value): value is number => value !== null)
+      .sort((a, b) => a - b);
+    if (numbers.length === 0) return profile;
+    const min = numbers[0]!;
+    const max = numbers[numbers.length - 1]!;
+    const mean =
+      numbers.reduce((sum, value) => sum + value, 0) / numbers.length;
+    profile.min = String(min);
+    profile.max = String(max);
+    profile.mean = mean;
+    profile.median = median(numbers);
+    if (numbers.length > 1) {
+      const squares = numbers.reduce(
+        (sum, value) => sum + (value - mean) ** 2,
+        0,
+      );
+      profile.stddev = Math.sqrt(squares / (numbers.length - 1));
+    }
+    const { bins, binOf } = histogramBins(min, max);
+    for (const value of numbers) bins[binOf(value)]!.count++;
+    profile.histogram.bins = bins;
+    return profile;
+  }
+
+  if (kind === "date") {
+    let min: { ms: number; text: string } | null = null;
+    let max: { ms: number; text: string } | null = null;
+    for (const text of values) {
+      const ms = parseDateValue(text);
+      if (ms === null) continue;
+      if (!min || ms < min.ms) min = { ms, text };
+      if (!max || ms > max.ms) max = { ms, text };
+    }
+    if (min && max) {
+      profile.min = min.text;
+      profile.max = max.text;
+    }
+  }
+
+  if (values.length > 0) {
+    const lengths = values.map((value) => Array.from(value).length);
+    let shortest = Infinity;
+    let longest = 0;
+    for (const length of lengths) {
+      shortest = Math.min(shortest, length);
+      longest = Math.max(longest, length);
+    }
+    const { bins, binOf } = histogramBins(shortest, longest, true);
+    for (const length of lengths) bins[binOf(length)]!.count++;
+    profile.histogram.bins = bins;
+  }
+  return profile;
+}
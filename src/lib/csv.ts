@@ -1 +1,7 @@
-export type ColumnDef = { name: string; width?: number; dataType?: string };
+export type ColumnDef = {
+  name: string;
+  width?: number;
+  dataType?: string;
+  /** Formula of a computed column (see `formulaAst.ts`). */
+  formula?: string;
+};
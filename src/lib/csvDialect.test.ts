@@ -0,0 +1,120 @@
+import { describe, expect, test } from "bun:test";
+import {
+  DEFAULT_CSV_IMPORT_OPTIONS,
+  csvOptionsToDuckDB,
+  normalizeCsvImportOptions,
+  parseCsvRecords,
+  parseCsvWithOptions,
+  sniffCsvDialect,
+} from "./csvDialect";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+describe("sniffCsvDialect", () => {
+  test("detects semicolons with decimal commas and day-first dates", () => {
+    const options = sniffCsvDialect(
+      encode(
+        "id;amount;booked\n1;1.234,50;05.03.2024\n2;7,25;17.03.2024\n3;NULL;31.03.2024\n",
+      ),
+    );
+    expect(options.delimiter).toBe(";");
+    expect(options.header).toBe(true);
+    expect(options.decimalSeparator).toBe(",");
+    expect(options.dateFormat).toBe("%d.%m.%Y");
+    expect(options.nullStrings).toEqual(["NULL"]);
+  });
+
+  test("detects pipes, headerless files and preamble lines", () => {
+    const options = sniffCsvDialect(
+      encode("Export 2024-03-05\n\n1|alpha|3.5\n2|beta|4\n3|gamma|7\n"),
+    );
+    expect(options.delimiter).toBe("|");
+    expect(options.skipRows).toBe(1);
+    expect(options.header).toBe(false);
+  });
+
+  test("falls back to Latin-1 for bytes that are not UTF-8", () => {
+    const sample = Uint8Array.from([
+      ...encode("name,city\nJos"),
+      0xe9,
+      ...encode(",Z"),
+      0xfc,
+      ...encode("rich\n"),
+    ]);
+    const options = sniffCsvDialect(sample);
+    expect(options.encoding).toBe("latin-1");
+  });
+
+  test("detects backslash escapes", () => {
+    const options = sniffCsvDialect('a,b\n"say \\"hi\\"",1\n"x",2\n');
+    expect(options.escape).toBe("\\");
+    expect(parseCsvRecords('"say \\"hi\\"",1', options)).toEqual([
+      ['say "hi"', "1"],
+    ]);
+  });
+});
+
+describe("parseCsvWithOptions", () => {
+  test("names headerless columns and normalizes cells", () => {
+    const { columns, rows } = parseCsvWithOptions(
+      "skip me\n1;2,5;05.03.2024\n2;NA;\n",
+      {
+        ...DEFAULT_CSV_IMPORT_OPTIONS,
+        delimiter: ";",
+        header: false,
+        skipRows: 1,
+        nullStrings: ["NA"],
+        decimalSeparator: ",",
+        dateFormat: "%d.%m.%Y",
+      },
+    );
+    expect(columns).toEqual(["column0", "column1", "column2"]);
+    expect(rows).toEqual([
+      ["1", "2.5", "2024-03-05"],
+      ["2", "", ""],
+    ]);
+  });
+
+  test("keeps delimiters and line breaks inside quotes", () => {
+    const { rows } = parseCsvWithOptions("a|b\n'x|y';'multi\nline'\n", {
+      ...DEFAULT_CSV_IMPORT_OPTIONS,
+      delimiter: ";",
+      quote: "'",
+      escape: "'",
+    });
+    expect(rows).toEqual([["x|y", "multi\nline"]]);
+  });
+});
+
+describe("csvOptionsToDuckDB", () => {
+  test("builds read_csv arguments", () => {
+    expect(
+      csvOptionsToDuckDB({
+        ...DEFAULT_CSV_IMPORT_OPTIONS,
+        delimiter: ";",
+        header: false,
+        skipRows: 2,
+        encoding: "latin-1",
+        nullStrings: ["N/A"],
+        decimalSeparator: ",",
+        dateFormat: "%d.%m.%Y",
+      }),
+    ).toBe(
+      "delim=';', quote='\"', escape='\"', header=false, skip=2, encoding='latin-1', decimal_separator=',', nullstr=['', 'N/A'], dateformat='%d.%m.%Y'",
+    );
+  });
+
+  test("normalizes untrusted options", () => {
+    const options = normalizeCsvImportOptions({
+      delimiter: ",",
+      decimalSeparator: ",",
+      skipRows: -3,
+      encoding: "ebcdic",
+      dateFormat: "'; DROP TABLE x; --",
+    });
+    expect(options).toEqual({
+      ...DEFAULT_CSV_IMPORT_OPTIONS,
+      decimalSeparator: ".",
+    });
+  });
+});
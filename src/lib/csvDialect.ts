@@ -0,0 +1,453 @@
+import { parseDateWithFormat } from "./date-utils";
+import { escapeLiteral } from "./duckdb-utils";
+
+export type CsvEncoding = "utf-8" | "utf-16" | "latin-1";
+export type DecimalSeparator = "." | ",";
+
+/**
+ * How to read a delimited text file. The same options drive the client-side
+ * parser (`parseStream`/`parseCSV`) and DuckDB's `read_csv`.
+ */
+export interface CsvImportOptions {
+  delimiter: string;
+  quote: string;
+  /** Equal to `quote` when quotes are escaped by doubling them. */
+  escape: string;
+  header: boolean;
+  /** Lines to drop before the header (or first data row). */
+  skipRows: number;
+  encoding: CsvEncoding;
+  /** Cell values read as empty/NULL, in addition to the empty string. */
+  nullStrings: string[];
+  decimalSeparator: DecimalSeparator;
+  /** strftime-style date pattern such as `%d.%m.%Y`; null for ISO/auto. */
+  dateFormat: string | null;
+}
+
+export const DEFAULT_CSV_IMPORT_OPTIONS: CsvImportOptions = {
+  delimiter: ",",
+  quote: '"',
+  escape: '"',
+  header: true,
+  skipRows: 0,
+  encoding: "utf-8",
+  nullStrings: [],
+  decimalSeparator: ".",
+  dateFormat: null,
+};
+
+export const CSV_DELIMITERS = [",", ";", "\t", "|"];
+export const CSV_QUOTES = ['"', "'"];
+export const CSV_ESCAPES = ['"', "'", "\\"];
+export const CSV_ENCODINGS: CsvEncoding[] = ["utf-8", "utf-16", "latin-1"];
+export const CSV_DATE_FORMATS = [
+  "%d.%m.%Y",
+  "%d/%m/%Y",
+  "%m/%d/%Y",
+  "%Y/%m/%d",
+  "%d-%m-%Y",
+  "%d-%b-%Y",
+  "%Y%m%d",
+];
+const NULL_CANDIDATES = ["NULL", "null", "NA", "N/A", "#N/A", "\\N", "-"];
+
+const TEXT_DECODER_LABELS: Record<CsvEncoding, string> = {
+  "utf-8": "utf-8",
+  "utf-16": "utf-16le",
+  "latin-1": "latin1",
+};
+
+export function createCsvDecoder(encoding: CsvEncoding): TextDecoder {
+  return new TextDecoder(TEXT_DECODER_LABELS[encoding]);
+}
+
+/** Validate untrusted options (e.g. from a request), filling in defaults. */
+export function normalizeCsvImportOptions(value: unknown): CsvImportOptions {
+  const input =
+    value && typeof value === "object"
+      ? (value as Partial<Record<keyof CsvImportOptions, unknown>>)
+      : {};
+  const pick = <T>(candidate: unknown, allowed: readonly T[], fallback: T) =>
+    allowed.includes(candidate as T) ? (candidate as T) : fallback;
+
+  const delimiter = pick(
+    input.delimiter,
+    CSV_DELIMITERS,
+    DEFAULT_CSV_IMPORT_OPTIONS.delimiter,
+  );
+  const quote = pick(input.quote, CSV_QUOTES, DEFAULT_CSV_IMPORT_OPTIONS.quote);
+  const decimalSeparator = pick<DecimalSeparator>(
+    input.decimalSeparator,
+    [".", ","],
+    ".",
+  );
+  const skipRows = Number(input.skipRows);
+  const dateFormat =
+    typeof input.dateFormat === "string" &&
+    /^[%A-Za-z0-9 ./:,-]{2,32}$/.test(input.dateFormat) &&
+    input.dateFormat.includes("%")
+      ? input.dateFormat
+      : null;
+  return {
+    delimiter,
+    quote,
+    escape: pick(input.escape, CSV_ESCAPES, quote),
+    header: typeof input.header === "boolean" ? input.header : true,
+    skipRows:
+      Number.isInteger(skipRows) && skipRows > 0 ? Math.min(skipRows, 1000) : 0,
+    encoding: pick(input.encoding, CSV_ENCODINGS, "utf-8"),
+    nullStrings: Array.isArray(input.nullStrings)
+      ? input.nullStrings
+          .filter((s): s is string => typeof s === "string" && s.length > 0)
+          .slice(0, 16)
+      : [],
+    // A decimal comma cannot share the field delimiter.
+    decimalSeparator: delimiter === "," ? "." : decimalSeparator,
+    dateFormat,
+  };
+}
+
+/**
+ * Incremental RFC 4180 tokenizer: feed text with `push`, get completed
+ * records back. Quotes only open at the start of a field, CRLF and LF both
+ * end records, and blank lines are skipped.
+ */
+export class CsvTokenizer {
+  private record: string[] = [];
+  private field = "";
+  private inQuotes = false;
+  private quoted = false;
+  private pendingQuote = false;
+  private pendingEscape = false;
+  private pendingCR = false;
+
+  constructor(
+    private readonly dialect: Pick<
+      CsvImportOptions,
+      "delimiter" | "quote" | "escape"
+    >,
+  ) {}
+
+  push(text: string): string[][] {
+    const out: string[][] = [];
+    const { delimiter, quote, escape } = this.dialect;
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i]!;
+      if (this.inQuotes) {
+        if (this.pendingEscape) {
+          this.field += ch;
+          this.pendingEscape = false;
+          continue;
+        }
+        if (this.pendingQuote) {
+          this.pendingQuote = false;
+          if (ch === quote) {
+            this.field += quote;
+            continue;
+          }
+          this.inQuotes = false;
+          // Fall through: `ch` follows the closing quote.
+        } else if (ch === escape && escape !== quote) {
+          this.pendingEscape = true;
+          continue;
+        } else if (ch === quote) {
+          if (escape === quote) this.pendingQuote = true;
+          else this.inQuotes = false;
+          continue;
+        } else {
+          this.field += ch;
+          continue;
+        }
+      }
+
+      if (this.pendingCR) {
+        this.pendingCR = false;
+        if (ch === "\n") {
+          this.endRecord(out);
+          continue;
+        }
+        this.field += "\r";
+      }
+      if (ch === quote && this.field === "" && !this.quoted) {
+        this.inQuotes = true;
+        this.quoted = true;
+      } else if (ch === delimiter) {
+        this.endField();
+      } else if (ch === "\n") {
+        this.endRecord(out);
+      } else if (ch === "\r") {
+        this.pendingCR = true;
+      } else {
+        this.field += ch;
+      }
+    }
+    return out;
+  }
+
+  /** Emit the final record; an unterminated quoted field is dropped. */
+  flush(): string[][] {
+    const out: string[][] = [];
+    if (this.pendingQuote) {
+      this.pendingQuote = false;
+      this.inQuotes = false;
+    }
+    if (this.inQuotes) return out;
+    if (this.pendingCR) this.pendingCR = false;
+    this.endRecord(out);
+    return out;
+  }
+
+  private endField() {
+    this.record.push(this.field);
+    this.field = "";
+    this.quoted = false;
+  }
+
+  private endRecord(out: string[][]) {
+    const blank = this.record.length === 0 && this.field === "" && !this.quoted;
+    this.endField();
+    if (!blank) out.push(this.record);
+    this.record = [];
+  }
+}
+
+export function parseCsvRecords(
+  text: string,
+  dialect: Pick<CsvImportOptions, "delimiter" | "quote" | "escape">,
+): string[][] {
+  const tokenizer = new CsvTokenizer(dialect);
+  return [...tokenizer.push(text), ...tokenizer.flush()];
+}
+
+/** Names DuckDB gives headerless columns. */
+export function headerlessColumnNames(count: number): string[] {
+  return Array.from({ length: count }, (_, i) => `column${i}`);
+}
+
+const DECIMAL_COMMA = /^[+-]?(?:\d{1,3}(?:\.\d{3})+|\d+)(?:,\d+)?$/;
+
+/**
+ * Per-cell clean-up that mirrors what DuckDB does with the same options:
+ * null strings become empty, decimal commas become points and dates in
+ * `dateFormat` become ISO. Returns null when no clean-up is configured.
+ */
+export function createCellNormalizer(
+  options: Pick<
+    CsvImportOptions,
+    "nullStrings" | "decimalSeparator" | "dateFormat"
+  >,
+): ((value: string) => string) | null {
+  const nulls = new Set(options.nullStrings);
+  const decimalComma = options.decimalSeparator === ",";
+  const { dateFormat } = options;
+  if (nulls.size === 0 && !decimalComma && !dateFormat) return null;
+  return (value) => {
+    if (nulls.has(value)) return "";
+    if (decimalComma && value.includes(",") && DECIMAL_COMMA.test(value)) {
+      return value.replace(/\./g, "").replace(",", ".");
+    }
+    if (dateFormat) {
+      const iso = parseDateWithFormat(value, dateFormat);
+      if (iso) return iso;
+    }
+    return value;
+  };
+}
+
+/**
+ * Parse decoded text with the import options: skip leading lines, take the
+ * header (or name columns `column0…`) and normalise cells.
+ */
+export function parseCsvWithOptions(
+  text: string,
+  options: CsvImportOptions,
+  maxRows = Number.POSITIVE_INFINITY,
+): { columns: string[]; rows: string[][] } {
+  const records = parseCsvRecords(text, options).slice(options.skipRows);
+  const width = records.reduce((max, r) => Math.max(max, r.length), 0);
+  const columns = options.header
+    ? (records.shift() ?? []).map((name) => name.trim())
+    : headerlessColumnNames(width);
+  const normalize = createCellNormalizer(options);
+  const rows = records
+    .slice(0, maxRows)
+    .map((row) => (normalize ? row.map(normalize) : row));
+  return { columns, rows };
+}
+
+/** Guess the encoding from a BOM, falling back to Latin-1 for invalid UTF-8. */
+export function detectEncoding(bytes: Uint8Array): CsvEncoding {
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return "utf-16";
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return "utf-8";
+  }
+  try {
+    // `stream` keeps a multi-byte character cut off by the sample buffered
+    // instead of reporting it as invalid.
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes, { stream: true });
+    return "utf-8";
+  } catch {
+    return "latin-1";
+  }
+}
+
+export function decodeCsvSample(
+  sample: Uint8Array,
+  encoding: CsvEncoding,
+): string {
+  const text = createCsvDecoder(encoding).decode(sample, { stream: true });
+  // Drop the last line: the sample probably cut it short.
+  const lastBreak = text.lastIndexOf("\n");
+  return lastBreak > 0 ? text.slice(0, lastBreak + 1) : text;
+}
+
+function mode(values: number[]): { value: number; count: number } {
+  const counts = new Map<number, number>();
+  let best = { value: 0, count: 0 };
+  for (const v of values) {
+    const count = (counts.get(v) ?? 0) + 1;
+    counts.set(v, count);
+    if (count > best.count || (count === best.count && v > best.value)) {
+      best = { value: v, count };
+    }
+  }
+  return best;
+}
+
+const NUMBER_LIKE = /^[+-]?(?:\d[\d.,]*|\.\d+)(?:e[+-]?\d+)?$/i;
+const DATE_LIKE = /^\d{1,4}[./-]\d{1,2}[./-]\d{1,4}$|^\d{1,2}-[a-z]{3}-\d{4}$/i;
+
+function looksTyped(value: string): boolean {
+  const text = value.trim();
+  return NUMBER_LIKE.test(text) || DATE_LIKE.test(text);
+}
+
+/**
+ * Detect import options from the first bytes of a file: encoding, quote and
+ * escape characters, the delimiter whose field counts are most consistent,
+ * preamble lines, whether the first row is a header, null markers, a decimal
+ * comma and a non-ISO date format.
+ */
+export function sniffCsvDialect(sample: Uint8Array | string): CsvImportOptions {
+  const encoding =
+    typeof sample === "string" ? "utf-8" : detectEncoding(sample);
+  const text =
+    typeof sample === "string" ? sample : decodeCsvSample(sample, encoding);
+  const head = text.slice(0, 64 * 1024);
+
+  const singleQuoted = (head.match(/(^|[,;\t|])'/gm) ?? []).length;
+  const doubleQuoted = (head.match(/(^|[,;\t|])"/gm) ?? []).length;
+  const quote = singleQuoted > doubleQuoted ? "'" : '"';
+  // `\""` ends a backslash-escaped field, so only a doubled quote that does
+  // not follow a backslash counts as RFC 4180 escaping.
+  const backslashEscaped = head.includes(`\\${quote}`);
+  const doubled = new RegExp(`(?<!\\\\)${quote}${quote}(?!${quote})`);
+  const escape = backslashEscaped && !doubled.test(head) ? "\\" : quote;
+
+  let best = {
+    delimiter: ",",
+    records: [] as string[][],
+    width: 1,
+    consistent: 0,
+  };
+  for (const delimiter of CSV_DELIMITERS) {
+    const records = parseCsvRecords(head, { delimiter, quote, escape }).slice(
+      0,
+      200,
+    );
+    const { value: width, count } = mode(records.map((r) => r.length));
+    if (width < 2) continue;
+    if (
+      count > best.consistent ||
+      (count === best.consistent && width > best.width)
+    ) {
+      best = { delimiter, records, width, consistent: count };
+    }
+  }
+  const { delimiter, width } = best;
+  const records = best.records.length
+    ? best.records
+    : parseCsvRecords(head, { delimiter, quote, escape });
+
+  // Leading lines with a different shape (titles, export notes) are skipped.
+  let skipRows = 0;
+  while (
+    skipRows < Math.min(10, records.length - 1) &&
+    records[skipRows]!.length !== width
+  ) {
+    skipRows++;
+  }
+  const body = records.slice(skipRows);
+  const [first = [], ...rest] = body;
+
+  // A header has no typed cells while the data below it does, or (for text
+  // only data) distinct non-empty names.
+  const firstTyped = first.some((cell) => looksTyped(cell));
+  const restTyped = rest.some((row) => row.some((cell) => looksTyped(cell)));
+  const distinctNames =
+    first.every((cell) => cell.trim() !== "") &&
+    new Set(first.map((cell) => cell.trim().toLowerCase())).size ===
+      first.length;
+  const header = !firstTyped && (restTyped || distinctNames);
+
+  const dataCells = (header ? rest : body).flat();
+  const nullStrings = NULL_CANDIDATES.filter((candidate) =>
+    dataCells.some((cell) => cell === candidate),
+  );
+
+  let decimalSeparator: DecimalSeparator = ".";
+  if (delimiter !== ",") {
+    const commaDecimals = dataCells.filter((c) => /^[+-]?\d+,\d+$/.test(c));
+    const pointDecimals = dataCells.filter((c) => /^[+-]?\d+\.\d+$/.test(c));
+    if (commaDecimals.length > pointDecimals.length) decimalSeparator = ",";
+  }
+
+  return {
+    delimiter,
+    quote,
+    escape,
+    header,
+    skipRows,
+    encoding,
+    nullStrings,
+    decimalSeparator,
+    dateFormat: detectDateFormat(dataCells),
+  };
+}
+
+/** The first non-ISO format that parses every date-looking cell, if any. */
+function detectDateFormat(cells: string[]): string | null {
+  const dates = cells
+    .map((cell) => cell.trim())
+    .filter((cell) => DATE_LIKE.test(cell) || /^\d{8}$/.test(cell));
+  const candidates = dates.filter((cell) => !/^\d{4}-\d{2}-\d{2}$/.test(cell));
+  if (candidates.length === 0) return null;
+  return (
+    CSV_DATE_FORMATS.find((format) =>
+      candidates.every((cell) => parseDateWithFormat(cell, format) != null),
+    ) ?? null
+  );
+}
+
+/** `read_csv` named arguments for the options (a SQL fragment). */
+export function csvOptionsToDuckDB(options: CsvImportOptions): string {
+  const literal = (value: string) => `'${escapeLiteral(value)}'`;
+  const parts = [
+    `delim=${literal(options.delimiter)}`,
+    `quote=${literal(options.quote)}`,
+    `escape=${literal(options.escape)}`,
+    `header=${options.header ? "true" : "false"}`,
+    `skip=${options.skipRows}`,
+    `encoding=${literal(options.encoding)}`,
+    `decimal_separator=${literal(options.decimalSeparator)}`,
+  ];
+  if (options.nullStrings.length > 0) {
+    parts.push(
+      `nullstr=[${["", ...options.nullStrings].map(literal).join(", ")}]`,
+    );
+  }
+  if (options.dateFormat) {
+    parts.push(`dateformat=${literal(options.dateFormat)}`);
+  }
+  return parts.join(", ");
+}
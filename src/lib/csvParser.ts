@@ -1,75 +1,39 @@
 import type { ColumnDef } from "./csv";
+import {
+  DEFAULT_CSV_IMPORT_OPTIONS,
+  createCsvDecoder,
+  parseCsvWithOptions,
+  sniffCsvDialect,
+  type CsvImportOptions,
+} from "./csvDialect";
 
 export interface ParsedCSV {
   columns: ColumnDef[];
   rows: string[][];
 }
 
-export function detectDelimiter(text: string): "," | "\t" {
-  const lines = text.split(/\r?\n/).slice(0, 5);
-  let commaCount = 0;
-  let tabCount = 0;
-
-  for (const line of lines) {
-    if (!line.trim()) continue;
-    let inQuotes = false;
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      const nextChar = line[i + 1];
-      if (char === '"') {
-        if (inQuotes && nextChar === '"') {
-          i++;
-        } else {
-          inQuotes = !inQuotes;
-        }
-      } else if (!inQuotes) {
-        if (char === ",") commaCount++;
-        else if (char === "\t") tabCount++;
-      }
-    }
-  }
-
-  return tabCount > commaCount ? "\t" : ",";
+/** The delimiter `sniffCsvDialect` picks for the sample (`,` if unsure). */
+export function detectDelimiter(text: string): string {
+  return sniffCsvDialect(text).delimiter;
 }
 
-export function parseCSV(text: string, delimiter?: "," | "\t"): ParsedCSV {
-  const detectedDelimiter = delimiter ?? detectDelimiter(text);
-  const lines = text.split(/\r?\n/);
-  const rows: string[][] = [];
-
-  for (const line of lines) {
-    if (!line.trim()) continue;
-
-    const row: string[] = [];
-    let current = "";
-    let inQuotes = false;
-
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      const nextChar = line[i + 1];
-
-      if (char === '"') {
-        if (inQuotes && nextChar === '"') {
-          current += '"';
-          i++;
-        } else {
-          inQuotes = !inQuotes;
-        }
-      } else if (char === detectedDelimiter && !inQuotes) {
-        row.push(current);
-        current = "";
-      } else {
-        current += char;
-      }
-    }
-
-    row.push(current);
-    rows.push(row);
-  }
-
-  const headers = rows.shift() || [];
-  const columns: ColumnDef[] = headers.map((name) => ({
-    name: name.trim(),
+/**
+ * Parse CSV text. Without options the delimiter is detected and the first
+ * row is the header; pass import options to control the dialect.
+ */
+export function parseCSV(
+  text: string,
+  options: Partial<CsvImportOptions> = {},
+): ParsedCSV {
+  const dialect: CsvImportOptions = {
+    ...DEFAULT_CSV_IMPORT_OPTIONS,
+    delimiter: options.delimiter ?? detectDelimiter(text),
+    ...options,
+  };
+  if (options.quote && !options.escape) dialect.escape = options.quote;
+  const { columns: names, rows } = parseCsvWithOptions(text, dialect);
+  const columns: ColumnDef[] = names.map((name) => ({
+    name,
     width: 160,
   }));
 
@@ -86,7 +50,15 @@ export async function fetchAndParseCSV(url: string): Promise<ParsedCSV> {
   return parseCSV(text);
 }
 
-export async function parseCSVFile(file: File): Promise<ParsedCSV> {
-  const text = await file.text();
-  return parseCSV(text);
+export async function parseCSVFile(
+  file: File,
+  options?: Partial<CsvImportOptions>,
+): Promise<ParsedCSV> {
+  if (!options?.encoding || options.encoding === "utf-8") {
+    return parseCSV(await file.text(), options);
+  }
+  const text = createCsvDecoder(options.encoding).decode(
+    await file.arrayBuffer(),
+  );
+  return parseCSV(text, options);
 }
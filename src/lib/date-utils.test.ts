@@ -0,0 +1,91 @@
+import { describe, expect, test } from "bun:test";
+import {
+  parseDatePeriod,
+  parseDateValue,
+  parseDateWithFormat,
+  relativePeriod,
+} from "./date-utils";
+
+describe("parseDateValue", () => {
+  test("parses ISO dates and timestamps as UTC", () => {
+    expect(parseDateValue("2024-03-05")).toBe(Date.UTC(2024, 2, 5));
+    expect(parseDateValue("2024-03-05T10:30:15")).toBe(
+      Date.UTC(2024, 2, 5, 10, 30, 15),
+    );
+    expect(parseDateValue("2024-03-05 10:30")).toBe(
+      Date.UTC(2024, 2, 5, 10, 30),
+    );
+  });
+
+  test("parses common locale formats", () => {
+    const expected = Date.UTC(2024, 2, 5);
+    expect(parseDateValue("3/5/2024")).toBe(expected);
+    expect(parseDateValue("05.03.2024")).toBe(expected);
+    expect(parseDateValue("2024/03/05")).toBe(expected);
+    expect(parseDateValue("05-Mar-2024")).toBe(expected);
+    expect(parseDateValue("Mar 5, 2024")).toBe(expected);
+  });
+
+  test("rejects impossible dates and plain numbers", () => {
+    expect(parseDateValue("2024-02-30")).toBeNull();
+    expect(parseDateValue("13/01/2024")).toBeNull();
+    expect(parseDateValue("1700000000")).toBeNull();
+    expect(parseDateValue("hello")).toBeNull();
+  });
+
+  test("reads numbers as epoch seconds or milliseconds when allowed", () => {
+    expect(parseDateValue("1700000000", { allowEpoch: true })).toBe(
+      1_700_000_000_000,
+    );
+    expect(parseDateValue("1700000000000", { allowEpoch: true })).toBe(
+      1_700_000_000_000,
+    );
+  });
+});
+
+describe("parseDatePeriod", () => {
+  test("derives the period from the operand precision", () => {
+    expect(parseDatePeriod("2023")).toEqual({
+      start: Date.UTC(2023, 0, 1),
+      end: Date.UTC(2024, 0, 1),
+    });
+    expect(parseDatePeriod("2024-12")).toEqual({
+      start: Date.UTC(2024, 11, 1),
+      end: Date.UTC(2025, 0, 1),
+    });
+    expect(parseDatePeriod("2024-02-29")).toEqual({
+      start: Date.UTC(2024, 1, 29),
+      end: Date.UTC(2024, 2, 1),
+    });
+    expect(parseDatePeriod("2024-01-01 12:00")).toEqual({
+      start: Date.UTC(2024, 0, 1, 12),
+      end: Date.UTC(2024, 0, 1, 12, 1),
+    });
+  });
+});
+
+describe("relativePeriod", () => {
+  test("ends now and reaches back by the given unit", () => {
+    const now = Date.UTC(2024, 2, 31, 12);
+    expect(relativePeriod(7, "d", now).start).toBe(Date.UTC(2024, 2, 24, 12));
+    expect(relativePeriod(1, "y", now).start).toBe(Date.UTC(2023, 2, 31, 12));
+    expect(relativePeriod(2, "h", now).end).toBe(now + 1);
+  });
+});
+
+describe("parseDateWithFormat", () => {
+  test("reads day-first and month-name dates as ISO", () => {
+    expect(parseDateWithFormat("05.03.2024", "%d.%m.%Y")).toBe("2024-03-05");
+    expect(parseDateWithFormat("5-Mar-2024", "%d-%b-%Y")).toBe("2024-03-05");
+    expect(parseDateWithFormat("20240305", "%Y%m%d")).toBe("2024-03-05");
+    expect(parseDateWithFormat("05/03/24 14:30:00", "%d/%m/%y %H:%M:%S")).toBe(
+      "2024-03-05 14:30:00",
+    );
+  });
+
+  test("rejects text that does not match or is not a real date", () => {
+    expect(parseDateWithFormat("2024-03-05", "%d.%m.%Y")).toBeNull();
+    expect(parseDateWithFormat("31.02.2024", "%d.%m.%Y")).toBeNull();
+    expect(parseDateWithFormat("", "%d.%m.%Y")).toBeNull();
+  });
+});
@@ -0,0 +1,261 @@
+import { parseNumber } from "./validators";
+
+/** Half-open interval `[start, end)` in UTC epoch milliseconds. */
+export interface DatePeriod {
+  start: number;
+  end: number;
+}
+
+export type RelativeUnit = "h" | "d" | "w" | "m" | "y";
+
+const DAY_MS = 86_400_000;
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+const ISO_DATE_TIME =
+  /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d{1,6}))?)?Z?)?$/i;
+const YEAR_MONTH = /^(\d{4})-(\d{1,2})$/;
+const YEAR_ONLY = /^(\d{4})$/;
+const SLASH_YMD = /^(\d{4})\/(\d{1,2})\/(\d{1,2})$/;
+const SLASH_MDY = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+const DOT_DMY = /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/;
+const DAY_MON_YEAR = /^(\d{1,2})-([a-z]{3})-(\d{4})$/i;
+const MON_DAY_YEAR = /^([a-z]{3}) (\d{1,2}), (\d{4})$/i;
+
+/**
+ * strptime formats DuckDB tries for text cells after a plain TIMESTAMP cast;
+ * keep in step with the locale patterns above.
+ */
+export const DUCKDB_DATE_FORMATS = [
+  "%Y/%m/%d",
+  "%m/%d/%Y",
+  "%d.%m.%Y",
+  "%d-%b-%Y",
+  "%b %d, %Y",
+];
+
+function utc(
+  year: number,
+  month: number,
+  day: number,
+  hour = 0,
+  minute = 0,
+  second = 0,
+  ms = 0,
+): number | null {
+  const time = Date.UTC(year, month - 1, day, hour, minute, second, ms);
+  const date = new Date(time);
+  // Reject rollovers such as 2024-02-30.
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day ||
+    hour > 23 ||
+    minute > 59 ||
+    second > 59
+  ) {
+    return null;
+  }
+  return time;
+}
+
+function monthIndex(name: string): number | null {
+  const index = MONTHS.indexOf(name.toLowerCase());
+  return index >= 0 ? index + 1 : null;
+}
+
+function parseDayFormats(text: string): number | null {
+  let match = text.match(SLASH_YMD);
+  if (match) return utc(+match[1]!, +match[2]!, +match[3]!);
+  match = text.match(SLASH_MDY);
+  if (match) return utc(+match[3]!, +match[1]!, +match[2]!);
+  match = text.match(DOT_DMY);
+  if (match) return utc(+match[3]!, +match[2]!, +match[1]!);
+  match = text.match(DAY_MON_YEAR);
+  if (match) {
+    const month = monthIndex(match[2]!);
+    return month ? utc(+match[3]!, month, +match[1]!) : null;
+  }
+  match = text.match(MON_DAY_YEAR);
+  if (match) {
+    const month = monthIndex(match[1]!);
+    return month ? utc(+match[3]!, month, +match[2]!) : null;
+  }
+  return null;
+}
+
+/** Epoch values below 1e11 are seconds, larger ones milliseconds. */
+export function epochToMs(value: number): number {
+  return Math.abs(value) < 1e11 ? value * 1000 : value;
+}
+
+/**
+ * Parse a cell value into UTC epoch milliseconds. ISO dates/timestamps and
+ * the locale formats in `DUCKDB_DATE_FORMATS` are recognised (slashes are
+ * read month-first, dots day-first); `allowEpoch` also accepts plain numbers.
+ */
+export function parseDateValue(
+  raw: string,
+  options: { allowEpoch?: boolean } = {},
+): number | null {
+  const text = (raw ?? "").trim();
+  if (!text) return null;
+  if (options.allowEpoch) {
+    const numeric = parseNumber(text);
+    if (numeric != null) return epochToMs(numeric);
+  }
+  const iso = text.match(ISO_DATE_TIME);
+  if (iso) {
+    const fraction = iso[7] ? Math.floor(Number(`0.${iso[7]}`) * 1000) : 0;
+    return utc(
+      +iso[1]!,
+      +iso[2]!,
+      +iso[3]!,
+      Number(iso[4] ?? 0),
+      Number(iso[5] ?? 0),
+      Number(iso[6] ?? 0),
+      fraction,
+    );
+  }
+  return parseDayFormats(text);
+}
+
+/**
+ * Parse a filter operand into the period it names: `2024` is the whole year,
+ * `2024-03` the month, `2024-03-05` the day and a timestamp its minute or
+ * second.
+ */
+export function parseDatePeriod(raw: string): DatePeriod | null {
+  const text = (raw ?? "").trim();
+  if (!text) return null;
+  let match = text.match(YEAR_ONLY);
+  if (match) return yearPeriod(+match[1]!);
+  match = text.match(YEAR_MONTH);
+  if (match) {
+    const start = utc(+match[1]!, +match[2]!, 1);
+    if (start == null) return null;
+    const next = new Date(start);
+    next.setUTCMonth(next.getUTCMonth() + 1);
+    return { start, end: next.getTime() };
+  }
+  const iso = text.match(ISO_DATE_TIME);
+  if (iso) {
+    const start = parseDateValue(text);
+    if (start == null) return null;
+    const span = iso[6] != null ? 1000 : iso[4] != null ? 60_000 : DAY_MS;
+    return { start, end: start + span };
+  }
+  const day = parseDayFormats(text);
+  return day == null ? null : { start: day, end: day + DAY_MS };
+}
+
+export function yearPeriod(year: number): DatePeriod | null {
+  const start = utc(year, 1, 1);
+  const end = utc(year + 1, 1, 1);
+  return start == null || end == null ? null : { start, end };
+}
+
+/** The window covered by `last:<amount><unit>`, ending at `now`. */
+export function relativePeriod(
+  amount: number,
+  unit: RelativeUnit,
+  now: number = Date.now(),
+): DatePeriod {
+  const start = new Date(now);
+  switch (unit) {
+    case "h":
+      start.setTime(now - amount * 3_600_000);
+      break;
+    case "d":
+      start.setTime(now - amount * DAY_MS);
+      break;
+    case "w":
+      start.setTime(now - amount * 7 * DAY_MS);
+      break;
+    case "m":
+      start.setUTCMonth(start.getUTCMonth() - amount);
+      break;
+    case "y":
+      start.setUTCFullYear(start.getUTCFullYear() - amount);
+      break;
+  }
+  return { start: start.getTime(), end: now + 1 };
+}
+
+const STRPTIME_TOKENS: Record<string, string> = {
+  Y: "(\\d{4})",
+  y: "(\\d{2})",
+  m: "(\\d{1,2})",
+  d: "(\\d{1,2})",
+  b: "([a-z]{3})",
+  H: "(\\d{1,2})",
+  M: "(\\d{2})",
+  S: "(\\d{2})",
+};
+
+/**
+ * Parse `raw` with a strptime-style `format` (`%Y %y %m %d %b %H %M %S`, as
+ * DuckDB's `dateformat` uses) into ISO text: `YYYY-MM-DD`, plus ` HH:MM:SS`
+ * when the format has a time. Two-digit years below 69 are 20xx.
+ */
+export function parseDateWithFormat(
+  raw: string,
+  format: string,
+): string | null {
+  const fields: string[] = [];
+  let pattern = "";
+  for (let i = 0; i < format.length; i++) {
+    const ch = format[i]!;
+    if (ch === "%" && i + 1 < format.length) {
+      const token = format[++i]!;
+      if (token === "%") {
+        pattern += "%";
+        continue;
+      }
+      const group = STRPTIME_TOKENS[token];
+      if (!group) return null;
+      fields.push(token);
+      pattern += group;
+    } else {
+      pattern += ch.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  const match = (raw ?? "").trim().match(new RegExp(`^${pattern}$`, "i"));
+  if (!match) return null;
+
+  const parts: Record<string, number> = { H: 0, M: 0, S: 0 };
+  for (const [index, token] of fields.entries()) {
+    const value = match[index + 1]!;
+    if (token === "b") {
+      const month = monthIndex(value);
+      if (month == null) return null;
+      parts.m = month;
+    } else if (token === "y") {
+      const year = Number(value);
+      parts.Y = year < 69 ? 2000 + year : 1900 + year;
+    } else {
+      parts[token] = Number(value);
+    }
+  }
+  if (parts.Y == null || parts.m == null || parts.d == null) return null;
+  if (utc(parts.Y, parts.m, parts.d, parts.H, parts.M, parts.S) == null) {
+    return null;
+  }
+  const pad = (value: number, width = 2) => String(value).padStart(width, "0");
+  const date = `${pad(parts.Y, 4)}-${pad(parts.m)}-${pad(parts.d)}`;
+  return fields.includes("H")
+    ? `${date} ${pad(parts.H!)}:${pad(parts.M!)}:${pad(parts.S!)}`
+    : date;
+}
@@ -10,6 +10,10 @@ export function escapeLiteral(value: string): string {
   return value.replace(/'/g, "''");
 }
 
+export function isValidTableName(value: unknown): value is string {
+  return typeof value === "string" && TABLE_NAME_REGEX.test(value);
+}
+
 export function sanitizeTableName(value?: string | unknown): string {
   return typeof value === "string" && TABLE_NAME_REGEX.test(value)
     ? value
@@ -32,8 +36,23 @@ export function deriveTableNameFromFilename(
   return TABLE_NAME_REGEX.test(safe) ? safe : fallback;
 }
 
+/** Whether `duckdbType` is a LIST, ARRAY, STRUCT, MAP or UNION type. */
+export function isNestedType(duckdbType: string): boolean {
+  return /^(STRUCT|MAP|UNION)\s*\(|\]$/i.test(duckdbType.trim());
+}
+
+/**
+ * The type name without its parameters (`DECIMAL(18,3)` is `DECIMAL`), or
+ * null for nested types, whose element types say nothing about the value.
+ */
+function baseTypeName(duckdbType: string): string | null {
+  if (isNestedType(duckdbType)) return null;
+  return duckdbType.replace(/\(.*$/, "").trim().toUpperCase();
+}
+
 export function isNumericType(duckdbType: string): boolean {
-  const type = duckdbType.toUpperCase();
+  const type = baseTypeName(duckdbType);
+  if (type === null) return false;
   return (
     type.includes("INT") ||
     type.includes("FLOAT") ||
@@ -47,3 +66,9 @@ export function isNumericType(duckdbType: string): boolean {
     type === "NUMBER"
   );
 }
+
+export function isDateType(duckdbType: string): boolean {
+  const type = baseTypeName(duckdbType);
+  if (type === null) return false;
+  return type.startsWith("DATE") || type.startsWith("TIMESTAMP");
+}
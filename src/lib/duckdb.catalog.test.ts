@@ -0,0 +1,104 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { DEFAULT_DUCKDB_TABLE } from "@/constants/duckdb";
+import {
+  createTableFromQuery,
+  dropTables,
+  duplicateTable,
+  getTableDetails,
+  initDuckDB,
+  listTableDetails,
+  loadCsvFromSource,
+  renameTable,
+  setTableDescription,
+} from "@/lib/duckdb";
+import { DEFAULT_CSV_IMPORT_OPTIONS } from "@/lib/csvDialect";
+
+describe("duckdb workspace catalog", () => {
+  beforeAll(async () => {
+    await initDuckDB();
+  });
+
+  test("records the sample as the default table's source", async () => {
+    const tables = await listTableDetails();
+    const sample = tables.find((t) => t.name === DEFAULT_DUCKDB_TABLE);
+    expect(sample?.sourceKind).toBe("sample");
+    expect(sample?.source).toBe("sample.csv");
+    expect(sample?.loadedRowCount).toBe(sample?.rowCount ?? -1);
+  });
+
+  test("tracks loads, descriptions and drops", async () => {
+    const table = `tmp_catalog_${Date.now()}`;
+    const csvOptions = { ...DEFAULT_CSV_IMPORT_OPTIONS, delimiter: ";" };
+    await loadCsvFromSource(
+      { blob: new Blob(["a;b\n1;2\n3;4\n"]), name: "people.csv" },
+      table,
+      { csvOptions },
+    );
+    let details = await getTableDetails(table);
+    expect(details).toMatchObject({
+      name: table,
+      source: "people.csv",
+      sourceKind: "file",
+      importOptions: { format: "csv", csvOptions },
+      loadedRowCount: 2,
+      rowCount: 2,
+      description: null,
+    });
+    expect(Date.parse(details.loadedAt ?? "")).not.toBeNaN();
+
+    await setTableDescription(table, "Survey answers");
+    await loadCsvFromSource(
+      { blob: new Blob(["a\n1\n"]), name: "people_v2.csv" },
+      table,
+    );
+    details = await getTableDetails(table);
+    expect(details.source).toBe("people_v2.csv");
+    expect(details.importOptions).toEqual({ format: "csv" });
+    expect(details.rowCount).toBe(1);
+    expect(details.description).toBe("Survey answers");
+
+    await dropTables([table]);
+    expect((await getTableDetails(table)).source).toBeNull();
+  });
+
+  test("records the SQL behind tables created from queries", async () => {
+    const table = `tmp_catalog_query_${Date.now()}`;
+    await createTableFromQuery(table, "SELECT 1 AS one; -- saved");
+    const details = await getTableDetails(table);
+    expect(details.sourceKind).toBe("query");
+    expect(details.source).toBe("SELECT 1 AS one");
+    await dropTables([table]);
+  });
+
+  test("moves the catalog entry with a renamed table", async () => {
+    const from = `tmp_catalog_from_${Date.now()}`;
+    const to = `${from}_renamed`;
+    await createTableFromQuery(from, "SELECT 1 AS one");
+    await setTableDescription(from, "Before rename");
+    await renameTable(from, to);
+    expect((await getTableDetails(from)).source).toBeNull();
+    expect(await getTableDetails(to)).toMatchObject({
+      name: to,
+      source: "SELECT 1 AS one",
+      description: "Before rename",
+      rowCount: 1,
+    });
+    await dropTables([to]);
+  });
+
+  test("copies rows and catalog entry into a duplicate", async () => {
+    const from = `tmp_catalog_orig_${Date.now()}`;
+    const to = `${from}_copy`;
+    await createTableFromQuery(from, "SELECT * FROM range(3) t(n)");
+    await setTableDescription(from, "Original");
+    const copy = await duplicateTable(from, to);
+    expect(copy).toMatchObject({ name: to, rowCount: 3 });
+    expect(await getTableDetails(to)).toMatchObject({
+      source: "SELECT * FROM range(3) t(n)",
+      sourceKind: "query",
+      description: "Original",
+    });
+    await expect(duplicateTable(from, to)).rejects.toThrow();
+    await dropTables([from, to]);
+  });
+});
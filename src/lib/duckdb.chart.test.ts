@@ -0,0 +1,90 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { computeChart, parseChartConfig, type ChartConfig } from "@/lib/chart";
+import {
+  chartTable,
+  createTableFromQuery,
+  dropTables,
+  getTableChunk,
+  initDuckDB,
+} from "@/lib/duckdb";
+
+const table = `tmp_chart_${Date.now()}`;
+const long = `tmp_chart_long_${Date.now()}`;
+
+describe("duckdb charts", () => {
+  beforeAll(async () => {
+    await initDuckDB();
+    await createTableFromQuery(
+      table,
+      `SELECT * FROM (VALUES
+         ('North', DATE '2024-01-03', 10.5, '3'),
+         ('South', DATE '2024-01-01', 4, 'x'),
+         ('North', DATE '2024-01-02', NULL, '1'),
+         (NULL, DATE '2024-01-04', 2, '8'),
+         ('South', DATE '2024-01-05', 7, '5'),
+         ('East', NULL, 1, '2')
+       ) t(region, day, amount, note)`,
+    );
+    await createTableFromQuery(
+      long,
+      `SELECT i AS x, CASE WHEN i = 4321 THEN 1000 ELSE i % 7 END AS y
+       FROM range(20000) t(i)`,
+    );
+  });
+
+  afterAll(async () => {
+    await dropTables([table, long]);
+  });
+
+  test("matches the client chart of the same view", async () => {
+    const { columns, rows } = await getTableChunk(table, 0, 100);
+    const names = columns.map((column) => column.name);
+    const configs: Array<Record<string, unknown>> = [
+      { kind: "bar", x: "region", y: "amount", aggregate: "sum" },
+      { kind: "pie", x: "region", aggregate: "count" },
+      { kind: "bar", x: "region", y: "note", aggregate: "max" },
+      { kind: "line", x: "day", y: "amount" },
+      { kind: "scatter", x: "note", y: "amount" },
+      { kind: "histogram", x: "amount", bins: 4 },
+    ];
+    for (const raw of configs) {
+      const config: ChartConfig = parseChartConfig(raw, names);
+      expect(await chartTable(table, config)).toEqual(
+        computeChart(config, names, rows),
+      );
+    }
+  });
+
+  test("charts selected view rows only", async () => {
+    const config = parseChartConfig({ kind: "pie", x: "region" });
+    const sort = [{ columnName: "note", direction: "asc" as const }];
+    // Sorted by note: 1 (North), 2 (East), 3 (North), 5, 8, x.
+    expect(
+      await chartTable(table, config, { sort, ranges: [{ start: 0, end: 2 }] }),
+    ).toEqual({
+      kind: "categories",
+      categories: [
+        { label: "North", value: 2 },
+        { label: "East", value: 1 },
+      ],
+      otherCount: 0,
+    });
+  });
+
+  test("downsamples long lines and keeps their peaks", async () => {
+    const chart = await chartTable(
+      long,
+      parseChartConfig({ kind: "line", x: "x", y: "y" }),
+    );
+    if (chart.kind !== "points") throw new Error("expected points");
+    expect(chart.total).toBe(20000);
+    expect(chart.points).toHaveLength(1000);
+    expect(chart.points[0]).toEqual([0, 0]);
+    expect(chart.points).toContainEqual([4321, 1000]);
+    const scatter = await chartTable(
+      long,
+      parseChartConfig({ kind: "scatter", x: "x", y: "y" }),
+    );
+    expect(scatter.kind === "points" && scatter.points.length).toBe(2000);
+  });
+});
@@ -1,5 +1,7 @@
 import { beforeAll, describe, expect, test } from "bun:test";
 import {
+  createTableFromQuery,
+  getTableRowCount,
   initDuckDB,
   loadMultipleSources,
   listTables,
@@ -29,4 +31,12 @@ describe("duckdb drop tables", () => {
     names = await listTables();
     expect(names).not.toContain(t2);
   });
+
+  test("forgets a dropped table's cached row count", async () => {
+    const table = `tmp_drop_count_${Date.now()}`;
+    await createTableFromQuery(table, "SELECT * FROM range(5)");
+    expect(await getTableRowCount(table)).toBe(5);
+    await dropTables([table]);
+    await expect(getTableRowCount(table)).rejects.toThrow();
+  });
 });
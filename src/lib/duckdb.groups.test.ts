@@ -0,0 +1,73 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import {
+  createTableFromQuery,
+  dropTables,
+  getTableChunk,
+  groupTableRows,
+  initDuckDB,
+} from "@/lib/duckdb";
+import { groupViewRows } from "@/lib/rowGroups";
+
+const table = `tmp_groups_${Date.now()}`;
+
+describe("duckdb row groups", () => {
+  beforeAll(async () => {
+    await initDuckDB();
+    await createTableFromQuery(
+      table,
+      `SELECT * FROM (VALUES
+         ('North', 'tea', 10.5, 'a'),
+         ('South', 'coffee', 7, 'b'),
+         ('North', 'coffee', NULL, 'c'),
+         ('North', 'tea', 2, 'd'),
+         ('South', 'tea', 1, 'e'),
+         (NULL, 'tea', 4, 'f')
+       ) t(region, product, amount, note)`,
+    );
+  });
+
+  afterAll(async () => {
+    await dropTables([table]);
+  });
+
+  test("matches the client groups of the same view", async () => {
+    const sort = [
+      { columnName: "region", direction: "asc" as const },
+      { columnName: "product", direction: "desc" as const },
+      { columnName: "amount", direction: "desc" as const },
+    ];
+    const groups = await groupTableRows(table, ["region", "product"], {
+      filters: [{ columnName: "note", value: "!f" }],
+      sort: sort.slice(1),
+    });
+    const { rows } = await getTableChunk(
+      table,
+      0,
+      100,
+      [{ columnName: "note", value: "!f" }],
+      sort,
+    );
+    expect(groups).toEqual(
+      groupViewRows(rows, [0, 1], [false, false, true, false]),
+    );
+    expect(groups[0]).toEqual({
+      key: ["North"],
+      start: 0,
+      count: 3,
+      sums: [null, null, 12.5, null],
+    });
+    expect(groups[1]).toMatchObject({ key: ["North", "tea"], count: 2 });
+  });
+
+  test("keeps blank keys and rejects unknown columns", async () => {
+    const groups = await groupTableRows(table, ["region"]);
+    expect(groups.map((group) => [group.key, group.count])).toEqual([
+      [["North"], 3],
+      [["South"], 2],
+      [[""], 1],
+    ]);
+    await expect(groupTableRows(table, ["nope"])).rejects.toThrow(
+      "Unknown column nope",
+    );
+  });
+});
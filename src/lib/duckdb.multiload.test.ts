@@ -1,9 +1,13 @@
 import { beforeAll, describe, expect, test } from "bun:test";
+import * as XLSX from "xlsx";
 import {
+  dropTables,
   initDuckDB,
   listTables,
+  loadCsvFromSource,
   loadMultipleSources,
   getTableChunk,
+  runQuery,
 } from "@/lib/duckdb";
 import { deriveTableNameFromFilename } from "@/lib/duckdb-utils";
 
@@ -42,4 +46,62 @@ describe("duckdb multi-source ingestion", () => {
     expect(chunk1.columns.length).toBeGreaterThan(0);
     expect(chunk2.columns.length).toBeGreaterThan(0);
   });
+
+  test("loads chosen workbook sheets into tables named after them", async () => {
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(
+      wb,
+      XLSX.utils.aoa_to_sheet([
+        ["region", "total"],
+        ["north", 10.5],
+      ]),
+      "Q1 Sales",
+    );
+    XLSX.utils.book_append_sheet(
+      wb,
+      XLSX.utils.aoa_to_sheet([["id"], [1], [2]]),
+      "Notes",
+    );
+    const blob = new Blob([
+      XLSX.write(wb, { type: "array", bookType: "xlsx" }),
+    ]);
+
+    const loaded = await loadMultipleSources([
+      { source: { blob, name: "book.xlsx" }, table: "t_1", sheets: "*" },
+    ]);
+    expect(loaded.map((r) => [r.sheet, r.table, r.rowCount])).toEqual([
+      ["Q1 Sales", "q1_sales", 1],
+      ["Notes", "notes", 2],
+    ]);
+    expect(loaded[0]!.workbookSheets).toEqual(["Q1 Sales", "Notes"]);
+    expect(loaded[0]!.columns).toEqual([
+      { name: "region", type: "VARCHAR" },
+      { name: "total", type: "DOUBLE" },
+    ]);
+    const chunk = await getTableChunk("notes", 0, 5);
+    expect(chunk.columns[0]!.type).toBe("BIGINT");
+    expect(chunk.rows).toEqual([["1"], ["2"]]);
+  });
+
+  test("keeps the old table when a reload is cancelled", async () => {
+    const table = `tmp_reload_${Date.now()}`;
+    await loadCsvFromSource(
+      { blob: new Blob(["id\n1\n2\n"]), name: "old.csv" },
+      table,
+    );
+    const controller = new AbortController();
+    await expect(
+      loadCsvFromSource(
+        { blob: new Blob(["id\n3\n"]), name: "new.csv" },
+        table,
+        { signal: controller.signal, onParse: () => controller.abort() },
+      ),
+    ).rejects.toThrow();
+    expect((await getTableChunk(table, 0, 5)).rows).toEqual([["1"], ["2"]]);
+    const staging = await runQuery(
+      "SELECT table_name FROM duckdb_tables() WHERE starts_with(table_name, '_load_')",
+    );
+    expect(staging).toEqual([]);
+    await dropTables([table]);
+  });
 });
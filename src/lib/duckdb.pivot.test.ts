@@ -0,0 +1,98 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import {
+  createTableFromQuery,
+  dropTables,
+  getTableChunk,
+  initDuckDB,
+  pivotTable,
+} from "@/lib/duckdb";
+import { computePivot, type PivotSpec } from "@/lib/pivot";
+
+const table = `tmp_pivot_${Date.now()}`;
+
+describe("duckdb pivots", () => {
+  beforeAll(async () => {
+    await initDuckDB();
+    await createTableFromQuery(
+      table,
+      `SELECT * FROM (VALUES
+         ('North', 2, 'tea', 10.5),
+         ('North', 1, 'tea', 5),
+         ('South', 1, 'coffee', 7),
+         ('North', 1, 'coffee', NULL),
+         (NULL, 2, 'tea', 1),
+         ('South', 10, 'tea', 2)
+       ) t(region, month, product, amount)`,
+    );
+  });
+
+  afterAll(async () => {
+    await dropTables([table]);
+  });
+
+  test("matches the client pivot of the same rows", async () => {
+    const { columns, rows } = await getTableChunk(table, 0, 100);
+    const names = columns.map((column) => column.name);
+    const specs: PivotSpec[] = [
+      {
+        rows: ["region", "product"],
+        columns: ["month"],
+        values: [
+          { column: "amount", aggregate: "sum" },
+          { column: "amount", aggregate: "count" },
+          { column: "product", aggregate: "countDistinct" },
+        ],
+      },
+      {
+        rows: [],
+        columns: ["product"],
+        values: [
+          { column: "amount", aggregate: "avg" },
+          { column: "amount", aggregate: "min" },
+          { column: "month", aggregate: "max" },
+        ],
+      },
+    ];
+    for (const spec of specs) {
+      expect(await pivotTable(table, spec)).toEqual(
+        computePivot(spec, names, rows),
+      );
+    }
+  });
+
+  test("pivots only the rows the filters leave", async () => {
+    const filters = [{ columnName: "product", value: "tea" }];
+    const { columns, rows } = await getTableChunk(table, 0, 100, filters);
+    const spec: PivotSpec = {
+      rows: ["region"],
+      columns: [],
+      values: [{ column: "amount", aggregate: "sum" }],
+    };
+    const result = await pivotTable(table, spec, { filters });
+    expect(result).toEqual(
+      computePivot(
+        spec,
+        columns.map((column) => column.name),
+        rows,
+      ),
+    );
+    expect(result.rows.at(-1)?.cells).toEqual([18.5]);
+  });
+
+  test("orders numeric keys by value and rejects wide pivots", async () => {
+    const result = await pivotTable(table, {
+      rows: [],
+      columns: ["month"],
+      values: [{ column: "amount", aggregate: "count" }],
+    });
+    expect(result.columnKeys).toEqual([["1"], ["2"], ["10"]]);
+
+    await expect(
+      pivotTable(table, {
+        rows: ["nope"],
+        columns: [],
+        values: [{ column: "amount", aggregate: "count" }],
+      }),
+    ).rejects.toThrow("Unknown column nope");
+  });
+});
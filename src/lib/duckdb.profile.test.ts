@@ -0,0 +1,95 @@
+import { afterEach, beforeAll, describe, expect, test } from "bun:test";
+import {
+  createTableFromQuery,
+  dropTables,
+  initDuckDB,
+  profileTableColumn,
+} from "@/lib/duckdb";
+import { profileValues } from "@/lib/columnProfile";
+
+const table = `tmp_profile_${Date.now()}`;
+
+describe("duckdb column profiles", () => {
+  beforeAll(async () => {
+    await initDuckDB();
+  });
+
+  afterEach(async () => {
+    await dropTables([table]);
+  });
+
+  const create = () =>
+    createTableFromQuery(
+      table,
+      `SELECT * FROM (VALUES
+         (4, 'fig', DATE '2024-05-01'),
+         (1, 'apple', DATE '2023-01-31'),
+         (NULL, '', NULL),
+         (4, 'fig', DATE '2024-02-29'),
+         (3, 'pear', NULL)
+       ) t(n, name, day)`,
+    );
+
+  test("matches the client profile of the same values", async () => {
+    await create();
+    const numbers = await profileTableColumn(table, "n");
+    const { stddev, ...client } = profileValues(
+      "n",
+      ["4", "1", "", "4", "3"],
+      "INTEGER",
+    );
+    expect(numbers).toMatchObject(client);
+    expect(numbers.stddev).toBeCloseTo(stddev!);
+
+    const names = await profileTableColumn(table, "name");
+    expect(names).toEqual(
+      profileValues("name", ["fig", "apple", "", "fig", "pear"], "VARCHAR"),
+    );
+  });
+
+  test("reports date bounds and applies view filters", async () => {
+    await create();
+    const days = await profileTableColumn(table, "day");
+    expect(days).toMatchObject({
+      kind: "date",
+      emptyCount: 2,
+      min: "2023-01-31",
+      max: "2024-05-01",
+    });
+
+    const filtered = await profileTableColumn(table, "n", [
+      { columnName: "name", value: "fig" },
+    ]);
+    expect(filtered).toMatchObject({
+      count: 2,
+      distinctCount: 1,
+      min: "4",
+      max: "4",
+      topValues: [{ value: "4", count: 2 }],
+      histogram: { bins: [{ start: 4, end: 4, count: 2 }] },
+    });
+
+    await expect(profileTableColumn(table, "missing")).rejects.toThrow(
+      "Column missing does not exist",
+    );
+  });
+
+  test("profiles nested columns as text", async () => {
+    await createTableFromQuery(
+      table,
+      `SELECT * FROM (VALUES
+         ([1, 2], {'a': 1}),
+         ([3], {'a': 2}),
+         (NULL, NULL)
+       ) t(list, record)`,
+    );
+    for (const column of ["list", "record"]) {
+      expect(await profileTableColumn(table, column)).toMatchObject({
+        kind: "text",
+        count: 3,
+        emptyCount: 1,
+        histogram: { of: "length" },
+      });
+    }
+  });
+});
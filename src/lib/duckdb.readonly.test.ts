@@ -0,0 +1,75 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { DEFAULT_DUCKDB_TABLE } from "@/constants/duckdb";
+import {
+  createQueryResult,
+  dropQueryResult,
+  initDuckDB,
+  parseReadOnlySql,
+} from "@/lib/duckdb";
+import type { ReadOnlyStatementKind } from "@/lib/sqlGuard";
+
+const table = DEFAULT_DUCKDB_TABLE;
+
+describe("read-only SQL guard", () => {
+  beforeAll(async () => {
+    await initDuckDB();
+  });
+
+  test.each<[string, ReadOnlyStatementKind]>([
+    [`SELECT * FROM ${table} LIMIT 1`, "select"],
+    [`-- first rows\nFROM ${table} LIMIT 1;`, "select"],
+    ["WITH t AS (SELECT 1 AS a) SELECT a FROM t", "select"],
+    ["SELECT n FROM range(3) t(n)", "select"],
+    ["VALUES (1), (2)", "select"],
+    [`DESCRIBE ${table}`, "show"],
+    [`SUMMARIZE ${table}`, "show"],
+    ["SHOW TABLES", "show"],
+    [`EXPLAIN SELECT * FROM ${table}`, "explain"],
+    [`PIVOT ${table} ON col_1 USING count(*)`, "select"],
+    [`UNPIVOT ${table} ON col_1 INTO NAME k VALUE v`, "select"],
+  ])("allows %p", async (sql, kind) => {
+    expect((await parseReadOnlySql(sql)).kind).toBe(kind);
+  });
+
+  test.each([
+    ["SELECT * FROM read_csv('/etc/passwd')", /read_csv/],
+    ["SELECT * FROM '/etc/passwd.csv'", /Reading files/],
+    [`SELECT * FROM "data.parquet"`, /Reading files/],
+    ["FROM 'https://example.com/x.csv'", /Reading files/],
+    [
+      `SELECT * FROM ${table} WHERE col_1 IN (FROM read_text('x'))`,
+      /read_text/,
+    ],
+    ["WITH f AS (FROM glob('*')) SELECT * FROM f", /glob/],
+    ["SELECT * FROM query('SELECT 1')", /query/],
+    ["SELECT * FROM range(2), LATERAL read_parquet('x.parquet')", /parquet/],
+    ["PIVOT read_csv('/etc/passwd') ON column0", /read_csv/],
+    ["EXPLAIN SELECT * FROM read_json('x.json')", /read_json/],
+    ["EXPLAIN ANALYZE COPY t TO 'x.csv'", /read-only/],
+    ["SELECT getenv('HOME')", /getenv/],
+    ["SELECT current_setting('s3_secret_access_key')", /current_setting/],
+    ["SELECT 1; COPY (SELECT 1) TO '/tmp/x.csv'", /read-only/],
+    ["SELECT 1; SELECT 2", /one statement/],
+    ["ATTACH '/tmp/other.db'", /read-only/],
+    [`DELETE FROM ${table}`, /read-only/],
+    [`CREATE TABLE x AS SELECT * FROM ${table}`, /read-only/],
+    ["INSTALL httpfs", /read-only/],
+    ["SET enable_external_access = true", /read-only/],
+    ["  -- nothing\n ;", /required/],
+  ])("rejects %p", async (sql, message) => {
+    await expect(parseReadOnlySql(sql)).rejects.toThrow(message);
+  });
+
+  test("materialises DESCRIBE and EXPLAIN results", async () => {
+    const described = await createQueryResult(`DESCRIBE ${table}`);
+    expect(described.columns.map((c) => c.name)).toContain("column_name");
+    expect(described.rowCount).toBeGreaterThan(0);
+    const explained = await createQueryResult("EXPLAIN SELECT 1");
+    expect(explained.columns.map((c) => c.name)).toEqual([
+      "explain_key",
+      "explain_value",
+    ]);
+    await dropQueryResult(described.id);
+    await dropQueryResult(explained.id);
+  });
+});
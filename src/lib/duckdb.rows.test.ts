@@ -0,0 +1,215 @@
+import { afterEach, beforeAll, describe, expect, test } from "bun:test";
+import {
+  alterTableSchema,
+  createTableFromQuery,
+  dropTables,
+  getTableChunk,
+  initDuckDB,
+  mutateTableRows,
+  runQuery,
+  updateTableCells,
+} from "@/lib/duckdb";
+import { invertRowOperation, type RowOperation } from "@/lib/rowOps";
+
+const table = `tmp_rows_${Date.now()}`;
+
+const names = async () =>
+  (await getTableChunk(table, 0, 100)).rows.map((row) => row[1]);
+
+describe("duckdb row editing", () => {
+  beforeAll(async () => {
+    await initDuckDB();
+  });
+
+  afterEach(async () => {
+    await dropTables([table]);
+  });
+
+  const create = () =>
+    createTableFromQuery(
+      table,
+      "SELECT * FROM (VALUES (3, 'fig'), (1, 'apple'), (2, 'pear')) t(id, name)",
+    );
+
+  test("edits the row a sorted view shows, not the one at its index", async () => {
+    await create();
+    const sorted = await getTableChunk(
+      table,
+      0,
+      10,
+      [],
+      [{ columnName: "id", direction: "asc" }],
+    );
+    expect(sorted.rows.map((row) => row[1])).toEqual(["apple", "pear", "fig"]);
+    expect(sorted.rowIds).toEqual([1, 2, 0]);
+
+    await updateTableCells(
+      [{ rowId: sorted.rowIds[0]!, column: "name", value: "APPLE" }],
+      table,
+    );
+    expect(await names()).toEqual(["fig", "APPLE", "pear"]);
+
+    const filtered = await getTableChunk(table, 0, 10, [
+      { columnName: "name", value: "pear" },
+    ]);
+    expect(filtered.rowIds).toEqual([2]);
+  });
+
+  test("inserts, duplicates and deletes rows without renumbering", async () => {
+    await create();
+    const inserted = await mutateTableRows(table, {
+      op: "insert",
+      rows: [
+        ["10", "kiwi"],
+        ["", "lime"],
+      ],
+      anchor: { rowId: 1, side: "above" },
+    });
+    expect(inserted.rowIds).toEqual([3, 4]);
+    const appended = await mutateTableRows(table, {
+      op: "insert",
+      rows: [["12"]],
+      anchor: { rowId: 2, side: "below" },
+    });
+    expect(appended.rowIds).toEqual([5]);
+    expect(await names()).toEqual(["fig", "kiwi", "lime", "apple", "pear", ""]);
+    const chunk = await getTableChunk(table, 0, 100);
+    expect(chunk.columns.map((c) => c.name)).toEqual(["id", "name"]);
+    expect(chunk.rowIds).toEqual([0, 3, 4, 1, 2, 5]);
+    expect(chunk.rows[2]).toEqual(["", "lime"]);
+
+    await updateTableCells(
+      [{ rowId: 1, column: "name", value: "APPLE" }],
+      table,
+    );
+    const copies = await mutateTableRows(table, {
+      op: "duplicate",
+      rowIds: [1, 0],
+    });
+    expect(copies.rowIds).toEqual([6, 7]);
+    expect(await names()).toEqual([
+      "fig",
+      "fig",
+      "kiwi",
+      "lime",
+      "APPLE",
+      "APPLE",
+      "pear",
+      "",
+    ]);
+
+    const removed = await mutateTableRows(table, {
+      op: "delete",
+      rowIds: [4, 3, 9],
+    });
+    expect(removed.rowIds).toEqual([3, 4]);
+    expect(removed.copy).toMatch(/^[0-9a-f]{32}$/);
+    expect((await getTableChunk(table, 0, 100)).rowIds).toEqual([
+      0, 6, 1, 7, 2, 5,
+    ]);
+
+    await alterTableSchema(table, { op: "move", column: "name", position: 0 });
+    const moved = await getTableChunk(table, 0, 100);
+    expect(moved.columns.map((c) => c.name)).toEqual(["name", "id"]);
+    expect(moved.rowIds).toEqual([0, 6, 1, 7, 2, 5]);
+    await expect(
+      alterTableSchema(table, { op: "add", name: "__row_id" }),
+    ).rejects.toThrow("__row_id is a reserved column name");
+  });
+
+  test("restores deleted rows with their ids and native values", async () => {
+    await createTableFromQuery(
+      table,
+      `SELECT * FROM (VALUES
+         (1, 'a', TIMESTAMPTZ '2024-01-02 03:04:05+00', '\\xAA'::BLOB, [1, 2], {'k': 'x'}),
+         (2, '', NULL, NULL, [], {'k': NULL}),
+         (3, 'c', TIMESTAMPTZ '2025-06-07 08:09:10+00', 'z'::BLOB, [3], {'k': 'y'})
+       ) t(id, name, seen, data, list, struct)`,
+    );
+    const before = await getTableChunk(table, 0, 100);
+    const operation: RowOperation = { op: "delete", rowIds: [0, 1] };
+    const result = await mutateTableRows(table, operation);
+    expect(await names()).toEqual(["c"]);
+
+    const undo = invertRowOperation(operation, result);
+    const restored = await mutateTableRows(table, undo);
+    expect(restored.rowIds).toEqual([0, 1]);
+    expect(await getTableChunk(table, 0, 100)).toEqual(before);
+    const blanks = await runQuery(
+      `SELECT count(*) AS count FROM ${table} WHERE name = '' AND seen IS NULL`,
+    );
+    expect(Number(blanks[0]!.count)).toBe(1);
+    await expect(mutateTableRows(table, undo)).rejects.toThrow(
+      "The deleted rows are no longer kept",
+    );
+  });
+
+  test("keeps inserting above one row once positions run out", async () => {
+    await create();
+    for (let i = 0; i < 60; i++) {
+      await mutateTableRows(table, {
+        op: "insert",
+        rows: [["", `n${i}`]],
+        anchor: { rowId: 1, side: "above" },
+      });
+    }
+    const operation: RowOperation = { op: "delete", rowIds: [3, 62] };
+    const result = await mutateTableRows(table, operation);
+    await mutateTableRows(table, invertRowOperation(operation, result));
+    expect(await names()).toEqual([
+      "fig",
+      ...Array.from({ length: 60 }, (_, i) => `n${i}`),
+      "apple",
+      "pear",
+    ]);
+  });
+
+  test("fills computed cells of new rows and rejects cells that do not convert", async () => {
+    await create();
+    await alterTableSchema(table, {
+      op: "compute",
+      name: "twice",
+      formula: "id * 2",
+    });
+    await mutateTableRows(table, {
+      op: "insert",
+      rows: [["5", "date"]],
+      anchor: { rowId: 0, side: "above" },
+    });
+    expect((await getTableChunk(table, 0, 1)).rows[0]).toEqual([
+      "5",
+      "date",
+      "10",
+    ]);
+
+    await expect(
+      mutateTableRows(table, { op: "insert", rows: [["five", "date"]] }),
+    ).rejects.toThrow(/Could not convert/);
+    await expect(
+      mutateTableRows(table, { op: "insert", rows: [["1", "a", "b"]] }),
+    ).rejects.toThrow("Rows can have at most 2 values");
+    await expect(
+      mutateTableRows(table, {
+        op: "insert",
+        rows: [[]],
+        anchor: { rowId: 99, side: "below" },
+      }),
+    ).rejects.toThrow("Row 99 does not exist");
+    expect(await names()).toEqual(["date", "fig", "apple", "pear"]);
+  });
+
+  test("leaves the row columns out of tables made from a query", async () => {
+    await create();
+    await mutateTableRows(table, { op: "delete", rowIds: [0] });
+    const copy = `${table}_copy`;
+    const made = await createTableFromQuery(
+      copy,
+      `SELECT * FROM ${table} ORDER BY name DESC`,
+    );
+    expect(made.columns.map((c) => c.name)).toEqual(["id", "name"]);
+    expect(
+      (await getTableChunk(copy, 0, 10)).rows.map((row) => row[1]),
+    ).toEqual(["pear", "apple"]);
+    await dropTables([copy]);
+  });
+});
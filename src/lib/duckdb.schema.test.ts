@@ -0,0 +1,212 @@
+import { afterEach, beforeAll, describe, expect, test } from "bun:test";
+import { readFile, unlink } from "node:fs/promises";
+import {
+  alterTableSchema,
+  createTableFromQuery,
+  dropTables,
+  duplicateTable,
+  exportTable,
+  getDistinctValues,
+  getTableChunk,
+  initDuckDB,
+  previewColumnCast,
+  renameTable,
+} from "@/lib/duckdb";
+
+const table = `tmp_schema_${Date.now()}`;
+const copy = `${table}_copy`;
+
+const names = (columns: Array<{ name: string }>) => columns.map((c) => c.name);
+
+describe("duckdb schema editing", () => {
+  beforeAll(async () => {
+    await initDuckDB();
+  });
+
+  afterEach(async () => {
+    await dropTables([table, copy]);
+  });
+
+  const create = () =>
+    createTableFromQuery(
+      table,
+      "SELECT * FROM (VALUES ('1', 'apple', '1.50'), ('2', 'pear', 'n/a'), ('3', 'fig', NULL)) t(id, name, price)",
+    );
+
+  test("adds columns from expressions at a position", async () => {
+    await create();
+    const columns = await alterTableSchema(table, {
+      op: "add",
+      name: "label",
+      expression: "upper(name) || '#' || id",
+      position: 1,
+    });
+    expect(columns[1]).toEqual({ name: "label", type: "VARCHAR" });
+    const chunk = await getTableChunk(table, 0, 10);
+    expect(chunk.rows.map((row) => row.slice(0, 3))).toEqual([
+      ["1", "APPLE#1", "apple"],
+      ["2", "PEAR#2", "pear"],
+      ["3", "FIG#3", "fig"],
+    ]);
+  });
+
+  test("rejects expressions that read files or escape their parentheses", async () => {
+    await create();
+    await expect(
+      alterTableSchema(table, {
+        op: "add",
+        name: "x",
+        expression: "(SELECT count(*) FROM read_csv('/etc/passwd'))",
+      }),
+    ).rejects.toThrow(/read_csv/);
+    await expect(
+      alterTableSchema(table, {
+        op: "add",
+        name: "x",
+        expression: "1; DROP TABLE dataset",
+      }),
+    ).rejects.toThrow(/semicolons/);
+  });
+
+  test("renames, moves and drops columns", async () => {
+    await create();
+    await alterTableSchema(table, {
+      op: "rename",
+      column: "name",
+      name: "fruit",
+    });
+    let columns = await alterTableSchema(table, {
+      op: "move",
+      column: "id",
+      position: 2,
+    });
+    expect(names(columns)).toEqual(["fruit", "price", "id"]);
+    expect((await getTableChunk(table, 0, 1)).rows[0]).toEqual([
+      "apple",
+      "1.50",
+      "1",
+    ]);
+    columns = await alterTableSchema(table, { op: "drop", column: "price" });
+    expect(names(columns)).toEqual(["fruit", "id"]);
+    await expect(
+      alterTableSchema(table, { op: "rename", column: "fruit", name: "ID" }),
+    ).rejects.toThrow(/already exists/);
+  });
+
+  test("previews and applies type changes", async () => {
+    await create();
+    expect(await previewColumnCast(table, "price", "DOUBLE")).toEqual({
+      checked: 2,
+      failed: 1,
+      samples: ["n/a"],
+    });
+    await expect(
+      alterTableSchema(table, {
+        op: "retype",
+        column: "price",
+        type: "DOUBLE",
+      }),
+    ).rejects.toThrow(/Conversion Error/);
+    const columns = await alterTableSchema(table, {
+      op: "retype",
+      column: "price",
+      type: "DOUBLE",
+      nullOnFailure: true,
+    });
+    expect(columns[2]).toEqual({ name: "price", type: "DOUBLE" });
+  });
+
+  test("computes columns from formulas in every view", async () => {
+    await create();
+    await alterTableSchema(table, {
+      op: "retype",
+      column: "price",
+      type: "DOUBLE",
+      nullOnFailure: true,
+    });
+    let columns = await alterTableSchema(table, {
+      op: "compute",
+      name: "label",
+      formula: "upper(name) & '-' & id",
+    });
+    columns = await alterTableSchema(table, {
+      op: "compute",
+      name: "double",
+      formula: "price * 2",
+    });
+    expect(columns.slice(3)).toEqual([
+      { name: "label", type: "VARCHAR", formula: "upper(name) & '-' & id" },
+      { name: "double", type: "DOUBLE", formula: "price * 2" },
+    ]);
+
+    const chunk = await getTableChunk(
+      table,
+      0,
+      10,
+      [{ columnName: "label", value: "P" }],
+      [{ columnName: "double", direction: "desc" }],
+    );
+    expect(chunk.rows).toEqual([
+      ["1", "apple", "1.5", "APPLE-1", "3"],
+      ["2", "pear", "", "PEAR-2", ""],
+    ]);
+    expect(await getDistinctValues(table, "double")).toEqual(["3.0"]);
+
+    const path = await exportTable(table, "csv", {
+      sort: [{ columnName: "label", direction: "desc" }],
+      columns: ["id", "label"],
+      rowRanges: [[0, 1]],
+    });
+    try {
+      expect(await readFile(path, "utf8")).toBe(
+        "id,label\n2,PEAR-2\n3,FIG-3\n",
+      );
+    } finally {
+      await unlink(path);
+    }
+  });
+
+  test("keeps computed columns after the table's own and in step with it", async () => {
+    await create();
+    await alterTableSchema(table, {
+      op: "compute",
+      name: "label",
+      formula: "name & id",
+    });
+    await expect(
+      alterTableSchema(table, { op: "drop", column: "name" }),
+    ).rejects.toThrow(/used by computed column label/);
+    await expect(
+      alterTableSchema(table, { op: "move", column: "id", position: 3 }),
+    ).rejects.toThrow(/past computed columns/);
+    await expect(
+      alterTableSchema(table, { op: "rename", column: "label", name: "x" }),
+    ).rejects.toThrow(/edit its formula/);
+    await expect(
+      alterTableSchema(table, { op: "compute", name: "x", formula: "nope" }),
+    ).rejects.toThrow("Unknown column nope");
+
+    let columns = await alterTableSchema(table, { op: "add", name: "note" });
+    expect(names(columns)).toEqual(["id", "name", "price", "note", "label"]);
+    columns = await alterTableSchema(table, {
+      op: "compute",
+      column: "label",
+      name: "tag",
+      formula: "id & '-' & name",
+    });
+    expect(names(columns)).toEqual(["id", "name", "price", "note", "tag"]);
+
+    await renameTable(table, copy);
+    await duplicateTable(copy, table);
+    expect((await getTableChunk(table, 0, 1)).rows[0]).toEqual([
+      "1",
+      "apple",
+      "1.50",
+      "",
+      "1-apple",
+    ]);
+    columns = await alterTableSchema(table, { op: "drop", column: "tag" });
+    expect(names(columns)).toEqual(["id", "name", "price", "note"]);
+    expect(names((await getTableChunk(copy, 0, 1)).columns)).toContain("tag");
+  });
+});
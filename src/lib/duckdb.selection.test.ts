@@ -0,0 +1,89 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import {
+  aggregateTableSelection,
+  createTableFromQuery,
+  dropTables,
+  getTableChunk,
+  initDuckDB,
+} from "@/lib/duckdb";
+import { computeSelectionStats, SelectionModel } from "@/lib/selection";
+
+const table = `tmp_selection_${Date.now()}`;
+
+describe("duckdb selection aggregates", () => {
+  beforeAll(async () => {
+    await initDuckDB();
+    await createTableFromQuery(
+      table,
+      `SELECT * FROM (VALUES
+         (1, '10', true),
+         (2, ' 2.5 ', false),
+         (3, 'n/a', NULL),
+         (4, '', true),
+         (NULL, '-1e1', false)
+       ) t(id, amount, flag)`,
+    );
+  });
+
+  afterAll(async () => {
+    await dropTables([table]);
+  });
+
+  test("matches the loaded-row stats of the same cells", async () => {
+    const model = new SelectionModel();
+    model.addRange(0, 4, 0, 1);
+    model.addRange(1, 2, 2, 2);
+    const { rows } = await getTableChunk(table, 0, 10);
+    const aggregate = await aggregateTableSelection(table, [
+      { start: 0, end: 4, columns: ["id", "amount"] },
+      { start: 1, end: 2, columns: ["flag"] },
+    ]);
+    expect(computeSelectionStats(model, rows)).toMatchObject(aggregate);
+    expect(aggregate).toMatchObject({
+      count: 12,
+      filledCount: 9,
+      numericCount: 7,
+      sum: 12.5,
+      min: -10,
+      max: 10,
+    });
+  });
+
+  test("counts view positions after filters and sort", async () => {
+    const aggregate = await aggregateTableSelection(
+      table,
+      [{ start: 0, end: 1, columns: ["id"] }],
+      {
+        filters: [{ columnName: "flag", value: "true" }],
+        sort: [{ columnName: "id", direction: "desc" }],
+      },
+    );
+    expect(aggregate).toMatchObject({ count: 2, sum: 5, min: 1, max: 4 });
+
+    const past = await aggregateTableSelection(table, [
+      { start: 100, end: 200, columns: ["id"] },
+    ]);
+    expect(past).toMatchObject({ count: 0, numericCount: 0, sum: null });
+  });
+
+  test("only counts nested cells", async () => {
+    const nested = `${table}_nested`;
+    await createTableFromQuery(
+      nested,
+      "SELECT * FROM (VALUES ([1, 2], {'a': 1}, 5), (NULL, {'a': 2}, 6)) t(list, record, n)",
+    );
+    try {
+      const aggregate = await aggregateTableSelection(nested, [
+        { start: 0, end: 1, columns: ["list", "record", "n"] },
+      ]);
+      expect(aggregate).toMatchObject({
+        count: 6,
+        filledCount: 5,
+        numericCount: 2,
+        sum: 11,
+      });
+    } finally {
+      await dropTables([nested]);
+    }
+  });
+});
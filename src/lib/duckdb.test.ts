@@ -1,11 +1,20 @@
 import { beforeAll, describe, expect, test } from "bun:test";
 import { DEFAULT_DUCKDB_TABLE } from "@/constants/duckdb";
+import { unlink } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
 import {
+  createQueryResult,
+  dropQueryResult,
+  exportTable,
+  getQueryResult,
   getTableChunk,
   initDuckDB,
+  listTables,
   loadCsvFromSource,
   runQuery,
 } from "@/lib/duckdb";
+import { DEFAULT_CSV_IMPORT_OPTIONS } from "@/lib/csvDialect";
 
 describe("duckdb integration", () => {
   beforeAll(async () => {
@@ -29,6 +38,36 @@ describe("duckdb integration", () => {
     expect(Number(rows[0]?.total)).toBeGreaterThan(0);
   });
 
+  test("pages query results through a handle", async () => {
+    const result = await createQueryResult(
+      "SELECT n, n * 2 AS twice FROM range(25) t(n) WHERE n % 2 = ?;",
+      [0],
+    );
+    expect(result.columns).toEqual([
+      { name: "n", type: "BIGINT" },
+      { name: "twice", type: "BIGINT" },
+    ]);
+    expect(result.rowCount).toBe(13);
+    const page = await getTableChunk(result.table, 10, 5);
+    expect(page.rows).toEqual([
+      ["20", "40"],
+      ["22", "44"],
+      ["24", "48"],
+    ]);
+    expect(await listTables()).not.toContain(result.table);
+    expect(getQueryResult(result.id)?.table).toBe(result.table);
+
+    const empty = await createQueryResult(
+      "SELECT 'x' AS label, 1.5::DOUBLE AS v WHERE false",
+    );
+    expect(empty.rowCount).toBe(0);
+    expect(empty.columns.map((c) => c.type)).toEqual(["VARCHAR", "DOUBLE"]);
+
+    expect(await dropQueryResult(result.id)).toBe(true);
+    expect(getQueryResult(result.id)).toBeNull();
+    expect(await dropQueryResult(result.id)).toBe(false);
+  });
+
   test("ingests csv data from blob sources", async () => {
     const tableName = `blob_ingest_${Date.now()}`;
     const csv = new Blob(["city,temp\nParis,72\nRome,81\n"]);
@@ -38,4 +77,151 @@ describe("duckdb integration", () => {
     expect(chunk.rows[0]).toEqual(["Paris", "72"]);
     expect(chunk.rowCount).toBeGreaterThanOrEqual(2);
   });
+
+  test("exports a filtered, sorted view and a selection slice", async () => {
+    const tableName = `export_${Date.now()}`;
+    const csv = new Blob(["city,temp\nParis,72\nRome,81\nOslo,55\n"]);
+    await loadCsvFromSource({ blob: csv }, tableName);
+
+    const csvPath = await exportTable(tableName, "csv", {
+      filters: [{ columnName: "temp", value: "> 60" }],
+      sort: [{ columnName: "temp", direction: "desc" }],
+    });
+    expect(await Bun.file(csvPath).text()).toBe(
+      "city,temp\nRome,81\nParis,72\n",
+    );
+    await unlink(csvPath);
+
+    const sqlPath = await exportTable(tableName, "sql", {
+      sort: [{ columnName: "city", direction: "asc" }],
+      columns: ["city"],
+      rowRanges: [[1, 2]],
+    });
+    expect(await Bun.file(sqlPath).text()).toBe(
+      `INSERT INTO "${tableName}" ("city") VALUES ('Paris');\n` +
+        `INSERT INTO "${tableName}" ("city") VALUES ('Rome');\n`,
+    );
+    await unlink(sqlPath);
+  });
+
+  test("exports BLOB, INTERVAL and LIST columns as replayable SQL", async () => {
+    const tableName = `export_types_${Date.now()}`;
+    await runQuery(
+      `CREATE TABLE "${tableName}" AS SELECT * FROM (VALUES
+         (1, '\\x00\\xFF\\x5Cab\\x27'::BLOB, INTERVAL '1 month 2 days 3 seconds', [1, 2]),
+         (2, NULL, NULL, [])
+       ) t(id, payload, wait, tags)`,
+    );
+    await runQuery(
+      `CREATE TABLE "${tableName}_copy" AS SELECT * FROM "${tableName}"`,
+    );
+    const sqlPath = await exportTable(tableName, "sql");
+    const script = await Bun.file(sqlPath).text();
+    await unlink(sqlPath);
+
+    await runQuery(`DELETE FROM "${tableName}"`);
+    for (const statement of script.trim().split("\n")) {
+      await runQuery(statement);
+    }
+    const [diff] = await runQuery<{ missing: number; extra: number }>(
+      `SELECT
+         (SELECT COUNT(*) FROM (SELECT * FROM "${tableName}_copy" EXCEPT ALL SELECT * FROM "${tableName}")) AS missing,
+         (SELECT COUNT(*) FROM (SELECT * FROM "${tableName}" EXCEPT ALL SELECT * FROM "${tableName}_copy")) AS extra`,
+    );
+    expect(Number(diff!.missing)).toBe(0);
+    expect(Number(diff!.extra)).toBe(0);
+    await runQuery(`DROP TABLE "${tableName}"`);
+    await runQuery(`DROP TABLE "${tableName}_copy"`);
+  });
+
+  test("ingests NDJSON and JSON with native column types", async () => {
+    const ndjsonTable = `ndjson_ingest_${Date.now()}`;
+    await loadCsvFromSource(
+      {
+        blob: new Blob(['{"id":1,"tags":["a","b"]}\n{"id":2,"tags":[]}\n']),
+        name: "events.ndjson",
+      },
+      ndjsonTable,
+    );
+    const ndjson = await getTableChunk(ndjsonTable, 0, 10);
+    expect(ndjson.columns.map((c) => c.type)).toEqual(["BIGINT", "VARCHAR[]"]);
+    expect(ndjson.rows[0]).toEqual(["1", '["a","b"]']);
+
+    const jsonTable = `json_ingest_${Date.now()}`;
+    await loadCsvFromSource(
+      {
+        blob: new Blob(['[{"city":"Paris","temp":21.5}]']),
+        name: "cities.json",
+      },
+      jsonTable,
+    );
+    const json = await getTableChunk(jsonTable, 0, 10);
+    expect(json.columns).toEqual([
+      { name: "city", type: "VARCHAR" },
+      { name: "temp", type: "DOUBLE" },
+    ]);
+  });
+
+  test("loads CSV with explicit import options", async () => {
+    const tableName = `csv_dialect_${Date.now()}`;
+    const latin1 = Uint8Array.from(
+      "Report\nJos\u00e9;1,5;05.03.2024\nAnna;NA;17.03.2024\n",
+      (c) => c.charCodeAt(0),
+    );
+    await loadCsvFromSource(
+      { blob: new Blob([latin1]), name: "vendor.csv" },
+      tableName,
+      {
+        csvOptions: {
+          ...DEFAULT_CSV_IMPORT_OPTIONS,
+          delimiter: ";",
+          header: false,
+          skipRows: 1,
+          encoding: "latin-1",
+          nullStrings: ["NA"],
+          decimalSeparator: ",",
+          dateFormat: "%d.%m.%Y",
+        },
+      },
+    );
+    const chunk = await getTableChunk(tableName, 0, 10);
+    expect(chunk.columns).toEqual([
+      { name: "column0", type: "VARCHAR" },
+      { name: "column1", type: "DOUBLE" },
+      { name: "column2", type: "DATE" },
+    ]);
+    expect(chunk.rows).toEqual([
+      ["Jos\u00e9", "1.5", "2024-03-05"],
+      ["Anna", "", "2024-03-17"],
+    ]);
+  });
+
+  test("streams uploads to disk and reports bytes", async () => {
+    const tableName = `stream_ingest_${Date.now()}`;
+    const body = new Blob(["id,name\n1,a\n2,b\n"]);
+    const progress: Array<[number, number | undefined]> = [];
+    const { rowCount } = await loadCsvFromSource(
+      { stream: body.stream(), name: "upload.csv", size: body.size },
+      tableName,
+      { onBytes: (bytes, total) => progress.push([bytes, total]) },
+    );
+    expect(rowCount).toBe(2);
+    expect(progress.at(-1)).toEqual([body.size, body.size]);
+  });
+
+  test("ingests parquet files from a path", async () => {
+    const path = join(tmpdir(), `ingest_${Date.now()}.parquet`);
+    await runQuery(
+      `COPY (SELECT 7::INTEGER AS n, DATE '2024-01-02' AS d) TO '${path}' (FORMAT PARQUET)`,
+    );
+    const tableName = `parquet_ingest_${Date.now()}`;
+    try {
+      await loadCsvFromSource({ path }, tableName);
+    } finally {
+      await unlink(path);
+    }
+    const chunk = await getTableChunk(tableName, 0, 10);
+    expect(chunk.columns.map((c) => c.type)).toEqual(["INTEGER", "DATE"]);
+    expect(chunk.rows[0]).toEqual(["7", "2024-01-02"]);
+  });
 });
@@ -1,13 +1,109 @@
 import { Database, type Connection } from "duckdb";
 import { DEFAULT_DUCKDB_TABLE } from "@/constants/duckdb";
 import { fileURLToPath } from "node:url";
-import { isAbsolute, join } from "node:path";
+import {
+  basename,
+  dirname,
+  extname,
+  isAbsolute,
+  join,
+  resolve,
+} from "node:path";
 import { existsSync, mkdirSync } from "node:fs";
 import { unlink } from "node:fs/promises";
 import { buildWhereClause } from "./filterPredicateSQL";
-import { escapeIdentifier, escapeLiteral, isNumericType } from "./duckdb-utils";
-import { isExcelFile, isCSVFile } from "./validators";
-import { parseExcelFile } from "./excelParser";
+import {
+  deriveTableNameFromFilename,
+  escapeIdentifier,
+  escapeLiteral,
+  isDateType,
+  isNestedType,
+  isNumericType,
+} from "./duckdb-utils";
+import {
+  getNativeDataFormat,
+  isExcelFile,
+  type NativeDataFormat,
+} from "./validators";
+import {
+  listExcelSheets,
+  readExcelWorkbook,
+  type ExcelSheetInfo,
+  type TypedExcelSheet,
+} from "./excelParser";
+import { sqlInsertPrefix, toSQLLiteral, type ExportFormat } from "./export";
+import {
+  MAX_UPLOAD_BYTES,
+  UploadTooLargeError,
+  writeStreamToFile,
+  type ByteProgress,
+} from "./upload";
+import {
+  assertReadOnlyParse,
+  assertStandaloneExpression,
+  explainTarget,
+  leadingKeyword,
+  pivotParseProbe,
+  ReadOnlySqlError,
+  SAFE_TABLE_FUNCTIONS,
+  statementKind,
+  trimStatement,
+  type ReadOnlyStatement,
+  type SerializedSql,
+} from "./sqlGuard";
+import {
+  CAST_PREVIEW_SAMPLES,
+  findColumnIndex,
+  planColumnOrder,
+  resolveSchemaOperation,
+  SchemaOperationError,
+  type CastPreview,
+  type SchemaOperation,
+} from "./schemaOps";
+import { formulaToSQL } from "./formulaSQL";
+import {
+  histogramBins,
+  PROFILE_TOP_VALUES,
+  profileKind,
+  type ColumnProfile,
+} from "./columnProfile";
+import type { SelectionAggregate } from "./selection";
+import {
+  assemblePivot,
+  MAX_PIVOT_COLUMN_KEYS,
+  MAX_PIVOT_ROW_KEYS,
+  PivotError,
+  type PivotAggregate,
+  type PivotGroup,
+  type PivotResult,
+  type PivotSpec,
+} from "./pivot";
+import { MAX_ROW_GROUPS, RowGroupError, type RowGroup } from "./rowGroups";
+import {
+  CHART_CATEGORY_LIMITS,
+  ChartError,
+  chartUsesY,
+  DEFAULT_CHART_BINS,
+  lttb,
+  MAX_LINE_POINTS,
+  MAX_SCATTER_POINTS,
+  topCategories,
+  type ChartConfig,
+  type ChartData,
+} from "./chart";
+import {
+  MAX_ROW_COPIES,
+  newRowCopyKey,
+  RowOperationError,
+  type RowAnchor,
+  type RowOperation,
+  type RowOperationResult,
+} from "./rowOps";
+import {
+  csvOptionsToDuckDB,
+  sniffCsvDialect,
+  type CsvImportOptions,
+} from "./csvDialect";
 
 const DEFAULT_TABLE = DEFAULT_DUCKDB_TABLE;
 const SAMPLE_CSV = fileURLToPath(
@@ -19,8 +115,22 @@ const DUCKDB_THREADS = Number(Bun.env.DUCKDB_THREADS || "4");
 const DUCKDB_MEMORY = Bun.env.DUCKDB_MEMORY || "1GB";
 const DUCKDB_PRESERVE_INSERTION_ORDER =
   Bun.env.DUCKDB_PRESERVE_INSERTION_ORDER === "false" ? false : true;
+// With `false`, a persistent workspace keeps its `dataset` table on restart
+// instead of having it overwritten by the sample.
+const DUCKDB_RELOAD_SAMPLE = Bun.env.DUCKDB_RELOAD_SAMPLE !== "false";
 const MAX_CONNECTIONS = Number(Bun.env.DUCKDB_MAX_CONNECTIONS || "3");
+/** Table functions user queries may call, e.g. `read_parquet` for trusted hosts. */
+const SQL_ALLOWED_TABLE_FUNCTIONS: ReadonlySet<string> = new Set([
+  ...SAFE_TABLE_FUNCTIONS,
+  ...(Bun.env.DUCKDB_SQL_ALLOWED_FUNCTIONS ?? "")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean),
+]);
 
+if (DB_FILE !== ":memory:") {
+  mkdirSync(dirname(resolve(DB_FILE)), { recursive: true });
+}
 const database = new Database(DB_FILE);
 const MAX_CHUNK_SIZE = 10000;
 
@@ -31,12 +141,21 @@ let initPromise: Promise<void> | null = null;
 
 const tableColumnsCache = new Map<string, DuckDBColumnMeta[]>();
 const tableColumnsPending = new Map<string, Promise<DuckDBColumnMeta[]>>();
+const computedColumnsCache = new Map<string, ComputedColumnMeta[]>();
 const tableRowCountCache = new Map<
   string,
   { count: number; timestamp: number }
 >();
 const ROW_COUNT_CACHE_TTL = 30000;
 
+// Call whenever a table is created, replaced, renamed or dropped.
+function forgetTableMetadata(tableName: string) {
+  tableColumnsCache.delete(tableName);
+  tableColumnsPending.delete(tableName);
+  tableRowCountCache.delete(tableName);
+  computedColumnsCache.delete(tableName);
+}
+
 function ensureTempDir() {
   if (!existsSync(TEMP_DIR)) {
     mkdirSync(TEMP_DIR, { recursive: true });
@@ -97,25 +216,38 @@ function all<T>(
 }
 
 function resolveCsvPath(csvPath: string): string {
-  if (!csvPath) throw new Error("CSV path is required");
+  if (!csvPath) throw new Error("File path is required");
   if (csvPath.startsWith("file:")) return fileURLToPath(csvPath);
   return isAbsolute(csvPath) ? csvPath : join(process.cwd(), csvPath);
 }
 
 async function ensureCsvExists(csvPath: string) {
   if (!existsSync(csvPath)) {
-    throw new Error(`CSV not found at ${csvPath}`);
+    throw new Error(`File not found at ${csvPath}`);
   }
 }
 
 export interface DuckDBColumnMeta {
   name: string;
   type: string;
+  /** Formula of a computed column. */
+  formula?: string;
+}
+
+interface ComputedColumnMeta extends DuckDBColumnMeta {
+  formula: string;
+  /** The formula compiled against the table's columns. */
+  sql: string;
 }
 
 export interface DuckDBTableChunk {
   columns: DuckDBColumnMeta[];
   rows: string[][];
+  /**
+   * Stable id of each row (`rowid`, or `__row_id` once rows were changed;
+   * see `mutateTableRows`), for edits under sort and filter.
+   */
+  rowIds: number[];
   rowCount: number;
   offset: number;
   limit: number;
@@ -124,10 +256,12 @@ export interface DuckDBTableChunk {
 type DataSource =
   | { path: string; name?: string }
   | { url: string; name?: string }
-  | { blob: Blob; name?: string };
+  | { blob: Blob; name?: string }
+  | { stream: ReadableStream<Uint8Array>; name?: string; size?: number };
 
 export interface DuckDBCellUpdate {
-  rowIndex: number;
+  /** The row's id, as returned by `getTableChunk`. */
+  rowId: number;
   column: string;
   value: string;
 }
@@ -135,20 +269,86 @@ export interface DuckDBCellUpdate {
 export async function loadCsvIntoTable(
   csvPath: string,
   tableName: string = DEFAULT_TABLE,
+  csvOptions?: CsvImportOptions,
+): Promise<void> {
+  await loadFileIntoTable(csvPath, tableName, "csv", { csvOptions });
+}
+
+let arrowExtensionReady: Promise<void> | null = null;
+
+// Arrow IPC files are read by the `nanoarrow` community extension, which is
+// not bundled; install it on first use.
+function ensureArrowExtension(conn: Connection): Promise<void> {
+  if (!arrowExtensionReady) {
+    arrowExtensionReady = run(conn, "LOAD nanoarrow")
+      .catch(async () => {
+        await run(conn, "INSTALL nanoarrow FROM community");
+        await run(conn, "LOAD nanoarrow");
+      })
+      .catch((error) => {
+        arrowExtensionReady = null;
+        throw new Error(
+          `Arrow support is unavailable: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      });
+  }
+  return arrowExtensionReady;
+}
+
+interface ReaderOptions {
+  /** Declared NDJSON column types. */
+  columns?: DuckDBColumnMeta[];
+  /** Explicit CSV dialect; CSV is auto-detected without it. */
+  csvOptions?: CsvImportOptions;
+}
+
+function readerSQL(
+  path: string,
+  format: NativeDataFormat | "csv",
+  { columns, csvOptions }: ReaderOptions = {},
+): string {
+  const literal = `'${escapeLiteral(path)}'`;
+  const columnsArg = columns
+    ? `, columns={${columns.map((c) => `'${escapeLiteral(c.name)}': '${escapeLiteral(c.type)}'`).join(", ")}}`
+    : "";
+  switch (format) {
+    case "csv":
+      return csvOptions
+        ? `read_csv(${literal}, ${csvOptionsToDuckDB(csvOptions)})`
+        : `read_csv_auto(${literal}, HEADER=TRUE)`;
+    case "parquet":
+      return `read_parquet(${literal})`;
+    case "json":
+      return `read_json_auto(${literal}, format='auto')`;
+    case "ndjson":
+      return `read_json_auto(${literal}, format='newline_delimited'${columnsArg})`;
+    case "arrow":
+      return `read_arrow(${literal})`;
+  }
+}
+
+/**
+ * Create (or replace) a table from a local file. Parquet, JSON and Arrow are
+ * read natively so their column types survive; CSV types are sniffed.
+ */
+export async function loadFileIntoTable(
+  filePath: string,
+  tableName: string = DEFAULT_TABLE,
+  format: NativeDataFormat | "csv" = "csv",
+  options: ReaderOptions = {},
 ): Promise<void> {
-  const resolved = resolveCsvPath(csvPath);
+  const resolved = resolveCsvPath(filePath);
   await ensureCsvExists(resolved);
   const tableIdent = escapeIdentifier(tableName);
-  const csvLiteral = escapeLiteral(resolved);
 
   await enqueue(async (conn) => {
+    if (format === "arrow") await ensureArrowExtension(conn);
     await run(
       conn,
-      `CREATE OR REPLACE TABLE ${tableIdent} AS SELECT * FROM read_csv_auto('${csvLiteral}', HEADER=TRUE)`,
+      `CREATE OR REPLACE TABLE ${tableIdent} AS SELECT * FROM ${readerSQL(resolved, format, options)}`,
     );
     // Invalidate cached metadata for this table since schema may change
-    tableColumnsCache.delete(tableName);
-    tableColumnsPending.delete(tableName);
+    forgetTableMetadata(tableName);
   });
 }
 
@@ -165,9 +365,61 @@ export async function initDuckDB(): Promise<void> {
           (DUCKDB_PRESERVE_INSERTION_ORDER ? "true" : "false"),
       );
       await run(conn, "SET enable_object_cache = true");
+      await run(conn, `CREATE SCHEMA IF NOT EXISTS ${CATALOG_SCHEMA}`);
+      await run(
+        conn,
+        `CREATE TABLE IF NOT EXISTS ${CATALOG_TABLE} (
+           table_name VARCHAR PRIMARY KEY,
+           source VARCHAR,
+           source_kind VARCHAR,
+           loaded_at TIMESTAMPTZ,
+           import_options VARCHAR,
+           row_count BIGINT,
+           description VARCHAR
+         )`,
+      );
+      await run(
+        conn,
+        `CREATE TABLE IF NOT EXISTS ${COMPUTED_TABLE} (
+           table_name VARCHAR,
+           name VARCHAR,
+           formula VARCHAR,
+           position INTEGER,
+           PRIMARY KEY (table_name, name)
+         )`,
+      );
+    });
+    // Query results and half-done loads left behind by a previous run of a
+    // persistent workspace.
+    const leftovers = (
+      await enqueue((conn) => all<{ name: string }>(conn, "SHOW TABLES"))
+    )
+      .map((row) => String(row.name))
+      .filter((name) => isQueryResultTable(name) || isLoadStagingTable(name));
+    await dropTables(leftovers);
+    // Deleted-row copies are only reachable through the undo history of the
+    // run that made them.
+    await enqueue(async (conn) => {
+      const copies = await all<{ name: string }>(
+        conn,
+        `SELECT table_name AS name FROM duckdb_tables() WHERE schema_name = '${CATALOG_SCHEMA}' AND starts_with(table_name, '${ROW_COPY_PREFIX}')`,
+      );
+      for (const { name } of copies) {
+        await run(
+          conn,
+          `DROP TABLE ${CATALOG_SCHEMA}.${escapeIdentifier(name)}`,
+        );
+      }
     });
 
-    await loadCsvIntoTable(SAMPLE_CSV);
+    if (DUCKDB_RELOAD_SAMPLE || !(await listTables()).includes(DEFAULT_TABLE)) {
+      await loadCsvIntoTable(SAMPLE_CSV);
+      await recordTableSource(DEFAULT_TABLE, {
+        source: basename(SAMPLE_CSV),
+        sourceKind: "sample",
+        importOptions: { format: "csv" },
+      });
+    }
   })().catch((error) => {
     initPromise = null;
     throw error;
@@ -183,13 +435,8 @@ export async function getTableColumns(
   const pending = tableColumnsPending.get(tableName);
   if (pending) return pending;
 
-  const tableIdent = escapeIdentifier(tableName);
   const promise = enqueue(async (conn) => {
-    const rows = await all<{ name: string; type: string }>(
-      conn,
-      `PRAGMA table_info(${tableIdent})`,
-    );
-    const cols = rows.map((row) => ({ name: row.name, type: row.type }));
+    const { columns: cols } = await readTableColumns(conn, tableName);
     tableColumnsCache.set(tableName, cols);
     tableColumnsPending.delete(tableName);
     return cols;
@@ -198,21 +445,121 @@ export async function getTableColumns(
   return promise;
 }
 
+/** Row id and position columns of a table that had rows changed. */
+const ROW_ID_COLUMN = "__row_id";
+const ROW_POS_COLUMN = "__row_pos";
+
+function isRowKeyColumn(name: string): boolean {
+  return name === ROW_ID_COLUMN || name === ROW_POS_COLUMN;
+}
+
+// A table's own columns, less the row id and position columns, and whether
+// it has them (see `mutateTableRows`). Query results show them like any
+// other column.
+async function readTableColumns(
+  conn: Connection,
+  tableName: string,
+): Promise<{ columns: DuckDBColumnMeta[]; positioned: boolean }> {
+  const rows = await all<{ name: string; type: string }>(
+    conn,
+    `PRAGMA table_info(${escapeIdentifier(tableName)})`,
+  );
+  const positioned =
+    !isQueryResultTable(tableName) &&
+    rows.some((row) => row.name === ROW_ID_COLUMN) &&
+    rows.some((row) => row.name === ROW_POS_COLUMN);
+  return {
+    columns: rows
+      .filter((row) => !positioned || !isRowKeyColumn(row.name))
+      .map((row) => ({ name: row.name, type: row.type })),
+    positioned,
+  };
+}
+
+/**
+ * Columns and FROM target for reading a table: its own columns followed by
+ * its computed columns, which are selected in a subquery that keeps `rowid`
+ * as the row id. Tables with a position column always read through that
+ * subquery, with their `__row_id` as `rowid`, and order by `__row_pos`
+ * (`positioned`). A formula that no longer compiles (e.g. a column it read
+ * is gone after a reload) reads as NULL. Takes `conn` because callers
+ * already hold the queue.
+ */
+async function viewSource(
+  conn: Connection,
+  tableName: string,
+): Promise<{ columns: DuckDBColumnMeta[]; from: string; positioned: boolean }> {
+  const tableIdent = escapeIdentifier(tableName);
+  const { columns, positioned } = await readTableColumns(conn, tableName);
+
+  let computed = computedColumnsCache.get(tableName);
+  if (!computed) {
+    const defined = await all<{ name: string; formula: string }>(
+      conn,
+      `SELECT name, formula FROM ${COMPUTED_TABLE} WHERE table_name = ? ORDER BY position`,
+      [tableName],
+    );
+    computed = [];
+    for (const { name, formula } of defined) {
+      let sql = "CAST(NULL AS VARCHAR)";
+      let type = "VARCHAR";
+      try {
+        const compiled = formulaToSQL(formula, columns);
+        const described = await all<{ column_type: string }>(
+          conn,
+          `DESCRIBE SELECT (${compiled}) AS value FROM ${tableIdent}`,
+        );
+        sql = compiled;
+        type = described[0]?.column_type ?? type;
+      } catch {
+        // Keep the NULL placeholder; the column still shows its formula.
+      }
+      computed.push({ name, type, formula, sql });
+    }
+    computedColumnsCache.set(tableName, computed);
+  }
+  if (computed.length === 0 && !positioned) {
+    return { columns, from: tableIdent, positioned };
+  }
+
+  const selectList = [
+    `${positioned ? escapeIdentifier(ROW_ID_COLUMN) : "rowid"} AS rowid`,
+    ...computed.map(
+      (column) => `(${column.sql}) AS ${escapeIdentifier(column.name)}`,
+    ),
+  ].join(", ");
+  return {
+    columns: [
+      ...columns,
+      ...computed.map(({ name, type, formula }) => ({ name, type, formula })),
+    ],
+    from: `(SELECT *, ${selectList} FROM ${tableIdent}) AS ${tableIdent}`,
+    positioned,
+  };
+}
+
+/** A table's columns as the grid shows them, computed columns included. */
+export async function getViewColumns(
+  tableName: string = DEFAULT_TABLE,
+): Promise<DuckDBColumnMeta[]> {
+  return enqueue(async (conn) => (await viewSource(conn, tableName)).columns);
+}
+
 export async function getDistinctValues(
   tableName: string = DEFAULT_TABLE,
   columnName: string,
   limit: number = 100,
 ): Promise<string[]> {
-  const tableIdent = escapeIdentifier(tableName);
   const columnIdent = escapeIdentifier(columnName);
   const safeLimit = Math.min(Math.max(1, Math.floor(limit)), 1000);
 
   return enqueue(async (conn) => {
+    const { from } = await viewSource(conn, tableName);
     // Get most frequent distinct values (useful for autocomplete)
     const rows = await all<{ value: string }>(
       conn,
       `SELECT CAST(${columnIdent} AS VARCHAR) AS value, COUNT(*) AS freq
-       FROM ${tableIdent}
+       FROM ${from}
        WHERE ${columnIdent} IS NOT NULL AND CAST(${columnIdent} AS VARCHAR) != ''
        GROUP BY ${columnIdent}
        ORDER BY freq DESC, value ASC
@@ -223,6 +570,615 @@ export async function getDistinctValues(
   });
 }
 
+/**
+ * Profile one column of a table, or of its filtered view, with aggregate
+ * queries: counts, number/date ranges, numeric mean, median and sample
+ * standard deviation, the most frequent values and a histogram of values
+ * (numbers) or value lengths (everything else). Mirrors `profileValues`.
+ */
+export async function profileTableColumn(
+  tableName: string = DEFAULT_TABLE,
+  columnName: string,
+  filters: DuckDBFilter[] = [],
+): Promise<ColumnProfile> {
+  return enqueue(async (conn) => {
+    const { columns, from } = await viewSource(conn, tableName);
+    const column = columns.find((c) => c.name === columnName);
+    if (!column) throw new Error(`Column ${columnName} does not exist`);
+    const { where, params } = buildViewClauses(columns, filters, []);
+    const kind = profileKind(column.type);
+    const ident = escapeIdentifier(column.name);
+    const text = `CAST(${ident} AS VARCHAR)`;
+    const filled = `${ident} IS NOT NULL AND trim(${text}) <> ''`;
+    const filledWhere = `${where ? `${where} AND` : " WHERE"} ${filled}`;
+    // What the histogram bins: the number itself or the text length.
+    const measure =
+      kind === "number" ? `CAST(${ident} AS DOUBLE)` : `length(${text})`;
+
+    const [stats = {}] = await all<Record<string, unknown>>(
+      conn,
+      `SELECT
+         COUNT(*) AS total,
+         COUNT(*) FILTER (WHERE ${filled}) AS filled,
+         COUNT(DISTINCT ${ident}) FILTER (WHERE ${filled}) AS distinct_count,
+         min(${measure}) FILTER (WHERE ${filled}) AS low,
+         max(${measure}) FILTER (WHERE ${filled}) AS high,
+         min(${ident}) FILTER (WHERE ${filled}) AS min_value,
+         max(${ident}) FILTER (WHERE ${filled}) AS max_value
+         ${kind === "number" ? `, avg(${measure}) AS mean, median(${measure}) AS median, stddev_samp(${measure}) AS stddev` : ""}
+       FROM ${from}${where}`,
+      params,
+    );
+    const top = await all<{ value: unknown; count: number }>(
+      conn,
+      `SELECT ${ident} AS value, COUNT(*) AS count
+       FROM ${from}${filledWhere}
+       GROUP BY ${ident}
+       ORDER BY count DESC, ${text}
+       LIMIT ${PROFILE_TOP_VALUES}`,
+      params,
+    );
+
+    const total = Number(stats.total ?? 0);
+    const profile: ColumnProfile = {
+      column: column.name,
+      type: column.type,
+      inferred: false,
+      kind,
+      count: total,
+      emptyCount: total - Number(stats.filled ?? 0),
+      distinctCount: Number(stats.distinct_count ?? 0),
+      topValues: top.map((row) => ({
+        value: formatCell(row.value, column.type),
+        count: Number(row.count),
+      })),
+      histogram: { of: kind === "number" ? "value" : "length", bins: [] },
+    };
+    if (kind !== "text" && stats.min_value != null) {
+      profile.min = formatCell(stats.min_value, column.type);
+      profile.max = formatCell(stats.max_value, column.type);
+    }
+    if (kind === "number") {
+      const number = (value: unknown) =>
+        value == null ? undefined : Number(value);
+      profile.mean = number(stats.mean);
+      profile.median = number(stats.median);
+      profile.stddev = number(stats.stddev);
+    }
+
+    const low = Number(stats.low ?? NaN);
+    const high = Number(stats.high ?? NaN);
+    if (Number.isFinite(low) && Number.isFinite(high)) {
+      const { bins, width } = histogramBins(low, high, kind !== "number");
+      const counts = await all<{ bin: number; count: number }>(
+        conn,
+        `SELECT
+           least(${bins.length - 1}, greatest(0, CAST(floor((${measure} - ${low}) / ${width}) AS BIGINT))) AS bin,
+           COUNT(*) AS count
+         FROM ${from}${filledWhere}
+         GROUP BY bin`,
+        params,
+      );
+      for (const { bin, count } of counts) {
+        const target = bins[Number(bin)];
+        if (target) target.count = Number(count);
+      }
+      profile.histogram.bins = bins;
+    }
+    return profile;
+  });
+}
+
+/**
+ * The filtered view numbered in display order as `"__view_row"`, so grid
+ * selection positions line up with what the grid shows.
+ */
+const numberedView = (from: string, where: string, orderBy: string) => {
+  const viewOrder = orderBy ? orderBy.replace(/^ ORDER BY /, "") : "rowid";
+  return `(SELECT *, row_number() OVER (ORDER BY ${viewOrder}) - 1 AS "__view_row" FROM ${from}${where})`;
+};
+
+/** `"__view_row"` within any of `count` inclusive ranges (two params each). */
+const viewRowRangeSQL = (count: number) =>
+  Array.from({ length: count }, () => `"__view_row" BETWEEN ? AND ?`).join(
+    " OR ",
+  );
+
+/** Selected view rows `start..end` (inclusive) in the named columns. */
+export interface DuckDBSelectionRange {
+  start: number;
+  end: number;
+  columns: string[];
+}
+
+/**
+ * Sum, average, counts, min and max over selected cells of a filtered and
+ * sorted view, without reading the rows out. Cells count as numbers when
+ * their text casts to DOUBLE, as `numericCellValue` reads them client-side;
+ * LIST, STRUCT, MAP and UNION cells never do.
+ */
+export async function aggregateTableSelection(
+  tableName: string = DEFAULT_TABLE,
+  ranges: DuckDBSelectionRange[],
+  options: { filters?: DuckDBFilter[]; sort?: DuckDBSort[] } = {},
+): Promise<SelectionAggregate> {
+  return enqueue(async (conn) => {
+    const { columns, from, positioned } = await viewSource(conn, tableName);
+    const { where, params, orderBy } = buildViewClauses(
+      columns,
+      options.filters ?? [],
+      options.sort ?? [],
+      positioned,
+    );
+    // One scan per column over every range that selects it.
+    const parts: string[] = [];
+    const queryParams = [...params];
+    for (const column of columns) {
+      const rows = ranges.filter((range) =>
+        range.columns.includes(column.name),
+      );
+      if (rows.length === 0) continue;
+      const ident = escapeIdentifier(column.name);
+      // Nested values are only counted.
+      const number =
+        profileKind(column.type) === "number"
+          ? `CAST(${ident} AS DOUBLE)`
+          : isNestedType(column.type)
+            ? "CAST(NULL AS DOUBLE)"
+            : `TRY_CAST(CAST(${ident} AS VARCHAR) AS DOUBLE)`;
+      parts.push(
+        `SELECT CAST(${ident} AS VARCHAR) AS text, ${number} AS number FROM "__view" WHERE ${viewRowRangeSQL(rows.length)}`,
+      );
+      for (const { start, end } of rows) queryParams.push(start, end);
+    }
+    if (parts.length === 0) {
+      return {
+        count: 0,
+        filledCount: 0,
+        numericCount: 0,
+        sum: null,
+        avg: null,
+        min: null,
+        max: null,
+      };
+    }
+
+    const [stats = {}] = await all<Record<string, unknown>>(
+      conn,
+      `WITH "__view" AS ${numberedView(from, where, orderBy)}
+       SELECT
+         COUNT(*) AS count,
+         COUNT(*) FILTER (WHERE text IS NOT NULL AND text <> '') AS filled,
+         COUNT(number) AS numeric,
+         sum(number) AS sum,
+         avg(number) AS avg,
+         min(number) AS min,
+         max(number) AS max
+       FROM (${parts.join(" UNION ALL ")})`,
+      queryParams,
+    );
+    const number = (value: unknown) => (value == null ? null : Number(value));
+    return {
+      count: Number(stats.count ?? 0),
+      filledCount: Number(stats.filled ?? 0),
+      numericCount: Number(stats.numeric ?? 0),
+      sum: number(stats.sum),
+      avg: number(stats.avg),
+      min: number(stats.min),
+      max: number(stats.max),
+    };
+  });
+}
+
+const PIVOT_SQL: Record<PivotAggregate, (text: string, num: string) => string> =
+  {
+    count: (text) => `COUNT(${text}) FILTER (WHERE ${text} <> '')`,
+    countDistinct: (text) =>
+      `COUNT(DISTINCT ${text}) FILTER (WHERE ${text} <> '')`,
+    sum: (_, num) => `sum(${num})`,
+    avg: (_, num) => `avg(${num})`,
+    min: (_, num) => `min(${num})`,
+    max: (_, num) => `max(${num})`,
+  };
+
+/**
+ * Run a pivot (see `pivot.ts`) over a filtered view with one `GROUP BY
+ * GROUPING SETS` query: every prefix of the row fields, with and without
+ * the column fields. Throws `PivotError` when the fields have too many
+ * combinations.
+ */
+export async function pivotTable(
+  tableName: string = DEFAULT_TABLE,
+  spec: PivotSpec,
+  options: { filters?: DuckDBFilter[] } = {},
+): Promise<PivotResult> {
+  return enqueue(async (conn) => {
+    const { columns, from } = await viewSource(conn, tableName);
+    const { where, params } = buildViewClauses(
+      columns,
+      options.filters ?? [],
+      [],
+    );
+    const columnFor = (name: string) => {
+      const column = columns.find((c) => c.name === name);
+      if (!column) throw new PivotError(`Unknown column ${name}`);
+      return column;
+    };
+    const text = (name: string) => `CAST(${escapeIdentifier(name)} AS VARCHAR)`;
+    // Keys read as the grid shows them: text, blank for NULL.
+    const keys = [...spec.rows, ...spec.columns].map(
+      (name, index) =>
+        `COALESCE(${text(columnFor(name).name)}, '') AS k${index}`,
+    );
+    const values = spec.values.map((value, index) => {
+      const column = columnFor(value.column);
+      const num =
+        profileKind(column.type) === "number"
+          ? `CAST(${escapeIdentifier(column.name)} AS DOUBLE)`
+          : `TRY_CAST(${text(column.name)} AS DOUBLE)`;
+      return {
+        select: `${text(column.name)} AS t${index}, ${num} AS n${index}`,
+        aggregate: `${PIVOT_SQL[value.aggregate](`t${index}`, `n${index}`)} AS v${index}`,
+      };
+    });
+    const source = `(SELECT ${[...keys, ...values.map((v) => v.select)].join(", ")} FROM ${from}${where})`;
+
+    const rowKeys = spec.rows.map((_, i) => `k${i}`);
+    const columnKeys = spec.columns.map((_, i) => `k${spec.rows.length + i}`);
+    const distinctCount = async (keyList: string[]) => {
+      if (keyList.length === 0) return 0;
+      const [row] = await all<{ count: number }>(
+        conn,
+        `SELECT COUNT(*) AS count FROM (SELECT DISTINCT ${keyList.join(", ")} FROM ${source})`,
+        params,
+      );
+      return Number(row?.count ?? 0);
+    };
+    if ((await distinctCount(rowKeys)) > MAX_PIVOT_ROW_KEYS) {
+      throw new PivotError(
+        `The row fields have more than ${MAX_PIVOT_ROW_KEYS} combinations`,
+      );
+    }
+    if ((await distinctCount(columnKeys)) > MAX_PIVOT_COLUMN_KEYS) {
+      throw new PivotError(
+        `The column fields have more than ${MAX_PIVOT_COLUMN_KEYS} combinations`,
+      );
+    }
+
+    const sets: string[] = [];
+    for (let level = 0; level <= rowKeys.length; level++) {
+      const prefix = rowKeys.slice(0, level);
+      if (columnKeys.length > 0) {
+        sets.push(`(${[...prefix, ...columnKeys].join(", ")})`);
+      }
+      sets.push(`(${prefix.join(", ")})`);
+    }
+    const allKeys = [...rowKeys, ...columnKeys];
+    const grouping = allKeys.map((key) => `GROUPING(${key}) AS g_${key}`);
+    const rows = await all<Record<string, unknown>>(
+      conn,
+      `SELECT ${[...allKeys, ...grouping, ...values.map((v) => v.aggregate)].join(", ")}
+       FROM ${source}
+       GROUP BY GROUPING SETS (${sets.join(", ")})`,
+      params,
+    );
+
+    // GROUPING() is 1 for a key rolled up in that set.
+    const groups: PivotGroup[] = rows.map((row) => {
+      const present = (key: string) => Number(row[`g_${key}`]) === 0;
+      const keyText = (key: string) => String(row[key] ?? "");
+      return {
+        rowKey: rowKeys.filter(present).map(keyText),
+        columnKey:
+          columnKeys.length > 0 && columnKeys.every(present)
+            ? columnKeys.map(keyText)
+            : null,
+        values: spec.values.map((_, index) => {
+          const value = row[`v${index}`];
+          return value == null ? null : Number(value);
+        }),
+      };
+    });
+    return assemblePivot(spec, groups);
+  });
+}
+
+/**
+ * Group headers (see `rowGroups.ts`) for a filtered view grouped by
+ * `groupBy`. The view is ordered by the group columns first, in the
+ * direction `sort` gives them, so each group's rows are one run of view
+ * positions; page them with `getTableChunk` and the same sort. Numeric
+ * columns get per-group sums. Throws `RowGroupError` past `MAX_ROW_GROUPS`.
+ */
+export async function groupTableRows(
+  tableName: string = DEFAULT_TABLE,
+  groupBy: string[],
+  options: { filters?: DuckDBFilter[]; sort?: DuckDBSort[] } = {},
+): Promise<RowGroup[]> {
+  return enqueue(async (conn) => {
+    const { columns, from, positioned } = await viewSource(conn, tableName);
+    const groupColumns = groupBy.map((name) => {
+      const column = columns.find((c) => c.name === name);
+      if (!column) throw new RowGroupError(`Unknown column ${name}`);
+      return column;
+    });
+    if (groupColumns.length === 0) return [];
+    const sort = options.sort ?? [];
+    const { where, params, orderBy } = buildViewClauses(
+      columns,
+      options.filters ?? [],
+      [
+        ...groupBy.map(
+          (columnName) =>
+            sort.find((key) => key.columnName === columnName) ?? {
+              columnName,
+              direction: "asc" as const,
+            },
+        ),
+        ...sort.filter((key) => !groupBy.includes(key.columnName)),
+      ],
+      positioned,
+    );
+
+    // Grouping the native values keeps each group one run of the ORDER BY
+    // (NULL and '' sort apart even though both show blank).
+    const keys = groupColumns.map((column) => escapeIdentifier(column.name));
+    const sets = keys.map(
+      (_, level) => `(${keys.slice(0, level + 1).join(", ")})`,
+    );
+    const sums = columns.flatMap((column, index) =>
+      profileKind(column.type) === "number"
+        ? [
+            `sum(CAST(${escapeIdentifier(column.name)} AS DOUBLE)) AS "__s${index}"`,
+          ]
+        : [],
+    );
+    const rows = await all<Record<string, unknown>>(
+      conn,
+      `WITH "__view" AS ${numberedView(from, where, orderBy)}
+       SELECT ${[
+         ...keys.map(
+           (key, i) => `${key} AS "__k${i}", GROUPING(${key}) AS "__g${i}"`,
+         ),
+         `MIN("__view_row") AS "__start"`,
+         `COUNT(*) AS "__count"`,
+         ...sums,
+       ].join(", ")}
+       FROM "__view"
+       GROUP BY GROUPING SETS (${sets.join(", ")})
+       LIMIT ${MAX_ROW_GROUPS + 1}`,
+      params,
+    );
+    if (rows.length > MAX_ROW_GROUPS) {
+      throw new RowGroupError(
+        `Grouping makes more than ${MAX_ROW_GROUPS} groups`,
+      );
+    }
+
+    return rows
+      .map((row) => {
+        // GROUPING() is 1 for a key rolled up in that set.
+        const depth = groupColumns.filter(
+          (_, i) => Number(row[`__g${i}`]) === 0,
+        ).length;
+        return {
+          key: groupColumns
+            .slice(0, depth)
+            .map((column, i) => formatCell(row[`__k${i}`], column.type)),
+          start: Number(row.__start),
+          count: Number(row.__count),
+          sums: columns.map((_, index) => {
+            const value = row[`__s${index}`];
+            return value == null ? null : Number(value);
+          }),
+        };
+      })
+      .sort((a, b) => a.start - b.start || a.key.length - b.key.length);
+  });
+}
+
+const CHART_AGGREGATE_SQL: Record<ChartConfig["aggregate"], string> = {
+  count: "COUNT(*)",
+  sum: `sum("__y")`,
+  avg: `avg("__y")`,
+  min: `min("__y")`,
+  max: `max("__y")`,
+};
+
+/**
+ * Chart (see `chart.ts`) a filtered and sorted view, or only its view rows
+ * in `ranges`, reducing it in SQL so only what is drawn comes back:
+ * categories are aggregated, histograms binned, line charts cut to the
+ * extreme points of `MAX_LINE_POINTS` x buckets before LTTB and scatter
+ * charts reservoir-sampled. Throws `ChartError` for unknown columns.
+ */
+export async function chartTable(
+  tableName: string = DEFAULT_TABLE,
+  config: ChartConfig,
+  options: {
+    filters?: DuckDBFilter[];
+    sort?: DuckDBSort[];
+    ranges?: Array<Pick<DuckDBSelectionRange, "start" | "end">>;
+  } = {},
+): Promise<ChartData> {
+  return enqueue(async (conn) => {
+    const { columns, from, positioned } = await viewSource(conn, tableName);
+    const columnFor = (name: string | undefined) => {
+      const column = columns.find((c) => c.name === name);
+      if (!column) throw new ChartError(`Unknown column ${name}`);
+      return column;
+    };
+    const x = columnFor(config.x);
+    const xKind = profileKind(x.type);
+    const xIdent = escapeIdentifier(x.name);
+    const xText = `CAST(${xIdent} AS VARCHAR)`;
+    const y = chartUsesY(config) ? columnFor(config.y) : null;
+    const { where, params, orderBy } = buildViewClauses(
+      columns,
+      options.filters ?? [],
+      options.sort ?? [],
+      positioned,
+    );
+
+    // Cells read as `chartValue` and `numericCellValue` read them: x dates
+    // become epoch milliseconds, text counts when it casts.
+    const selects = [
+      `${
+        xKind === "number"
+          ? `CAST(${xIdent} AS DOUBLE)`
+          : xKind === "date"
+            ? `CAST(epoch_ms(CAST(${xIdent} AS TIMESTAMP)) AS DOUBLE)`
+            : `COALESCE(TRY_CAST(${xText} AS DOUBLE), CAST(epoch_ms(TRY_CAST(${xText} AS TIMESTAMP)) AS DOUBLE))`
+      } AS "__x"`,
+      // Text keys as the grid shows them, so NULL and '' are one category.
+      `${xKind === "text" ? `COALESCE(${xText}, '')` : xIdent} AS "__label"`,
+      `${xKind === "text" ? `TRY_CAST(${xText} AS DOUBLE) IS NULL` : "false"} AS "__text"`,
+    ];
+    if (y) {
+      const yIdent = escapeIdentifier(y.name);
+      selects.push(
+        `${
+          profileKind(y.type) === "number"
+            ? `CAST(${yIdent} AS DOUBLE)`
+            : `TRY_CAST(CAST(${yIdent} AS VARCHAR) AS DOUBLE)`
+        } AS "__y"`,
+      );
+    }
+    const queryParams = [...params];
+    let source = `SELECT ${selects.join(", ")} FROM ${from}${where}`;
+    if (options.ranges) {
+      if (options.ranges.length === 0)
+        source += `${where ? " AND" : " WHERE"} false`;
+      else {
+        source = `SELECT ${selects.join(", ")} FROM ${numberedView(from, where, orderBy)} WHERE ${viewRowRangeSQL(options.ranges.length)}`;
+        for (const { start, end } of options.ranges) {
+          queryParams.push(start, end);
+        }
+      }
+    }
+    const chart = (sql: string) =>
+      all<Record<string, unknown>>(
+        conn,
+        `WITH "__chart" AS (${source}) ${sql}`,
+        queryParams,
+      );
+    if (config.kind === "bar" || config.kind === "pie") {
+      const limit = CHART_CATEGORY_LIMITS[config.kind];
+      const rows = await chart(
+        `SELECT "__label", ${CHART_AGGREGATE_SQL[config.aggregate]} AS value,
+           COUNT(*) OVER () AS categories
+         FROM "__chart"
+         GROUP BY "__label"
+         HAVING value IS NOT NULL
+         ORDER BY value DESC, "__label"
+         LIMIT ${limit}`,
+      );
+      const data = topCategories(
+        rows.map((row) => ({
+          label: formatCell(row.__label, x.type),
+          value: Number(row.value),
+        })),
+        limit,
+      );
+      data.otherCount = Number(rows[0]?.categories ?? 0) - rows.length;
+      return data;
+    }
+
+    const plotted = `"__x" IS NOT NULL${y ? ` AND "__y" IS NOT NULL` : ""}`;
+    const [stats = {}] = await chart(
+      `SELECT COUNT(*) AS count, min("__x") AS low, max("__x") AS high,
+         bool_and("__text") AS dates
+       FROM "__chart" WHERE ${plotted}`,
+    );
+    const count = Number(stats.count ?? 0);
+    const low = Number(stats.low ?? NaN);
+    const high = Number(stats.high ?? NaN);
+    // Text columns plot as dates when none of their values are numbers.
+    const xType =
+      xKind === "date" || (xKind === "text" && stats.dates === true)
+        ? "date"
+        : "number";
+
+    if (config.kind === "histogram") {
+      if (count === 0) return { kind: "bins", bins: [], xType };
+      const { bins, width } = histogramBins(
+        low,
+        high,
+        false,
+        config.bins ?? DEFAULT_CHART_BINS,
+      );
+      const counts = await chart(
+        `SELECT
+           least(${bins.length - 1}, greatest(0, CAST(floor(("__x" - ${low}) / ${width}) AS BIGINT))) AS bin,
+           COUNT(*) AS count
+         FROM "__chart" WHERE ${plotted}
+         GROUP BY bin`,
+      );
+      for (const row of counts) {
+        const target = bins[Number(row.bin)];
+        if (target) target.count = Number(row.count);
+      }
+      return { kind: "bins", bins, xType };
+    }
+
+    const toPoints = (
+      rows: Record<string, unknown>[],
+      xKey: string,
+      yKey: string,
+    ) =>
+      rows.map((row): [number, number] => [
+        Number(row[xKey]),
+        Number(row[yKey]),
+      ]);
+    const byX = (a: [number, number], b: [number, number]) =>
+      a[0] - b[0] || a[1] - b[1];
+    const limit = config.kind === "line" ? MAX_LINE_POINTS : MAX_SCATTER_POINTS;
+    let points: Array<[number, number]>;
+    if (count <= limit) {
+      points = toPoints(
+        await chart(
+          `SELECT "__x", "__y" FROM "__chart" WHERE ${plotted} ORDER BY "__x", "__y"`,
+        ),
+        "__x",
+        "__y",
+      );
+    } else if (config.kind === "scatter") {
+      points = toPoints(
+        await chart(
+          `SELECT * FROM (SELECT "__x", "__y" FROM "__chart" WHERE ${plotted})
+           USING SAMPLE reservoir(${MAX_SCATTER_POINTS} ROWS) REPEATABLE (42)`,
+        ),
+        "__x",
+        "__y",
+      ).sort(byX);
+    } else {
+      // The first, last, lowest and highest point of each x bucket keep
+      // the line's shape; LTTB then thins those to the limit.
+      const rows = await chart(
+        `SELECT
+           min("__x") AS x1, arg_min("__y", "__x") AS y1,
+           max("__x") AS x2, arg_max("__y", "__x") AS y2,
+           arg_min("__x", "__y") AS x3, min("__y") AS y3,
+           arg_max("__x", "__y") AS x4, max("__y") AS y4
+         FROM "__chart" WHERE ${plotted}
+         GROUP BY least(${MAX_LINE_POINTS - 1}, CAST(floor(("__x" - ${low}) / ${(high - low || 1) / MAX_LINE_POINTS}) AS BIGINT))`,
+      );
+      const seen = new Set<string>();
+      points = [1, 2, 3, 4]
+        .flatMap((i) => toPoints(rows, `x${i}`, `y${i}`))
+        .filter((point) => {
+          const key = `${point[0]},${point[1]}`;
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        })
+        .sort(byX);
+      points = lttb(points, MAX_LINE_POINTS);
+    }
+    return { kind: "points", points, total: count, xType };
+  });
+}
+
 export async function getTableRowCount(
   tableName: string = DEFAULT_TABLE,
 ): Promise<number> {
@@ -253,14 +1209,52 @@ export interface DuckDBSort {
   direction: "asc" | "desc";
 }
 
+/**
+ * WHERE and ORDER BY for a filtered/sorted view of a table. Sort keys are in
+ * priority order; unknown columns are skipped and ties keep table order:
+ * insertion (`rowid`) order, or the position column of a `positioned`
+ * table, which is also its order when unsorted.
+ */
+function buildViewClauses(
+  columns: DuckDBColumnMeta[],
+  filters: DuckDBFilter[],
+  sort: DuckDBSort[],
+  positioned = false,
+): { where: string; params: unknown[]; orderBy: string } {
+  const filterConditions = filters
+    .map((filter) => {
+      const column = columns.find((c) => c.name === filter.columnName);
+      return {
+        columnName: filter.columnName,
+        value: filter.value,
+        isNumeric: column ? isNumericType(column.type) : false,
+        isDate: column ? isDateType(column.type) : false,
+      };
+    })
+    .filter((f) => f.value.trim() !== "");
+  const { sql: where, params } = buildWhereClause(filterConditions);
+
+  const orderTerms = sort
+    .filter((key) => columns.some((c) => c.name === key.columnName))
+    .map((key) => {
+      const direction = key.direction === "desc" ? "DESC" : "ASC";
+      return `${escapeIdentifier(key.columnName)} ${direction} NULLS LAST`;
+    });
+  const tableOrder = positioned ? escapeIdentifier(ROW_POS_COLUMN) : "rowid";
+  const orderBy =
+    orderTerms.length > 0 || positioned
+      ? ` ORDER BY ${[...orderTerms, tableOrder].join(", ")}`
+      : "";
+  return { where, params, orderBy };
+}
+
 export async function getTableChunk(
   tableName: string = DEFAULT_TABLE,
   offset: number = 0,
   limit: number = 2000,
   filters: DuckDBFilter[] = [],
-  sort?: DuckDBSort,
+  sort: DuckDBSort[] = [],
 ): Promise<DuckDBTableChunk> {
-  const tableIdent = escapeIdentifier(tableName);
   const safeOffset =
     Number.isFinite(offset) && offset > 0 ? Math.floor(offset) : 0;
   const safeLimit =
@@ -268,44 +1262,21 @@ export async function getTableChunk(
       ? Math.min(Math.floor(limit), MAX_CHUNK_SIZE)
       : 2000;
   return enqueue(async (conn) => {
-    // Get column metadata (with types for numeric detection)
-    const columnRows = await all<{ name: string; type: string }>(
-      conn,
-      `PRAGMA table_info(${tableIdent})`,
-    );
-    const columns = columnRows.map((row) => ({
-      name: row.name,
-      type: row.type,
-    }));
+    // Column metadata (with types for numeric detection)
+    const { columns, from, positioned } = await viewSource(conn, tableName);
 
-    // Build WHERE clause using advanced filter predicate parser
-    const filterConditions = filters
-      .map((filter) => {
-        const column = columns.find((c) => c.name === filter.columnName);
-        return {
-          columnName: filter.columnName,
-          value: filter.value,
-          isNumeric: column ? isNumericType(column.type) : false,
-        };
-      })
-      .filter((f) => f.value.trim() !== "");
-
-    const { sql: whereClause, params } = buildWhereClause(filterConditions);
-
-    // Build ORDER BY clause
-    let orderByClause = "";
-    if (sort) {
-      const sortColumnIdent = escapeIdentifier(sort.columnName);
-      const direction = sort.direction === "desc" ? "DESC" : "ASC";
-      orderByClause = ` ORDER BY ${sortColumnIdent} ${direction}`;
-    }
+    const {
+      where: whereClause,
+      params,
+      orderBy: orderByClause,
+    } = buildViewClauses(columns, filters, sort, positioned);
 
     // OPTIMIZATION: Use COUNT() OVER() to get total count in same query
     // This reduces two queries to one!
     const columnsList = columns.map((c) => escapeIdentifier(c.name)).join(", ");
     const sql = `
-      SELECT ${columnsList}, COUNT(*) OVER() as _total_count
-      FROM ${tableIdent}${whereClause}${orderByClause}
+      SELECT ${columnsList}, rowid AS _row_id, COUNT(*) OVER() as _total_count
+      FROM ${from}${whereClause}${orderByClause}
       LIMIT ? OFFSET ?
     `;
 
@@ -319,176 +1290,1485 @@ export async function getTableChunk(
     const rowCount =
       dataRows.length > 0 ? Number(dataRows[0]?._total_count ?? 0) : 0;
 
-    // Convert rows to string arrays (remove _total_count)
+    // Convert rows to string arrays (remove _row_id and _total_count)
     const rows = dataRows.map((row) =>
-      columns.map(({ name }) => {
-        const value = row[name];
-        if (value == null) return "";
-        if (typeof value === "object") return JSON.stringify(value);
-        return String(value);
-      }),
+      columns.map(({ name, type }) => formatCell(row[name], type)),
     );
+    const rowIds = dataRows.map((row) => Number(row._row_id));
 
-    return { columns, rows, rowCount, offset: safeOffset, limit: safeLimit };
+    return {
+      columns,
+      rows,
+      rowIds,
+      rowCount,
+      offset: safeOffset,
+      limit: safeLimit,
+    };
   });
 }
 
-export async function runQuery<
-  T extends Record<string, unknown> = Record<string, unknown>,
->(sql: string, params: unknown[] = []): Promise<T[]> {
-  return enqueue(async (conn) => all<T>(conn, sql, params));
+// DATE/TIMESTAMP values arrive as JS Dates; render them as ISO text so the
+// client can filter and sort them like the CSV source.
+function formatCell(value: unknown, type: string): string {
+  if (value == null) return "";
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) return "";
+    const iso = value.toISOString();
+    return type.toUpperCase() === "DATE"
+      ? iso.slice(0, 10)
+      : iso.replace("T", " ").replace(/\.000Z$|Z$/, "");
+  }
+  if (typeof value === "object") {
+    // Nested Parquet/JSON values can hold BIGINTs.
+    return JSON.stringify(value, (_, v) =>
+      typeof v === "bigint" ? v.toString() : v,
+    );
+  }
+  return String(value);
 }
 
-export const duckdbConstants = {
-  DEFAULT_TABLE,
-};
+export interface DuckDBExportOptions {
+  filters?: DuckDBFilter[];
+  sort?: DuckDBSort[];
+  /** Column names to include, in order; defaults to every column. */
+  columns?: string[];
+  /** Inclusive ranges of view positions (after filters and sort). */
+  rowRanges?: Array<[number, number]>;
+}
 
-export async function updateTableCells(
-  updates: DuckDBCellUpdate[],
-  tableName: string = DEFAULT_TABLE,
-): Promise<number> {
-  if (updates.length === 0) return 0;
-  const tableIdent = escapeIdentifier(tableName);
-  return enqueue(async (conn) => {
-    await run(conn, "BEGIN TRANSACTION");
-    try {
-      for (const update of updates) {
-        const columnIdent = escapeIdentifier(update.column);
-        const rowId = update.rowIndex;
+const SQL_EXPORT_BATCH = 5000;
+
+// Types whose values reach JS as Buffers or objects with no SQL literal form
+// (BLOB, BIT, INTERVAL and nested types). SQL exports read them as DuckDB's
+// own text, which casts back to the column type when the INSERT is replayed.
+const SQL_EXPORT_AS_TEXT =
+  /^(BLOB|BYTEA|BINARY|VARBINARY|BIT|BITSTRING|INTERVAL|STRUCT|MAP|UNION)\b|\]$/i;
+
+/**
+ * Write a table (or a filtered/sorted slice of it) to a temp file. CSV, TSV,
+ * JSON, NDJSON and Parquet use `COPY (query) TO`; SQL INSERT statements are
+ * streamed from the query and flushed in batches. The caller owns the
+ * returned file and must delete it.
+ */
+export async function exportTable(
+  tableName: string,
+  format: ExportFormat,
+  options: DuckDBExportOptions = {},
+): Promise<string> {
+  ensureTempDir();
+  const exportId = `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  const outPath = join(TEMP_DIR, `export_${exportId}.${format}`);
+
+  await enqueue(async (conn) => {
+    const { columns, from, positioned } = await viewSource(conn, tableName);
+    const selected = options.columns
+      ? options.columns.filter((name) => columns.some((c) => c.name === name))
+      : columns.map((c) => c.name);
+    if (selected.length === 0) throw new Error("No columns to export");
+    const selectList = selected
+      .map((name) => {
+        const ident = escapeIdentifier(name);
+        const type = columns.find((c) => c.name === name)!.type;
+        return format === "sql" && SQL_EXPORT_AS_TEXT.test(type)
+          ? `CAST(${ident} AS VARCHAR) AS ${ident}`
+          : ident;
+      })
+      .join(", ");
+
+    const { where, params, orderBy } = buildViewClauses(
+      columns,
+      options.filters ?? [],
+      options.sort ?? [],
+      positioned,
+    );
+
+    let query: string;
+    const queryParams = [...params];
+    const ranges = options.rowRanges ?? [];
+    if (ranges.length > 0) {
+      for (const [start, end] of ranges) queryParams.push(start, end);
+      query = `SELECT ${selectList} FROM ${numberedView(from, where, orderBy)} WHERE ${viewRowRangeSQL(ranges.length)} ORDER BY "__view_row"`;
+    } else {
+      query = `SELECT ${selectList} FROM ${from}${where}${orderBy}`;
+    }
+
+    // Both paths read the view query directly, so an export never holds a
+    // second copy of the rows.
+    const target = escapeLiteral(outPath);
+    switch (format) {
+      case "csv":
+      case "tsv":
+        await run(
+          conn,
+          `COPY (${query}) TO '${target}' (FORMAT CSV, HEADER TRUE, DELIMITER '${format === "tsv" ? "\t" : ","}')`,
+          queryParams,
+        );
+        break;
+      case "json":
+      case "ndjson":
+        await run(
+          conn,
+          `COPY (${query}) TO '${target}' (FORMAT JSON, ARRAY ${format === "json" ? "TRUE" : "FALSE"})`,
+          queryParams,
+        );
+        break;
+      case "parquet":
         await run(
           conn,
-          `UPDATE ${tableIdent} SET ${columnIdent} = ? WHERE rowid = ?`,
-          [update.value, rowId],
+          `COPY (${query}) TO '${target}' (FORMAT PARQUET)`,
+          queryParams,
         );
+        break;
+      case "sql": {
+        const writer = Bun.file(outPath).writer();
+        try {
+          const prefix = sqlInsertPrefix(tableName, selected);
+          let pending = 0;
+          for await (const row of conn.stream(query, ...queryParams)) {
+            writer.write(
+              `${prefix} (${selected.map((name) => toSQLLiteral(row[name])).join(", ")});\n`,
+            );
+            if (++pending === SQL_EXPORT_BATCH) {
+              await writer.flush();
+              pending = 0;
+            }
+          }
+        } finally {
+          await writer.end();
+        }
+        break;
       }
-      await run(conn, "COMMIT");
-      return updates.length;
-    } catch (error) {
-      await run(conn, "ROLLBACK");
-      throw error;
     }
   });
+
+  return outPath;
 }
 
-function isHttpUrl(value: string): boolean {
-  try {
-    const parsed = new URL(value);
-    return parsed.protocol === "http:" || parsed.protocol === "https:";
-  } catch {
-    return false;
-  }
+export async function runQuery<
+  T extends Record<string, unknown> = Record<string, unknown>,
+>(sql: string, params: unknown[] = []): Promise<T[]> {
+  return enqueue(async (conn) => all<T>(conn, sql, params));
 }
 
-async function writeBlobToTempFile(
-  blob: Blob,
-  extension = ".csv",
-): Promise<string> {
-  ensureTempDir();
-  const tempPath = join(
-    TEMP_DIR,
-    `${Date.now()}-${Math.random().toString(16).slice(2)}${extension}`,
+async function serializeSql(sql: string) {
+  const rows = await enqueue((conn) =>
+    all<{ json: string }>(
+      conn,
+      "SELECT json_serialize_sql(?::VARCHAR) AS json",
+      [sql],
+    ),
   );
-  const buffer = await blob.arrayBuffer();
-  await Bun.write(tempPath, buffer);
-  return tempPath;
+  return JSON.parse(rows[0]?.json ?? "{}") as SerializedSql;
 }
 
-async function writeCSVToTempFileFromExcelBlob(blob: Blob): Promise<string> {
-  // Parse Excel and write a temp CSV that DuckDB can ingest
-  ensureTempDir();
-  const { columns, rows } = await parseExcelFile(
-    new File([await blob.arrayBuffer()], "upload.xlsx"),
+/**
+ * Vet user SQL with DuckDB's own parser before it runs: one read-only
+ * statement, no file or URL reads and only allow-listed table functions
+ * (`DUCKDB_SQL_ALLOWED_FUNCTIONS` adds to the list). Throws
+ * `ReadOnlySqlError` when the statement is refused.
+ */
+export async function parseReadOnlySql(
+  sql: string,
+): Promise<ReadOnlyStatement> {
+  const statement = trimStatement(sql);
+  if (!statement) throw new ReadOnlySqlError("SQL query is required");
+  const kind = statementKind(statement);
+  if (kind === "explain") {
+    await parseReadOnlySql(explainTarget(statement));
+    return { kind, sql: statement };
+  }
+  let serialized = await serializeSql(statement);
+  if (serialized.error && leadingKeyword(statement) === "PIVOT") {
+    const probe = pivotParseProbe(statement);
+    if (probe) serialized = await serializeSql(probe);
+  }
+  assertReadOnlyParse(serialized, SQL_ALLOWED_TABLE_FUNCTIONS);
+  return { kind, sql: statement };
+}
+
+// `CREATE TABLE … AS` accepts neither DESCRIBE-style statements nor EXPLAIN,
+// so those are wrapped or run first and copied in.
+async function createTableAs(
+  conn: Connection,
+  createPrefix: string,
+  statement: ReadOnlyStatement,
+  params: unknown[] = [],
+) {
+  if (statement.kind === "show") {
+    await run(conn, `${createPrefix} AS FROM (\n${statement.sql}\n)`, params);
+    return;
+  }
+  if (statement.kind === "explain") {
+    const plan = await all<{ explain_key: string; explain_value: string }>(
+      conn,
+      statement.sql,
+      params,
+    );
+    const values = plan.map(() => "(?, ?)").join(", ");
+    await run(
+      conn,
+      `${createPrefix} AS SELECT * FROM (VALUES ${values}) t(explain_key, explain_value)`,
+      plan.flatMap((row) => [row.explain_key, row.explain_value]),
+    );
+    return;
+  }
+  await run(conn, `${createPrefix} AS ${statement.sql}`, params);
+}
+
+/** Hidden tables that hold `/api/db/query` results; `listTables` skips them. */
+const QUERY_RESULT_PREFIX = "_query_";
+const QUERY_RESULT_TTL = 10 * 60 * 1000;
+const MAX_QUERY_RESULTS = 8;
+
+export interface DuckDBQueryResult {
+  id: string;
+  /** Table holding the rows, pageable like any other table. */
+  table: string;
+  columns: DuckDBColumnMeta[];
+  rowCount: number;
+  elapsedMs: number;
+}
+
+const queryResults = new Map<
+  string,
+  { result: DuckDBQueryResult; lastAccess: number }
+>();
+
+export function isQueryResultTable(tableName: string): boolean {
+  return tableName.startsWith(QUERY_RESULT_PREFIX);
+}
+
+// Drop results idle past the TTL, then the least recently used ones until
+// at most `keep` remain.
+async function pruneQueryResults(keep: number = MAX_QUERY_RESULTS) {
+  const now = Date.now();
+  const byAge = Array.from(queryResults.values()).sort(
+    (a, b) => a.lastAccess - b.lastAccess,
   );
-  const header = columns.map((c) => c.name.replace(/"/g, "")).join(",");
-  const csvLines = [
-    header,
-    ...rows.map((r) =>
-      r
-        .map((cell) => String(cell ?? ""))
-        .map((v) =>
-          v.includes(",") || v.includes("\n") || v.includes('"')
-            ? `"${v.replaceAll('"', '""')}"`
-            : v,
-        )
-        .join(","),
+  const stale = byAge
+    .filter(
+      (entry, i) =>
+        now - entry.lastAccess > QUERY_RESULT_TTL || byAge.length - i > keep,
+    )
+    .map((entry) => entry.result);
+  if (stale.length === 0) return;
+  for (const result of stale) queryResults.delete(result.id);
+  await dropTables(stale.map((result) => result.table));
+}
+
+/**
+ * Run a query into a hidden table so its rows can be paged with
+ * `getTableChunk` (or `/api/db/preview`) instead of returned in one piece.
+ * Results expire after 10 idle minutes; only the 8 most recent are kept.
+ * The SQL must pass `parseReadOnlySql`.
+ */
+export async function createQueryResult(
+  sql: string,
+  params: unknown[] = [],
+): Promise<DuckDBQueryResult> {
+  const statement = await parseReadOnlySql(sql);
+  await pruneQueryResults(MAX_QUERY_RESULTS - 1);
+  const id = crypto.randomUUID().replace(/-/g, "");
+  const table = `${QUERY_RESULT_PREFIX}${id}`;
+  const startedAt = performance.now();
+  await enqueue((conn) =>
+    createTableAs(
+      conn,
+      `CREATE TABLE ${escapeIdentifier(table)}`,
+      statement,
+      params,
     ),
-  ];
-  const tempPath = join(
-    TEMP_DIR,
-    `${Date.now()}-${Math.random().toString(16).slice(2)}.csv`,
   );
-  await Bun.write(tempPath, csvLines.join("\n"));
-  return tempPath;
+  const elapsedMs = performance.now() - startedAt;
+  const columns = await enqueue((conn) =>
+    all<{ column_name: string; column_type: string }>(
+      conn,
+      `DESCRIBE ${escapeIdentifier(table)}`,
+    ),
+  );
+  const rowCount = await getTableRowCount(table);
+  const result: DuckDBQueryResult = {
+    id,
+    table,
+    columns: columns.map((c) => ({ name: c.column_name, type: c.column_type })),
+    rowCount,
+    elapsedMs,
+  };
+  queryResults.set(id, { result, lastAccess: Date.now() });
+  return result;
 }
 
-export async function loadCsvFromSource(
-  source: DataSource,
+/** A live query result by id (or by its table name), marking it as used. */
+export function getQueryResult(idOrTable: string): DuckDBQueryResult | null {
+  const id = isQueryResultTable(idOrTable)
+    ? idOrTable.slice(QUERY_RESULT_PREFIX.length)
+    : idOrTable;
+  const entry = queryResults.get(id);
+  if (!entry) return null;
+  if (Date.now() - entry.lastAccess > QUERY_RESULT_TTL) {
+    void pruneQueryResults();
+    return null;
+  }
+  entry.lastAccess = Date.now();
+  return entry.result;
+}
+
+export async function dropQueryResult(id: string): Promise<boolean> {
+  const entry = queryResults.get(id);
+  if (!entry) return false;
+  queryResults.delete(id);
+  await dropTables([entry.result.table]);
+  return true;
+}
+
+export const duckdbConstants = {
+  DEFAULT_TABLE,
+};
+
+export async function updateTableCells(
+  updates: DuckDBCellUpdate[],
   tableName: string = DEFAULT_TABLE,
-): Promise<{ columns: DuckDBColumnMeta[]; rowCount: number }> {
-  let tempPath: string | null = null;
-  try {
-    if ("path" in source) {
-      const isExcel = source.name
-        ? isExcelFile(source.name)
-        : isExcelFile(source.path);
-      if (isExcel) {
-        // Read path into blob then convert
-        const file = Bun.file(source.path);
-        const buf = await file.arrayBuffer();
-        const csvPath = await writeCSVToTempFileFromExcelBlob(new Blob([buf]));
-        tempPath = csvPath;
-        await loadCsvIntoTable(csvPath, tableName);
-      } else {
-        await loadCsvIntoTable(source.path, tableName);
+): Promise<number> {
+  if (updates.length === 0) return 0;
+  const tableIdent = escapeIdentifier(tableName);
+  return enqueue(async (conn) => {
+    const { positioned } = await readTableColumns(conn, tableName);
+    const rowId = positioned ? escapeIdentifier(ROW_ID_COLUMN) : "rowid";
+    await run(conn, "BEGIN TRANSACTION");
+    try {
+      for (const update of updates) {
+        const columnIdent = escapeIdentifier(update.column);
+        await run(
+          conn,
+          `UPDATE ${tableIdent} SET ${columnIdent} = ? WHERE ${rowId} = ?`,
+          [update.value, update.rowId],
+        );
+      }
+      await run(conn, "COMMIT");
+      return updates.length;
+    } catch (error) {
+      await run(conn, "ROLLBACK");
+      throw error;
+    }
+  });
+}
+
+/** Workspace tables holding rows a delete removed, by copy key. */
+const ROW_COPY_PREFIX = "row_copy_";
+const rowCopies = new Map<string, { table: string }>();
+
+const rowCopyTable = (copy: string) =>
+  `${CATALOG_SCHEMA}.${escapeIdentifier(`${ROW_COPY_PREFIX}${copy}`)}`;
+
+/** Where new rows go: next to `anchor`'s row, or at the end without one. */
+interface RowSlot {
+  anchor: RowAnchor | null;
+  count: number;
+}
+
+// `count` increasing positions strictly between `low` and `high` (open when
+// null), or null once doubles cannot tell them apart.
+function spreadPositions(
+  low: number | null,
+  high: number | null,
+  count: number,
+): number[] | null {
+  if (high === null) {
+    const last = low ?? -1;
+    return Array.from({ length: count }, (_, index) => last + index + 1);
+  }
+  const start = low ?? high - 1;
+  const step = (high - start) / (count + 1);
+  const positions = Array.from(
+    { length: count },
+    (_, index) => start + step * (index + 1),
+  );
+  const bounds = [start, ...positions, high];
+  return bounds.every(
+    (value, index) => index === 0 || bounds[index - 1]! < value,
+  )
+    ? positions
+    : null;
+}
+
+// Positions for each slot's rows, spread between its neighbours'. When a
+// gap has been halved past what a double holds, positions are renumbered
+// 1..n in order (ids stay, and copies anchor on ids) and placing is redone.
+async function placeRows(
+  conn: Connection,
+  tableName: string,
+  slots: RowSlot[],
+  renumbered = false,
+): Promise<number[][]> {
+  const tableIdent = escapeIdentifier(tableName);
+  const rowId = escapeIdentifier(ROW_ID_COLUMN);
+  const rowPos = escapeIdentifier(ROW_POS_COLUMN);
+  const anchors = slots.flatMap(({ anchor }) => (anchor ? [anchor.rowId] : []));
+  const around = new Map<
+    number,
+    { pos: number; prev: number | null; next: number | null }
+  >();
+  if (anchors.length > 0) {
+    const rows = await all<{
+      id: unknown;
+      pos: number;
+      prev: number | null;
+      next: number | null;
+    }>(
+      conn,
+      `SELECT id, pos, prev, next FROM (
+         SELECT ${rowId} AS id, ${rowPos} AS pos,
+           lag(${rowPos}) OVER (ORDER BY ${rowPos}) AS prev,
+           lead(${rowPos}) OVER (ORDER BY ${rowPos}) AS next
+         FROM ${tableIdent}
+       ) WHERE id IN (${anchors.join(", ")})`,
+    );
+    for (const { id, ...row } of rows) around.set(Number(id), row);
+  }
+  const [{ last = null } = {}] = await all<{ last: number | null }>(
+    conn,
+    `SELECT max(${rowPos}) AS last FROM ${tableIdent}`,
+  );
+  const placed = slots.map(({ anchor, count }) => {
+    if (!anchor) return spreadPositions(last, null, count);
+    const row = around.get(anchor.rowId);
+    if (!row) throw new RowOperationError(`Row ${anchor.rowId} does not exist`);
+    return anchor.side === "above"
+      ? spreadPositions(row.prev, row.pos, count)
+      : spreadPositions(row.pos, row.next, count);
+  });
+  if (placed.every((positions) => positions !== null)) return placed;
+  if (renumbered) throw new RowOperationError("Could not place the new rows");
+  await run(
+    conn,
+    `UPDATE ${tableIdent} SET ${rowPos} = ordered.pos FROM (
+       SELECT ${rowId} AS id, row_number() OVER (ORDER BY ${rowPos}) AS pos FROM ${tableIdent}
+     ) AS ordered WHERE ${tableIdent}.${rowId} = ordered.id`,
+  );
+  return placeRows(conn, tableName, slots, true);
+}
+
+/**
+ * Insert, duplicate, delete or restore rows (see `RowOperation`) in one
+ * transaction. A table's first row change gives it a `__row_id` column,
+ * seeded from `rowid` so ids the grid already holds stay valid, and a
+ * `__row_pos` column that orders its rows from then on; both are hidden
+ * from the grid. After that every change is a plain `INSERT` or `DELETE`:
+ * new rows take ids past the largest one and positions between their
+ * neighbours', and no other row's id changes. A delete first copies its
+ * rows, native values and ids included, into a workspace table that
+ * `restore` inserts back (the last `MAX_ROW_COPIES` are kept); each copied
+ * row notes the next row that stayed, so it goes back right above it.
+ * Inserted cells are cast to their column types (blank is NULL) and a cell
+ * that does not convert fails the whole operation with `RowOperationError`.
+ */
+export async function mutateTableRows(
+  tableName: string,
+  operation: RowOperation,
+): Promise<RowOperationResult> {
+  const tableIdent = escapeIdentifier(tableName);
+  const rowId = escapeIdentifier(ROW_ID_COLUMN);
+  const rowPos = escapeIdentifier(ROW_POS_COLUMN);
+  return enqueue(async (conn) => {
+    const { columns, positioned } = await readTableColumns(conn, tableName);
+    const columnList = columns.map((c) => escapeIdentifier(c.name)).join(", ");
+    // The given ids that exist, in table order.
+    const existing = async (rowIds: number[]) =>
+      (
+        await all<{ id: unknown }>(
+          conn,
+          `SELECT ${rowId} AS id FROM ${tableIdent} WHERE ${rowId} IN (${rowIds.join(", ")}) ORDER BY ${rowPos}`,
+        )
+      ).map((row) => Number(row.id));
+    const newIds = async (count: number) => {
+      const [{ last = null } = {}] = await all<{ last: unknown }>(
+        conn,
+        `SELECT max(${rowId}) AS last FROM ${tableIdent}`,
+      );
+      const first = last === null ? 0 : Number(last) + 1;
+      return Array.from({ length: count }, (_, index) => first + index);
+    };
+    // Stage `rows` in a temp table (scalars only) for an INSERT … SELECT.
+    const stage = async (definition: string, rows: unknown[][]) => {
+      await run(
+        conn,
+        `CREATE OR REPLACE TEMP TABLE _row_staging (${definition})`,
+      );
+      const placeholders = `(${rows[0]!.map(() => "?").join(", ")})`;
+      await run(
+        conn,
+        `INSERT INTO _row_staging VALUES ${rows.map(() => placeholders).join(", ")}`,
+        rows.flat(),
+      );
+    };
+    let result: RowOperationResult = { rowIds: [] };
+
+    await run(conn, "BEGIN TRANSACTION");
+    try {
+      if (!positioned) {
+        await run(conn, `ALTER TABLE ${tableIdent} ADD COLUMN ${rowId} BIGINT`);
+        await run(
+          conn,
+          `ALTER TABLE ${tableIdent} ADD COLUMN ${rowPos} DOUBLE`,
+        );
+        await run(
+          conn,
+          `UPDATE ${tableIdent} SET ${rowId} = rowid, ${rowPos} = rowid`,
+        );
       }
-    } else if ("blob" in source) {
-      const extension = source.name
-        ? isExcelFile(source.name)
-          ? ".xlsx"
-          : isCSVFile(source.name)
-            ? ".csv"
-            : ".csv"
-        : ".csv";
-      if (extension === ".xlsx") {
-        const csvPath = await writeCSVToTempFileFromExcelBlob(source.blob);
-        tempPath = csvPath;
-        await loadCsvIntoTable(csvPath, tableName);
-      } else {
-        tempPath = await writeBlobToTempFile(source.blob, extension);
-        await loadCsvIntoTable(tempPath, tableName);
+      switch (operation.op) {
+        case "insert": {
+          const width = columns.length;
+          if (operation.rows.some((values) => values.length > width)) {
+            throw new RowOperationError(
+              `Rows can have at most ${width} values`,
+            );
+          }
+          const [positions] = await placeRows(conn, tableName, [
+            { anchor: operation.anchor ?? null, count: operation.rows.length },
+          ]);
+          const rowIds = await newIds(operation.rows.length);
+          // Cells are staged as text and cast on the way in.
+          await stage(
+            [
+              "_id BIGINT",
+              "_pos DOUBLE",
+              ...columns.map((_, index) => `v${index} VARCHAR`),
+            ].join(", "),
+            operation.rows.map((values, index) => [
+              rowIds[index],
+              positions![index],
+              ...columns.map((_, column) => {
+                const value = values[column] ?? "";
+                return value === "" ? null : value;
+              }),
+            ]),
+          );
+          const castList = columns
+            .map(({ type }, index) => `CAST(v${index} AS ${type})`)
+            .join(", ");
+          await run(
+            conn,
+            `INSERT INTO ${tableIdent} (${columnList}, ${rowId}, ${rowPos})
+             SELECT ${castList}, _id, _pos FROM _row_staging`,
+          );
+          result = { rowIds };
+          break;
+        }
+        case "duplicate": {
+          const sources = await existing(operation.rowIds);
+          if (sources.length === 0) break;
+          const positions = await placeRows(
+            conn,
+            tableName,
+            sources.map((source) => ({
+              anchor: { rowId: source, side: "below" },
+              count: 1,
+            })),
+          );
+          const rowIds = await newIds(sources.length);
+          await stage(
+            "_source BIGINT, _id BIGINT, _pos DOUBLE",
+            sources.map((source, index) => [
+              source,
+              rowIds[index],
+              positions[index]![0],
+            ]),
+          );
+          const sourceList = columns
+            .map((c) => `source.${escapeIdentifier(c.name)}`)
+            .join(", ");
+          await run(
+            conn,
+            `INSERT INTO ${tableIdent} (${columnList}, ${rowId}, ${rowPos})
+             SELECT ${sourceList}, staged._id, staged._pos
+             FROM ${tableIdent} AS source JOIN _row_staging AS staged ON source.${rowId} = staged._source`,
+          );
+          result = { rowIds };
+          break;
+        }
+        case "delete": {
+          const rowIds = await existing(operation.rowIds);
+          if (rowIds.length === 0) break;
+          const ids = rowIds.join(", ");
+          const copy = newRowCopyKey();
+          await run(
+            conn,
+            `CREATE TABLE ${rowCopyTable(copy)} AS SELECT * EXCLUDE ("__row_kept") FROM (
+               SELECT *, first_value(CASE WHEN "__row_kept" THEN ${rowId} END IGNORE NULLS)
+                 OVER (ORDER BY ${rowPos} ROWS BETWEEN 1 FOLLOWING AND UNBOUNDED FOLLOWING) AS "__row_next"
+               FROM (SELECT *, ${rowId} NOT IN (${ids}) AS "__row_kept" FROM ${tableIdent})
+             ) WHERE NOT "__row_kept"`,
+          );
+          await run(
+            conn,
+            `DELETE FROM ${tableIdent} WHERE ${rowId} IN (${ids})`,
+          );
+          result = { rowIds, copy };
+          break;
+        }
+        case "restore": {
+          if (rowCopies.get(operation.copy)?.table !== tableName) {
+            throw new RowOperationError("The deleted rows are no longer kept");
+          }
+          const copyTable = rowCopyTable(operation.copy);
+          const runs = (
+            await all<{ next: unknown; ids: unknown[] }>(
+              conn,
+              `SELECT "__row_next" AS next, list(${rowId} ORDER BY ${rowPos}) AS ids FROM ${copyTable} GROUP BY ALL`,
+            )
+          ).map(({ next, ids }) => ({
+            next: next === null ? null : Number(next),
+            ids: ids.map(Number),
+          }));
+          const positions = await placeRows(
+            conn,
+            tableName,
+            runs.map(({ next, ids }) => ({
+              anchor: next === null ? null : { rowId: next, side: "above" },
+              count: ids.length,
+            })),
+          );
+          await stage(
+            "_id BIGINT, _pos DOUBLE",
+            runs.flatMap(({ ids }, index) =>
+              ids.map((id, within) => [id, positions[index]![within]]),
+            ),
+          );
+          await run(
+            conn,
+            `INSERT INTO ${tableIdent} BY NAME
+             SELECT copied.* EXCLUDE (${rowPos}, "__row_next"), staged._pos AS ${rowPos}
+             FROM ${copyTable} AS copied JOIN _row_staging AS staged ON copied.${rowId} = staged._id`,
+          );
+          const restored = await all<{ id: unknown }>(
+            conn,
+            "SELECT _id AS id FROM _row_staging ORDER BY _pos",
+          );
+          await run(conn, `DROP TABLE ${copyTable}`);
+          result = { rowIds: restored.map((row) => Number(row.id)) };
+          break;
+        }
       }
-    } else if ("url" in source) {
-      if (!isHttpUrl(source.url)) {
-        throw new Error("Only http(s) URLs are supported");
+      await run(conn, "DROP TABLE IF EXISTS _row_staging");
+      await run(conn, "COMMIT");
+    } catch (error) {
+      await run(conn, "ROLLBACK");
+      if (error instanceof RowOperationError) throw error;
+      throw new RowOperationError(
+        error instanceof Error ? error.message : String(error),
+      );
+    } finally {
+      forgetTableMetadata(tableName);
+    }
+
+    if (operation.op === "restore") rowCopies.delete(operation.copy);
+    if (result.copy) {
+      rowCopies.set(result.copy, { table: tableName });
+      for (const copy of rowCopies.keys()) {
+        if (rowCopies.size <= MAX_ROW_COPIES) break;
+        rowCopies.delete(copy);
+        await run(conn, `DROP TABLE IF EXISTS ${rowCopyTable(copy)}`);
       }
-      const response = await fetch(source.url);
-      if (!response.ok) {
-        throw new Error(`Failed to fetch CSV (${response.status})`);
+    }
+    return result;
+  });
+}
+
+/** How many non-null values of `column` would not survive a cast to `type`. */
+export async function previewColumnCast(
+  tableName: string,
+  column: string,
+  type: string,
+): Promise<CastPreview> {
+  const names = (await getTableColumns(tableName)).map((c) => c.name);
+  const index = findColumnIndex(names, column);
+  if (index < 0) {
+    throw new SchemaOperationError(`Column ${column} does not exist`);
+  }
+  const tableIdent = escapeIdentifier(tableName);
+  const columnIdent = escapeIdentifier(names[index]!);
+  const failing = `${columnIdent} IS NOT NULL AND TRY_CAST(${columnIdent} AS ${type}) IS NULL`;
+  return enqueue(async (conn) => {
+    const counts = await all<{ checked: number; failed: number }>(
+      conn,
+      `SELECT count(${columnIdent}) AS checked, count(*) FILTER (WHERE ${failing}) AS failed FROM ${tableIdent}`,
+    );
+    const samples = await all<{ value: string }>(
+      conn,
+      `SELECT DISTINCT CAST(${columnIdent} AS VARCHAR) AS value FROM ${tableIdent} WHERE ${failing} LIMIT ${CAST_PREVIEW_SAMPLES}`,
+    );
+    return {
+      checked: Number(counts[0]?.checked ?? 0),
+      failed: Number(counts[0]?.failed ?? 0),
+      samples: samples.map((row) => row.value),
+    };
+  });
+}
+
+/**
+ * Add, drop, rename, move or retype a column (see `SchemaOperation`) in one
+ * transaction and return the new columns. New columns may be filled from an
+ * expression, vetted like a read-only query; DuckDB has no column reorder,
+ * so moves rebuild the table in row order, keeping the row id and position
+ * columns (whose names cannot be taken). Computed columns are rows of
+ * the workspace's `computed_columns` table rather than table columns.
+ * Statement errors (bad expressions, failed conversions) come back as
+ * `SchemaOperationError`.
+ */
+export async function alterTableSchema(
+  tableName: string,
+  requested: SchemaOperation,
+): Promise<DuckDBColumnMeta[]> {
+  const columns = await getViewColumns(tableName);
+  const operation = resolveSchemaOperation(columns, requested);
+  const names = columns.map((c) => c.name);
+  const baseCount = columns.filter((c) => !c.formula).length;
+  const order = planColumnOrder(names, operation);
+  const tableIdent = escapeIdentifier(tableName);
+  const statements: string[] = [];
+  const exactName = (name: string) => names[findColumnIndex(names, name)]!;
+  const column = (name: string) => escapeIdentifier(exactName(name));
+  const computedKey = (name: string) =>
+    `table_name = '${escapeLiteral(tableName)}' AND name = '${escapeLiteral(exactName(name))}'`;
+  const newName = "name" in operation ? operation.name : undefined;
+  if (newName !== undefined && isRowKeyColumn(newName)) {
+    throw new SchemaOperationError(`${newName} is a reserved column name`);
+  }
+
+  switch (operation.op) {
+    case "add": {
+      const target = escapeIdentifier(operation.name);
+      let type = operation.type;
+      let expression: string | undefined;
+      if (operation.expression) {
+        expression = assertStandaloneExpression(operation.expression);
+        const probe = `SELECT (${expression}) AS value FROM ${tableIdent}`;
+        await parseReadOnlySql(probe);
+        if (!type) {
+          const described = await enqueue((conn) =>
+            all<{ column_type: string }>(conn, `DESCRIBE ${probe}`),
+          ).catch((error: unknown) => {
+            throw new SchemaOperationError(
+              error instanceof Error ? error.message : String(error),
+            );
+          });
+          type = described[0]?.column_type;
+        }
       }
-      const blob = await response.blob();
-      const isExcel = source.name
-        ? isExcelFile(source.name)
-        : /\.xlsx?$/.test(new URL(source.url).pathname.toLowerCase());
-      if (isExcel) {
-        const csvPath = await writeCSVToTempFileFromExcelBlob(blob);
-        tempPath = csvPath;
-        await loadCsvIntoTable(csvPath, tableName);
-      } else {
-        tempPath = await writeBlobToTempFile(blob);
-        await loadCsvIntoTable(tempPath, tableName);
+      statements.push(
+        `ALTER TABLE ${tableIdent} ADD COLUMN ${target} ${type ?? "VARCHAR"}`,
+      );
+      if (expression) {
+        statements.push(`UPDATE ${tableIdent} SET ${target} = (${expression})`);
       }
-    } else {
-      throw new Error("Unsupported CSV source");
+      break;
+    }
+    case "drop":
+      statements.push(
+        columns[findColumnIndex(names, operation.column)]?.formula
+          ? `DELETE FROM ${COMPUTED_TABLE} WHERE ${computedKey(operation.column)}`
+          : `ALTER TABLE ${tableIdent} DROP COLUMN ${column(operation.column)}`,
+      );
+      break;
+    case "rename":
+      statements.push(
+        `ALTER TABLE ${tableIdent} RENAME COLUMN ${column(operation.column)} TO ${escapeIdentifier(operation.name)}`,
+      );
+      break;
+    case "retype": {
+      const source = column(operation.column);
+      const using = operation.nullOnFailure
+        ? ` USING TRY_CAST(${source} AS ${operation.type})`
+        : "";
+      statements.push(
+        `ALTER TABLE ${tableIdent} ALTER COLUMN ${source} TYPE ${operation.type}${using}`,
+      );
+      break;
+    }
+    case "move":
+      break;
+    case "compute": {
+      const sql = formulaToSQL(
+        operation.formula,
+        columns.filter((c) => !c.formula),
+      );
+      await enqueue((conn) =>
+        all(conn, `DESCRIBE SELECT (${sql}) AS value FROM ${tableIdent}`),
+      ).catch((error: unknown) => {
+        throw new SchemaOperationError(
+          error instanceof Error ? error.message : String(error),
+        );
+      });
+      const name = `'${escapeLiteral(operation.name)}'`;
+      const formula = `'${escapeLiteral(operation.formula)}'`;
+      statements.push(
+        operation.column !== undefined
+          ? `UPDATE ${COMPUTED_TABLE} SET name = ${name}, formula = ${formula} WHERE ${computedKey(operation.column)}`
+          : `INSERT INTO ${COMPUTED_TABLE} SELECT '${escapeLiteral(tableName)}', ${name}, ${formula}, coalesce(max(position) + 1, 0) FROM ${COMPUTED_TABLE} WHERE table_name = '${escapeLiteral(tableName)}'`,
+      );
+      break;
+    }
+  }
+  // Inserting before the end or moving needs the rebuild described above;
+  // computed columns are not part of the table.
+  const addedName = operation.op === "add" ? operation.name : "";
+  const tableOrder = order.filter(
+    (index) => index === null || index < baseCount,
+  );
+  const reordered = tableOrder.some(
+    (index, position) => index !== null && index !== position,
+  );
+  if ((operation.op === "add" || operation.op === "move") && reordered) {
+    const { positioned } = await enqueue((conn) =>
+      readTableColumns(conn, tableName),
+    );
+    const selectList = [
+      ...tableOrder.map((index) =>
+        index === null ? addedName : names[index]!,
+      ),
+      ...(positioned ? [ROW_ID_COLUMN, ROW_POS_COLUMN] : []),
+    ]
+      .map(escapeIdentifier)
+      .join(", ");
+    const rowOrder = positioned ? escapeIdentifier(ROW_POS_COLUMN) : "rowid";
+    statements.push(
+      `CREATE OR REPLACE TABLE ${tableIdent} AS SELECT ${selectList} FROM ${tableIdent} ORDER BY ${rowOrder}`,
+    );
+  }
+
+  await enqueue(async (conn) => {
+    await run(conn, "BEGIN TRANSACTION");
+    try {
+      for (const statement of statements) await run(conn, statement);
+      await run(conn, "COMMIT");
+    } catch (error) {
+      await run(conn, "ROLLBACK");
+      throw new SchemaOperationError(
+        error instanceof Error ? error.message : String(error),
+      );
+    } finally {
+      forgetTableMetadata(tableName);
     }
+  });
+  return getViewColumns(tableName);
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const parsed = new URL(value);
+    return parsed.protocol === "http:" || parsed.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+function tempFilePath(extension: string): string {
+  ensureTempDir();
+  return join(
+    TEMP_DIR,
+    `${Date.now()}-${Math.random().toString(16).slice(2)}${extension}`,
+  );
+}
+
+async function writeBlobToTempFile(
+  blob: Blob,
+  extension = ".csv",
+): Promise<string> {
+  const tempPath = tempFilePath(extension);
+  await writeStreamToFile(blob.stream(), tempPath);
+  return tempPath;
+}
 
-    const columns = await getTableColumns(tableName);
-    const rowCount = await getTableRowCount(tableName);
-    return { columns, rowCount };
+async function fetchSourceBody(
+  source: { url: string; name?: string },
+  init?: RequestInit,
+): Promise<{ body: ReadableStream<Uint8Array>; length?: number }> {
+  if (!isHttpUrl(source.url)) {
+    throw new Error("Only http(s) URLs are supported");
+  }
+  const response = await fetch(source.url, init);
+  if (!response.ok || !response.body) {
+    throw new Error(
+      `Failed to fetch ${sourceFileName(source) || source.url} (${response.status})`,
+    );
+  }
+  const length = Number(response.headers.get("content-length")) || undefined;
+  if (response.status === 200 && length && length > MAX_UPLOAD_BYTES) {
+    await response.body.cancel().catch(() => undefined);
+    throw new UploadTooLargeError(MAX_UPLOAD_BYTES);
+  }
+  return { body: response.body, length };
+}
+
+/**
+ * Put a source on disk for DuckDB: local paths are used in place, while
+ * uploads and remote files are streamed into the temp dir (see
+ * `writeStreamToFile`). `temporary` tells the caller to unlink the file.
+ */
+async function stageSource(
+  source: DataSource,
+  extension: string,
+  { onBytes, signal }: Pick<SourceLoadOptions, "onBytes" | "signal"> = {},
+): Promise<{ path: string; temporary: boolean }> {
+  if ("path" in source) {
+    return { path: resolveCsvPath(source.path), temporary: false };
+  }
+  const { body, length } =
+    "blob" in source
+      ? { body: source.blob.stream(), length: source.blob.size }
+      : "stream" in source
+        ? { body: source.stream, length: source.size }
+        : await fetchSourceBody(source, { signal });
+  const path = tempFilePath(extension);
+  const bytes = await writeStreamToFile(body, path, {
+    onBytes: (received) => onBytes?.(received, length),
+    signal,
+  });
+  // Now the size is known even without a Content-Length.
+  onBytes?.(bytes, bytes);
+  return { path, temporary: true };
+}
+
+/**
+ * Write an uploaded body to the temp dir ahead of its load job, so the
+ * upload does not wait behind other loads. The caller loads the returned
+ * path as a `path` source and unlinks it.
+ */
+export async function stageUpload(
+  stream: ReadableStream<Uint8Array>,
+  name: string,
+  {
+    size,
+    ...options
+  }: Pick<SourceLoadOptions, "onBytes" | "signal"> & { size?: number } = {},
+): Promise<string> {
+  const staged = await stageSource(
+    { stream, name, size },
+    extname(name),
+    options,
+  );
+  return staged.path;
+}
+
+// Sheets go through NDJSON with declared column types so numbers, booleans
+// and dates keep their types instead of being sniffed from text.
+async function loadExcelSheet(
+  sheet: TypedExcelSheet,
+  tableName: string,
+): Promise<void> {
+  if (sheet.columns.length === 0) {
+    throw new Error(`Sheet "${sheet.name}" is empty`);
+  }
+  const lines = sheet.rows.map((row) =>
+    JSON.stringify(
+      Object.fromEntries(sheet.columns.map((c, i) => [c.name, row[i] ?? null])),
+    ),
+  );
+  const tempPath = await writeBlobToTempFile(
+    new Blob([lines.join("\n")]),
+    ".ndjson",
+  );
+  try {
+    await loadFileIntoTable(tempPath, tableName, "ndjson", {
+      columns: sheet.columns,
+    });
+  } finally {
+    await unlink(tempPath).catch(() => undefined);
+  }
+}
+
+// Workbooks are parsed in memory by SheetJS, but still arrive through the
+// temp dir so the upload limit applies.
+async function readSourceBuffer(
+  source: DataSource,
+  options?: Pick<SourceLoadOptions, "onBytes" | "signal">,
+): Promise<ArrayBuffer> {
+  const staged = await stageSource(source, ".xlsx", options);
+  try {
+    return await Bun.file(staged.path).arrayBuffer();
   } finally {
-    if (tempPath) {
-      await unlink(tempPath).catch(() => undefined);
+    if (staged.temporary) await unlink(staged.path).catch(() => undefined);
+  }
+}
+
+export async function listWorkbookSheets(
+  source: DataSource,
+): Promise<ExcelSheetInfo[]> {
+  return listExcelSheets(await readSourceBuffer(source));
+}
+
+const SNIFF_SAMPLE_BYTES = 64 * 1024;
+
+async function readStreamPrefix(
+  stream: ReadableStream<Uint8Array>,
+  limit: number,
+): Promise<Uint8Array> {
+  const reader = stream.getReader();
+  const sample = new Uint8Array(limit);
+  let size = 0;
+  while (size < limit) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    const take = value.subarray(0, limit - size);
+    sample.set(take, size);
+    size += take.byteLength;
+  }
+  await reader.cancel().catch(() => undefined);
+  return sample.subarray(0, size);
+}
+
+/**
+ * Read the first bytes of a source and detect its CSV dialect. URLs are
+ * fetched with a `Range` header and cancelled once the sample is in.
+ */
+export async function sniffSource(
+  source: DataSource,
+): Promise<{ options: CsvImportOptions; sample: Uint8Array }> {
+  let sample: Uint8Array;
+  if ("url" in source) {
+    const { body } = await fetchSourceBody(source, {
+      headers: { Range: `bytes=0-${SNIFF_SAMPLE_BYTES - 1}` },
+    });
+    sample = await readStreamPrefix(body, SNIFF_SAMPLE_BYTES);
+  } else if ("stream" in source) {
+    sample = await readStreamPrefix(source.stream, SNIFF_SAMPLE_BYTES);
+  } else {
+    const blob =
+      "blob" in source ? source.blob : Bun.file(resolveCsvPath(source.path));
+    sample = new Uint8Array(
+      await blob.slice(0, SNIFF_SAMPLE_BYTES).arrayBuffer(),
+    );
+  }
+  return { options: sniffCsvDialect(sample), sample };
+}
+
+export interface WorkbookLoadResult {
+  table: string;
+  sheet: string;
+  columns: DuckDBColumnMeta[];
+  rowCount: number;
+  /** Every sheet in the workbook, loaded or not. */
+  workbookSheets: string[];
+}
+
+/**
+ * Load worksheets of an Excel source, each into its own table. Without
+ * `sheets` only the first sheet loads, into `tableFor`'s first name.
+ */
+export async function loadWorkbookSheets(
+  source: DataSource,
+  sheets: string[] | "*" | undefined,
+  tableFor: (sheet: string, index: number) => string,
+  options: MultiLoadOptions = {},
+): Promise<WorkbookLoadResult[]> {
+  const { signal } = options;
+  const buffer = await readSourceBuffer(source, options);
+  options.onParse?.();
+  const workbook = await readExcelWorkbook(buffer, sheets);
+  const results: WorkbookLoadResult[] = [];
+  for (const [index, sheet] of workbook.sheets.entries()) {
+    signal?.throwIfAborted();
+    const table = tableFor(sheet.name, index);
+    await loadViaStaging(table, signal, (staging) =>
+      loadExcelSheet(sheet, staging),
+    );
+    await recordTableSource(table, {
+      source: describeSource(source),
+      sourceKind: "url" in source ? "url" : "file",
+      importOptions: { format: "excel", sheet: sheet.name },
+    });
+    const result = {
+      table,
+      sheet: sheet.name,
+      columns: await getTableColumns(table),
+      rowCount: await getTableRowCount(table),
+      workbookSheets: workbook.sheetNames,
+    };
+    options.onResult?.(result);
+    results.push(result);
+  }
+  return results;
+}
+
+/** Hidden tables loads write into before replacing their target. */
+const LOAD_STAGING_PREFIX = "_load_";
+
+function isLoadStagingTable(tableName: string): boolean {
+  return tableName.startsWith(LOAD_STAGING_PREFIX);
+}
+
+// Loads write into a staging table that replaces `tableName` only if the job
+// was not cancelled meanwhile, so cancelling a reload keeps the old table.
+// The Node binding cannot interrupt a running statement, so a load cancelled
+// mid-statement still runs to the end before its staging table is dropped.
+async function loadViaStaging(
+  tableName: string,
+  signal: AbortSignal | undefined,
+  load: (staging: string) => Promise<void>,
+): Promise<void> {
+  const staging = `${LOAD_STAGING_PREFIX}${crypto.randomUUID().replace(/-/g, "")}`;
+  try {
+    await load(staging);
+    await enqueue(async (conn) => {
+      signal?.throwIfAborted();
+      await run(conn, "BEGIN TRANSACTION");
+      try {
+        await run(conn, `DROP TABLE IF EXISTS ${escapeIdentifier(tableName)}`);
+        await run(
+          conn,
+          `ALTER TABLE ${escapeIdentifier(staging)} RENAME TO ${escapeIdentifier(tableName)}`,
+        );
+        await run(conn, "COMMIT");
+      } catch (error) {
+        await run(conn, "ROLLBACK");
+        throw error;
+      }
+      forgetTableMetadata(tableName);
+    });
+  } catch (error) {
+    await enqueue((conn) =>
+      run(conn, `DROP TABLE IF EXISTS ${escapeIdentifier(staging)}`),
+    ).catch(() => undefined);
+    throw error;
+  }
+}
+
+function sourceFileName(source: DataSource): string {
+  if (source.name) return source.name;
+  if ("path" in source) return source.path;
+  if ("url" in source) {
+    try {
+      return new URL(source.url).pathname;
+    } catch {
+      return "";
+    }
+  }
+  return "";
+}
+
+export interface SourceLoadOptions {
+  /** Dialect for CSV sources; detected by DuckDB when omitted. */
+  csvOptions?: CsvImportOptions;
+  /** Bytes of the source written to the temp dir so far. */
+  onBytes?: ByteProgress;
+  /** The source is on disk and DuckDB starts reading it. */
+  onParse?: () => void;
+  /**
+   * Stops fetching/staging, and discards a table that loaded after the abort
+   * so an existing table of the same name is left as it was.
+   */
+  signal?: AbortSignal;
+}
+
+export interface MultiLoadOptions
+  extends Omit<SourceLoadOptions, "csvOptions"> {
+  /** Called as each table finishes loading. */
+  onResult?: (result: {
+    table: string;
+    columns: DuckDBColumnMeta[];
+    rowCount: number;
+  }) => void;
+}
+
+/**
+ * Load a CSV, Excel, Parquet, JSON/NDJSON or Arrow source into a table. The
+ * format comes from the file name (or URL path) and defaults to CSV; Excel
+ * loads its first sheet (see `loadWorkbookSheets` for the others).
+ */
+export async function loadCsvFromSource(
+  source: DataSource,
+  tableName: string = DEFAULT_TABLE,
+  options: SourceLoadOptions = {},
+): Promise<{ columns: DuckDBColumnMeta[]; rowCount: number }> {
+  const { csvOptions, onParse, signal } = options;
+  const fileName = sourceFileName(source);
+  let importOptions: Record<string, unknown>;
+  if (isExcelFile(fileName)) {
+    const buffer = await readSourceBuffer(source, options);
+    onParse?.();
+    const { sheets } = await readExcelWorkbook(buffer);
+    signal?.throwIfAborted();
+    await loadViaStaging(tableName, signal, (staging) =>
+      loadExcelSheet(sheets[0]!, staging),
+    );
+    importOptions = { format: "excel", sheet: sheets[0]!.name };
+  } else {
+    const format = getNativeDataFormat(fileName) ?? "csv";
+    const staged = await stageSource(source, `.${format}`, options);
+    try {
+      signal?.throwIfAborted();
+      onParse?.();
+      await loadViaStaging(tableName, signal, (staging) =>
+        loadFileIntoTable(staged.path, staging, format, { csvOptions }),
+      );
+    } finally {
+      if (staged.temporary) await unlink(staged.path).catch(() => undefined);
     }
+    importOptions = csvOptions ? { format, csvOptions } : { format };
   }
+  await recordTableSource(tableName, {
+    source: describeSource(source),
+    sourceKind: "url" in source ? "url" : "file",
+    importOptions,
+  });
+
+  const columns = await getTableColumns(tableName);
+  const rowCount = await getTableRowCount(tableName);
+  return { columns, rowCount };
+}
+
+/**
+ * Materialise a read-only query (see `parseReadOnlySql`) as a new table.
+ * Fails when `tableName` exists unless `replace` is set.
+ */
+export async function createTableFromQuery(
+  tableName: string,
+  sql: string,
+  { replace = false }: { replace?: boolean } = {},
+): Promise<{ name: string; columns: DuckDBColumnMeta[]; rowCount: number }> {
+  const statement = await parseReadOnlySql(sql);
+  await enqueue(async (conn) => {
+    await createTableAs(
+      conn,
+      `CREATE ${replace ? "OR REPLACE " : ""}TABLE ${escapeIdentifier(tableName)}`,
+      statement,
+    );
+    // Row ids and positions selected from an edited table would override
+    // the query's order; the new table starts out unedited.
+    if ((await readTableColumns(conn, tableName)).positioned) {
+      for (const name of [ROW_ID_COLUMN, ROW_POS_COLUMN]) {
+        await run(
+          conn,
+          `ALTER TABLE ${escapeIdentifier(tableName)} DROP COLUMN ${escapeIdentifier(name)}`,
+        );
+      }
+    }
+    forgetTableMetadata(tableName);
+  });
+  await recordTableSource(tableName, {
+    source: statement.sql,
+    sourceKind: "query",
+  });
+  return getTableInfo(tableName);
+}
+
+/** Workspace metadata lives outside `main`, so `SHOW TABLES` skips it. */
+const CATALOG_SCHEMA = "workspace";
+const CATALOG_TABLE = `${CATALOG_SCHEMA}.catalog`;
+/** Formulas of computed columns, in column order per table. */
+const COMPUTED_TABLE = `${CATALOG_SCHEMA}.computed_columns`;
+
+export type TableSourceKind = "file" | "url" | "query" | "sample";
+
+/** Where a table came from, as recorded in the workspace catalog. */
+export interface DuckDBTableCatalogEntry {
+  /** File name, URL or SQL the table was created from. */
+  source: string | null;
+  sourceKind: TableSourceKind | null;
+  /** ISO timestamp of the last (re)load. */
+  loadedAt: string | null;
+  /** Format and dialect or sheet used by the import. */
+  importOptions: Record<string, unknown> | null;
+  /** Row count when the table was loaded. */
+  loadedRowCount: number | null;
+  description: string | null;
+}
+
+export interface DuckDBTableDetails extends DuckDBTableCatalogEntry {
+  name: string;
+  columns: DuckDBColumnMeta[];
+  rowCount: number;
+}
+
+const EMPTY_CATALOG_ENTRY: DuckDBTableCatalogEntry = {
+  source: null,
+  sourceKind: null,
+  loadedAt: null,
+  importOptions: null,
+  loadedRowCount: null,
+  description: null,
+};
+
+function describeSource(source: DataSource): string {
+  if ("url" in source) return source.url;
+  return source.name ?? ("path" in source ? basename(source.path) : "");
+}
+
+// Loading over an existing table replaces its source but keeps the
+// description.
+async function recordTableSource(
+  tableName: string,
+  entry: {
+    source: string;
+    sourceKind: TableSourceKind;
+    importOptions?: Record<string, unknown>;
+  },
+): Promise<void> {
+  const rowCount = await getTableRowCount(tableName);
+  await enqueue((conn) =>
+    run(
+      conn,
+      `INSERT INTO ${CATALOG_TABLE}
+         (table_name, source, source_kind, loaded_at, import_options, row_count)
+       VALUES (?, ?, ?, now(), ?, ?)
+       ON CONFLICT (table_name) DO UPDATE SET
+         source = excluded.source,
+         source_kind = excluded.source_kind,
+         loaded_at = excluded.loaded_at,
+         import_options = excluded.import_options,
+         row_count = excluded.row_count`,
+      [
+        tableName,
+        entry.source,
+        entry.sourceKind,
+        entry.importOptions ? JSON.stringify(entry.importOptions) : null,
+        rowCount,
+      ],
+    ),
+  );
+}
+
+export async function setTableDescription(
+  tableName: string,
+  description: string | null,
+): Promise<void> {
+  await enqueue((conn) =>
+    run(
+      conn,
+      `INSERT INTO ${CATALOG_TABLE} (table_name, description) VALUES (?, ?)
+       ON CONFLICT (table_name) DO UPDATE SET description = excluded.description`,
+      [tableName, description],
+    ),
+  );
+}
+
+async function readCatalog(
+  tableName?: string,
+): Promise<Map<string, DuckDBTableCatalogEntry>> {
+  const rows = await enqueue((conn) =>
+    all<{
+      table_name: string;
+      source: string | null;
+      source_kind: TableSourceKind | null;
+      loaded_at: Date | null;
+      import_options: string | null;
+      row_count: bigint | number | null;
+      description: string | null;
+    }>(
+      conn,
+      `SELECT * FROM ${CATALOG_TABLE}${tableName ? " WHERE table_name = ?" : ""}`,
+      tableName ? [tableName] : [],
+    ),
+  );
+  return new Map(
+    rows.map((row) => [
+      row.table_name,
+      {
+        source: row.source,
+        sourceKind: row.source_kind,
+        loadedAt: row.loaded_at ? new Date(row.loaded_at).toISOString() : null,
+        importOptions: row.import_options
+          ? (JSON.parse(row.import_options) as Record<string, unknown>)
+          : null,
+        loadedRowCount: row.row_count === null ? null : Number(row.row_count),
+        description: row.description,
+      },
+    ]),
+  );
+}
+
+async function tableDetails(
+  tableName: string,
+  catalog: Map<string, DuckDBTableCatalogEntry>,
+): Promise<DuckDBTableDetails> {
+  const info = await getTableInfo(tableName).catch(() => ({
+    name: tableName,
+    columns: [],
+    rowCount: 0,
+  }));
+  return { ...EMPTY_CATALOG_ENTRY, ...catalog.get(tableName), ...info };
+}
+
+/** Every user table with its columns, live row count and catalog entry. */
+export async function listTableDetails(): Promise<DuckDBTableDetails[]> {
+  const names = await listTables();
+  const catalog = await readCatalog();
+  return Promise.all(names.map((name) => tableDetails(name, catalog)));
+}
+
+export async function getTableDetails(
+  tableName: string,
+): Promise<DuckDBTableDetails> {
+  return tableDetails(tableName, await readCatalog(tableName));
+}
+
+/** Rename a table, carrying its catalog entry and computed columns along. */
+export async function renameTable(from: string, to: string): Promise<void> {
+  await enqueue(async (conn) => {
+    await run(conn, "BEGIN TRANSACTION");
+    try {
+      await run(
+        conn,
+        `ALTER TABLE ${escapeIdentifier(from)} RENAME TO ${escapeIdentifier(to)}`,
+      );
+      for (const metadata of [CATALOG_TABLE, COMPUTED_TABLE]) {
+        await run(
+          conn,
+          `UPDATE ${metadata} SET table_name = ? WHERE table_name = ?`,
+          [to, from],
+        );
+      }
+      await run(conn, "COMMIT");
+    } catch (error) {
+      await run(conn, "ROLLBACK");
+      throw error;
+    }
+    for (const copy of rowCopies.values()) {
+      if (copy.table === from) copy.table = to;
+    }
+    forgetTableMetadata(from);
+    forgetTableMetadata(to);
+  });
+}
+
+/**
+ * Copy a table's rows into a new table. The copy inherits the original's
+ * catalog entry (source, import options, description) and computed columns.
+ */
+export async function duplicateTable(
+  from: string,
+  to: string,
+): Promise<{ name: string; columns: DuckDBColumnMeta[]; rowCount: number }> {
+  await enqueue(async (conn) => {
+    await run(conn, "BEGIN TRANSACTION");
+    try {
+      await run(
+        conn,
+        `CREATE TABLE ${escapeIdentifier(to)} AS SELECT * FROM ${escapeIdentifier(from)}`,
+      );
+      await run(
+        conn,
+        `INSERT INTO ${CATALOG_TABLE}
+           (table_name, source, source_kind, loaded_at, import_options, row_count, description)
+         SELECT ?, source, source_kind, loaded_at, import_options, row_count, description
+         FROM ${CATALOG_TABLE} WHERE table_name = ?`,
+        [to, from],
+      );
+      await run(
+        conn,
+        `INSERT INTO ${COMPUTED_TABLE}
+         SELECT ?, name, formula, position FROM ${COMPUTED_TABLE} WHERE table_name = ?`,
+        [to, from],
+      );
+      await run(conn, "COMMIT");
+    } catch (error) {
+      await run(conn, "ROLLBACK");
+      throw error;
+    }
+    forgetTableMetadata(to);
+  });
+  return getTableInfo(to);
 }
 
 export async function listTables(): Promise<string[]> {
@@ -496,7 +2776,13 @@ export async function listTables(): Promise<string[]> {
     const rows = await all<{ name: string }>(conn, "SHOW TABLES");
     return rows
       .map((r) => String(r.name))
-      .filter((n) => n && n.trim().length > 0);
+      .filter(
+        (n) =>
+          n &&
+          n.trim().length > 0 &&
+          !isQueryResultTable(n) &&
+          !isLoadStagingTable(n),
+      );
   });
 }
 
@@ -505,28 +2791,86 @@ export async function getTableInfo(tableName: string = DEFAULT_TABLE): Promise<{
   columns: DuckDBColumnMeta[];
   rowCount: number;
 }> {
-  const columns = await getTableColumns(tableName);
+  const columns = await getViewColumns(tableName);
   const rowCount = await getTableRowCount(tableName);
   return { name: tableName, columns, rowCount };
 }
 
+/**
+ * Load several sources in order. Excel sources with `sheets` load each chosen
+ * sheet (`"*"` for all) into a table named after the sheet; without it they
+ * load their first sheet into `table` like any other file.
+ */
 export async function loadMultipleSources(
-  sources: Array<{ source: DataSource; table: string }>,
+  sources: Array<{
+    source: DataSource;
+    table: string;
+    sheets?: string[] | "*";
+    /** Dialect for CSV sources; detected by DuckDB when omitted. */
+    csvOptions?: CsvImportOptions;
+  }>,
+  options: MultiLoadOptions = {},
 ): Promise<
-  Array<{ table: string; columns: DuckDBColumnMeta[]; rowCount: number }>
+  Array<{
+    table: string;
+    columns: DuckDBColumnMeta[];
+    rowCount: number;
+    sheet?: string;
+    workbookSheets?: string[];
+  }>
 > {
   const results: Array<{
     table: string;
     columns: DuckDBColumnMeta[];
     rowCount: number;
+    sheet?: string;
+    workbookSheets?: string[];
   }> = [];
+  const usedTables = new Set(sources.map((item) => item.table));
+  // Report bytes across all sources, not per file.
+  let bytesBefore = 0;
+  let sourceBytes = 0;
+  const trackBytes: ByteProgress = (bytes, totalBytes) => {
+    sourceBytes = bytes;
+    options.onBytes?.(
+      bytesBefore + bytes,
+      sources.length === 1 ? totalBytes : undefined,
+    );
+  };
+  const itemOptions = { ...options, onBytes: trackBytes };
   for (const item of sources) {
-    const res = await loadCsvFromSource(item.source, item.table);
-    results.push({
+    options.signal?.throwIfAborted();
+    bytesBefore += sourceBytes;
+    sourceBytes = 0;
+    if (isExcelFile(sourceFileName(item.source))) {
+      const { sheets } = item;
+      const loaded = await loadWorkbookSheets(
+        item.source,
+        sheets,
+        (sheet, index) => {
+          if (!sheets) return item.table;
+          const base = deriveTableNameFromFilename(sheet, `sheet_${index + 1}`);
+          let table = base;
+          for (let n = 2; usedTables.has(table); n++) table = `${base}_${n}`;
+          usedTables.add(table);
+          return table;
+        },
+        itemOptions,
+      );
+      results.push(...loaded);
+      continue;
+    }
+    const res = await loadCsvFromSource(item.source, item.table, {
+      ...itemOptions,
+      csvOptions: item.csvOptions,
+    });
+    const result = {
       table: item.table,
       columns: res.columns,
       rowCount: res.rowCount,
-    });
+    };
+    options.onResult?.(result);
+    results.push(result);
   }
   return results;
 }
@@ -540,9 +2884,12 @@ export async function dropTables(tables: string[]): Promise<number> {
       for (const name of unique) {
         const ident = escapeIdentifier(name);
         await run(conn, `DROP TABLE IF EXISTS ${ident}`);
-        // Invalidate cache entries
-        tableColumnsCache.delete(name);
-        tableColumnsPending.delete(name);
+        for (const metadata of [CATALOG_TABLE, COMPUTED_TABLE]) {
+          await run(conn, `DELETE FROM ${metadata} WHERE table_name = ?`, [
+            name,
+          ]);
+        }
+        forgetTableMetadata(name);
       }
       await run(conn, "COMMIT");
       return unique.length;
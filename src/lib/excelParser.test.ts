@@ -1,6 +1,10 @@
 import { describe, expect, test } from "bun:test";
 import * as XLSX from "xlsx";
-import { parseExcelFile } from "@/lib/excelParser";
+import {
+  listExcelSheets,
+  parseExcelFile,
+  readExcelWorkbook,
+} from "@/lib/excelParser";
 
 function workbookToFile(wb: XLSX.WorkBook, name = "test.xlsx"): File {
   const array = XLSX.write(wb, { type: "array", bookType: "xlsx" });
@@ -27,4 +31,68 @@ describe("excel parser", () => {
     expect(result.rows.length).toBe(2);
     expect(result.rows[0]).toEqual(["Paris", "72"]);
   });
+
+  test("lists sheets with their data row counts", async () => {
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(
+      wb,
+      XLSX.utils.aoa_to_sheet([["a"], [1], [2]]),
+      "First",
+    );
+    XLSX.utils.book_append_sheet(
+      wb,
+      XLSX.utils.aoa_to_sheet([["b"]]),
+      "Second",
+    );
+    const data = await workbookToFile(wb).arrayBuffer();
+    expect(await listExcelSheets(data)).toEqual([
+      { name: "First", rowCount: 2 },
+      { name: "Second", rowCount: 0 },
+    ]);
+  });
+
+  test("reads sheets with native column types", async () => {
+    const ws = XLSX.utils.aoa_to_sheet([
+      ["id", "price", "active", "day", "at", "mixed", "id"],
+      [1, 2.5, true, 45293, 45293.4375, "x", 7],
+      [2, 3, false, 45325, 45325, 4, 8],
+      [3, null, null, null, null, null, 9],
+    ]);
+    for (const row of [2, 3]) {
+      ws[XLSX.utils.encode_cell({ r: row - 1, c: 3 })]!.z = "yyyy-mm-dd";
+      ws[XLSX.utils.encode_cell({ r: row - 1, c: 4 })]!.z = "yyyy-mm-dd hh:mm";
+    }
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, "Data");
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([["x"]]), "Other");
+
+    const data = await workbookToFile(wb).arrayBuffer();
+    const { sheetNames, sheets } = await readExcelWorkbook(data);
+    expect(sheetNames).toEqual(["Data", "Other"]);
+    expect(sheets.map((sheet) => sheet.name)).toEqual(["Data"]);
+    const [sheet] = sheets;
+    expect(sheet!.columns).toEqual([
+      { name: "id", type: "BIGINT" },
+      { name: "price", type: "DOUBLE" },
+      { name: "active", type: "BOOLEAN" },
+      { name: "day", type: "DATE" },
+      { name: "at", type: "TIMESTAMP" },
+      { name: "mixed", type: "VARCHAR" },
+      { name: "id_2", type: "BIGINT" },
+    ]);
+    expect(sheet!.rows[0]).toEqual([
+      1,
+      2.5,
+      true,
+      "2024-01-02",
+      "2024-01-02 10:30:00",
+      "x",
+      7,
+    ]);
+    expect(sheet!.rows[1]![4]).toBe("2024-02-03");
+    expect(sheet!.rows[2]).toEqual([3, null, null, null, null, null, 9]);
+
+    const all = await readExcelWorkbook(data, "*");
+    expect(all.sheets.map((s) => s.name)).toEqual(["Data", "Other"]);
+  });
 });
@@ -1,3 +1,4 @@
+import type { CellObject } from "xlsx";
 import type { ColumnDef } from "./csv";
 
 export interface ParsedExcel {
@@ -5,19 +6,187 @@ export interface ParsedExcel {
   rows: string[][];
 }
 
-export async function parseExcelFile(file: File): Promise<ParsedExcel> {
+/** DuckDB column type inferred from a worksheet column's cells. */
+export type ExcelColumnType =
+  | "BIGINT"
+  | "DOUBLE"
+  | "BOOLEAN"
+  | "DATE"
+  | "TIMESTAMP"
+  | "VARCHAR";
+
+export interface ExcelSheetInfo {
+  name: string;
+  /** Data rows below the header, from the sheet's used range. */
+  rowCount: number;
+}
+
+/** A worksheet with native cell values: numbers, booleans, ISO date strings. */
+export interface TypedExcelSheet {
+  name: string;
+  columns: Array<{ name: string; type: ExcelColumnType }>;
+  rows: Array<Array<string | number | boolean | null>>;
+}
+
+type XLSXModule = typeof import("xlsx");
+
+async function loadXLSX(): Promise<XLSXModule> {
+  try {
+    return await import("xlsx");
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      error.message.includes("Cannot find module")
+    ) {
+      throw new Error(
+        "Excel support requires the 'xlsx' package. Please run: bun add xlsx",
+      );
+    }
+    throw error;
+  }
+}
+
+export async function listExcelSheets(
+  data: ArrayBuffer,
+): Promise<ExcelSheetInfo[]> {
+  const XLSX = await loadXLSX();
+  const workbook = XLSX.read(data, { type: "array" });
+  return workbook.SheetNames.map((name) => {
+    const ref = workbook.Sheets[name]?.["!ref"];
+    const rowCount = ref ? XLSX.utils.decode_range(ref).e.r : 0;
+    return { name, rowCount };
+  });
+}
+
+/** Unique, non-empty header names ("Column 3", "amount_2"). */
+function headerNames(raw: unknown[]): string[] {
+  const seen = new Set<string>();
+  return raw.map((value, index) => {
+    const base = String(value ?? "").trim() || `Column ${index + 1}`;
+    let name = base;
+    for (let n = 2; seen.has(name.toLowerCase()); n++) name = `${base}_${n}`;
+    seen.add(name.toLowerCase());
+    return name;
+  });
+}
+
+function pad(value: number, width = 2): string {
+  return String(value).padStart(width, "0");
+}
+
+/**
+ * Read worksheets keeping cell types: each column becomes the narrowest of
+ * BIGINT, DOUBLE, BOOLEAN, DATE or TIMESTAMP that fits every non-empty cell,
+ * else VARCHAR. Date cells are recognised by their number format and decoded
+ * without a time-zone shift. `sheets` defaults to the first sheet; `"*"`
+ * reads them all.
+ */
+export async function readExcelWorkbook(
+  data: ArrayBuffer,
+  sheets?: string[] | "*",
+): Promise<{ sheetNames: string[]; sheets: TypedExcelSheet[] }> {
+  const XLSX = await loadXLSX();
+  const workbook = XLSX.read(data, { type: "array", cellNF: true });
+  const sheetNames = workbook.SheetNames;
+  const names =
+    sheets === "*" ? sheetNames : (sheets ?? sheetNames.slice(0, 1));
+  if (names.length === 0) throw new Error("Excel file has no sheets");
+
+  const typed = names.map((name): TypedExcelSheet => {
+    const worksheet = workbook.Sheets[name];
+    if (!worksheet) throw new Error(`Sheet not found: ${name}`);
+    const ref = worksheet["!ref"];
+    if (!ref) return { name, columns: [], rows: [] };
+    const range = XLSX.utils.decode_range(ref);
+
+    type Cell = string | number | boolean | { date: string; time: boolean };
+    const grid: Array<Array<Cell | null>> = [];
+    for (let r = range.s.r; r <= range.e.r; r++) {
+      const row: Array<Cell | null> = [];
+      for (let c = range.s.c; c <= range.e.c; c++) {
+        const cell = worksheet[XLSX.utils.encode_cell({ r, c })] as
+          | CellObject
+          | undefined;
+        if (!cell || cell.v == null || cell.t === "z" || cell.t === "e") {
+          row.push(null);
+        } else if (
+          cell.t === "n" &&
+          typeof cell.z === "string" &&
+          XLSX.SSF.is_date(cell.z)
+        ) {
+          const d = XLSX.SSF.parse_date_code(cell.v as number);
+          const date = `${pad(d.y, 4)}-${pad(d.m)}-${pad(d.d)}`;
+          const time = d.H !== 0 || d.M !== 0 || d.S !== 0;
+          row.push({
+            date: time
+              ? `${date} ${pad(d.H)}:${pad(d.M)}:${pad(Math.floor(d.S))}`
+              : date,
+            time,
+          });
+        } else if (cell.t === "n" || cell.t === "b") {
+          row.push(cell.v as number | boolean);
+        } else {
+          row.push(cell.w ?? String(cell.v));
+        }
+      }
+      grid.push(row);
+    }
+
+    const [header = [], ...body] = grid;
+    const columnNames = headerNames(
+      header.map((cell) =>
+        cell != null && typeof cell === "object" ? cell.date : cell,
+      ),
+    );
+    const columns = columnNames.map((columnName, c) => {
+      const cells = body
+        .map((row) => row[c])
+        .filter((cell): cell is Cell => cell != null && cell !== "");
+      let type: ExcelColumnType = "VARCHAR";
+      if (cells.length > 0) {
+        if (cells.every((cell) => typeof cell === "boolean")) type = "BOOLEAN";
+        else if (cells.every((cell) => typeof cell === "number")) {
+          type = cells.every((cell) => Number.isSafeInteger(cell))
+            ? "BIGINT"
+            : "DOUBLE";
+        } else if (cells.every((cell) => typeof cell === "object")) {
+          type = cells.some((cell) => (cell as { time: boolean }).time)
+            ? "TIMESTAMP"
+            : "DATE";
+        }
+      }
+      return { name: columnName, type };
+    });
+
+    const rows = body.map((row) =>
+      columns.map(({ type }, c) => {
+        const cell = row[c] ?? null;
+        if (cell == null) return null;
+        if (typeof cell === "object") return cell.date;
+        return type === "VARCHAR" ? String(cell) : cell;
+      }),
+    );
+    return { name, columns, rows };
+  });
+  return { sheetNames, sheets: typed };
+}
+
+export async function parseExcelFile(
+  file: File,
+  options: { sheet?: string } = {},
+): Promise<ParsedExcel> {
   try {
     const XLSX = await import("xlsx");
     const arrayBuffer = await file.arrayBuffer();
     const workbook = XLSX.read(arrayBuffer, { type: "array" });
-    const firstSheetName = workbook.SheetNames[0];
-    if (!firstSheetName) {
+    const sheetName = options.sheet ?? workbook.SheetNames[0];
+    if (!sheetName) {
       throw new Error("Excel file has no sheets");
     }
 
-    const worksheet = workbook.Sheets[firstSheetName];
+    const worksheet = workbook.Sheets[sheetName];
     if (!worksheet) {
-      throw new Error("Could not read Excel sheet");
+      throw new Error(`Could not read Excel sheet ${sheetName}`);
     }
 
     const data = XLSX.utils.sheet_to_json<string[]>(worksheet, {
@@ -1,5 +1,11 @@
 import { test, expect } from "bun:test";
-import { selectionToTSV } from "./export";
+import {
+  exportFilename,
+  selectionExportSlice,
+  selectionToTSV,
+  serializeRows,
+  toSQLLiteral,
+} from "./export";
 
 test("selectionToTSV returns empty string for empty selection", () => {
   expect(selectionToTSV(new Set(), [])).toBe("");
@@ -27,3 +33,74 @@ test("selectionToTSV preserves empty cells as empty fields", () => {
   const sel = new Set(["0:0", "0:1", "1:1", "1:2"]);
   expect(selectionToTSV(sel, rows)).toBe("a\t\nb\t");
 });
+
+const serialize = (...args: Parameters<typeof serializeRows>) =>
+  Array.from(serializeRows(...args)).join("");
+
+test("serializeRows writes CSV with a header and quotes special cells", () => {
+  const out = serialize(
+    "csv",
+    ["name", "note"],
+    [
+      ["a", 'say "hi"'],
+      ["b", "x,y"],
+    ],
+  );
+  expect(out).toBe('name,note\na,"say ""hi"""\nb,"x,y"\n');
+});
+
+test("serializeRows writes TSV without quoting commas", () => {
+  expect(serialize("tsv", ["a", "b"], [["1,2", "3"]])).toBe("a\tb\n1,2\t3\n");
+});
+
+test("serializeRows writes a JSON array and NDJSON lines", () => {
+  const rows = [
+    ["1", "x"],
+    ["2", ""],
+  ];
+  expect(JSON.parse(serialize("json", ["id", "v"], rows))).toEqual([
+    { id: "1", v: "x" },
+    { id: "2", v: "" },
+  ]);
+  expect(JSON.parse(serialize("json", ["id"], []))).toEqual([]);
+  expect(serialize("ndjson", ["id", "v"], rows)).toBe(
+    '{"id":"1","v":"x"}\n{"id":"2","v":""}\n',
+  );
+});
+
+test("serializeRows writes SQL INSERT statements", () => {
+  expect(
+    serialize("sql", ["id", "name"], [["1", "O'Brien"]], { tableName: "t" }),
+  ).toBe(`INSERT INTO "t" ("id", "name") VALUES ('1', 'O''Brien');\n`);
+});
+
+test("serializeRows yields in batches", () => {
+  const rows = Array.from({ length: 2500 }, (_, i) => [String(i)]);
+  expect(Array.from(serializeRows("ndjson", ["n"], rows)).length).toBe(3);
+});
+
+test("toSQLLiteral maps JS values to SQL", () => {
+  expect(toSQLLiteral(null)).toBe("NULL");
+  expect(toSQLLiteral(3.5)).toBe("3.5");
+  expect(toSQLLiteral(Number.NaN)).toBe("NULL");
+  expect(toSQLLiteral(10n)).toBe("10");
+  expect(toSQLLiteral(true)).toBe("TRUE");
+  expect(toSQLLiteral("it's")).toBe("'it''s'");
+});
+
+test("selectionExportSlice returns bounding rows, columns and row ranges", () => {
+  const slice = selectionExportSlice(
+    new Set(["0:1", "1:1", "1:2", "4:1", "5:2"]),
+  );
+  expect(slice.rows).toEqual([0, 1, 4, 5]);
+  expect(slice.columns).toEqual([1, 2]);
+  expect(slice.ranges).toEqual([
+    [0, 1],
+    [4, 5],
+  ]);
+});
+
+test("exportFilename sanitizes the base name", () => {
+  expect(exportFilename("my table", "parquet")).toBe("my_table.parquet");
+  expect(exportFilename("", "csv")).toBe("export.csv");
+});
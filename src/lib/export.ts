@@ -1,4 +1,4 @@
-import { parseSelectionKey } from "@/lib/selection";
+import { parseSelectionKey, SelectionModel } from "@/lib/selection";
 
 export function selectionToTSV(
   selection: Set<string>,
@@ -23,3 +23,176 @@ export function selectionToTSV(
   }
   return lines.join("\n");
 }
+
+export type ExportFormat =
+  | "csv"
+  | "tsv"
+  | "json"
+  | "ndjson"
+  | "parquet"
+  | "sql";
+
+/** Which rows an export covers: every row, the filtered/sorted view, or the selection. */
+export type ExportScope = "table" | "view" | "selection";
+
+export const EXPORT_FORMATS: Record<
+  ExportFormat,
+  { label: string; extension: string; mimeType: string }
+> = {
+  csv: { label: "CSV", extension: "csv", mimeType: "text/csv" },
+  tsv: {
+    label: "TSV",
+    extension: "tsv",
+    mimeType: "text/tab-separated-values",
+  },
+  json: { label: "JSON", extension: "json", mimeType: "application/json" },
+  ndjson: {
+    label: "NDJSON",
+    extension: "ndjson",
+    mimeType: "application/x-ndjson",
+  },
+  parquet: {
+    label: "Parquet",
+    extension: "parquet",
+    mimeType: "application/vnd.apache.parquet",
+  },
+  sql: { label: "SQL INSERT", extension: "sql", mimeType: "application/sql" },
+};
+
+const EXPORT_BATCH_ROWS = 1000;
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === "string" && value in EXPORT_FORMATS;
+}
+
+function quoteDelimited(value: string, delimiter: string): string {
+  return value.includes(delimiter) ||
+    value.includes('"') ||
+    value.includes("\n") ||
+    value.includes("\r")
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+}
+
+/** SQL literal for a cell; strings are quoted, JS nulls become NULL. */
+export function toSQLLiteral(value: unknown): string {
+  if (value == null) return "NULL";
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? String(value) : "NULL";
+  }
+  if (typeof value === "bigint") return value.toString();
+  if (typeof value === "boolean") return value ? "TRUE" : "FALSE";
+  if (value instanceof Date) return `'${value.toISOString()}'`;
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return `'${text.replace(/'/g, "''")}'`;
+}
+
+export function sqlInsertPrefix(tableName: string, columns: string[]): string {
+  const ident = (name: string) => `"${name.replace(/"/g, '""')}"`;
+  return `INSERT INTO ${ident(tableName)} (${columns.map(ident).join(", ")}) VALUES`;
+}
+
+/**
+ * Serialize rows as text in batches so large exports never build one giant
+ * string. Parquet is binary and only produced by DuckDB.
+ */
+export function* serializeRows(
+  format: Exclude<ExportFormat, "parquet">,
+  columns: string[],
+  rows: Iterable<string[]>,
+  options: { tableName?: string } = {},
+): Generator<string> {
+  const delimiter = format === "tsv" ? "\t" : ",";
+  const insertPrefix = sqlInsertPrefix(options.tableName ?? "data", columns);
+  let batch: string[] = [];
+  let first = true;
+
+  if (format === "csv" || format === "tsv") {
+    batch.push(
+      columns.map((c) => quoteDelimited(c, delimiter)).join(delimiter) + "\n",
+    );
+  } else if (format === "json") {
+    batch.push("[");
+  }
+
+  for (const row of rows) {
+    switch (format) {
+      case "csv":
+      case "tsv":
+        batch.push(
+          columns
+            .map((_, i) => quoteDelimited(row[i] ?? "", delimiter))
+            .join(delimiter) + "\n",
+        );
+        break;
+      case "json":
+      case "ndjson": {
+        const record: Record<string, string> = {};
+        columns.forEach((name, i) => {
+          record[name] = row[i] ?? "";
+        });
+        const json = JSON.stringify(record);
+        batch.push(
+          format === "json" ? `${first ? "\n" : ",\n"}  ${json}` : `${json}\n`,
+        );
+        break;
+      }
+      case "sql":
+        batch.push(
+          `${insertPrefix} (${columns.map((_, i) => toSQLLiteral(row[i] ?? "")).join(", ")});\n`,
+        );
+        break;
+    }
+    first = false;
+    if (batch.length >= EXPORT_BATCH_ROWS) {
+      yield batch.join("");
+      batch = [];
+    }
+  }
+
+  if (format === "json") batch.push(first ? "]\n" : "\n]\n");
+  if (batch.length > 0) yield batch.join("");
+}
+
+/**
+ * Rows and columns covered by a grid selection, in display order. Cells in
+ * the bounding rows/columns that were not selected export as blanks.
+ */
+export function selectionExportSlice(selection: Set<string>): {
+  rows: number[];
+  columns: number[];
+  ranges: Array<[number, number]>;
+} {
+  const model = SelectionModel.fromSet(selection);
+  const rowSet = new Set<number>();
+  const colSet = new Set<number>();
+  for (const range of model.getRanges()) {
+    for (let r = range.r1; r <= range.r2; r++) rowSet.add(r);
+    for (let c = range.c1; c <= range.c2; c++) colSet.add(c);
+  }
+  const rows = Array.from(rowSet).sort((a, b) => a - b);
+  const columns = Array.from(colSet).sort((a, b) => a - b);
+  const ranges: Array<[number, number]> = [];
+  for (const row of rows) {
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === row - 1) last[1] = row;
+    else ranges.push([row, row]);
+  }
+  return { rows, columns, ranges };
+}
+
+export function exportFilename(base: string, format: ExportFormat): string {
+  const safe = base.replace(/[^A-Za-z0-9_-]+/g, "_") || "export";
+  return `${safe}.${EXPORT_FORMATS[format].extension}`;
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = filename;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
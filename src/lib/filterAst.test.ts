@@ -0,0 +1,150 @@
+import { describe, expect, test } from "bun:test";
+import {
+  equalsFilter,
+  parseFilter,
+  resolveOperand,
+  resolveRange,
+} from "./filterAst";
+
+describe("parseFilter", () => {
+  test("returns null for blank input", () => {
+    expect(parseFilter("")).toBeNull();
+    expect(parseFilter("   ")).toBeNull();
+  });
+
+  test("builds OR of AND clauses", () => {
+    expect(parseFilter("error !timeout || warning")).toEqual({
+      kind: "or",
+      children: [
+        {
+          kind: "and",
+          children: [
+            { kind: "contains", text: "error" },
+            { kind: "not", child: { kind: "contains", text: "timeout" } },
+          ],
+        },
+        { kind: "and", children: [{ kind: "contains", text: "warning" }] },
+      ],
+    });
+  });
+
+  test("does not split on operators inside quotes", () => {
+    expect(parseFilter('"this or that"')).toEqual({
+      kind: "and",
+      children: [{ kind: "contains", text: "this or that" }],
+    });
+  });
+
+  test("parses comparators with numeric and text operands", () => {
+    expect(parseFilter(">= 1,000")).toEqual({
+      kind: "and",
+      children: [
+        {
+          kind: "compare",
+          op: ">=",
+          operand: { text: "1,000", number: 1000, period: null },
+        },
+      ],
+    });
+    expect(parseFilter("<> 'done'")).toEqual({
+      kind: "and",
+      children: [
+        {
+          kind: "compare",
+          op: "!=",
+          operand: { text: "done", number: null, period: null },
+        },
+      ],
+    });
+  });
+
+  test("parses ranges in any order and with any separator", () => {
+    for (const input of ["10..20", "20 to 10", "10…20", "10-20"]) {
+      const node = parseFilter(input);
+      expect(node?.kind).toBe("and");
+      const range = node?.kind === "and" ? node.children[0] : undefined;
+      expect(range?.kind).toBe("range");
+      if (range?.kind !== "range") continue;
+      expect(resolveRange(range)).toEqual({ mode: "number", min: 10, max: 20 });
+    }
+  });
+
+  test("keeps every reading of a date operand", () => {
+    const node = parseFilter(">2024");
+    const compare = node?.kind === "and" ? node.children[0] : undefined;
+    if (compare?.kind !== "compare") throw new Error("expected comparison");
+    expect(resolveOperand(compare.operand, "number")).toEqual({
+      mode: "number",
+      value: 2024,
+    });
+    expect(resolveOperand(compare.operand, "date")).toEqual({
+      mode: "date",
+      period: {
+        start: Date.UTC(2024, 0, 1),
+        end: Date.UTC(2025, 0, 1),
+      },
+    });
+  });
+
+  test("parses date ranges, years and relative windows", () => {
+    const range = parseFilter("2024-01..2024-03");
+    const term = range?.kind === "and" ? range.children[0] : undefined;
+    if (term?.kind !== "range") throw new Error("expected range");
+    expect(resolveRange(term, "date")).toEqual({
+      mode: "date",
+      period: { start: Date.UTC(2024, 0, 1), end: Date.UTC(2024, 3, 1) },
+    });
+    expect(parseFilter("year:2023")).toEqual({
+      kind: "and",
+      children: [
+        {
+          kind: "compare",
+          op: "=",
+          operand: {
+            text: "2023",
+            number: null,
+            period: { start: Date.UTC(2023, 0, 1), end: Date.UTC(2024, 0, 1) },
+          },
+        },
+      ],
+    });
+    expect(parseFilter("last:7d")).toEqual({
+      kind: "and",
+      children: [{ kind: "relative", amount: 7, unit: "d" }],
+    });
+  });
+
+  test("reads a bare year-month as text, not a numeric range", () => {
+    expect(parseFilter("2024-03")).toEqual({
+      kind: "and",
+      children: [{ kind: "contains", text: "2024-03" }],
+    });
+  });
+
+  test("treats quoted wildcards as literal text", () => {
+    expect(parseFilter("ERR-*")).toEqual({
+      kind: "and",
+      children: [{ kind: "wildcard", pattern: "ERR-*" }],
+    });
+    expect(parseFilter('"a*b"')).toEqual({
+      kind: "and",
+      children: [{ kind: "contains", text: "a*b" }],
+    });
+  });
+});
+
+describe("equalsFilter", () => {
+  test("quotes values so they parse back as one equality", () => {
+    for (const value of ['say "hi" or bye', "a || b", "C:\\temp", "42"]) {
+      const node = parseFilter(equalsFilter(value));
+      expect(node).toMatchObject({
+        kind: "and",
+        children: [{ kind: "compare", op: "=", operand: { text: value } }],
+      });
+    }
+    expect(parseFilter(equalsFilter("  "))).toEqual({
+      kind: "and",
+      children: [{ kind: "empty" }],
+    });
+  });
+});
@@ -0,0 +1,297 @@
+import {
+  parseDatePeriod,
+  yearPeriod,
+  type DatePeriod,
+  type RelativeUnit,
+} from "./date-utils";
+import { stripQuotes } from "./string-utils";
+import { parseNumber } from "./validators";
+
+/**
+ * Typed representation of the column filter mini-language. The grammar is
+ * parsed once here and compiled by two back ends: `filterPredicate.ts` (JS
+ * predicates for client mode) and `filterPredicateSQL.ts` (parameterized
+ * DuckDB SQL). Keep both in step via `filterConformance.test.ts`.
+ *
+ *   expr    := clause (("||" | " or ") clause)*
+ *   clause  := term (("&&" | whitespace) term)*
+ *   term    := "!"* (comparison | range | special | wildcard | text)
+ *   special := "is:empty" | "is:notempty" | "year:" YYYY | "last:" N [hdwmy]
+ */
+export type FilterComparator = "<" | "<=" | ">" | ">=" | "=" | "!=";
+
+/** How a column's cells are interpreted by comparisons and ranges. */
+export type ColumnKind = "text" | "number" | "date";
+
+/**
+ * An operand keeps every reading of its text; the back ends pick one per
+ * column kind with `resolveOperand`.
+ */
+export interface FilterOperand {
+  /** Operand with surrounding quotes removed. */
+  text: string;
+  number: number | null;
+  period: DatePeriod | null;
+}
+
+export type FilterNode =
+  | { kind: "or"; children: FilterNode[] }
+  | { kind: "and"; children: FilterNode[] }
+  | { kind: "not"; child: FilterNode }
+  | { kind: "compare"; op: FilterComparator; operand: FilterOperand }
+  | { kind: "range"; from: FilterOperand; to: FilterOperand }
+  | { kind: "relative"; amount: number; unit: RelativeUnit }
+  | { kind: "empty" }
+  | { kind: "wildcard"; pattern: string }
+  | { kind: "contains"; text: string };
+
+const COMPARATOR_TOKENS = new Set(["<", "<=", ">", ">=", "=", "!=", "<>"]);
+const NUMBER_PATTERN = String.raw`-?\d+(?:[.,]\d+)?`;
+const RANGE_PATTERN = new RegExp(
+  String.raw`^(${NUMBER_PATTERN})\s*(?:\.\.|…|\s+to\s+|--?|—)\s*(${NUMBER_PATTERN})$`,
+  "i",
+);
+const DATE_RANGE_PATTERN = /^(.+?)\s*(?:\.\.|…|\s+to\s+)\s*(.+)$/i;
+const RELATIVE_PATTERN = /^last:(\d+)\s*([hdwmy])$/i;
+const YEAR_PATTERN = /^year:(\d{4})$/i;
+
+export type ResolvedOperand =
+  | { mode: "number"; value: number }
+  | { mode: "date"; period: DatePeriod }
+  | { mode: "text"; value: string };
+
+/**
+ * Pick how an operand is compared. Date columns prefer the date reading
+ * (`>2024` means after 2024), other columns prefer the numeric one.
+ */
+export function resolveOperand(
+  operand: FilterOperand,
+  kind: ColumnKind = "text",
+): ResolvedOperand {
+  const { number, period } = operand;
+  if (kind === "date" && period) return { mode: "date", period };
+  if (number != null) return { mode: "number", value: number };
+  if (period) return { mode: "date", period };
+  return { mode: "text", value: operand.text };
+}
+
+/** Bounds of a range term, or null when its ends disagree in type. */
+export function resolveRange(
+  node: Extract<FilterNode, { kind: "range" }>,
+  kind: ColumnKind = "text",
+):
+  | { mode: "number"; min: number; max: number }
+  | { mode: "date"; period: DatePeriod }
+  | null {
+  const from = resolveOperand(node.from, kind);
+  const to = resolveOperand(node.to, kind);
+  if (from.mode === "number" && to.mode === "number") {
+    return {
+      mode: "number",
+      min: Math.min(from.value, to.value),
+      max: Math.max(from.value, to.value),
+    };
+  }
+  if (from.mode === "date" && to.mode === "date") {
+    const [first, last] =
+      from.period.start <= to.period.start
+        ? [from.period, to.period]
+        : [to.period, from.period];
+    return { mode: "date", period: { start: first.start, end: last.end } };
+  }
+  return null;
+}
+
+/**
+ * A filter matching cells equal to `value` (case-insensitively for text),
+ * or empty cells for a blank value.
+ */
+export function equalsFilter(value: string): string {
+  if (value.trim() === "") return "is:empty";
+  return `= "${value.replace(/["\\]/g, "\\$&")}"`;
+}
+
+/**
+ * Parse a filter string. Returns null when the filter matches everything
+ * (blank input), so callers can skip it entirely.
+ */
+export function parseFilter(raw: string): FilterNode | null {
+  const text = (raw ?? "").trim();
+  if (!text) return null;
+  const clauses = splitClauses(text).map(
+    (clause): FilterNode => ({
+      kind: "and",
+      children: tokenizeClause(clause)
+        .map(parseTerm)
+        .filter((node): node is FilterNode => node !== null),
+    }),
+  );
+  return clauses.length === 1 ? clauses[0]! : { kind: "or", children: clauses };
+}
+
+function splitClauses(input: string): string[] {
+  const orTokens = splitByOperator(input, "||");
+  if (orTokens.length > 1) return orTokens;
+  const wordOrTokens = splitByOperator(input, " or ");
+  return wordOrTokens.length > 1 ? wordOrTokens : [input.trim()];
+}
+
+function splitByOperator(input: string, operator: "||" | " or "): string[] {
+  const result: string[] = [];
+  let buffer = "";
+  let quote: '"' | "'" | null = null;
+  const lower = operator === " or " ? input.toLowerCase() : input;
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]!;
+    if (char === '"' || char === "'") {
+      if (quote === char) quote = null;
+      else if (!quote) quote = char;
+      buffer += char;
+      continue;
+    }
+    if (!quote) {
+      if (operator === "||" && char === "|" && input[i + 1] === "|") {
+        const trimmed = buffer.trim();
+        if (trimmed) result.push(trimmed);
+        buffer = "";
+        i++;
+        continue;
+      }
+      if (operator === " or " && lower.startsWith(" or ", i)) {
+        const trimmed = buffer.trim();
+        if (trimmed) result.push(trimmed);
+        buffer = "";
+        i += operator.length - 1;
+        continue;
+      }
+    }
+    buffer += char;
+  }
+  const final = buffer.trim();
+  if (final) result.push(final);
+  return result.length > 0 ? result : [input.trim()];
+}
+
+function tokenizeClause(clause: string): string[] {
+  const matches = clause.match(/"([^"\\]|\\.)*"|'([^'\\]|\\.)*'|&&|[^\s]+/g);
+  if (!matches) return [clause.trim()];
+  const tokens: string[] = [];
+  for (let i = 0; i < matches.length; i++) {
+    const current = matches[i]!.trim();
+    if (!current || current === "&&") continue;
+    // Join a bare comparator with its operand: `>= 100`, `= "Done"`.
+    if (
+      COMPARATOR_TOKENS.has(current.replace(/^!+/, "")) &&
+      i + 1 < matches.length
+    ) {
+      const next = matches[i + 1]!.trim();
+      if (next && next !== "&&") {
+        tokens.push(`${current} ${next}`);
+        i++;
+        continue;
+      }
+    }
+    // Keep spaced ranges together: `10 to 20`, `2024-01 .. 2024-03`.
+    if (i + 2 < matches.length) {
+      const joined = `${current} ${matches[i + 1]!.trim()} ${matches[i + 2]!.trim()}`;
+      if (parseRange(joined)) {
+        tokens.push(joined);
+        i += 2;
+        continue;
+      }
+    }
+    tokens.push(current);
+  }
+  return tokens.filter(Boolean);
+}
+
+function parseTerm(token: string): FilterNode | null {
+  let text = token;
+  let negate = false;
+  // `!=` is a comparator, not a negated `=`.
+  while (text.startsWith("!") && !text.startsWith("!=")) {
+    negate = !negate;
+    text = text.slice(1).trim();
+  }
+  if (!text) {
+    // A bare `!` means "has no value"; `!!` cancels out.
+    return negate ? { kind: "empty" } : null;
+  }
+  const node =
+    parseComparison(text) ??
+    parseRange(text) ??
+    parseSpecial(text) ??
+    parseLiteral(text);
+  return negate ? { kind: "not", child: node } : node;
+}
+
+function parseComparison(raw: string): FilterNode | null {
+  const match = raw.match(/^(<=|>=|!=|<>|=|<|>)\s*(.+)$/);
+  if (!match) return null;
+  const [, opRaw, operandRaw] = match;
+  const operand = operandRaw?.trim();
+  if (!opRaw || !operand) return null;
+  const op: FilterComparator =
+    opRaw === "<>" ? "!=" : (opRaw as FilterComparator);
+  return { kind: "compare", op, operand: toOperand(stripQuotes(operand)) };
+}
+
+function toOperand(text: string): FilterOperand {
+  return { text, number: parseNumber(text), period: parseDatePeriod(text) };
+}
+
+function parseRange(raw: string): FilterNode | null {
+  const numeric = raw.match(RANGE_PATTERN);
+  // `2024-03` is a month, not the range 3..2024.
+  if (numeric && !parseDatePeriod(raw)) {
+    const from = toOperand(numeric[1]!);
+    const to = toOperand(numeric[2]!);
+    if (from.number != null && to.number != null) {
+      return { kind: "range", from, to };
+    }
+  }
+  const dates = raw.match(DATE_RANGE_PATTERN);
+  if (dates) {
+    const from = toOperand(stripQuotes(dates[1]!));
+    const to = toOperand(stripQuotes(dates[2]!));
+    if (from.period && to.period) return { kind: "range", from, to };
+  }
+  return null;
+}
+
+function parseSpecial(raw: string): FilterNode | null {
+  const lower = raw.toLowerCase();
+  if (lower === "is:empty" || lower === "is:null") return { kind: "empty" };
+  if (lower === "is:notempty" || lower === "is:filled") {
+    return { kind: "not", child: { kind: "empty" } };
+  }
+  const year = raw.match(YEAR_PATTERN);
+  if (year) {
+    const period = yearPeriod(Number(year[1]));
+    if (period) {
+      return {
+        kind: "compare",
+        op: "=",
+        operand: { text: year[1]!, number: null, period },
+      };
+    }
+  }
+  const relative = raw.match(RELATIVE_PATTERN);
+  if (relative) {
+    return {
+      kind: "relative",
+      amount: Number(relative[1]),
+      unit: relative[2]!.toLowerCase() as RelativeUnit,
+    };
+  }
+  return null;
+}
+
+function parseLiteral(raw: string): FilterNode {
+  const unquoted = stripQuotes(raw);
+  // Quoted operands are literal: `"a*b"` searches for the asterisk.
+  if (unquoted === raw && /[?*]/.test(raw)) {
+    return { kind: "wildcard", pattern: raw };
+  }
+  return { kind: "contains", text: unquoted };
+}
@@ -0,0 +1,201 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { runQuery } from "@/lib/duckdb";
+import { createFilterPredicate } from "./filterPredicate";
+import { parseFilterToSQL } from "./filterPredicateSQL";
+
+// The same filter string must select the same rows whether it runs as a JS
+// predicate (client mode) or as a WHERE clause (DuckDB mode).
+const TABLE = `filter_conformance_${Date.now()}`;
+
+const LABELS = [
+  "Error: disk full",
+  "Error: timeout while waiting",
+  "Warning: high memory",
+  "Flights from New York",
+  "new york city",
+  "New Hampshire",
+  "ERR-123",
+  "WARN-ERR",
+  "Done",
+  "pending",
+  "1,234",
+  "a*b",
+  "x_y%z",
+  "Zoë",
+  "line one\nline two",
+  "   ",
+  "",
+];
+
+const AMOUNTS = ["10", "15.5", "-3", "", "1200", "100", "20", "0"];
+
+const TEXT_FILTERS = [
+  "error",
+  "error timeout",
+  "err && disk",
+  "error || warning",
+  "error or warning",
+  "error !timeout",
+  "!error",
+  '"New York"',
+  "'new york'",
+  "ERR-*",
+  "?ew*",
+  '"a*b"',
+  "x_y%*",
+  "line*two",
+  '= "Done"',
+  "=done",
+  "!=pending",
+  "<> pending",
+  "> m",
+  "<= e",
+  ">= 1000",
+  "= 1234",
+  "is:empty",
+  "is:notempty",
+  "!",
+  "!!",
+  "%",
+];
+
+const NUMERIC_FILTERS = [
+  ">= 100",
+  "> 10",
+  "<0",
+  "= 15.5",
+  "!= 10",
+  "!>= 100",
+  "10..20",
+  "20 to 10",
+  "-5…5",
+  "0-15",
+  "is:empty",
+  "!is:empty",
+  "12",
+  "1*",
+  "> 10 || < 0",
+];
+
+const DAYS = [
+  "2023-07-14",
+  "2024-01-01",
+  "2024-01-02",
+  "2024-02-29",
+  "2024-03-31",
+  "2024-04-01",
+  "",
+  "1999-12-31",
+];
+
+// Dates stored as text in mixed formats; both sides must parse the same ones.
+const STAMPS = [
+  "2024-01-05",
+  "2024-01-05 10:30:00",
+  "01/20/2024",
+  "20.02.2024",
+  "2024/03/01",
+  "05-Mar-2024",
+  "Mar 9, 2024",
+  "not a date",
+  "",
+  "2023-12-31T23:59:59",
+];
+
+const DATE_FILTERS = [
+  ">2024-01-01",
+  ">=2024-01-01",
+  "<2024-01-01",
+  "<=2024-01",
+  "=2024-01-01",
+  "!=2024",
+  "2024-01..2024-03",
+  "2024-03 to 2024-01",
+  "year:2023",
+  "!year:2024",
+  ">2024",
+  "last:30d",
+  "2024-01",
+  "is:empty",
+];
+
+type ColumnName = "label" | "amount" | "day" | "stamp";
+
+const COLUMNS: Record<
+  ColumnName,
+  { values: string[]; isNumeric?: boolean; isDate?: boolean }
+> = {
+  label: { values: LABELS },
+  amount: { values: AMOUNTS, isNumeric: true },
+  day: { values: DAYS, isDate: true },
+  stamp: { values: STAMPS },
+};
+
+const ROW_COUNT = Math.max(
+  ...Object.values(COLUMNS).map(({ values }) => values.length),
+);
+
+function cell(column: ColumnName, id: number): string {
+  return COLUMNS[column].values[id] ?? "";
+}
+
+function clientMatches(column: ColumnName, filter: string): number[] {
+  const { isNumeric, isDate } = COLUMNS[column];
+  const predicate = createFilterPredicate(filter, {
+    kind: isDate ? "date" : isNumeric ? "number" : "text",
+  });
+  return Array.from({ length: ROW_COUNT }, (_, id) => id).filter((id) =>
+    predicate(cell(column, id)),
+  );
+}
+
+async function sqlMatches(
+  column: ColumnName,
+  filter: string,
+): Promise<number[]> {
+  const { isNumeric, isDate } = COLUMNS[column];
+  const { sql, params } = parseFilterToSQL(column, filter, isNumeric, isDate);
+  const rows = await runQuery<{ id: number }>(
+    `SELECT id FROM ${TABLE} WHERE ${sql} ORDER BY id`,
+    params,
+  );
+  return rows.map((row) => Number(row.id));
+}
+
+describe("filter conformance (client vs DuckDB)", () => {
+  beforeAll(async () => {
+    await runQuery(
+      `CREATE OR REPLACE TABLE ${TABLE} (id INTEGER, label VARCHAR, amount DOUBLE, day DATE, stamp VARCHAR)`,
+    );
+    for (let id = 0; id < ROW_COUNT; id++) {
+      const amount = cell("amount", id);
+      const day = cell("day", id);
+      await runQuery(
+        `INSERT INTO ${TABLE} VALUES (?, ?, ?, CAST(? AS DATE), ?)`,
+        [
+          id,
+          cell("label", id),
+          amount ? Number(amount) : null,
+          day || null,
+          cell("stamp", id),
+        ],
+      );
+    }
+  });
+
+  const cases: Array<[ColumnName, string[]]> = [
+    ["label", TEXT_FILTERS],
+    ["amount", NUMERIC_FILTERS],
+    ["day", DATE_FILTERS],
+    ["stamp", DATE_FILTERS],
+  ];
+  for (const [column, filters] of cases) {
+    for (const filter of filters) {
+      test(`${column}: ${JSON.stringify(filter)}`, async () => {
+        expect(await sqlMatches(column, filter)).toEqual(
+          clientMatches(column, filter),
+        );
+      });
+    }
+  }
+});
@@ -1,5 +1,9 @@
 import { describe, expect, test } from "bun:test";
-import { createFilterPredicate, inferNumericColumns } from "./filterPredicate";
+import {
+  createFilterPredicate,
+  inferColumnKinds,
+  inferNumericColumns,
+} from "./filterPredicate";
 
 describe("createFilterPredicate", () => {
   test("matches substring case-insensitively", () => {
@@ -34,14 +38,14 @@ describe("createFilterPredicate", () => {
   });
 
   test("supports numeric comparisons", () => {
-    const predicate = createFilterPredicate(">= 100", { isNumeric: true });
+    const predicate = createFilterPredicate(">= 100");
     expect(predicate("150")).toBe(true);
     expect(predicate("99")).toBe(false);
     expect(predicate("")).toBe(false);
   });
 
   test("supports numeric ranges", () => {
-    const predicate = createFilterPredicate("10..20", { isNumeric: true });
+    const predicate = createFilterPredicate("10..20");
     expect(predicate("15")).toBe(true);
     expect(predicate("25")).toBe(false);
   });
@@ -84,3 +88,57 @@ describe("inferNumericColumns", () => {
     expect(result).toEqual([true, false, true]);
   });
 });
+
+describe("date-aware filters", () => {
+  test("compares date columns chronologically", () => {
+    const after = createFilterPredicate(">2024-01-01", { kind: "date" });
+    expect(after("2024-01-02")).toBe(true);
+    expect(after("2024-01-01 18:00")).toBe(false);
+    expect(after("12/31/2023")).toBe(false);
+    expect(after("not a date")).toBe(false);
+  });
+
+  test("supports month ranges and year shortcuts", () => {
+    const quarter = createFilterPredicate("2024-01..2024-03", { kind: "date" });
+    expect(quarter("2024-03-31")).toBe(true);
+    expect(quarter("2024-04-01")).toBe(false);
+    const year = createFilterPredicate("year:2023");
+    expect(year("2023-07-14")).toBe(true);
+    expect(year("2024-01-01")).toBe(false);
+  });
+
+  test("matches relative windows ending now", () => {
+    const recent = createFilterPredicate("last:7d", { kind: "date" });
+    const today = new Date().toISOString().slice(0, 10);
+    expect(recent(today)).toBe(true);
+    expect(recent("2000-01-01")).toBe(false);
+  });
+
+  test("treats bare years as dates only on date columns", () => {
+    expect(createFilterPredicate(">2024", { kind: "date" })("2024-06-01")).toBe(
+      false,
+    );
+    expect(createFilterPredicate(">2024")("2025")).toBe(true);
+  });
+});
+
+describe("inferColumnKinds", () => {
+  test("detects date columns from types, text and epoch values", () => {
+    const rows = [
+      ["2024-01-05", "1700000000", "1700000000", "x"],
+      ["2024-02-10", "1700000500", "1700000500", "y"],
+    ];
+    const columns = [
+      { name: "day" },
+      { name: "created_at" },
+      { name: "amount" },
+      { name: "when", dataType: "TIMESTAMP" },
+    ];
+    expect(inferColumnKinds(rows, columns)).toEqual([
+      "date",
+      "date",
+      "number",
+      "date",
+    ]);
+  });
+});
@@ -1,13 +1,25 @@
-import { stripQuotes } from "./string-utils";
-import { parseNumber as sharedParseNumber } from "./validators";
+import {
+  parseFilter,
+  resolveOperand,
+  resolveRange,
+  type ColumnKind,
+  type FilterNode,
+} from "./filterAst";
+import { parseDateValue, relativePeriod, type DatePeriod } from "./date-utils";
+import { isDateType } from "./duckdb-utils";
+import { parseNumber } from "./validators";
 
 export type FilterPredicate = (value: unknown) => boolean;
 
 export interface PredicateOptions {
-  isNumeric?: boolean;
+  /** Column interpretation from `inferColumnKinds`; defaults to text. */
+  kind?: ColumnKind;
 }
 
 const NUMERIC_TYPE_PATTERNS = /(int|decimal|numeric|float|double|real)/i;
+// Numeric columns named like this hold epoch timestamps.
+const DATE_NAME_PATTERN = /(date|time|_at$|^at_|timestamp|epoch)/i;
+const MIN_EPOCH_SECONDS = 1e8;
 const MAX_SAMPLE_ROWS = 400;
 const MAX_SAMPLE_VALUES = 60;
 
@@ -19,14 +31,19 @@ const localeCompare = collator
   ? collator.compare.bind(collator)
   : (a: string, b: string) => a.localeCompare(b);
 
-export function inferNumericColumns(
+export function inferColumnKinds(
   rows: string[][],
-  columns: Array<{ dataType?: string }>,
-): boolean[] {
+  columns: Array<{ name?: string; dataType?: string }>,
+): ColumnKind[] {
   return columns.map((col, colIndex) => {
-    if (col?.dataType && NUMERIC_TYPE_PATTERNS.test(col.dataType)) return true;
+    if (col?.dataType && isDateType(col.dataType)) return "date";
+    if (col?.dataType && NUMERIC_TYPE_PATTERNS.test(col.dataType)) {
+      return "number";
+    }
     let considered = 0;
     let numeric = 0;
+    let epochs = 0;
+    let dates = 0;
     let scanned = 0;
     for (
       let r = 0;
@@ -41,149 +58,142 @@ export function inferNumericColumns(
       const trimmed = value.trim();
       if (!trimmed) continue;
       considered++;
-      if (parseNumber(trimmed) != null) numeric++;
+      const number = parseNumber(trimmed);
+      if (number != null) {
+        numeric++;
+        if (Number.isInteger(number) && number >= MIN_EPOCH_SECONDS) epochs++;
+      } else if (parseDateValue(trimmed) != null) {
+        dates++;
+      }
+    }
+    if (considered === 0) return "text";
+    if (numeric / considered >= 0.8) {
+      const looksLikeEpoch =
+        epochs === numeric && DATE_NAME_PATTERN.test(col?.name ?? "");
+      return looksLikeEpoch ? "date" : "number";
     }
-    if (considered === 0) return false;
-    return numeric / considered >= 0.8;
+    return dates / considered >= 0.8 ? "date" : "text";
   });
 }
 
+export function inferNumericColumns(
+  rows: string[][],
+  columns: Array<{ name?: string; dataType?: string }>,
+): boolean[] {
+  return inferColumnKinds(rows, columns).map((kind) => kind === "number");
+}
+
+/**
+ * Sort key for a date cell: epoch milliseconds, or null when the cell does
+ * not parse. Numbers count as epoch values on non-text columns.
+ */
+export function dateSortKey(value: string, kind: ColumnKind): number | null {
+  return parseDateValue(value, { allowEpoch: kind !== "text" });
+}
+
 export function createFilterPredicate(
   raw: string,
   options: PredicateOptions = {},
 ): FilterPredicate {
-  const text = (raw ?? "").trim();
-  if (!text) {
-    return () => true;
-  }
-
-  const orClauses = splitClauses(text);
-  const clausePredicates = orClauses.map((clause) => {
-    const tokens = tokenizeClause(clause);
-    const tokenPredicates = tokens
-      .map((token) => buildTokenPredicate(token, options))
-      .filter((predicate): predicate is FilterPredicate => predicate !== null);
-    if (tokenPredicates.length === 0) return () => true;
-    return (value: unknown) =>
-      tokenPredicates.every((predicate) => predicate(value));
-  });
-
-  return (value: unknown) =>
-    clausePredicates.some((predicate) => predicate(value));
+  const node = parseFilter(raw);
+  return node ? compileFilterPredicate(node, options) : () => true;
 }
 
-function splitClauses(input: string): string[] {
-  const orTokens = splitByOperator(input, "||");
-  if (orTokens.length > 1) return orTokens;
-  const wordOrTokens = splitByOperator(input, " or ");
-  return wordOrTokens.length > 1 ? wordOrTokens : [input.trim()];
-}
-
-function splitByOperator(input: string, operator: "||" | " or "): string[] {
-  const result: string[] = [];
-  let buffer = "";
-  let quote: '"' | "'" | null = null;
-  const lower = operator === " or " ? input.toLowerCase() : input;
-  for (let i = 0; i < input.length; i++) {
-    const char = input[i]!;
-    if (char === '"' || char === "'") {
-      if (quote === char) quote = null;
-      else if (!quote) quote = char;
-      buffer += char;
-      continue;
-    }
-    if (!quote) {
-      if (operator === "||" && char === "|" && input[i + 1] === "|") {
-        const trimmed = buffer.trim();
-        if (trimmed) result.push(trimmed);
-        buffer = "";
-        i++;
-        continue;
+/** JS back end for the filter AST; mirrors `compileFilterToSQL`. */
+export function compileFilterPredicate(
+  node: FilterNode,
+  options: PredicateOptions = {},
+): FilterPredicate {
+  const kind = options.kind ?? "text";
+  const compile = (current: FilterNode): FilterPredicate => {
+    switch (current.kind) {
+      case "or": {
+        const children = current.children.map(compile);
+        return (value) => children.some((predicate) => predicate(value));
       }
-      if (operator === " or " && lower.startsWith(" or ", i)) {
-        const before = i === 0 ? " " : lower[i - 1]!;
-        const after =
-          i + operator.length < lower.length
-            ? lower[i + operator.length]!
-            : " ";
-        if (/\s/.test(before) && /\s/.test(after)) {
-          const trimmed = buffer.trim();
-          if (trimmed) result.push(trimmed);
-          buffer = "";
-          i += operator.length - 1;
-          continue;
-        }
+      case "and": {
+        const children = current.children.map(compile);
+        return (value) => children.every((predicate) => predicate(value));
       }
-    }
-    buffer += char;
-  }
-  const final = buffer.trim();
-  if (final) result.push(final);
-  return result.length > 0 ? result : [input.trim()];
-}
-
-const COMPARATOR_TOKENS = new Set(["<", "<=", ">", ">=", "=", "!="]);
-
-function tokenizeClause(clause: string): string[] {
-  const matches = clause.match(/"([^"\\]|\\.)*"|'([^'\\]|\\.)*'|&&|[^\s]+/g);
-  if (!matches) return [clause.trim()];
-  const tokens: string[] = [];
-  for (let i = 0; i < matches.length; i++) {
-    const current = matches[i]!.trim();
-    if (!current || current === "&&") continue;
-    if (COMPARATOR_TOKENS.has(current) && i + 1 < matches.length) {
-      const next = matches[i + 1]!.trim();
-      if (next) {
-        tokens.push(`${current} ${next}`);
-        i++;
-        continue;
+      case "not": {
+        const child = compile(current.child);
+        return (value) => !child(value);
+      }
+      case "compare":
+        return buildComparatorPredicate(current, kind);
+      case "range": {
+        const bounds = resolveRange(current, kind);
+        if (!bounds) return () => false;
+        if (bounds.mode === "date")
+          return buildPeriodPredicate(bounds.period, kind);
+        const { min, max } = bounds;
+        return (value) => {
+          const numeric = parseNumber(asString(value));
+          return numeric != null && numeric >= min && numeric <= max;
+        };
+      }
+      case "relative":
+        return buildPeriodPredicate(
+          relativePeriod(current.amount, current.unit),
+          kind,
+        );
+      case "empty":
+        return (value) => asString(value).trim() === "";
+      case "wildcard":
+        return buildWildcardPredicate(current.pattern);
+      case "contains": {
+        const lower = current.text.toLowerCase();
+        return (value) => asString(value).toLowerCase().includes(lower);
       }
     }
-    tokens.push(current);
-  }
-  return tokens.filter(Boolean);
+  };
+  return compile(node);
 }
 
-function buildTokenPredicate(
-  token: string,
-  options: PredicateOptions,
-): FilterPredicate | null {
-  if (!token) return null;
-  let text = token;
-  let negate = false;
-  while (text.startsWith("!")) {
-    negate = !negate;
-    text = text.slice(1).trim();
-  }
-  if (!text) {
-    return negate ? (value) => !truthy(value) : () => true;
-  }
-
-  const predicate =
-    buildComparatorPredicate(text, options) ??
-    buildRangePredicate(text, options) ??
-    buildSpecialPredicate(text) ??
-    buildWildcardPredicate(text) ??
-    buildContainsPredicate(text);
+function toTimestamp(value: unknown, kind: ColumnKind): number | null {
+  return parseDateValue(asString(value), { allowEpoch: kind !== "text" });
+}
 
-  return negate ? (value) => !predicate(value) : predicate;
+function buildPeriodPredicate(
+  period: DatePeriod,
+  kind: ColumnKind,
+): FilterPredicate {
+  return (value) => {
+    const time = toTimestamp(value, kind);
+    return time != null && time >= period.start && time < period.end;
+  };
 }
 
 function buildComparatorPredicate(
-  raw: string,
-  options: PredicateOptions,
-): FilterPredicate | null {
-  const match = raw.match(/^(<=|>=|!=|=|<|>)\s*(.+)$/);
-  if (!match) return null;
-  const [, op, operandRaw] = match;
-  if (operandRaw == null) return null;
-  const operandTrimmed = operandRaw.trim();
-  if (!operandTrimmed) return null;
-  const operandUnquoted = stripQuotes(operandTrimmed);
+  node: Extract<FilterNode, { kind: "compare" }>,
+  kind: ColumnKind,
+): FilterPredicate {
+  const { op } = node;
+  const operand = resolveOperand(node.operand, kind);
+  if (operand.mode === "date") {
+    const { start, end } = operand.period;
+    return (value) => {
+      const time = toTimestamp(value, kind);
+      if (time == null) return false;
+      switch (op) {
+        case ">":
+          return time >= end;
+        case ">=":
+          return time >= start;
+        case "<":
+          return time < start;
+        case "<=":
+          return time < end;
+        case "=":
+          return time >= start && time < end;
+        case "!=":
+          return time < start || time >= end;
+      }
+    };
+  }
 
-  const operandNumber = parseNumber(operandUnquoted);
-  const prefersNumeric = operandNumber != null || options.isNumeric;
-  if (prefersNumeric && operandNumber != null) {
+  if (operand.mode === "number") {
+    const operandNumber = operand.value;
     return (value) => {
       const numeric = parseNumber(asString(value));
       if (numeric == null) return false;
@@ -200,75 +210,30 @@ function buildComparatorPredicate(
           return numeric === operandNumber;
         case "!=":
           return numeric !== operandNumber;
-        default:
-          return false;
       }
     };
   }
 
-  const normalizedOperand = operandUnquoted.toLowerCase();
+  const text = operand.value;
+  const normalizedOperand = text.toLowerCase();
   switch (op) {
     case "=":
       return (value) => asString(value).toLowerCase() === normalizedOperand;
     case "!=":
       return (value) => asString(value).toLowerCase() !== normalizedOperand;
     case ">":
-      return (value) => localeCompare(asString(value), operandUnquoted) > 0;
+      return (value) => localeCompare(asString(value), text) > 0;
     case ">=":
-      return (value) => localeCompare(asString(value), operandUnquoted) >= 0;
+      return (value) => localeCompare(asString(value), text) >= 0;
     case "<":
-      return (value) => localeCompare(asString(value), operandUnquoted) < 0;
+      return (value) => localeCompare(asString(value), text) < 0;
     case "<=":
-      return (value) => localeCompare(asString(value), operandUnquoted) <= 0;
-    default:
-      return null;
+      return (value) => localeCompare(asString(value), text) <= 0;
   }
 }
 
-function buildRangePredicate(
-  raw: string,
-  options: PredicateOptions,
-): FilterPredicate | null {
-  if (!options.isNumeric) {
-    const maybeNumeric = raw.match(
-      /^-?\d+(?:[.,]\d+)?\s*(?:\.\.|…|--?|to)\s*-?\d+(?:[.,]\d+)?$/i,
-    );
-    if (!maybeNumeric) return null;
-  }
-  const match = raw
-    .replace(/\u2026/g, "..")
-    .match(
-      /^(-?\d+(?:[.,]\d+)?)\s*(?:\.\.|\s+to\s+|--?|—)\s*(-?\d+(?:[.,]\d+)?)/i,
-    );
-  if (!match) return null;
-  const [, leftRaw, rightRaw] = match;
-  if (!leftRaw || !rightRaw) return null;
-  const left = parseNumber(leftRaw);
-  const right = parseNumber(rightRaw);
-  if (left == null || right == null) return null;
-  const min = Math.min(left, right);
-  const max = Math.max(left, right);
-  return (value) => {
-    const numeric = parseNumber(asString(value));
-    if (numeric == null) return false;
-    return numeric >= min && numeric <= max;
-  };
-}
-
-function buildSpecialPredicate(raw: string): FilterPredicate | null {
-  const lower = raw.toLowerCase();
-  if (lower === "is:empty" || lower === "is:null") {
-    return (value) => asString(value).trim() === "";
-  }
-  if (lower === "is:notempty" || lower === "is:filled") {
-    return (value) => asString(value).trim() !== "";
-  }
-  return null;
-}
-
-function buildWildcardPredicate(raw: string): FilterPredicate | null {
-  if (!/[?*]/.test(raw)) return null;
-  const pattern = raw
+function buildWildcardPredicate(pattern: string): FilterPredicate {
+  const source = pattern
     .split("")
     .map((char) => {
       if (char === "*") return ".*";
@@ -276,16 +241,10 @@ function buildWildcardPredicate(raw: string): FilterPredicate | null {
       return escapeRegex(char);
     })
     .join("");
-  const regex = new RegExp(`^${pattern}$`, "i");
+  const regex = new RegExp(`^${source}$`, "is");
   return (value) => regex.test(asString(value));
 }
 
-function buildContainsPredicate(raw: string): FilterPredicate {
-  const text = stripQuotes(raw);
-  const lower = text.toLowerCase();
-  return (value) => asString(value).toLowerCase().includes(lower);
-}
-
 function escapeRegex(value: string): string {
   return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
@@ -297,15 +256,3 @@ function asString(value: unknown): string {
     return value.toString();
   return String(value ?? "");
 }
-
-function parseNumber(value: string): number | null {
-  return sharedParseNumber(value);
-}
-
-function truthy(value: unknown): boolean {
-  if (value == null) return false;
-  if (typeof value === "boolean") return value;
-  if (typeof value === "number") return value !== 0;
-  if (typeof value === "string") return value.trim().length > 0;
-  return true;
-}
@@ -1,141 +1,184 @@
-import { escapeIdentifier } from "./duckdb-utils";
+import { DUCKDB_DATE_FORMATS, relativePeriod } from "./date-utils";
+import { escapeIdentifier, escapeLiteral } from "./duckdb-utils";
+import {
+  parseFilter,
+  resolveOperand,
+  resolveRange,
+  type ColumnKind,
+  type FilterNode,
+} from "./filterAst";
 
 export interface SQLFilterResult {
   sql: string;
   params: unknown[];
 }
 
+export interface SQLFilterColumn {
+  columnName: string;
+  isNumeric?: boolean;
+  /** DATE or TIMESTAMP column. */
+  isDate?: boolean;
+}
+
+const DATE_FORMATS_SQL = `[${DUCKDB_DATE_FORMATS.map((f) => `'${escapeLiteral(f)}'`).join(", ")}]`;
+
 export function parseFilterToSQL(
   columnName: string,
   filterValue: string,
   isNumeric: boolean = false,
+  isDate: boolean = false,
 ): SQLFilterResult {
-  const trimmed = filterValue.trim();
-  if (!trimmed) {
+  const node = parseFilter(filterValue);
+  if (!node) {
     return { sql: "1=1", params: [] };
   }
+  return compileFilterToSQL(node, { columnName, isNumeric, isDate });
+}
 
-  const columnIdent = escapeIdentifier(columnName);
-
-  const lower = trimmed.toLowerCase();
-  if (lower === "is:empty" || lower === "is:null") {
-    return {
-      sql: `(${columnIdent} IS NULL OR ${columnIdent} = '')`,
-      params: [],
-    };
-  }
-  if (lower === "is:notempty" || lower === "is:filled") {
-    return {
-      sql: `(${columnIdent} IS NOT NULL AND ${columnIdent} != '')`,
-      params: [],
-    };
-  }
-
-  const orParts = trimmed
-    .split(/\s+or\s+|\|\|/i)
-    .map((s) => s.trim())
-    .filter(Boolean);
-  if (orParts.length > 1) {
-    const orConditions = orParts.map((part) => {
-      const subResult = parseFilterToSQL(columnName, part, isNumeric);
-      return { sql: `(${subResult.sql})`, params: subResult.params };
-    });
-    const sql = orConditions.map((c) => c.sql).join(" OR ");
-    const params = orConditions.flatMap((c) => c.params);
-    return { sql: `(${sql})`, params };
-  }
-
-  if (trimmed.startsWith("!") && trimmed.length > 1) {
-    const value = trimmed.slice(1).trim();
-    if (isNumeric) {
-      const num = parseFloat(value);
-      if (!isNaN(num)) {
-        return { sql: `${columnIdent} != ?`, params: [num] };
+/**
+ * SQL back end for the filter AST; mirrors `compileFilterPredicate`. Every
+ * leaf yields TRUE or FALSE (never NULL) so `NOT` behaves like the JS `!`
+ * when a cell is missing or not a number.
+ */
+export function compileFilterToSQL(
+  node: FilterNode,
+  column: SQLFilterColumn,
+): SQLFilterResult {
+  const ident = escapeIdentifier(column.columnName);
+  const text = `COALESCE(CAST(${ident} AS VARCHAR), '')`;
+  const lowerText = `LOWER(${text})`;
+  // Text cells go through the same normalisation as `parseNumber` so
+  // "1,234" compares as 1234 on both sides.
+  const numeric = column.isNumeric
+    ? `CAST(${ident} AS DOUBLE)`
+    : `TRY_CAST(regexp_replace(${text}, '[,_\\s]', '', 'g') AS DOUBLE)`;
+  const kind: ColumnKind = column.isDate
+    ? "date"
+    : column.isNumeric
+      ? "number"
+      : "text";
+  // Epoch milliseconds, matching `parseDateValue` on the client: native
+  // dates as-is, numbers as epoch seconds/millis, text via cast or strptime.
+  const epochMs = column.isDate
+    ? `epoch_ms(CAST(${ident} AS TIMESTAMP))`
+    : column.isNumeric
+      ? `(CASE WHEN abs(${numeric}) < 1e11 THEN ${numeric} * 1000 ELSE ${numeric} END)`
+      : `epoch_ms(COALESCE(TRY_CAST(TRIM(${text}) AS TIMESTAMP), try_strptime(TRIM(${text}), ${DATE_FORMATS_SQL})))`;
+  const inPeriod = (start: number, end: number): SQLFilterResult => ({
+    sql: `COALESCE(${epochMs} >= ? AND ${epochMs} < ?, FALSE)`,
+    params: [start, end],
+  });
+
+  const compile = (current: FilterNode): SQLFilterResult => {
+    switch (current.kind) {
+      case "or":
+      case "and": {
+        if (current.children.length === 0) {
+          return { sql: current.kind === "and" ? "TRUE" : "FALSE", params: [] };
+        }
+        const parts = current.children.map(compile);
+        const joiner = current.kind === "and" ? " AND " : " OR ";
+        return {
+          sql: `(${parts.map((part) => part.sql).join(joiner)})`,
+          params: parts.flatMap((part) => part.params),
+        };
       }
-    }
-    return {
-      sql: `LOWER(CAST(${columnIdent} AS VARCHAR)) NOT LIKE LOWER(?)`,
-      params: [`%${value}%`],
-    };
-  }
-
-  if (trimmed.startsWith("=") && trimmed.length > 1) {
-    const value = trimmed.slice(1).trim();
-    if (isNumeric) {
-      const num = parseFloat(value);
-      if (!isNaN(num)) {
-        return { sql: `${columnIdent} = ?`, params: [num] };
+      case "not": {
+        const child = compile(current.child);
+        return { sql: `(NOT ${child.sql})`, params: child.params };
       }
+      case "compare": {
+        const { op } = current;
+        const operand = resolveOperand(current.operand, kind);
+        if (operand.mode === "date") {
+          const { start, end } = operand.period;
+          switch (op) {
+            case ">":
+              return {
+                sql: `COALESCE(${epochMs} >= ?, FALSE)`,
+                params: [end],
+              };
+            case ">=":
+              return {
+                sql: `COALESCE(${epochMs} >= ?, FALSE)`,
+                params: [start],
+              };
+            case "<":
+              return {
+                sql: `COALESCE(${epochMs} < ?, FALSE)`,
+                params: [start],
+              };
+            case "<=":
+              return {
+                sql: `COALESCE(${epochMs} < ?, FALSE)`,
+                params: [end],
+              };
+            case "=":
+              return inPeriod(start, end);
+            case "!=":
+              return {
+                sql: `COALESCE(${epochMs} < ? OR ${epochMs} >= ?, FALSE)`,
+                params: [start, end],
+              };
+          }
+        }
+        if (operand.mode === "number") {
+          return {
+            sql: `COALESCE(${numeric} ${op} ?, FALSE)`,
+            params: [operand.value],
+          };
+        }
+        const value = operand.value;
+        if (op === "=" || op === "!=") {
+          return { sql: `${lowerText} ${op} ?`, params: [value.toLowerCase()] };
+        }
+        return {
+          sql: `${text} COLLATE NOCASE.NOACCENT ${op} ?`,
+          params: [value],
+        };
+      }
+      case "range": {
+        const bounds = resolveRange(current, kind);
+        if (!bounds) return { sql: "FALSE", params: [] };
+        if (bounds.mode === "date") {
+          return inPeriod(bounds.period.start, bounds.period.end);
+        }
+        return {
+          sql: `COALESCE(${numeric} BETWEEN ? AND ?, FALSE)`,
+          params: [bounds.min, bounds.max],
+        };
+      }
+      case "relative": {
+        const period = relativePeriod(current.amount, current.unit);
+        return inPeriod(period.start, period.end);
+      }
+      case "empty":
+        return { sql: `TRIM(${text}) = ''`, params: [] };
+      case "wildcard":
+        return {
+          sql: `${lowerText} LIKE ? ESCAPE '\\'`,
+          params: [wildcardToLike(current.pattern).toLowerCase()],
+        };
+      case "contains":
+        return {
+          sql: `contains(${lowerText}, ?)`,
+          params: [current.text.toLowerCase()],
+        };
     }
-    return { sql: `CAST(${columnIdent} AS VARCHAR) = ?`, params: [value] };
-  }
-
-  if (trimmed.startsWith(">=")) {
-    const value = trimmed.slice(2).trim();
-    const num = parseFloat(value);
-    if (!isNaN(num)) {
-      return { sql: `CAST(${columnIdent} AS DOUBLE) >= ?`, params: [num] };
-    }
-  }
-  if (trimmed.startsWith("<=")) {
-    const value = trimmed.slice(2).trim();
-    const num = parseFloat(value);
-    if (!isNaN(num)) {
-      return { sql: `CAST(${columnIdent} AS DOUBLE) <= ?`, params: [num] };
-    }
-  }
-  if (trimmed.startsWith("!=") || trimmed.startsWith("<>")) {
-    const value = trimmed.slice(2).trim();
-    const num = parseFloat(value);
-    if (!isNaN(num)) {
-      return { sql: `CAST(${columnIdent} AS DOUBLE) != ?`, params: [num] };
-    }
-  }
-  if (trimmed.startsWith(">")) {
-    const value = trimmed.slice(1).trim();
-    const num = parseFloat(value);
-    if (!isNaN(num)) {
-      return { sql: `CAST(${columnIdent} AS DOUBLE) > ?`, params: [num] };
-    }
-  }
-  if (trimmed.startsWith("<")) {
-    const value = trimmed.slice(1).trim();
-    const num = parseFloat(value);
-    if (!isNaN(num)) {
-      return { sql: `CAST(${columnIdent} AS DOUBLE) < ?`, params: [num] };
-    }
-  }
-
-  const rangeMatch = trimmed.match(
-    /^(\d+(?:\.\d+)?)\s*(?:\.\.|to)\s*(\d+(?:\.\d+)?)$/i,
-  );
-  if (rangeMatch) {
-    const min = parseFloat(rangeMatch[1]!);
-    const max = parseFloat(rangeMatch[2]!);
-    if (!isNaN(min) && !isNaN(max)) {
-      return {
-        sql: `CAST(${columnIdent} AS DOUBLE) BETWEEN ? AND ?`,
-        params: [min, max],
-      };
-    }
-  }
+  };
 
-  if (trimmed.includes("*") || trimmed.includes("?")) {
-    const pattern = trimmed.replace(/\*/g, "%").replace(/\?/g, "_");
-    return {
-      sql: `LOWER(CAST(${columnIdent} AS VARCHAR)) LIKE LOWER(?)`,
-      params: [pattern],
-    };
-  }
+  return compile(node);
+}
 
-  return {
-    sql: `LOWER(CAST(${columnIdent} AS VARCHAR)) LIKE LOWER(?)`,
-    params: [`%${trimmed}%`],
-  };
+function wildcardToLike(pattern: string): string {
+  return pattern
+    .replace(/[\\%_]/g, "\\$&")
+    .replace(/\*/g, "%")
+    .replace(/\?/g, "_");
 }
 
 export function buildWhereClause(
-  filters: Array<{ columnName: string; value: string; isNumeric?: boolean }>,
+  filters: Array<SQLFilterColumn & { value: string }>,
 ): SQLFilterResult {
   if (filters.length === 0) {
     return { sql: "", params: [] };
@@ -149,6 +192,7 @@ export function buildWhereClause(
       filter.columnName,
       filter.value,
       filter.isNumeric ?? false,
+      filter.isDate ?? false,
     );
 
     if (sql && sql !== "1=1") {
@@ -0,0 +1,104 @@
+import { describe, expect, test } from "bun:test";
+import {
+  bindFormula,
+  formulaColumnNames,
+  FormulaError,
+  parseFormula,
+} from "./formulaAst";
+import { compileFormula } from "./formulaEval";
+
+describe("parseFormula", () => {
+  test("respects precedence and parentheses", () => {
+    expect(parseFormula("=a + b * 2")).toEqual({
+      kind: "binary",
+      op: "+",
+      left: { kind: "column", name: "a" },
+      right: {
+        kind: "binary",
+        op: "*",
+        left: { kind: "column", name: "b" },
+        right: { kind: "literal", value: 2 },
+      },
+    });
+    expect(parseFormula("NOT x = 1 AND y")).toMatchObject({
+      kind: "binary",
+      op: "and",
+      left: { kind: "unary", op: "not" },
+    });
+  });
+
+  test("reads strings, bracketed columns and function calls", () => {
+    expect(parseFormula(`Upper([Unit ]]Price]) & 'it''s'`)).toEqual({
+      kind: "binary",
+      op: "&",
+      left: {
+        kind: "call",
+        name: "upper",
+        args: [{ kind: "column", name: "Unit ]Price" }],
+      },
+      right: { kind: "literal", value: "it's" },
+    });
+    expect(
+      formulaColumnNames(parseFormula("if(a > 1, [b c], coalesce(d, 0))")),
+    ).toEqual(["a", "b c", "d"]);
+  });
+
+  test("reports syntax errors with their position", () => {
+    expect(() => parseFormula("")).toThrow("A formula is required");
+    expect(() => parseFormula("a +")).toThrow(/end of formula/);
+    expect(() => parseFormula("'open")).toThrow(/Unterminated string/);
+    expect(() => parseFormula("1 < a < 3")).toThrow(/chained/);
+    try {
+      parseFormula("a ; b");
+    } catch (error) {
+      expect(error).toBeInstanceOf(FormulaError);
+      expect((error as FormulaError).position).toBe(2);
+    }
+  });
+});
+
+describe("bindFormula", () => {
+  const columns = [
+    { name: "Price", type: "DOUBLE" },
+    { name: "name" },
+    { name: "total", formula: "price * 2" },
+  ];
+
+  test("resolves columns ignoring case and infers types", () => {
+    const bound = bindFormula(parseFormula("if(price > 1, name, 0)"), columns);
+    expect(bound.type).toBe("any");
+    expect(bound).toMatchObject({
+      args: [
+        { operandType: "number", left: { index: 0, name: "Price" } },
+        { index: 1 },
+        { type: "number" },
+      ],
+    });
+  });
+
+  test("rejects unknown names, computed columns and bad arity", () => {
+    const bind = (formula: string) => () =>
+      bindFormula(parseFormula(formula), columns);
+    expect(bind("qty * 2")).toThrow("Unknown column qty");
+    expect(bind("total + 1")).toThrow(/computed columns/);
+    expect(bind("sqrt(price)")).toThrow("Unknown function sqrt");
+    expect(bind("left(name)")).toThrow(/left\(text, count\)/);
+  });
+});
+
+describe("compileFormula", () => {
+  test("reads untyped cells as numbers only where needed", () => {
+    const columns = [{ name: "a" }, { name: "b" }];
+    const rows = [
+      ["10", "9"],
+      ["x", "9"],
+      ["", "2"],
+    ];
+    const run = (formula: string) =>
+      rows.map((row) => compileFormula(formula, columns)(row));
+    expect(run("a > b")).toEqual(["true", "true", ""]);
+    expect(run("a * b")).toEqual(["90", "", ""]);
+    expect(run("a & b")).toEqual(["109", "x9", "2"]);
+    expect(run("coalesce(a, b)")).toEqual(["10", "x", "2"]);
+  });
+});
@@ -0,0 +1,576 @@
+import { isNumericType } from "./duckdb-utils";
+
+/**
+ * Formula language for computed columns. Formulas are parsed and type
+ * checked here and compiled by two back ends: `formulaEval.ts` (JS, for
+ * client mode) and `formulaSQL.ts` (DuckDB expressions). Keep both in step
+ * via `formulaConformance.test.ts`.
+ *
+ *   formula := and ("or" and)*
+ *   and     := not ("and" not)*
+ *   not     := "not" not | compare
+ *   compare := concat (("=" | "<>" | "!=" | "<" | "<=" | ">" | ">=") concat)?
+ *   concat  := sum ("&" sum)*
+ *   sum     := product (("+" | "-") product)*
+ *   product := unary (("*" | "/" | "%") unary)*
+ *   unary   := "-" unary | primary
+ *   primary := number | string | "true" | "false" | "null" | "(" formula ")"
+ *            | name "(" (formula ("," formula)*)? ")" | name | "[" column "]"
+ *
+ * Strings use single or double quotes (doubled to escape); `[...]` names a
+ * column that is not a plain identifier. Names and keywords ignore case.
+ */
+export type FormulaBinaryOp =
+  | "+"
+  | "-"
+  | "*"
+  | "/"
+  | "%"
+  | "&"
+  | "="
+  | "<>"
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "and"
+  | "or";
+
+export type FormulaNode =
+  | { kind: "literal"; value: number | string | boolean | null }
+  | { kind: "column"; name: string }
+  | { kind: "unary"; op: "-" | "not"; operand: FormulaNode }
+  | {
+      kind: "binary";
+      op: FormulaBinaryOp;
+      left: FormulaNode;
+      right: FormulaNode;
+    }
+  | { kind: "call"; name: string; args: FormulaNode[] };
+
+/**
+ * Static type of an expression. `any` is a column without a known type
+ * (client mode); the JS back end decides per value how to read it.
+ */
+export type FormulaType = "number" | "text" | "boolean" | "any";
+
+export class FormulaError extends Error {
+  constructor(
+    message: string,
+    /** Offset in the source, when the error points at one. */
+    readonly position?: number,
+  ) {
+    super(message);
+    this.name = "FormulaError";
+  }
+}
+
+interface FormulaFunctionSpec {
+  min: number;
+  max: number;
+  /** `unify` takes the common type of the value arguments. */
+  returns: FormulaType | "unify";
+  signature: string;
+}
+
+export const FORMULA_FUNCTIONS = {
+  upper: { min: 1, max: 1, returns: "text", signature: "upper(text)" },
+  lower: { min: 1, max: 1, returns: "text", signature: "lower(text)" },
+  trim: { min: 1, max: 1, returns: "text", signature: "trim(text)" },
+  len: { min: 1, max: 1, returns: "number", signature: "len(text)" },
+  left: { min: 2, max: 2, returns: "text", signature: "left(text, count)" },
+  right: { min: 2, max: 2, returns: "text", signature: "right(text, count)" },
+  mid: {
+    min: 3,
+    max: 3,
+    returns: "text",
+    signature: "mid(text, start, count)",
+  },
+  replace: {
+    min: 3,
+    max: 3,
+    returns: "text",
+    signature: "replace(text, find, with)",
+  },
+  concat: {
+    min: 1,
+    max: Infinity,
+    returns: "text",
+    signature: "concat(value, …)",
+  },
+  contains: {
+    min: 2,
+    max: 2,
+    returns: "boolean",
+    signature: "contains(text, part)",
+  },
+  round: {
+    min: 1,
+    max: 2,
+    returns: "number",
+    signature: "round(number, digits?)",
+  },
+  abs: { min: 1, max: 1, returns: "number", signature: "abs(number)" },
+  floor: { min: 1, max: 1, returns: "number", signature: "floor(number)" },
+  ceil: { min: 1, max: 1, returns: "number", signature: "ceil(number)" },
+  min: {
+    min: 1,
+    max: Infinity,
+    returns: "number",
+    signature: "min(number, …)",
+  },
+  max: {
+    min: 1,
+    max: Infinity,
+    returns: "number",
+    signature: "max(number, …)",
+  },
+  if: {
+    min: 3,
+    max: 3,
+    returns: "unify",
+    signature: "if(condition, then, else)",
+  },
+  coalesce: {
+    min: 1,
+    max: Infinity,
+    returns: "unify",
+    signature: "coalesce(value, …)",
+  },
+  isblank: { min: 1, max: 1, returns: "boolean", signature: "isblank(value)" },
+  number: { min: 1, max: 1, returns: "number", signature: "number(value)" },
+  text: { min: 1, max: 1, returns: "text", signature: "text(value)" },
+} satisfies Record<string, FormulaFunctionSpec>;
+
+export type FormulaFunction = keyof typeof FORMULA_FUNCTIONS;
+
+const isFormulaFunction = (name: string): name is FormulaFunction =>
+  Object.hasOwn(FORMULA_FUNCTIONS, name);
+
+type Token =
+  | { kind: "number"; value: number; position: number }
+  | { kind: "string"; value: string; position: number }
+  | { kind: "name"; value: string; position: number }
+  | { kind: "column"; value: string; position: number }
+  | { kind: "op"; value: string; position: number }
+  | { kind: "end"; position: number };
+
+const NUMBER_TOKEN = /^(?:\d+(?:\.\d*)?|\.\d+)(?:e[+-]?\d+)?/i;
+const NAME_TOKEN = /^[a-z_][a-z0-9_]*/i;
+const OPERATOR_TOKEN = /^(?:<=|>=|<>|!=|[-+*/%&=<>(),])/;
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i]!;
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    const rest = source.slice(i);
+    const number = NUMBER_TOKEN.exec(rest);
+    if (number) {
+      tokens.push({ kind: "number", value: Number(number[0]), position: i });
+      i += number[0].length;
+      continue;
+    }
+    const name = NAME_TOKEN.exec(rest);
+    if (name) {
+      tokens.push({ kind: "name", value: name[0], position: i });
+      i += name[0].length;
+      continue;
+    }
+    if (char === '"' || char === "'" || char === "[") {
+      const close = char === "[" ? "]" : char;
+      let value = "";
+      let j = i + 1;
+      for (;;) {
+        if (j >= source.length) {
+          throw new FormulaError(
+            char === "[" ? "Unclosed [column name]" : "Unterminated string",
+            i,
+          );
+        }
+        if (source[j] === close) {
+          // A doubled closing character stands for itself.
+          if (source[j + 1] === close) {
+            value += close;
+            j += 2;
+            continue;
+          }
+          break;
+        }
+        value += source[j];
+        j++;
+      }
+      tokens.push({
+        kind: char === "[" ? "column" : "string",
+        value,
+        position: i,
+      });
+      i = j + 1;
+      continue;
+    }
+    const operator = OPERATOR_TOKEN.exec(rest);
+    if (operator) {
+      tokens.push({ kind: "op", value: operator[0], position: i });
+      i += operator[0].length;
+      continue;
+    }
+    throw new FormulaError(`Unexpected character ${char}`, i);
+  }
+  tokens.push({ kind: "end", position: source.length });
+  return tokens;
+}
+
+const COMPARE_OPS = new Set(["=", "<>", "!=", "<", "<=", ">", ">="]);
+const KEYWORDS = new Set(["and", "or", "not", "true", "false", "null"]);
+
+/** Parse a formula; a leading `=` (as typed in spreadsheets) is ignored. */
+export function parseFormula(source: string): FormulaNode {
+  const text = source.trim().replace(/^=/, "");
+  if (!text.trim()) throw new FormulaError("A formula is required");
+  const tokens = tokenize(text);
+  let index = 0;
+  const peek = () => tokens[index]!;
+  const isKeyword = (token: Token, keyword: string) =>
+    token.kind === "name" && token.value.toLowerCase() === keyword;
+  const isOp = (token: Token, op: string) =>
+    token.kind === "op" && token.value === op;
+  const describe = (token: Token) =>
+    token.kind === "end"
+      ? "end of formula"
+      : token.kind === "string"
+        ? "string"
+        : `${String(token.value)}`;
+  const expectOp = (op: string) => {
+    const token = peek();
+    if (!isOp(token, op)) {
+      throw new FormulaError(
+        `Expected ${op} but found ${describe(token)}`,
+        token.position,
+      );
+    }
+    index++;
+  };
+
+  const parseBinary = (
+    next: () => FormulaNode,
+    match: (token: Token) => FormulaBinaryOp | null,
+  ): FormulaNode => {
+    let left = next();
+    for (let op = match(peek()); op; op = match(peek())) {
+      index++;
+      left = { kind: "binary", op, left, right: next() };
+    }
+    return left;
+  };
+
+  const parseOr = (): FormulaNode =>
+    parseBinary(parseAnd, (token) => (isKeyword(token, "or") ? "or" : null));
+  const parseAnd = (): FormulaNode =>
+    parseBinary(parseNot, (token) => (isKeyword(token, "and") ? "and" : null));
+  const parseNot = (): FormulaNode => {
+    if (isKeyword(peek(), "not")) {
+      index++;
+      return { kind: "unary", op: "not", operand: parseNot() };
+    }
+    return parseCompare();
+  };
+  const parseCompare = (): FormulaNode => {
+    const left = parseConcat();
+    const token = peek();
+    if (token.kind !== "op" || !COMPARE_OPS.has(token.value)) return left;
+    index++;
+    const op = (token.value === "!=" ? "<>" : token.value) as FormulaBinaryOp;
+    const node: FormulaNode = {
+      kind: "binary",
+      op,
+      left,
+      right: parseConcat(),
+    };
+    const after = peek();
+    if (after.kind === "op" && COMPARE_OPS.has(after.value)) {
+      throw new FormulaError(
+        "Comparisons cannot be chained; combine them with and",
+        after.position,
+      );
+    }
+    return node;
+  };
+  const parseConcat = (): FormulaNode =>
+    parseBinary(parseSum, (token) => (isOp(token, "&") ? "&" : null));
+  const parseSum = (): FormulaNode =>
+    parseBinary(parseProduct, (token) =>
+      isOp(token, "+") ? "+" : isOp(token, "-") ? "-" : null,
+    );
+  const parseProduct = (): FormulaNode =>
+    parseBinary(parseUnary, (token) =>
+      token.kind === "op" && ["*", "/", "%"].includes(token.value)
+        ? (token.value as FormulaBinaryOp)
+        : null,
+    );
+  const parseUnary = (): FormulaNode => {
+    if (isOp(peek(), "-")) {
+      index++;
+      return { kind: "unary", op: "-", operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+  const parsePrimary = (): FormulaNode => {
+    const token = peek();
+    index++;
+    switch (token.kind) {
+      case "number":
+      case "string":
+        return { kind: "literal", value: token.value };
+      case "column":
+        return { kind: "column", name: token.value };
+      case "name": {
+        const lower = token.value.toLowerCase();
+        if (isOp(peek(), "(")) {
+          index++;
+          const args: FormulaNode[] = [];
+          if (!isOp(peek(), ")")) {
+            args.push(parseOr());
+            while (isOp(peek(), ",")) {
+              index++;
+              args.push(parseOr());
+            }
+          }
+          expectOp(")");
+          return { kind: "call", name: lower, args };
+        }
+        if (lower === "true" || lower === "false") {
+          return { kind: "literal", value: lower === "true" };
+        }
+        if (lower === "null") return { kind: "literal", value: null };
+        if (KEYWORDS.has(lower)) {
+          throw new FormulaError(`Unexpected ${lower}`, token.position);
+        }
+        return { kind: "column", name: token.value };
+      }
+      case "op":
+        if (token.value === "(") {
+          const inner = parseOr();
+          expectOp(")");
+          return inner;
+        }
+        break;
+      case "end":
+        break;
+    }
+    throw new FormulaError(`Unexpected ${describe(token)}`, token.position);
+  };
+
+  const node = parseOr();
+  const trailing = peek();
+  if (trailing.kind !== "end") {
+    throw new FormulaError(
+      `Unexpected ${describe(trailing)}`,
+      trailing.position,
+    );
+  }
+  return node;
+}
+
+/** Column names a formula mentions, as written. */
+export function formulaColumnNames(node: FormulaNode): string[] {
+  switch (node.kind) {
+    case "literal":
+      return [];
+    case "column":
+      return [node.name];
+    case "unary":
+      return formulaColumnNames(node.operand);
+    case "binary":
+      return [
+        ...formulaColumnNames(node.left),
+        ...formulaColumnNames(node.right),
+      ];
+    case "call":
+      return node.args.flatMap(formulaColumnNames);
+  }
+}
+
+/** A column a formula may refer to. */
+export interface FormulaColumn {
+  name: string;
+  /** DuckDB type; unknown types read as `any`. */
+  type?: string;
+  /** Set on computed columns, which formulas cannot use. */
+  formula?: string;
+}
+
+export function formulaTypeOf(type?: string): FormulaType {
+  if (!type) return "any";
+  const upper = type.toUpperCase();
+  if (upper === "BOOLEAN" || upper === "BOOL") return "boolean";
+  if (isNumericType(upper) && !upper.startsWith("INTERVAL")) return "number";
+  return "text";
+}
+
+export type BoundFormula =
+  | {
+      kind: "literal";
+      type: FormulaType;
+      value: number | string | boolean | null;
+    }
+  | { kind: "column"; type: FormulaType; index: number; name: string }
+  | { kind: "unary"; type: FormulaType; op: "-" | "not"; operand: BoundFormula }
+  | {
+      kind: "binary";
+      type: FormulaType;
+      op: FormulaBinaryOp;
+      /** How comparisons read both sides; the result type otherwise. */
+      operandType: FormulaType;
+      left: BoundFormula;
+      right: BoundFormula;
+    }
+  | {
+      kind: "call";
+      type: FormulaType;
+      name: FormulaFunction;
+      args: BoundFormula[];
+    };
+
+const isNullLiteral = (node: BoundFormula) =>
+  node.kind === "literal" && node.value === null;
+
+/**
+ * Common type of values that end up in the same place (`if` branches,
+ * `coalesce` arguments). Mixed known types meet as text.
+ */
+export function unifyFormulaTypes(nodes: BoundFormula[]): FormulaType {
+  const types = new Set(
+    nodes.filter((node) => !isNullLiteral(node)).map((node) => node.type),
+  );
+  if (types.size === 0) return "any";
+  if (types.size === 1) return [...types][0]!;
+  return types.has("any") ? "any" : "text";
+}
+
+const comparisonType = (left: FormulaType, right: FormulaType) => {
+  if (left === "number" || right === "number") return "number";
+  if (left === "boolean" || right === "boolean") return "boolean";
+  if (left === "any" && right === "any") return "any";
+  return "text";
+};
+
+const findColumn = (columns: FormulaColumn[], name: string) => {
+  const exact = columns.findIndex((column) => column.name === name);
+  if (exact >= 0) return exact;
+  const lower = name.toLowerCase();
+  return columns.findIndex((column) => column.name.toLowerCase() === lower);
+};
+
+/** Resolve columns and functions and infer types. */
+export function bindFormula(
+  node: FormulaNode,
+  columns: FormulaColumn[],
+): BoundFormula {
+  const bind = (current: FormulaNode): BoundFormula => {
+    switch (current.kind) {
+      case "literal": {
+        const { value } = current;
+        const type: FormulaType =
+          value === null
+            ? "any"
+            : typeof value === "number"
+              ? "number"
+              : typeof value === "boolean"
+                ? "boolean"
+                : "text";
+        return { kind: "literal", type, value };
+      }
+      case "column": {
+        const index = findColumn(columns, current.name);
+        const column = columns[index];
+        if (!column) {
+          throw new FormulaError(`Unknown column ${current.name}`);
+        }
+        if (column.formula !== undefined) {
+          throw new FormulaError(
+            `Formulas cannot use other computed columns (${column.name})`,
+          );
+        }
+        return {
+          kind: "column",
+          type: formulaTypeOf(column.type),
+          index,
+          name: column.name,
+        };
+      }
+      case "unary": {
+        const operand = bind(current.operand);
+        return {
+          kind: "unary",
+          op: current.op,
+          operand,
+          type: current.op === "not" ? "boolean" : "number",
+        };
+      }
+      case "binary": {
+        const left = bind(current.left);
+        const right = bind(current.right);
+        const { op } = current;
+        if (op === "and" || op === "or") {
+          return {
+            ...current,
+            left,
+            right,
+            type: "boolean",
+            operandType: "boolean",
+          };
+        }
+        if (op === "&") {
+          return { ...current, left, right, type: "text", operandType: "text" };
+        }
+        if (["=", "<>", "<", "<=", ">", ">="].includes(op)) {
+          return {
+            ...current,
+            left,
+            right,
+            type: "boolean",
+            operandType: comparisonType(left.type, right.type),
+          };
+        }
+        return {
+          ...current,
+          left,
+          right,
+          type: "number",
+          operandType: "number",
+        };
+      }
+      case "call": {
+        if (!isFormulaFunction(current.name)) {
+          throw new FormulaError(`Unknown function ${current.name}`);
+        }
+        const spec: FormulaFunctionSpec = FORMULA_FUNCTIONS[current.name];
+        const count = current.args.length;
+        if (count < spec.min || count > spec.max) {
+          throw new FormulaError(
+            `Wrong number of arguments: ${spec.signature}`,
+          );
+        }
+        const args = current.args.map(bind);
+        const type =
+          spec.returns === "unify"
+            ? unifyFormulaTypes(current.name === "if" ? args.slice(1) : args)
+            : spec.returns;
+        return { kind: "call", name: current.name, args, type };
+      }
+    }
+  };
+  return bind(node);
+}
+
+/** Parse and bind in one step. */
+export function prepareFormula(
+  source: string,
+  columns: FormulaColumn[],
+): BoundFormula {
+  return bindFormula(parseFormula(source), columns);
+}
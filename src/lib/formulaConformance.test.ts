@@ -0,0 +1,119 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { runQuery } from "@/lib/duckdb";
+import type { FormulaColumn } from "./formulaAst";
+import { compileFormula } from "./formulaEval";
+import { formulaToSQL } from "./formulaSQL";
+
+// A computed column must read the same whether it is evaluated in JS
+// (client mode) or compiled into the DuckDB query.
+const TABLE = `formula_conformance_${Date.now()}`;
+
+const COLUMNS: FormulaColumn[] = [
+  { name: "name", type: "VARCHAR" },
+  { name: "price", type: "DOUBLE" },
+  { name: "qty", type: "INTEGER" },
+  { name: "flag", type: "BOOLEAN" },
+  { name: "code", type: "VARCHAR" },
+  { name: "day", type: "DATE" },
+  { name: "Unit Price", type: "DOUBLE" },
+];
+
+// Cells as the grid shows them; blanks are NULL in DuckDB.
+const ROWS = [
+  ["apple", "1.5", "3", "true", "007", "2024-03-05", "0.5"],
+  ["banana", "2.5", "2", "false", "", "2023-12-31", "1.25"],
+  ["fig", "", "10", "", "12a", "", "3"],
+  ["Zoë", "-0.25", "0", "true", "yes", "2024-01-01", ""],
+  ["it's", "100", "-4", "false", "-3.5e2", "2024-02-29", "-2"],
+];
+
+const FORMULAS = [
+  "price * qty",
+  "[Unit Price] * qty + 1",
+  "price / 0",
+  "qty / 4",
+  "qty % 3",
+  "-price",
+  "10 - 2 * 3",
+  "(10 - 2) * 3",
+  "upper(left(name, 3))",
+  "lower(name) & ' #' & qty",
+  "concat(name, null, qty, price)",
+  "len(name)",
+  "right(name, 2)",
+  "left(name, -1)",
+  "mid(name, 2, 3)",
+  "replace(name, 'a', 'o')",
+  "contains(lower(name), 'an')",
+  "round(price * 1.15, 1)",
+  "round(qty / 4)",
+  "abs(qty)",
+  "floor(price)",
+  "ceil(price)",
+  "min(price, qty)",
+  "max(price, qty, 2)",
+  'if(qty > 2, "many", "few")',
+  "if(flag, price, qty)",
+  "if(flag, price, name)",
+  "coalesce(code, name)",
+  "coalesce(price, qty, 0)",
+  "isblank(code)",
+  "number(code) + 1",
+  "text(price) & '!'",
+  "price > 2 and qty < 5",
+  "flag or qty > 5",
+  "not flag",
+  "code = '007'",
+  "number(code) = 7",
+  "name < 'c'",
+  "price >= 2.5",
+  "day > '2024-01-01'",
+  "day & ''",
+  "price + number('abc')",
+  "qty = 3",
+  "qty <> 3 or null",
+  "number(flag) + 1",
+  "text(flag)",
+  "flag = true",
+  "number(code)",
+  "if(code, 'on', 'off')",
+];
+
+function clientValues(formula: string): string[] {
+  const evaluate = compileFormula(formula, COLUMNS);
+  return ROWS.map((row) => evaluate(row));
+}
+
+async function sqlValues(formula: string): Promise<string[]> {
+  const rows = await runQuery<{ value: unknown }>(
+    `SELECT (${formulaToSQL(formula, COLUMNS)}) AS value FROM ${TABLE} ORDER BY id`,
+  );
+  return rows.map(({ value }) => (value == null ? "" : String(value)));
+}
+
+describe("formula conformance (client vs DuckDB)", () => {
+  beforeAll(async () => {
+    const definitions = COLUMNS.map(
+      (column) => `"${column.name}" ${column.type}`,
+    ).join(", ");
+    await runQuery(
+      `CREATE OR REPLACE TABLE ${TABLE} (id INTEGER, ${definitions})`,
+    );
+    for (const [id, row] of ROWS.entries()) {
+      await runQuery(
+        `INSERT INTO ${TABLE} VALUES (?, ${COLUMNS.map((c) => `CAST(? AS ${c.type})`).join(", ")})`,
+        [id, ...row.map((cell) => (cell === "" ? null : cell))],
+      );
+    }
+  });
+
+  afterAll(async () => {
+    await runQuery(`DROP TABLE IF EXISTS ${TABLE}`);
+  });
+
+  for (const formula of FORMULAS) {
+    test(formula, async () => {
+      expect(await sqlValues(formula)).toEqual(clientValues(formula));
+    });
+  }
+});
@@ -0,0 +1,345 @@
+import {
+  prepareFormula,
+  type BoundFormula,
+  type FormulaColumn,
+  type FormulaType,
+} from "./formulaAst";
+
+/**
+ * JS back end for the formula AST; mirrors `compileFormulaToSQL`. Values
+ * follow SQL rules: blank cells are null, nulls propagate through
+ * operators and functions (`concat` and `&` skip them), division by zero
+ * is null and `and`/`or` use three-valued logic.
+ */
+export type FormulaValue = number | string | boolean | null;
+
+export type FormulaEvaluator = (
+  row: ReadonlyArray<string | undefined>,
+) => string;
+
+// What DuckDB's TRY_CAST accepts, give or take `inf`/`nan`.
+const NUMBER_TEXT = /^[+-]?(?:\d+(?:\.\d*)?|\.\d+)(?:e[+-]?\d+)?$/i;
+const TRUE_WORDS = new Set(["true", "t", "yes", "y", "1"]);
+const FALSE_WORDS = new Set(["false", "f", "no", "n", "0"]);
+
+const toNumber = (value: FormulaValue): number | null => {
+  if (value === null) return null;
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  const text = value.trim();
+  return NUMBER_TEXT.test(text) ? Number(text) : null;
+};
+
+const toText = (value: FormulaValue): string | null => {
+  if (value === null) return null;
+  if (typeof value === "number")
+    return Number.isFinite(value) ? String(value) : null;
+  if (typeof value === "boolean") return value ? "true" : "false";
+  return value;
+};
+
+const toBoolean = (value: FormulaValue): boolean | null => {
+  if (value === null) return null;
+  if (typeof value === "boolean") return value;
+  if (typeof value === "number") return value !== 0;
+  const word = value.trim().toLowerCase();
+  if (TRUE_WORDS.has(word)) return true;
+  if (FALSE_WORDS.has(word)) return false;
+  return null;
+};
+
+const coerce = (value: FormulaValue, type: FormulaType): FormulaValue => {
+  switch (type) {
+    case "number":
+      return toNumber(value);
+    case "text":
+      return toText(value);
+    case "boolean":
+      return toBoolean(value);
+    case "any":
+      return value;
+  }
+};
+
+/** Round half away from zero, like DuckDB's `round` and integer casts. */
+const roundHalfAway = (value: number, digits = 0) => {
+  const factor = 10 ** digits;
+  const rounded = Math.round(Math.abs(value) * factor) / factor;
+  return value < 0 ? -rounded : rounded;
+};
+
+const chars = (text: string) => Array.from(text);
+
+const compare = (
+  left: FormulaValue,
+  right: FormulaValue,
+  type: FormulaType,
+): number | null => {
+  let mode = type;
+  if (mode === "any") {
+    // Untyped columns compare as numbers when both sides read as numbers.
+    mode =
+      toNumber(left) !== null && toNumber(right) !== null ? "number" : "text";
+  }
+  if (mode === "number") {
+    const a = toNumber(left);
+    const b = toNumber(right);
+    return a === null || b === null ? null : a - b;
+  }
+  if (mode === "boolean") {
+    const a = toBoolean(left);
+    const b = toBoolean(right);
+    return a === null || b === null ? null : Number(a) - Number(b);
+  }
+  const a = toText(left);
+  const b = toText(right);
+  if (a === null || b === null) return null;
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+export function evaluateFormula(
+  node: BoundFormula,
+  row: ReadonlyArray<string | undefined>,
+): FormulaValue {
+  const evaluate = (current: BoundFormula): FormulaValue => {
+    switch (current.kind) {
+      case "literal":
+        return current.value;
+      case "column": {
+        const cell = row[current.index];
+        // Typed columns read as their type; untyped ones stay text.
+        return cell === undefined || cell === ""
+          ? null
+          : coerce(cell, current.type);
+      }
+      case "unary": {
+        const operand = evaluate(current.operand);
+        if (current.op === "not") {
+          const value = toBoolean(operand);
+          return value === null ? null : !value;
+        }
+        const value = toNumber(operand);
+        return value === null ? null : -value;
+      }
+      case "binary":
+        return evaluateBinary(current);
+      case "call":
+        return evaluateCall(current);
+    }
+  };
+
+  const evaluateBinary = (
+    node: Extract<BoundFormula, { kind: "binary" }>,
+  ): FormulaValue => {
+    const left = evaluate(node.left);
+    const right = evaluate(node.right);
+    switch (node.op) {
+      case "and": {
+        const a = toBoolean(left);
+        const b = toBoolean(right);
+        if (a === false || b === false) return false;
+        return a === null || b === null ? null : true;
+      }
+      case "or": {
+        const a = toBoolean(left);
+        const b = toBoolean(right);
+        if (a === true || b === true) return true;
+        return a === null || b === null ? null : false;
+      }
+      case "&":
+        return (toText(left) ?? "") + (toText(right) ?? "");
+      case "=":
+      case "<>":
+      case "<":
+      case "<=":
+      case ">":
+      case ">=": {
+        const order = compare(left, right, node.operandType);
+        if (order === null) return null;
+        if (node.op === "=") return order === 0;
+        if (node.op === "<>") return order !== 0;
+        if (node.op === "<") return order < 0;
+        if (node.op === "<=") return order <= 0;
+        if (node.op === ">") return order > 0;
+        return order >= 0;
+      }
+      default: {
+        const a = toNumber(left);
+        const b = toNumber(right);
+        if (a === null || b === null) return null;
+        switch (node.op) {
+          case "+":
+            return a + b;
+          case "-":
+            return a - b;
+          case "*":
+            return a * b;
+          case "/":
+            return b === 0 ? null : a / b;
+          case "%":
+            return b === 0 ? null : a % b;
+        }
+      }
+    }
+  };
+
+  const evaluateCall = (
+    node: Extract<BoundFormula, { kind: "call" }>,
+  ): FormulaValue => {
+    const args = node.args.map(evaluate);
+    const text = (index: number) => toText(args[index] ?? null);
+    const number = (index: number) => toNumber(args[index] ?? null);
+    switch (node.name) {
+      case "upper":
+        return text(0)?.toUpperCase() ?? null;
+      case "lower":
+        return text(0)?.toLowerCase() ?? null;
+      case "trim":
+        return text(0)?.trim() ?? null;
+      case "len": {
+        const value = text(0);
+        return value === null ? null : chars(value).length;
+      }
+      case "left":
+      case "right": {
+        const value = text(0);
+        const count = number(1);
+        if (value === null || count === null) return null;
+        const all = chars(value);
+        const n = roundHalfAway(count);
+        // Negative counts drop characters from the other end.
+        const kept = n < 0 ? Math.max(0, all.length + n) : n;
+        return node.name === "left"
+          ? all.slice(0, kept).join("")
+          : all.slice(Math.max(0, all.length - kept)).join("");
+      }
+      case "mid": {
+        const value = text(0);
+        const start = number(1);
+        const count = number(2);
+        if (value === null || start === null || count === null) return null;
+        const begin = roundHalfAway(start) - 1;
+        const end = begin + roundHalfAway(count);
+        return chars(value)
+          .slice(Math.max(0, begin), Math.max(0, end))
+          .join("");
+      }
+      case "replace": {
+        const value = text(0);
+        const find = text(1);
+        const replacement = text(2);
+        if (value === null || find === null || replacement === null) {
+          return null;
+        }
+        return find === "" ? value : value.split(find).join(replacement);
+      }
+      case "concat":
+        return args.map((arg) => toText(arg) ?? "").join("");
+      case "contains": {
+        const value = text(0);
+        const part = text(1);
+        return value === null || part === null ? null : value.includes(part);
+      }
+      case "round": {
+        const value = number(0);
+        const digits = args.length > 1 ? number(1) : 0;
+        if (value === null || digits === null) return null;
+        return roundHalfAway(value, roundHalfAway(digits));
+      }
+      case "abs": {
+        const value = number(0);
+        return value === null ? null : Math.abs(value);
+      }
+      case "floor": {
+        const value = number(0);
+        return value === null ? null : Math.floor(value);
+      }
+      case "ceil": {
+        const value = number(0);
+        return value === null ? null : Math.ceil(value);
+      }
+      case "min":
+      case "max": {
+        const values = args
+          .map(toNumber)
+          .filter((value): value is number => value !== null);
+        if (values.length === 0) return null;
+        return node.name === "min" ? Math.min(...values) : Math.max(...values);
+      }
+      case "if": {
+        const chosen = toBoolean(args[0] ?? null) === true ? args[1] : args[2];
+        return coerce(chosen ?? null, node.type);
+      }
+      case "coalesce": {
+        const found = args.find((arg) => arg !== null);
+        return found === undefined ? null : coerce(found, node.type);
+      }
+      case "isblank": {
+        const value = args[0] ?? null;
+        return value === null || value === "";
+      }
+      case "number":
+        return number(0);
+      case "text":
+        return text(0);
+    }
+  };
+
+  return evaluate(node);
+}
+
+/** Cell text for a formula result; null and non-finite numbers are blank. */
+export function formatFormulaValue(value: FormulaValue): string {
+  return toText(value) ?? "";
+}
+
+/**
+ * Compile a formula against `columns` (throws `FormulaError`) into a
+ * function from a row of cells to the computed cell.
+ */
+export function compileFormula(
+  source: string,
+  columns: FormulaColumn[],
+): FormulaEvaluator {
+  const bound = prepareFormula(source, columns);
+  return (row) => formatFormulaValue(evaluateFormula(bound, row));
+}
+
+/** A computed column's index and evaluator. */
+export interface ComputedColumn {
+  index: number;
+  evaluate: FormulaEvaluator;
+}
+
+/**
+ * Evaluators for the computed columns among `columns`. A formula that no
+ * longer compiles (e.g. a column it read was renamed) yields blank cells,
+ * as it does in DuckDB mode.
+ */
+export function compileComputedColumns(
+  columns: FormulaColumn[],
+): ComputedColumn[] {
+  return columns.flatMap(({ formula }, index) => {
+    if (!formula) return [];
+    try {
+      return [{ index, evaluate: compileFormula(formula, columns) }];
+    } catch {
+      return [{ index, evaluate: () => "" }];
+    }
+  });
+}
+
+/** Fill a row's computed cells; returns a copy when any of them changed. */
+export function fillComputedCells(
+  row: string[],
+  computed: ComputedColumn[],
+): string[] {
+  let next = row;
+  for (const { index, evaluate } of computed) {
+    const value = evaluate(row);
+    if ((row[index] ?? "") === value) continue;
+    if (next === row) next = row.slice();
+    next[index] = value;
+  }
+  return next;
+}
@@ -0,0 +1,162 @@
+import { escapeIdentifier, escapeLiteral } from "./duckdb-utils";
+import {
+  prepareFormula,
+  type BoundFormula,
+  type FormulaColumn,
+  type FormulaType,
+} from "./formulaAst";
+
+/**
+ * SQL back end for the formula AST; mirrors `evaluateFormula`. Numbers are
+ * computed as DOUBLE like JS numbers, text that does not read as a number
+ * or boolean becomes NULL (`TRY_CAST`) and division by zero is NULL.
+ * Columns must carry their DuckDB types.
+ */
+export function compileFormulaToSQL(node: BoundFormula): string {
+  // Whole numbers print without DuckDB's trailing ".0", as in JS.
+  const numberText = (sql: string) =>
+    `(CASE WHEN ${sql} = trunc(${sql}) AND abs(${sql}) < 1e15 THEN CAST(CAST(${sql} AS BIGINT) AS VARCHAR) ELSE CAST(${sql} AS VARCHAR) END)`;
+
+  const asText = (current: BoundFormula): string => {
+    if (current.kind === "column") {
+      const ident = escapeIdentifier(current.name);
+      return current.type === "number"
+        ? numberText(`CAST(${ident} AS DOUBLE)`)
+        : `CAST(${ident} AS VARCHAR)`;
+    }
+    const sql = compile(current);
+    if (current.type === "text") return sql;
+    if (current.type === "number") return numberText(sql);
+    return `CAST(${sql} AS VARCHAR)`;
+  };
+
+  // Other types go through their text so dates and the like read as NULL.
+  const asNumber = (current: BoundFormula): string => {
+    if (current.type === "number") return compile(current);
+    if (current.type === "boolean")
+      return `CAST(${compile(current)} AS DOUBLE)`;
+    return `TRY_CAST(${asText(current)} AS DOUBLE)`;
+  };
+
+  const asBoolean = (current: BoundFormula): string => {
+    if (current.type === "boolean") return compile(current);
+    if (current.type === "number") return `(${compile(current)} <> 0)`;
+    return `TRY_CAST(${asText(current)} AS BOOLEAN)`;
+  };
+
+  const as = (current: BoundFormula, type: FormulaType): string => {
+    switch (type) {
+      case "number":
+        return asNumber(current);
+      case "text":
+        return asText(current);
+      case "boolean":
+        return asBoolean(current);
+      case "any":
+        return compile(current);
+    }
+  };
+
+  const integer = (current: BoundFormula) =>
+    `CAST(${asNumber(current)} AS BIGINT)`;
+
+  const compile = (current: BoundFormula): string => {
+    switch (current.kind) {
+      case "literal": {
+        const { value } = current;
+        if (value === null) return "NULL";
+        if (typeof value === "number") return `CAST(${value} AS DOUBLE)`;
+        if (typeof value === "boolean") return value ? "TRUE" : "FALSE";
+        return `'${escapeLiteral(value)}'`;
+      }
+      case "column":
+        return current.type === "number"
+          ? `CAST(${escapeIdentifier(current.name)} AS DOUBLE)`
+          : escapeIdentifier(current.name);
+      case "unary":
+        return current.op === "not"
+          ? `(NOT ${asBoolean(current.operand)})`
+          : `(-${asNumber(current.operand)})`;
+      case "binary": {
+        const { op, left, right, operandType } = current;
+        switch (op) {
+          case "and":
+          case "or":
+            return `(${asBoolean(left)} ${op.toUpperCase()} ${asBoolean(right)})`;
+          case "&":
+            return `concat(${asText(left)}, ${asText(right)})`;
+          case "=":
+          case "<>":
+          case "<":
+          case "<=":
+          case ">":
+          case ">=":
+            return `(${as(left, operandType)} ${op} ${as(right, operandType)})`;
+          case "/":
+          case "%":
+            return `(${asNumber(left)} ${op} NULLIF(${asNumber(right)}, 0))`;
+          default:
+            return `(${asNumber(left)} ${op} ${asNumber(right)})`;
+        }
+      }
+      case "call":
+        return compileCall(current);
+    }
+  };
+
+  const compileCall = (
+    current: Extract<BoundFormula, { kind: "call" }>,
+  ): string => {
+    const { args } = current;
+    const texts = () => args.map(asText).join(", ");
+    const numbers = () => args.map(asNumber).join(", ");
+    switch (current.name) {
+      case "upper":
+      case "lower":
+      case "trim":
+        return `${current.name}(${texts()})`;
+      case "len":
+        return `CAST(length(${asText(args[0]!)}) AS DOUBLE)`;
+      case "left":
+      case "right":
+        return `${current.name}(${asText(args[0]!)}, ${integer(args[1]!)})`;
+      case "mid":
+        return `substring(${asText(args[0]!)}, ${integer(args[1]!)}, ${integer(args[2]!)})`;
+      case "replace":
+        return `replace(${texts()})`;
+      case "concat":
+        return `concat(${texts()})`;
+      case "contains":
+        return `contains(${texts()})`;
+      case "round":
+        return args.length > 1
+          ? `round(${asNumber(args[0]!)}, CAST(${asNumber(args[1]!)} AS INTEGER))`
+          : `round(${asNumber(args[0]!)})`;
+      case "abs":
+      case "floor":
+      case "ceil":
+        return `${current.name}(${asNumber(args[0]!)})`;
+      case "min":
+        return `least(${numbers()})`;
+      case "max":
+        return `greatest(${numbers()})`;
+      case "if":
+        return `(CASE WHEN ${asBoolean(args[0]!)} THEN ${as(args[1]!, current.type)} ELSE ${as(args[2]!, current.type)} END)`;
+      case "coalesce":
+        return `coalesce(${args.map((arg) => as(arg, current.type)).join(", ")})`;
+      case "isblank":
+        return `(coalesce(${asText(args[0]!)}, '') = '')`;
+      case "number":
+        return asNumber(args[0]!);
+      case "text":
+        return asText(args[0]!);
+    }
+  };
+
+  return compile(node);
+}
+
+/** Compile a formula against a table's columns (throws `FormulaError`). */
+export function formulaToSQL(source: string, columns: FormulaColumn[]): string {
+  return compileFormulaToSQL(prepareFormula(source, columns));
+}
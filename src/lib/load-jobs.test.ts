@@ -0,0 +1,127 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { isLoadJobId, loadJobs, type LoadJobResult } from "./load-jobs";
+
+const result = (table: string, rowCount: number): LoadJobResult => ({
+  table,
+  columns: [{ name: "id", type: "BIGINT" }],
+  rowCount,
+});
+
+describe("loadJobs", () => {
+  afterEach(() => {
+    loadJobs.clear();
+    loadJobs.setTTL(10 * 60 * 1000);
+  });
+
+  test("runs a job through its states and keeps the results", async () => {
+    const seen: string[] = [];
+    const job = loadJobs.submit("job-1", async (context) => {
+      seen.push(loadJobs.get("job-1")!.state);
+      context.onBytes(5, 10);
+      context.onParse();
+      seen.push(loadJobs.get("job-1")!.state);
+      context.onResult(result("t1", 3));
+      return [result("t1", 3)];
+    });
+    expect(job.state).toBe("queued");
+    const outcome = await loadJobs.wait("job-1");
+    expect(seen).toEqual(["fetching", "parsing"]);
+    expect(outcome?.job).toMatchObject({
+      state: "done",
+      bytes: 5,
+      totalBytes: 10,
+      rows: 3,
+      tables: ["t1"],
+      results: [result("t1", 3)],
+    });
+  });
+
+  test("runs jobs one at a time and cancels queued ones", async () => {
+    let release = () => {};
+    const blocker = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    loadJobs.submit("first", async () => {
+      await blocker;
+      return [];
+    });
+    let secondRan = false;
+    loadJobs.submit("second", async () => {
+      secondRan = true;
+      return [];
+    });
+    expect(loadJobs.cancel("second")?.state).toBe("cancelled");
+    release();
+    await loadJobs.wait("second");
+    expect(secondRan).toBe(false);
+    expect(loadJobs.get("first")?.state).toBe("done");
+  });
+
+  test("receives uploads while other jobs run and queues only the load", async () => {
+    let release = () => {};
+    const blocker = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    loadJobs.submit("first", async () => {
+      await blocker;
+      return [];
+    });
+    const order: string[] = [];
+    const job = loadJobs.submit(
+      "upload",
+      async () => {
+        order.push("load");
+        return [];
+      },
+      async ({ onBytes }) => {
+        order.push("receive");
+        onBytes(4, 4);
+      },
+    );
+    expect(job.state).toBe("fetching");
+    await loadJobs.received("upload");
+    expect(loadJobs.get("upload")).toMatchObject({ state: "queued", bytes: 4 });
+    expect(order).toEqual(["receive"]);
+    release();
+    expect((await loadJobs.wait("upload"))?.job.state).toBe("done");
+    expect(order).toEqual(["receive", "load"]);
+
+    const failure = new Error("too large");
+    loadJobs.submit(
+      "rejected",
+      async () => [],
+      async () => {
+        throw failure;
+      },
+    );
+    const outcome = await loadJobs.wait("rejected");
+    expect(outcome?.job.state).toBe("failed");
+    expect(outcome?.failure).toBe(failure);
+  });
+
+  test("aborts a running job and reports failures", async () => {
+    loadJobs.submit("running", async ({ signal }) => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      signal.throwIfAborted();
+      return [];
+    });
+    await new Promise((resolve) => setTimeout(resolve, 1));
+    loadJobs.cancel("running");
+    expect((await loadJobs.wait("running"))?.job.state).toBe("cancelled");
+
+    const failure = new Error("boom");
+    loadJobs.submit("failing", async () => {
+      throw failure;
+    });
+    const outcome = await loadJobs.wait("failing");
+    expect(outcome?.job).toMatchObject({ state: "failed", error: "boom" });
+    expect(outcome?.failure).toBe(failure);
+  });
+
+  test("rejects duplicate and malformed ids", () => {
+    loadJobs.submit("dup", async () => []);
+    expect(() => loadJobs.submit("dup", async () => [])).toThrow();
+    expect(isLoadJobId(crypto.randomUUID())).toBe(true);
+    expect(isLoadJobId("../etc")).toBe(false);
+  });
+});
@@ -0,0 +1,257 @@
+import type { ByteProgress } from "./upload";
+
+export type LoadJobState =
+  | "queued"
+  | "fetching"
+  | "parsing"
+  | "done"
+  | "failed"
+  | "cancelled";
+
+export interface LoadJobResult {
+  table: string;
+  columns: { name: string; type: string }[];
+  rowCount: number;
+  sheet?: string;
+  workbookSheets?: string[];
+}
+
+export interface LoadJob {
+  id: string;
+  state: LoadJobState;
+  /** Bytes written to the temp dir so far. */
+  bytes: number;
+  /** From `Content-Length`, when the client or remote server sent one. */
+  totalBytes?: number;
+  /** Rows loaded into finished tables so far. */
+  rows: number;
+  tables: string[];
+  results?: LoadJobResult[];
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Hooks a running job's task reports through. */
+export interface LoadJobContext {
+  signal: AbortSignal;
+  onBytes: ByteProgress;
+  /** A source is on disk and DuckDB is reading it. */
+  onParse: () => void;
+  /** A table finished loading. */
+  onResult: (result: LoadJobResult) => void;
+}
+
+export type LoadJobTask = (context: LoadJobContext) => Promise<LoadJobResult[]>;
+
+/** Puts a job's upload on disk; runs as soon as the job is submitted. */
+export type LoadJobReceive = (
+  context: Pick<LoadJobContext, "signal" | "onBytes">,
+) => Promise<void>;
+
+interface JobEntry {
+  job: LoadJob;
+  controller: AbortController;
+  /** The thrown value of a failed job, for mapping to an HTTP status. */
+  failure?: unknown;
+  settled: Promise<void>;
+  /** Resolves once every byte is on disk (or the job ends). */
+  received: Promise<void>;
+  markReceived: () => void;
+}
+
+const JOB_ID_REGEX = /^[A-Za-z0-9_-]{1,64}$/;
+
+export function isLoadJobId(value: unknown): value is string {
+  return typeof value === "string" && JOB_ID_REGEX.test(value);
+}
+
+function isFinished(state: LoadJobState): boolean {
+  return state === "done" || state === "failed" || state === "cancelled";
+}
+
+/**
+ * Background `/api/db/load` jobs. Jobs run one at a time in submission order
+ * (DuckDB serializes the work anyway) so a queued job can still be cancelled
+ * before it touches the network. An upload is received first, outside the
+ * queue, so its request never waits on other loads; the job queues once the
+ * bytes are on disk. Finished jobs expire after `ttl`.
+ */
+class LoadJobRegistry {
+  private entries = new Map<string, JobEntry>();
+  private queue: Promise<void> = Promise.resolve();
+  private ttl = 10 * 60 * 1000;
+
+  has(id: string): boolean {
+    return this.entries.has(id);
+  }
+
+  submit(id: string, task: LoadJobTask, receive?: LoadJobReceive): LoadJob {
+    this.prune();
+    if (this.entries.has(id)) throw new Error(`Load job ${id} already exists`);
+    const now = Date.now();
+    let markReceived = () => {};
+    const received = new Promise<void>((resolve) => {
+      markReceived = resolve;
+    });
+    const entry: JobEntry = {
+      job: {
+        id,
+        state: "queued",
+        bytes: 0,
+        rows: 0,
+        tables: [],
+        createdAt: now,
+        updatedAt: now,
+      },
+      controller: new AbortController(),
+      settled: Promise.resolve(),
+      received,
+      markReceived,
+    };
+    this.entries.set(id, entry);
+    const receiving = receive
+      ? this.receive(entry, receive)
+      : Promise.resolve(true);
+    entry.settled = receiving.then((received) => {
+      if (!received) return;
+      const settled = this.queue.then(() => this.run(entry, task));
+      this.queue = settled;
+      return settled;
+    });
+    return { ...entry.job };
+  }
+
+  get(id: string): LoadJob | null {
+    this.prune();
+    const entry = this.entries.get(id);
+    return entry ? { ...entry.job, tables: [...entry.job.tables] } : null;
+  }
+
+  /**
+   * Abort a queued or running job; its task cleans up on the way out. A job
+   * whose DuckDB statement is running stays `parsing` until it ends.
+   */
+  cancel(id: string): LoadJob | null {
+    const entry = this.entries.get(id);
+    if (!entry) return null;
+    if (!isFinished(entry.job.state)) {
+      entry.controller.abort();
+      if (entry.job.state === "queued") this.finish(entry, "cancelled");
+    }
+    return this.get(id);
+  }
+
+  /** Wait for a job to finish; `failure` is what its task threw, if anything. */
+  async wait(id: string): Promise<{ job: LoadJob; failure?: unknown } | null> {
+    const entry = this.entries.get(id);
+    if (!entry) return null;
+    await entry.settled;
+    return { job: this.get(id) ?? entry.job, failure: entry.failure };
+  }
+
+  /** Resolves when the job has its bytes on disk, or has ended. */
+  async received(id: string): Promise<void> {
+    await this.entries.get(id)?.received;
+  }
+
+  clear(): void {
+    for (const entry of this.entries.values()) entry.controller.abort();
+    this.entries.clear();
+  }
+
+  setTTL(ms: number): void {
+    this.ttl = ms;
+  }
+
+  private update(entry: JobEntry, patch: Partial<LoadJob>): void {
+    Object.assign(entry.job, patch, { updatedAt: Date.now() });
+  }
+
+  private finish(
+    entry: JobEntry,
+    state: LoadJobState,
+    patch: Partial<LoadJob> = {},
+  ): void {
+    this.update(entry, { ...patch, state });
+    entry.markReceived();
+  }
+
+  private fail(entry: JobEntry, error: unknown): void {
+    if (entry.controller.signal.aborted) {
+      this.finish(entry, "cancelled");
+      return;
+    }
+    entry.failure = error;
+    this.finish(entry, "failed", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  /** Whether the upload arrived and the job should queue for DuckDB. */
+  private async receive(
+    entry: JobEntry,
+    receive: LoadJobReceive,
+  ): Promise<boolean> {
+    const { job, controller } = entry;
+    this.update(entry, { state: "fetching" });
+    try {
+      await receive({
+        signal: controller.signal,
+        onBytes: (bytes, totalBytes) =>
+          this.update(entry, {
+            bytes,
+            totalBytes: totalBytes ?? job.totalBytes,
+          }),
+      });
+      controller.signal.throwIfAborted();
+    } catch (error) {
+      this.fail(entry, error);
+      return false;
+    }
+    this.update(entry, { state: "queued" });
+    entry.markReceived();
+    return true;
+  }
+
+  private async run(entry: JobEntry, task: LoadJobTask): Promise<void> {
+    const { job, controller } = entry;
+    if (isFinished(job.state)) return;
+    this.update(entry, { state: "fetching" });
+    const context: LoadJobContext = {
+      signal: controller.signal,
+      onBytes: (bytes, totalBytes) =>
+        this.update(entry, { bytes, totalBytes: totalBytes ?? job.totalBytes }),
+      onParse: () => {
+        this.update(entry, { state: "parsing" });
+        entry.markReceived();
+      },
+      onResult: (result) =>
+        this.update(entry, {
+          rows: job.rows + result.rowCount,
+          tables: [...job.tables, result.table],
+        }),
+    };
+    try {
+      const results = await task(context);
+      if (controller.signal.aborted) {
+        this.finish(entry, "cancelled");
+      } else {
+        this.finish(entry, "done", { results });
+      }
+    } catch (error) {
+      this.fail(entry, error);
+    }
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.ttl;
+    for (const [id, entry] of this.entries) {
+      if (isFinished(entry.job.state) && entry.job.updatedAt < cutoff) {
+        this.entries.delete(id);
+      }
+    }
+  }
+}
+
+export const loadJobs = new LoadJobRegistry();
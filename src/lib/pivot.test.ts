@@ -0,0 +1,139 @@
+import { describe, expect, test } from "bun:test";
+import {
+  computePivot,
+  parsePivotSpec,
+  pivotCellKeys,
+  pivotTableRows,
+  type PivotSpec,
+} from "./pivot";
+
+const COLUMNS = ["region", "month", "product", "amount"];
+const ROWS = [
+  ["North", "2024-02", "tea", "10"],
+  ["North", "2024-01", "tea", "5"],
+  ["South", "2024-01", "coffee", "7"],
+  ["North", "2024-01", "coffee", "n/a"],
+  ["", "2024-02", "tea", "1"],
+];
+
+describe("parsePivotSpec", () => {
+  test("checks fields and aggregates against the table", () => {
+    const spec = {
+      rows: ["region"],
+      values: [{ column: "amount", aggregate: "sum" }],
+    };
+    expect(parsePivotSpec(spec, COLUMNS)).toEqual({
+      rows: ["region"],
+      columns: [],
+      values: [{ column: "amount", aggregate: "sum" }],
+    });
+    expect(() => parsePivotSpec({ ...spec, rows: ["nope"] }, COLUMNS)).toThrow(
+      "Unknown column nope",
+    );
+    expect(() =>
+      parsePivotSpec({ ...spec, columns: ["region"] }, COLUMNS),
+    ).toThrow(/only group the pivot once/);
+    expect(() => parsePivotSpec({ rows: ["region"] }, COLUMNS)).toThrow(
+      /at least one value/,
+    );
+    expect(() =>
+      parsePivotSpec(
+        { values: [{ column: "amount", aggregate: "median" }] },
+        COLUMNS,
+      ),
+    ).toThrow(/aggregate must be one of/);
+  });
+});
+
+describe("computePivot", () => {
+  const spec: PivotSpec = {
+    rows: ["region", "product"],
+    columns: ["month"],
+    values: [
+      { column: "amount", aggregate: "sum" },
+      { column: "amount", aggregate: "count" },
+    ],
+  };
+
+  test("groups rows with subtotals after each group and a grand total", () => {
+    const result = computePivot(spec, COLUMNS, ROWS);
+    expect(result.columnKeys).toEqual([["2024-01"], ["2024-02"]]);
+    expect(result.rows.map((row) => row.key)).toEqual([
+      ["North", "coffee"],
+      ["North", "tea"],
+      ["North"],
+      ["South", "coffee"],
+      ["South"],
+      ["", "tea"],
+      [""],
+      [],
+    ]);
+    const north = result.rows[2]!;
+    expect(north.subtotal).toBe(true);
+    // 2024-01 sum and count, 2024-02 sum and count, then the row totals.
+    expect(north.cells).toEqual([5, 2, 10, 1, 15, 3]);
+    expect(result.rows[0]!.cells).toEqual([null, 1, null, null, null, 1]);
+    expect(result.rows.at(-1)!.cells).toEqual([12, 3, 11, 2, 23, 5]);
+  });
+
+  test("lays the pivot out as a table and maps cells back to their keys", () => {
+    const result = computePivot(spec, COLUMNS, ROWS);
+    const table = pivotTableRows(result);
+    expect(table.columns).toEqual([
+      "region",
+      "product",
+      "2024-01 · Sum of amount",
+      "2024-01 · Count of amount",
+      "2024-02 · Sum of amount",
+      "2024-02 · Count of amount",
+      "Total · Sum of amount",
+      "Total · Count of amount",
+    ]);
+    expect(table.rows[2]).toEqual([
+      "North",
+      "Total",
+      "5",
+      "2",
+      "10",
+      "1",
+      "15",
+      "3",
+    ]);
+    expect(table.rows[5]!.slice(0, 2)).toEqual(["(blank)", "tea"]);
+    expect(table.rows.at(-1)!.slice(0, 2)).toEqual(["Grand total", ""]);
+
+    expect(pivotCellKeys(result, 1, 4)).toEqual([
+      { column: "region", value: "North" },
+      { column: "product", value: "tea" },
+      { column: "month", value: "2024-02" },
+    ]);
+    expect(pivotCellKeys(result, 2, 6)).toEqual([
+      { column: "region", value: "North" },
+    ]);
+    expect(pivotCellKeys(result, 7, 0)).toEqual([]);
+  });
+
+  test("aggregates the whole table without row or column fields", () => {
+    const result = computePivot(
+      {
+        rows: [],
+        columns: [],
+        values: [
+          { column: "amount", aggregate: "avg" },
+          { column: "product", aggregate: "countDistinct" },
+          { column: "amount", aggregate: "max" },
+        ],
+      },
+      COLUMNS,
+      ROWS,
+    );
+    expect(result.rows).toEqual([
+      { key: [], subtotal: false, cells: [23 / 4, 2, 10] },
+    ]);
+    expect(pivotTableRows(result).columns).toEqual([
+      "Average of amount",
+      "Distinct count of product",
+      "Max of amount",
+    ]);
+  });
+});
@@ -0,0 +1,408 @@
+import { numericCellValue } from "./selection";
+
+/**
+ * A pivot: rows grouped by the `rows` fields, spread across one column per
+ * combination of the `columns` fields, with each `values` aggregate in every
+ * cell. DuckDB tables run these as `GROUP BY GROUPING SETS` (`pivotTable`);
+ * client mode aggregates the in-memory rows in a worker with
+ * `computePivot`. Both hand their groups to `assemblePivot`, so subtotals
+ * and ordering match.
+ */
+export interface PivotSpec {
+  rows: string[];
+  columns: string[];
+  values: PivotValue[];
+}
+
+export interface PivotValue {
+  column: string;
+  aggregate: PivotAggregate;
+}
+
+/**
+ * `count` and `countDistinct` count non-empty cells; the others cover the
+ * cells that read as numbers (`numericCellValue`).
+ */
+export type PivotAggregate =
+  | "count"
+  | "countDistinct"
+  | "sum"
+  | "avg"
+  | "min"
+  | "max";
+
+export const PIVOT_AGGREGATES: Record<PivotAggregate, string> = {
+  count: "Count",
+  countDistinct: "Distinct count",
+  sum: "Sum",
+  avg: "Average",
+  min: "Min",
+  max: "Max",
+};
+
+export class PivotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PivotError";
+  }
+}
+
+/** Limits that keep a pivot readable (and its queries bounded). */
+export const MAX_PIVOT_FIELDS = 6;
+export const MAX_PIVOT_VALUES = 8;
+export const MAX_PIVOT_ROW_KEYS = 10000;
+export const MAX_PIVOT_COLUMN_KEYS = 200;
+
+/**
+ * One aggregated group: the first `rowKey.length` row fields, and every
+ * column field (`columnKey`) or none (null, the row's total). Keys are cell
+ * text, blank for empty cells.
+ */
+export interface PivotGroup {
+  rowKey: string[];
+  columnKey: string[] | null;
+  values: Array<number | null>;
+}
+
+export interface PivotRow {
+  key: string[];
+  /** Subtotal rows have a shorter key; the grand total has none. */
+  subtotal: boolean;
+  /** Per column key, one cell per value; then one row total per value. */
+  cells: Array<number | null>;
+}
+
+export interface PivotResult {
+  spec: PivotSpec;
+  columnKeys: string[][];
+  rows: PivotRow[];
+}
+
+const KINDS = new Set(Object.keys(PIVOT_AGGREGATES));
+
+/** Validate a pivot from a request body against the table's columns. */
+export function parsePivotSpec(
+  value: unknown,
+  columnNames: string[],
+): PivotSpec {
+  const raw = (value ?? {}) as Record<string, unknown>;
+  const known = new Set(columnNames);
+  const fields = (list: unknown, label: string) => {
+    if (list === undefined) return [];
+    if (!Array.isArray(list) || list.some((f) => typeof f !== "string")) {
+      throw new PivotError(`${label} must be a list of column names`);
+    }
+    if (list.length > MAX_PIVOT_FIELDS) {
+      throw new PivotError(`At most ${MAX_PIVOT_FIELDS} ${label} fields`);
+    }
+    for (const field of list as string[]) {
+      if (!known.has(field)) throw new PivotError(`Unknown column ${field}`);
+    }
+    return list as string[];
+  };
+  const rows = fields(raw.rows, "rows");
+  const columns = fields(raw.columns, "columns");
+  const grouped = [...rows, ...columns];
+  if (new Set(grouped).size !== grouped.length) {
+    throw new PivotError("A column can only group the pivot once");
+  }
+
+  if (!Array.isArray(raw.values) || raw.values.length === 0) {
+    throw new PivotError("Add at least one value to aggregate");
+  }
+  if (raw.values.length > MAX_PIVOT_VALUES) {
+    throw new PivotError(`At most ${MAX_PIVOT_VALUES} values`);
+  }
+  const values = raw.values.map((entry: unknown): PivotValue => {
+    const { column, aggregate } = (entry ?? {}) as Record<string, unknown>;
+    if (typeof column !== "string" || !known.has(column)) {
+      throw new PivotError(`Unknown column ${String(column)}`);
+    }
+    if (typeof aggregate !== "string" || !KINDS.has(aggregate)) {
+      throw new PivotError(
+        `aggregate must be one of ${Object.keys(PIVOT_AGGREGATES).join(", ")}`,
+      );
+    }
+    return { column, aggregate: aggregate as PivotAggregate };
+  });
+  return { rows, columns, values };
+}
+
+/** "Sum of amount". */
+export const pivotValueLabel = (value: PivotValue) =>
+  `${PIVOT_AGGREGATES[value.aggregate]} of ${value.column}`;
+
+const collator =
+  typeof Intl !== "undefined" && typeof Intl.Collator === "function"
+    ? new Intl.Collator(undefined, { numeric: true, sensitivity: "base" })
+    : null;
+
+/** Numbers in numeric order, then text; blank keys last. */
+function compareKeyPart(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a === "") return 1;
+  if (b === "") return -1;
+  const x = numericCellValue(a);
+  const y = numericCellValue(b);
+  if (x !== null && y !== null) return x - y || (a < b ? -1 : 1);
+  if (x !== null) return -1;
+  if (y !== null) return 1;
+  return (
+    (collator ? collator.compare(a, b) : a.localeCompare(b)) || (a < b ? -1 : 1)
+  );
+}
+
+export function comparePivotKeys(a: string[], b: string[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const order = compareKeyPart(a[i]!, b[i]!);
+    if (order !== 0) return order;
+  }
+  return a.length - b.length;
+}
+
+const groupId = (rowKey: string[], columnKey: string[] | null) =>
+  JSON.stringify([rowKey, columnKey]);
+
+/**
+ * Lay groups out as a pivot: leaf rows in key order, each closing group
+ * followed by its subtotal, and the grand total last. Missing cells are
+ * null.
+ */
+export function assemblePivot(
+  spec: PivotSpec,
+  groups: PivotGroup[],
+): PivotResult {
+  const depth = spec.rows.length;
+  const byId = new Map<string, PivotGroup>();
+  const columnKeys = new Map<string, string[]>();
+  const leafKeys = new Map<string, string[]>();
+  for (const group of groups) {
+    byId.set(groupId(group.rowKey, group.columnKey), group);
+    if (group.columnKey && spec.columns.length > 0) {
+      columnKeys.set(JSON.stringify(group.columnKey), group.columnKey);
+    }
+    if (group.rowKey.length === depth) {
+      leafKeys.set(JSON.stringify(group.rowKey), group.rowKey);
+    }
+  }
+  const sortedColumns = Array.from(columnKeys.values()).sort(comparePivotKeys);
+  const width = spec.values.length;
+
+  const rowFor = (key: string[]): PivotRow => {
+    const cells: Array<number | null> = [];
+    for (const columnKey of sortedColumns) {
+      const group = byId.get(groupId(key, columnKey));
+      for (let v = 0; v < width; v++) cells.push(group?.values[v] ?? null);
+    }
+    const total = byId.get(groupId(key, null));
+    for (let v = 0; v < width; v++) cells.push(total?.values[v] ?? null);
+    return { key, subtotal: key.length < depth, cells };
+  };
+
+  // Without row fields the grand total is the only row.
+  if (depth === 0) {
+    return { spec, columnKeys: sortedColumns, rows: [rowFor([])] };
+  }
+  const rows: PivotRow[] = [];
+  const leaves = Array.from(leafKeys.values()).sort(comparePivotKeys);
+  leaves.forEach((key, index) => {
+    rows.push(rowFor(key));
+    const next = leaves[index + 1];
+    // Close every group the next leaf does not share, innermost first.
+    for (let level = depth - 1; level >= 1; level--) {
+      const prefix = key.slice(0, level);
+      if (next && comparePivotKeys(prefix, next.slice(0, level)) === 0) break;
+      rows.push(rowFor(prefix));
+    }
+  });
+  if (leaves.length > 0) rows.push(rowFor([]));
+  return { spec, columnKeys: sortedColumns, rows };
+}
+
+class ValueAccumulator {
+  count = 0;
+  distinct = new Set<string>();
+  numbers = 0;
+  sum = 0;
+  min: number | null = null;
+  max: number | null = null;
+
+  constructor(private readonly aggregate: PivotAggregate) {}
+
+  add(cell: string | undefined): void {
+    if (cell == null || cell === "") return;
+    this.count++;
+    if (this.aggregate === "countDistinct") {
+      this.distinct.add(cell);
+      return;
+    }
+    const n = numericCellValue(cell);
+    if (n === null) return;
+    this.numbers++;
+    this.sum += n;
+    if (this.min === null || n < this.min) this.min = n;
+    if (this.max === null || n > this.max) this.max = n;
+  }
+
+  result(): number | null {
+    switch (this.aggregate) {
+      case "count":
+        return this.count;
+      case "countDistinct":
+        return this.distinct.size;
+      case "sum":
+        return this.numbers > 0 ? this.sum : null;
+      case "avg":
+        return this.numbers > 0 ? this.sum / this.numbers : null;
+      case "min":
+        return this.min;
+      case "max":
+        return this.max;
+    }
+  }
+}
+
+/** Aggregate in-memory rows whose cells follow `columnNames`. */
+export function computePivot(
+  spec: PivotSpec,
+  columnNames: string[],
+  rows: ReadonlyArray<ReadonlyArray<string> | undefined>,
+): PivotResult {
+  const indexOf = (name: string) => {
+    const index = columnNames.indexOf(name);
+    if (index < 0) throw new PivotError(`Unknown column ${name}`);
+    return index;
+  };
+  const rowFields = spec.rows.map(indexOf);
+  const columnFields = spec.columns.map(indexOf);
+  const valueFields = spec.values.map((value) => indexOf(value.column));
+
+  const groups = new Map<
+    string,
+    { rowKey: string[]; columnKey: string[] | null; acc: ValueAccumulator[] }
+  >();
+  const leaves = new Set<string>();
+  const columnKeys = new Set<string>();
+  const accumulate = (
+    rowKey: string[],
+    columnKey: string[] | null,
+    row: ReadonlyArray<string>,
+  ) => {
+    const id = groupId(rowKey, columnKey);
+    let group = groups.get(id);
+    if (!group) {
+      group = {
+        rowKey,
+        columnKey,
+        acc: spec.values.map((value) => new ValueAccumulator(value.aggregate)),
+      };
+      groups.set(id, group);
+    }
+    group.acc.forEach((acc, v) => acc.add(row[valueFields[v]!]));
+  };
+
+  for (const row of rows) {
+    if (!row) continue;
+    const rowKey = rowFields.map((index) => row[index] ?? "");
+    const columnKey = columnFields.map((index) => row[index] ?? "");
+    leaves.add(JSON.stringify(rowKey));
+    columnKeys.add(JSON.stringify(columnKey));
+    if (leaves.size > MAX_PIVOT_ROW_KEYS) {
+      throw new PivotError(
+        `The row fields have more than ${MAX_PIVOT_ROW_KEYS} combinations`,
+      );
+    }
+    if (columnKeys.size > MAX_PIVOT_COLUMN_KEYS) {
+      throw new PivotError(
+        `The column fields have more than ${MAX_PIVOT_COLUMN_KEYS} combinations`,
+      );
+    }
+    for (let level = 0; level <= rowKey.length; level++) {
+      const prefix = rowKey.slice(0, level);
+      if (columnFields.length > 0) accumulate(prefix, columnKey, row);
+      accumulate(prefix, null, row);
+    }
+  }
+
+  return assemblePivot(
+    spec,
+    Array.from(groups.values(), ({ rowKey, columnKey, acc }) => ({
+      rowKey,
+      columnKey,
+      values: acc.map((a) => a.result()),
+    })),
+  );
+}
+
+const formatPivotNumber = (value: number | null) =>
+  value === null
+    ? ""
+    : Number.isInteger(value)
+      ? String(value)
+      : String(Number(value.toPrecision(12)));
+
+/**
+ * The pivot as a plain table for the grid and exports: the row fields, then
+ * a column per column key and value, then the row totals. Subtotal rows
+ * read "Total" after their key; blank keys show as "(blank)".
+ */
+export function pivotTableRows(result: PivotResult): {
+  columns: string[];
+  rows: string[][];
+} {
+  const { spec } = result;
+  const single = spec.values.length === 1;
+  const columns = [...spec.rows];
+  for (const key of result.columnKeys) {
+    const label = key.map((part) => part || "(blank)").join(" / ");
+    for (const value of spec.values) {
+      columns.push(single ? label : `${label} · ${pivotValueLabel(value)}`);
+    }
+  }
+  for (const value of spec.values) {
+    const label = pivotValueLabel(value);
+    columns.push(result.columnKeys.length > 0 ? `Total · ${label}` : label);
+  }
+
+  const rows = result.rows.map((row) => {
+    const keyCells = spec.rows.map((_, index) => {
+      if (index < row.key.length) return row.key[index] || "(blank)";
+      if (index === row.key.length) {
+        return row.key.length === 0 ? "Grand total" : "Total";
+      }
+      return "";
+    });
+    return [...keyCells, ...row.cells.map(formatPivotNumber)];
+  });
+  return { columns, rows };
+}
+
+/**
+ * The field values a pivot grid cell stands for: its row key, plus its
+ * column key unless it is a row total. Drill-down filters the sheet by
+ * these.
+ */
+export function pivotCellKeys(
+  result: PivotResult,
+  rowIndex: number,
+  colIndex: number,
+): Array<{ column: string; value: string }> | null {
+  const row = result.rows[rowIndex];
+  if (!row) return null;
+  const { spec } = result;
+  const keys = row.key.map((value, index) => ({
+    column: spec.rows[index]!,
+    value,
+  }));
+  const cellIndex = colIndex - spec.rows.length;
+  const columnKey =
+    cellIndex >= 0
+      ? result.columnKeys[Math.floor(cellIndex / spec.values.length)]
+      : undefined;
+  if (columnKey) {
+    columnKey.forEach((value, index) =>
+      keys.push({ column: spec.columns[index]!, value }),
+    );
+  }
+  return keys;
+}
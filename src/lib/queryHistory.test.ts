@@ -0,0 +1,37 @@
+import { describe, expect, test } from "bun:test";
+import {
+  addQueryToHistory,
+  normalizeQueryHistory,
+  type QueryHistoryEntry,
+} from "./queryHistory";
+
+const entry = (sql: string, ranAt = 1): QueryHistoryEntry => ({ sql, ranAt });
+
+describe("addQueryToHistory", () => {
+  test("prepends, moves re-runs to the top and caps the list", () => {
+    let history: QueryHistoryEntry[] = [];
+    history = addQueryToHistory(history, entry("SELECT 1"));
+    history = addQueryToHistory(history, entry("SELECT 2"));
+    history = addQueryToHistory(history, entry("  SELECT 1 ", 3));
+    expect(history.map((h) => h.sql)).toEqual(["SELECT 1", "SELECT 2"]);
+    expect(history[0]?.ranAt).toBe(3);
+
+    expect(addQueryToHistory(history, entry("SELECT 3"), 2)).toHaveLength(2);
+    expect(addQueryToHistory(history, entry("   "))).toBe(history);
+  });
+});
+
+describe("normalizeQueryHistory", () => {
+  test("drops malformed stored entries", () => {
+    expect(
+      normalizeQueryHistory([
+        entry("SELECT 1"),
+        { sql: "", ranAt: 1 },
+        { sql: "SELECT 2" },
+        null,
+        "SELECT 3",
+      ]),
+    ).toEqual([entry("SELECT 1")]);
+    expect(normalizeQueryHistory({ sql: "SELECT 1" })).toEqual([]);
+  });
+});
@@ -0,0 +1,59 @@
+/** One SQL console run, newest first in the stored history. */
+export interface QueryHistoryEntry {
+  sql: string;
+  ranAt: number;
+  elapsedMs?: number;
+  rowCount?: number;
+  error?: string;
+}
+
+export const QUERY_HISTORY_KEY = "sheet.sql.history";
+export const MAX_QUERY_HISTORY = 50;
+
+/**
+ * Put `entry` at the front of `history`. Re-running a query moves it to the
+ * top rather than adding a duplicate, and the list is capped at `max`.
+ */
+export function addQueryToHistory(
+  history: QueryHistoryEntry[],
+  entry: QueryHistoryEntry,
+  max: number = MAX_QUERY_HISTORY,
+): QueryHistoryEntry[] {
+  const sql = entry.sql.trim();
+  if (!sql) return history;
+  return [
+    { ...entry, sql },
+    ...history.filter((item) => item.sql !== sql),
+  ].slice(0, max);
+}
+
+/** Keep only well-formed entries from parsed storage. */
+export function normalizeQueryHistory(value: unknown): QueryHistoryEntry[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter(
+      (item): item is QueryHistoryEntry =>
+        !!item &&
+        typeof item === "object" &&
+        typeof item.sql === "string" &&
+        item.sql.trim().length > 0 &&
+        typeof item.ranAt === "number",
+    )
+    .slice(0, MAX_QUERY_HISTORY);
+}
+
+export function readQueryHistory(storage: Storage): QueryHistoryEntry[] {
+  try {
+    const saved = storage.getItem(QUERY_HISTORY_KEY);
+    return saved ? normalizeQueryHistory(JSON.parse(saved)) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function writeQueryHistory(
+  storage: Storage,
+  history: QueryHistoryEntry[],
+): void {
+  storage.setItem(QUERY_HISTORY_KEY, JSON.stringify(history));
+}
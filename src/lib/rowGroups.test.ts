@@ -0,0 +1,113 @@
+import { describe, expect, test } from "bun:test";
+import {
+  GroupedRowLayout,
+  groupSortKeys,
+  groupViewRows,
+  rowGroupId,
+} from "./rowGroups";
+
+// Already in group order: region, then product.
+const ROWS = [
+  ["North", "coffee", "3"],
+  ["North", "tea", "5"],
+  ["North", "tea", "n/a"],
+  ["South", "tea", "7"],
+  ["", "tea", "1.5"],
+];
+
+describe("groupSortKeys", () => {
+  test("leads with the group columns and keeps their sorted direction", () => {
+    expect(
+      groupSortKeys(
+        [
+          { colIndex: 2, dir: "desc" },
+          { colIndex: 1, dir: "desc" },
+        ],
+        [0, 1],
+      ),
+    ).toEqual([
+      { colIndex: 0, dir: "asc" },
+      { colIndex: 1, dir: "desc" },
+      { colIndex: 2, dir: "desc" },
+    ]);
+    expect(groupSortKeys([{ colIndex: 2, dir: "asc" }], [])).toEqual([
+      { colIndex: 2, dir: "asc" },
+    ]);
+  });
+});
+
+describe("groupViewRows", () => {
+  test("lists nested groups with counts and numeric sums", () => {
+    const groups = groupViewRows(ROWS, [0, 1], [false, false, true]);
+    expect(groups.map(({ key, start, count }) => [key, start, count])).toEqual([
+      [["North"], 0, 3],
+      [["North", "coffee"], 0, 1],
+      [["North", "tea"], 1, 2],
+      [["South"], 3, 1],
+      [["South", "tea"], 3, 1],
+      [[""], 4, 1],
+      [["", "tea"], 4, 1],
+    ]);
+    expect(groups[0]!.sums).toEqual([null, null, 8]);
+    expect(groups[2]!.sums).toEqual([null, null, 5]);
+    expect(groupViewRows([["a", "x"]], [0], [false, true])[0]!.sums).toEqual([
+      null,
+      null,
+    ]);
+  });
+});
+
+describe("GroupedRowLayout", () => {
+  const groups = groupViewRows(ROWS, [0, 1], [false, false, false]);
+
+  test("puts each header before its rows", () => {
+    const layout = new GroupedRowLayout(groups, new Set());
+    expect(layout.size).toBe(12);
+    const shown = Array.from({ length: layout.size }, (_, i) => {
+      const entry = layout.at(i)!;
+      return entry.kind === "group" ? entry.group.key.join("/") : entry.row;
+    });
+    expect(shown).toEqual([
+      "North",
+      "North/coffee",
+      0,
+      "North/tea",
+      1,
+      2,
+      "South",
+      "South/tea",
+      3,
+      "",
+      "/tea",
+      4,
+    ]);
+    expect(layout.displayIndexOf(2)).toBe(5);
+    expect(layout.at(12)).toBeNull();
+  });
+
+  test("skips the children of collapsed groups", () => {
+    const layout = new GroupedRowLayout(
+      groups,
+      new Set([rowGroupId(["North", "tea"]), rowGroupId(["South"])]),
+    );
+    expect(layout.size).toBe(8);
+    expect(layout.at(3)).toMatchObject({
+      kind: "group",
+      depth: 1,
+      collapsed: true,
+    });
+    expect(layout.at(4)).toMatchObject({ kind: "group", collapsed: true });
+    expect(layout.at(5)).toMatchObject({ kind: "group", depth: 0 });
+    expect(layout.displayIndexOf(1)).toBeNull();
+    expect(layout.displayIndexOf(4)).toBe(7);
+    expect(layout.nearestVisibleRow(1, 1)).toBe(4);
+    expect(layout.nearestVisibleRow(3, -1)).toBe(0);
+    expect(layout.nearestVisibleRow(0, -1)).toBe(0);
+    expect(
+      new GroupedRowLayout(
+        groups,
+        new Set([rowGroupId([""])]),
+      ).nearestVisibleRow(4, 1),
+    ).toBeNull();
+  });
+});
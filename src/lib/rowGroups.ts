@@ -0,0 +1,229 @@
+import { numericCellValue } from "./selection";
+import type { SortKeys } from "./sort";
+
+/**
+ * In-grid row grouping. The view is sorted by the group columns first
+ * (`groupSortKeys`), so every group is a contiguous run of view rows and a
+ * group header only needs where its run starts and how long it is. DuckDB
+ * tables compute the headers with a `GROUP BY GROUPING SETS` query
+ * (`groupTableRows`) and page child rows through the normal preview; client
+ * mode scans the view rows with `groupViewRows`.
+ */
+export interface RowGroup {
+  /** Cell text of the first `key.length` group columns (blank for empty). */
+  key: string[];
+  /** View position of the group's first row. */
+  start: number;
+  count: number;
+  /** Per column: the sum of its numeric cells for totalled columns, else null. */
+  sums: Array<number | null>;
+}
+
+export class RowGroupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RowGroupError";
+  }
+}
+
+/** Limits that keep group headers cheap to list and render. */
+export const MAX_GROUP_COLUMNS = 4;
+export const MAX_ROW_GROUPS = 10000;
+
+/** Identifies a group across refreshes, e.g. to remember it is collapsed. */
+export function rowGroupId(key: string[]): string {
+  return JSON.stringify(key);
+}
+
+/**
+ * Sort keys that lead with the group columns (keeping the direction of a
+ * group column that is already sorted), followed by the other keys.
+ */
+export function groupSortKeys(sort: SortKeys, groupBy: number[]): SortKeys {
+  if (groupBy.length === 0) return sort;
+  const leading = groupBy.map(
+    (colIndex) =>
+      sort.find((key) => key.colIndex === colIndex) ?? {
+        colIndex,
+        dir: "asc" as const,
+      },
+  );
+  return [...leading, ...sort.filter((key) => !groupBy.includes(key.colIndex))];
+}
+
+/**
+ * Group headers for view rows already ordered by `groupSortKeys`: one per
+ * run of equal keys at every level, parents before their children.
+ * `totals[c]` marks the columns whose numeric cells are summed.
+ */
+export function groupViewRows(
+  rows: string[][],
+  groupBy: number[],
+  totals: boolean[],
+): RowGroup[] {
+  if (groupBy.length === 0) return [];
+  const groups: RowGroup[] = [];
+  // The open group at each level and its running sums.
+  const open: Array<{ group: RowGroup; sums: number[]; counts: number[] }> = [];
+
+  const close = (depth: number) => {
+    while (open.length > depth) {
+      const { group, sums, counts } = open.pop()!;
+      group.sums = totals.map((total, c) =>
+        total && counts[c]! > 0 ? sums[c]! : null,
+      );
+    }
+  };
+
+  for (let r = 0; r < rows.length; r++) {
+    const row = rows[r] ?? [];
+    const key = groupBy.map((colIndex) => row[colIndex] ?? "");
+    let same = 0;
+    while (same < open.length && open[same]!.group.key[same] === key[same]) {
+      same++;
+    }
+    close(same);
+    for (let depth = same; depth < groupBy.length; depth++) {
+      if (groups.length >= MAX_ROW_GROUPS) {
+        throw new RowGroupError(
+          `Grouping makes more than ${MAX_ROW_GROUPS} groups`,
+        );
+      }
+      const group: RowGroup = {
+        key: key.slice(0, depth + 1),
+        start: r,
+        count: 0,
+        sums: [],
+      };
+      groups.push(group);
+      open.push({
+        group,
+        sums: totals.map(() => 0),
+        counts: totals.map(() => 0),
+      });
+    }
+    for (const entry of open) {
+      entry.group.count++;
+      totals.forEach((total, c) => {
+        if (!total) return;
+        const n = numericCellValue(row[c]);
+        if (n === null) return;
+        entry.sums[c]! += n;
+        entry.counts[c]!++;
+      });
+    }
+  }
+  close(0);
+  return groups;
+}
+
+export type GroupedRow =
+  | { kind: "group"; group: RowGroup; depth: number; collapsed: boolean }
+  | { kind: "row"; row: number };
+
+type Segment =
+  | { offset: number; kind: "group"; group: RowGroup; collapsed: boolean }
+  | { offset: number; kind: "rows"; start: number; count: number };
+
+/**
+ * The grid's display order for grouped rows: each visible group header
+ * followed by its children, skipping everything under a collapsed group.
+ * Rows stay addressed by view position; runs of rows are kept as ranges, so
+ * the layout is as large as the number of groups, not of rows.
+ */
+export class GroupedRowLayout {
+  private readonly segments: Segment[] = [];
+  private readonly rowSegments: Array<Extract<Segment, { kind: "rows" }>> = [];
+  readonly size: number;
+
+  constructor(groups: RowGroup[], collapsed: ReadonlySet<string>) {
+    const depth = groups.reduce(
+      (max, group) => Math.max(max, group.key.length),
+      0,
+    );
+    let offset = 0;
+    let hiddenBelow = Infinity;
+    for (const group of groups) {
+      if (group.key.length > hiddenBelow) continue;
+      hiddenBelow = Infinity;
+      const isCollapsed = collapsed.has(rowGroupId(group.key));
+      this.segments.push({
+        offset: offset++,
+        kind: "group",
+        group,
+        collapsed: isCollapsed,
+      });
+      if (isCollapsed) {
+        hiddenBelow = group.key.length;
+      } else if (group.key.length === depth && group.count > 0) {
+        const rows = {
+          offset,
+          kind: "rows" as const,
+          start: group.start,
+          count: group.count,
+        };
+        this.segments.push(rows);
+        this.rowSegments.push(rows);
+        offset += group.count;
+      }
+    }
+    this.size = offset;
+  }
+
+  /** The header or row shown at `index` (0 ≤ index < size). */
+  at(index: number): GroupedRow | null {
+    let lo = 0;
+    let hi = this.segments.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (this.segments[mid]!.offset <= index) lo = mid;
+      else hi = mid - 1;
+    }
+    const segment = this.segments[lo];
+    if (!segment || index < segment.offset || index >= this.size) return null;
+    if (segment.kind === "group") {
+      if (index !== segment.offset) return null;
+      return {
+        kind: "group",
+        group: segment.group,
+        depth: segment.group.key.length - 1,
+        collapsed: segment.collapsed,
+      };
+    }
+    const row = segment.start + (index - segment.offset);
+    return row < segment.start + segment.count ? { kind: "row", row } : null;
+  }
+
+  /** The run of visible rows holding `row`, or the index of the first after it. */
+  private findRows(row: number): number {
+    let lo = 0;
+    let hi = this.rowSegments.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      const segment = this.rowSegments[mid]!;
+      if (segment.start + segment.count <= row) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+
+  /** Where a view row is displayed, or null while its group is collapsed. */
+  displayIndexOf(row: number): number | null {
+    const segment = this.rowSegments[this.findRows(row)];
+    if (!segment || row < segment.start) return null;
+    return segment.offset + (row - segment.start);
+  }
+
+  /**
+   * `row` if it is visible, else the nearest visible row after it
+   * (`direction` 1) or before it (-1); null when there is none.
+   */
+  nearestVisibleRow(row: number, direction: 1 | -1): number | null {
+    const index = this.findRows(row);
+    const segment = this.rowSegments[index];
+    if (segment && row >= segment.start) return row;
+    if (direction > 0) return segment ? segment.start : null;
+    const before = this.rowSegments[index - 1];
+    return before ? before.start + before.count - 1 : null;
+  }
+}
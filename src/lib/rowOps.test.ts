@@ -0,0 +1,125 @@
+import { describe, expect, test } from "bun:test";
+import {
+  applyRowOperation,
+  invertRowOperation,
+  MAX_ROW_COPIES,
+  parseRowOperation,
+  type RowCopies,
+  type RowOperation,
+} from "./rowOps";
+
+const ROWS = [["a"], ["b"], ["c"], ["d"]];
+
+// Apply an operation, then its inverse, and return both states.
+const roundTrip = (rows: string[][], operation: RowOperation) => {
+  const copies: RowCopies = new Map();
+  const applied = applyRowOperation(rows, operation, 1, copies);
+  const inverse = invertRowOperation(operation, applied.result);
+  return {
+    after: applied.rows,
+    result: applied.result,
+    restored: applyRowOperation(applied.rows, inverse, 1, copies).rows,
+    copies,
+  };
+};
+
+describe("parseRowOperation", () => {
+  test("validates ops, ids, anchors and values", () => {
+    expect(
+      parseRowOperation({
+        op: "insert",
+        rows: [["x", null, 3]],
+        anchor: { rowId: 2, side: "below" },
+      }),
+    ).toEqual({
+      op: "insert",
+      rows: [["x", "", "3"]],
+      anchor: { rowId: 2, side: "below" },
+    });
+    expect(parseRowOperation({ op: "delete", rowIds: [3, 1] })).toEqual({
+      op: "delete",
+      rowIds: [3, 1],
+    });
+    const copy = "0123456789abcdef0123456789abcdef";
+    expect(parseRowOperation({ op: "restore", copy })).toEqual({
+      op: "restore",
+      copy,
+    });
+    expect(() => parseRowOperation({ op: "move" })).toThrow(/op must be/);
+    expect(() => parseRowOperation({ op: "delete", rowIds: [] })).toThrow(
+      "No rows given",
+    );
+    expect(() => parseRowOperation({ op: "duplicate", rowIds: [-1] })).toThrow(
+      /non-negative integer/,
+    );
+    expect(() =>
+      parseRowOperation({
+        op: "insert",
+        rows: [[]],
+        anchor: { rowId: 1, side: "left" },
+      }),
+    ).toThrow(/anchor.side must be/);
+    expect(() =>
+      parseRowOperation({ op: "restore", copy: "../catalog" }),
+    ).toThrow(/copy must be/);
+  });
+});
+
+describe("applyRowOperation", () => {
+  test("inserts next to the anchor row, or appends without one", () => {
+    const { after, result, restored } = roundTrip(ROWS, {
+      op: "insert",
+      rows: [["x"], []],
+      anchor: { rowId: 1, side: "below" },
+    });
+    expect(after).toEqual([["a"], ["b"], ["x"], [""], ["c"], ["d"]]);
+    expect(result.rowIds).toEqual([2, 3]);
+    expect(restored).toEqual(ROWS);
+
+    const copies: RowCopies = new Map();
+    expect(
+      applyRowOperation(ROWS, { op: "insert", rows: [["y"]] }, 1, copies).rows,
+    ).toEqual([...ROWS, ["y"]]);
+  });
+
+  test("duplicates rows just below themselves", () => {
+    const { after, result, restored } = roundTrip(ROWS, {
+      op: "duplicate",
+      rowIds: [3, 1, 1],
+    });
+    expect(after).toEqual([["a"], ["b"], ["b"], ["c"], ["d"], ["d"]]);
+    expect(result.rowIds).toEqual([2, 5]);
+    expect(restored).toEqual(ROWS);
+  });
+
+  test("deletes rows and restores them from their copy", () => {
+    const { after, result, restored, copies } = roundTrip(ROWS, {
+      op: "delete",
+      rowIds: [3, 0, 2, 9],
+    });
+    expect(after).toEqual([["b"]]);
+    expect(result.rowIds).toEqual([0, 2, 3]);
+    expect(restored).toEqual(ROWS);
+    expect(copies.size).toBe(0);
+  });
+
+  test("keeps only the most recent copies", () => {
+    const copies: RowCopies = new Map();
+    let rows = Array.from({ length: MAX_ROW_COPIES + 1 }, (_, i) => [`${i}`]);
+    const keys: string[] = [];
+    for (let i = 0; i <= MAX_ROW_COPIES; i++) {
+      const applied = applyRowOperation(
+        rows,
+        { op: "delete", rowIds: [0] },
+        1,
+        copies,
+      );
+      rows = applied.rows;
+      keys.push(applied.result.copy!);
+    }
+    expect(copies.size).toBe(MAX_ROW_COPIES);
+    expect(() =>
+      applyRowOperation(rows, { op: "restore", copy: keys[0]! }, 1, copies),
+    ).toThrow("The deleted rows are no longer kept");
+  });
+});
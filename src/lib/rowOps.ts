@@ -0,0 +1,216 @@
+/**
+ * A row-level change to a table. Rows are addressed by id: the DuckDB row id
+ * (see `mutateTableRows`), which never changes, or the row's index in client
+ * mode. Inserts go right above or below `anchor`'s row, or append without
+ * one; copies go right below their source rows. A delete keeps a copy of
+ * its rows that `restore` puts back where they were, which is how deletes
+ * are undone. DuckDB tables run these with `mutateTableRows`; client mode
+ * applies them to the in-memory rows with `applyRowOperation`.
+ */
+export type RowOperation =
+  | { op: "insert"; rows: string[][]; anchor?: RowAnchor }
+  | { op: "duplicate"; rowIds: number[] }
+  | { op: "delete"; rowIds: number[] }
+  | { op: "restore"; copy: string };
+
+export type RowOperationKind = RowOperation["op"];
+
+export interface RowAnchor {
+  rowId: number;
+  side: "above" | "below";
+}
+
+export class RowOperationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RowOperationError";
+  }
+}
+
+/** What a row operation did. */
+export interface RowOperationResult {
+  /** Ids of the new, restored or deleted rows, in table order. */
+  rowIds: number[];
+  /** Key of the copy a delete kept, for `restore`. */
+  copy?: string;
+}
+
+/** Deleted rows of client mode by copy key, with the indexes they had. */
+export type RowCopies = Map<string, Array<{ index: number; row: string[] }>>;
+
+/** Rows one request may insert, duplicate or delete. */
+export const MAX_ROW_OPERATION_ROWS = 10000;
+
+/** Copies of deleted rows kept for `restore`; older ones are dropped. */
+export const MAX_ROW_COPIES = 32;
+
+const KINDS = new Set<RowOperationKind>([
+  "insert",
+  "duplicate",
+  "delete",
+  "restore",
+]);
+
+const COPY_KEY_REGEX = /^[0-9a-f]{32}$/;
+
+export function newRowCopyKey(): string {
+  return crypto.randomUUID().replace(/-/g, "");
+}
+
+const requireRowId = (value: unknown, field: string): number => {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    throw new RowOperationError(`${field} must be a non-negative integer`);
+  }
+  return value;
+};
+
+const requireCount = (length: number) => {
+  if (length === 0) throw new RowOperationError("No rows given");
+  if (length > MAX_ROW_OPERATION_ROWS) {
+    throw new RowOperationError(
+      `At most ${MAX_ROW_OPERATION_ROWS} rows can change at once`,
+    );
+  }
+};
+
+const parseAnchor = (value: unknown): RowAnchor | undefined => {
+  if (value == null) return undefined;
+  const anchor = value as Record<string, unknown>;
+  if (anchor.side !== "above" && anchor.side !== "below") {
+    throw new RowOperationError("anchor.side must be above or below");
+  }
+  return {
+    rowId: requireRowId(anchor.rowId, "anchor.rowId"),
+    side: anchor.side,
+  };
+};
+
+/** Validate an operation from a request body. */
+export function parseRowOperation(value: unknown): RowOperation {
+  const raw = (value ?? {}) as Record<string, unknown>;
+  const op = raw.op as RowOperationKind;
+  if (typeof value !== "object" || !KINDS.has(op)) {
+    throw new RowOperationError(
+      "op must be one of insert, duplicate, delete or restore",
+    );
+  }
+  if (op === "restore") {
+    if (typeof raw.copy !== "string" || !COPY_KEY_REGEX.test(raw.copy)) {
+      throw new RowOperationError("copy must be a key returned by a delete");
+    }
+    return { op, copy: raw.copy };
+  }
+  if (op === "insert") {
+    if (!Array.isArray(raw.rows)) {
+      throw new RowOperationError("rows must be an array");
+    }
+    requireCount(raw.rows.length);
+    const anchor = parseAnchor(raw.anchor);
+    return {
+      op,
+      rows: raw.rows.map((row: unknown) =>
+        (Array.isArray(row) ? row : []).map((cell: unknown) =>
+          cell == null ? "" : String(cell),
+        ),
+      ),
+      ...(anchor ? { anchor } : {}),
+    };
+  }
+  if (!Array.isArray(raw.rowIds)) {
+    throw new RowOperationError("rowIds must be an array");
+  }
+  requireCount(raw.rowIds.length);
+  return {
+    op,
+    rowIds: raw.rowIds.map((id: unknown) => requireRowId(id, "rowIds")),
+  };
+}
+
+/**
+ * The operation that undoes `operation`, given what it did: new or
+ * restored rows are deleted again and deleted rows are restored from their
+ * copy. Undo runs in stack order, so the table is as `operation` left it.
+ */
+export function invertRowOperation(
+  operation: RowOperation,
+  result: RowOperationResult,
+): RowOperation {
+  if (operation.op === "delete") {
+    if (!result.copy) throw new RowOperationError("The delete kept no copy");
+    return { op: "restore", copy: result.copy };
+  }
+  return { op: "delete", rowIds: result.rowIds };
+}
+
+/**
+ * Apply `operation` to in-memory rows of `width` cells, keeping deleted rows
+ * in `copies`. Returns the new rows and what changed; ids past the end are
+ * ignored and anchors past it append.
+ */
+export function applyRowOperation(
+  rows: string[][],
+  operation: RowOperation,
+  width: number,
+  copies: RowCopies,
+): { rows: string[][]; result: RowOperationResult } {
+  const blank = (values: string[]) =>
+    Array.from({ length: width }, (_, i) => values[i] ?? "");
+  const existing = (rowIds: number[]) =>
+    Array.from(new Set(rowIds))
+      .filter((id) => id < rows.length)
+      .sort((a, b) => a - b);
+  switch (operation.op) {
+    case "insert": {
+      const { anchor } = operation;
+      const at = Math.min(
+        anchor ? anchor.rowId + (anchor.side === "below" ? 1 : 0) : rows.length,
+        rows.length,
+      );
+      const next = rows.slice();
+      next.splice(at, 0, ...operation.rows.map(blank));
+      const rowIds = operation.rows.map((_, index) => at + index);
+      return { rows: next, result: { rowIds } };
+    }
+    case "duplicate": {
+      // Each copy follows its source, pushed down by the copies before it.
+      const rowIds = existing(operation.rowIds).map(
+        (id, index) => id + index + 1,
+      );
+      const next = rows.slice();
+      rowIds.forEach((id) => next.splice(id, 0, next[id - 1]!.slice()));
+      return { rows: next, result: { rowIds } };
+    }
+    case "delete": {
+      const rowIds = existing(operation.rowIds);
+      if (rowIds.length === 0) return { rows, result: { rowIds } };
+      const copy = newRowCopyKey();
+      copies.set(
+        copy,
+        rowIds.map((index) => ({ index, row: rows[index]! })),
+      );
+      for (const key of copies.keys()) {
+        if (copies.size <= MAX_ROW_COPIES) break;
+        copies.delete(key);
+      }
+      const removed = new Set(rowIds);
+      return {
+        rows: rows.filter((_, index) => !removed.has(index)),
+        result: { rowIds, copy },
+      };
+    }
+    case "restore": {
+      const saved = copies.get(operation.copy);
+      if (!saved) {
+        throw new RowOperationError("The deleted rows are no longer kept");
+      }
+      copies.delete(operation.copy);
+      // In index order each row lands back in front of its old follower.
+      const next = rows.slice();
+      for (const { index, row } of saved) next.splice(index, 0, row);
+      return {
+        rows: next,
+        result: { rowIds: saved.map(({ index }) => index) },
+      };
+    }
+  }
+}
@@ -0,0 +1,244 @@
+import { describe, expect, test } from "bun:test";
+import {
+  applySchemaOperation,
+  castCell,
+  isValidColumnType,
+  parseSchemaOperation,
+  previewCast,
+  remapColumnKeys,
+  remapColumnRecord,
+  resolveSchemaOperation,
+  schemaIndexMapper,
+  SchemaOperationError,
+} from "./schemaOps";
+
+const columns = [{ name: "id" }, { name: "name" }, { name: "price" }];
+const rows = [
+  ["1", "apple", "1.50"],
+  ["2", "pear", "n/a"],
+  ["3", "fig", ""],
+];
+
+describe("parseSchemaOperation", () => {
+  test("validates names, types and positions", () => {
+    expect(
+      parseSchemaOperation({ op: "add", name: " total ", type: "DOUBLE" }),
+    ).toEqual({ op: "add", name: "total", type: "DOUBLE" });
+    expect(
+      parseSchemaOperation({
+        op: "retype",
+        column: "a",
+        type: "DECIMAL(9, 2)",
+      }),
+    ).toEqual({
+      op: "retype",
+      column: "a",
+      type: "DECIMAL(9, 2)",
+      nullOnFailure: false,
+    });
+    expect(() => parseSchemaOperation({ op: "truncate" })).toThrow(
+      SchemaOperationError,
+    );
+    expect(() =>
+      parseSchemaOperation({ op: "move", column: "a", position: -1 }),
+    ).toThrow(/position/);
+    expect(() =>
+      parseSchemaOperation({ op: "retype", column: "a", type: "INT); DROP" }),
+    ).toThrow(/Unsupported column type/);
+  });
+
+  test("accepts only plain type names", () => {
+    expect(isValidColumnType("TIMESTAMP WITH TIME ZONE")).toBe(true);
+    expect(isValidColumnType("VARCHAR[]")).toBe(true);
+    expect(isValidColumnType("INTEGER USING id")).toBe(false);
+    expect(isValidColumnType("STRUCT(a INT)")).toBe(false);
+    expect(isValidColumnType("INT -- x")).toBe(false);
+  });
+});
+
+describe("castCell", () => {
+  test("converts like TRY_CAST, keeping empty cells", () => {
+    expect(castCell("1,200.7", "BIGINT")).toBe("1201");
+    expect(castCell("2.50", "DOUBLE")).toBe("2.5");
+    expect(castCell("Yes", "BOOLEAN")).toBe("true");
+    expect(castCell("2024/03/05", "DATE")).toBe("2024-03-05");
+    expect(castCell("2024-03-05T10:20:30.5", "TIMESTAMP")).toBe(
+      "2024-03-05 10:20:30.500",
+    );
+    expect(castCell("  ", "DOUBLE")).toBe("");
+    expect(castCell("n/a", "DOUBLE")).toBeNull();
+    expect(castCell("n/a", "VARCHAR")).toBe("n/a");
+  });
+
+  test("previews failures with distinct samples", () => {
+    expect(previewCast(["1", "x", "", "x", "y", undefined], "DOUBLE")).toEqual({
+      checked: 4,
+      failed: 3,
+      samples: ["x", "y"],
+    });
+  });
+});
+
+describe("applySchemaOperation", () => {
+  test("adds, moves and drops columns with their cells", () => {
+    let next = applySchemaOperation(columns, rows, {
+      op: "add",
+      name: "note",
+      position: 1,
+    });
+    expect(next.columns.map((c) => c.name)).toEqual([
+      "id",
+      "note",
+      "name",
+      "price",
+    ]);
+    expect(next.rows[0]).toEqual(["1", "", "apple", "1.50"]);
+
+    next = applySchemaOperation(next.columns, next.rows, {
+      op: "move",
+      column: "price",
+      position: 0,
+    });
+    expect(next.rows[1]).toEqual(["n/a", "2", "", "pear"]);
+
+    next = applySchemaOperation(next.columns, next.rows, {
+      op: "drop",
+      column: "NOTE",
+    });
+    expect(next.columns.map((c) => c.name)).toEqual(["price", "id", "name"]);
+    expect(next.rows[2]).toEqual(["", "3", "fig"]);
+  });
+
+  test("renames without clashing with another column", () => {
+    const next = applySchemaOperation(columns, rows, {
+      op: "rename",
+      column: "name",
+      name: "fruit",
+    });
+    expect(next.columns[1]?.name).toBe("fruit");
+    expect(next.rows).toBe(rows);
+    expect(() =>
+      applySchemaOperation(columns, rows, {
+        op: "rename",
+        column: "name",
+        name: "ID",
+      }),
+    ).toThrow(/already exists/);
+  });
+
+  test("retypes only when every value converts or nulls are allowed", () => {
+    const op = { op: "retype", column: "price", type: "DOUBLE" } as const;
+    expect(() => applySchemaOperation(columns, rows, op)).toThrow(
+      /1 values cannot be converted/,
+    );
+    const next = applySchemaOperation(columns, rows, {
+      ...op,
+      nullOnFailure: true,
+    });
+    expect(next.columns[2]?.dataType).toBe("DOUBLE");
+    expect(next.rows.map((row) => row[2])).toEqual(["1.5", "", ""]);
+  });
+
+  test("leaves expressions and the last column to DuckDB rules", () => {
+    expect(() =>
+      applySchemaOperation(columns, rows, {
+        op: "add",
+        name: "x",
+        expression: "id * 2",
+      }),
+    ).toThrow(/DuckDB/);
+    expect(() =>
+      applySchemaOperation([{ name: "a" }], [["1"]], {
+        op: "drop",
+        column: "a",
+      }),
+    ).toThrow(/at least one column/);
+  });
+});
+
+describe("computed columns", () => {
+  const withTotal = [...columns, { name: "total", formula: "id * price" }];
+
+  test("adds, redefines and drops formulas on client rows", () => {
+    let next = applySchemaOperation(columns, rows, {
+      op: "compute",
+      name: "total",
+      formula: "id * price",
+    });
+    expect(next.columns[3]).toEqual({ name: "total", formula: "id * price" });
+    expect(next.rows[0]).toEqual(["1", "apple", "1.50", ""]);
+    next = applySchemaOperation(next.columns, next.rows, {
+      op: "compute",
+      column: "total",
+      name: "double",
+      formula: "price * 2",
+    });
+    expect(next.columns.map((c) => c.name)).toEqual([
+      "id",
+      "name",
+      "price",
+      "double",
+    ]);
+    next = applySchemaOperation(next.columns, next.rows, {
+      op: "drop",
+      column: "double",
+    });
+    expect(next.columns).toEqual(columns);
+  });
+
+  test("keeps table columns in front and formula inputs in place", () => {
+    expect(
+      resolveSchemaOperation(withTotal, { op: "add", name: "note" }),
+    ).toEqual({ op: "add", name: "note", position: 3 });
+    const rejects = (operation: Parameters<typeof resolveSchemaOperation>[1]) =>
+      expect(() => resolveSchemaOperation(withTotal, operation));
+    rejects({ op: "add", name: "x", position: 4 }).toThrow(/before computed/);
+    rejects({ op: "move", column: "id", position: 3 }).toThrow(/move past/);
+    rejects({ op: "retype", column: "total", type: "DOUBLE" }).toThrow(
+      /edit its formula/,
+    );
+    rejects({ op: "rename", column: "PRICE", name: "cost" }).toThrow(
+      "Column price is used by computed column total",
+    );
+    rejects({ op: "compute", name: "x", formula: "total + 1" }).toThrow(
+      SchemaOperationError,
+    );
+    rejects({ op: "compute", column: "id", name: "x", formula: "1" }).toThrow(
+      /not a computed column/,
+    );
+    expect(() =>
+      applySchemaOperation(
+        [{ name: "a" }, { name: "b", formula: "1" }],
+        [["1", "1"]],
+        { op: "drop", column: "a" },
+      ),
+    ).toThrow(/at least one column/);
+  });
+});
+
+describe("schemaIndexMapper", () => {
+  test("follows columns through moves and drops", () => {
+    const names = columns.map((c) => c.name);
+    const moved = schemaIndexMapper(names, {
+      op: "move",
+      column: "id",
+      position: 2,
+    });
+    expect([0, 1, 2].map(moved)).toEqual([2, 0, 1]);
+    const dropped = schemaIndexMapper(names, { op: "drop", column: "name" });
+    expect([0, 1, 2].map(dropped)).toEqual([0, null, 1]);
+    expect(remapColumnRecord({ 0: "a", 1: "b", 2: "c" }, dropped)).toEqual({
+      0: "a",
+      1: "c",
+    });
+    expect(
+      remapColumnKeys(
+        [
+          { colIndex: 1, dir: "asc" },
+          { colIndex: 2, dir: "desc" },
+        ],
+        dropped,
+      ),
+    ).toEqual([{ colIndex: 1, dir: "desc" }]);
+  });
+});
@@ -0,0 +1,527 @@
+import type { ColumnDef } from "./csv";
+import { parseDateValue } from "./date-utils";
+import { isDateType, isNumericType } from "./duckdb-utils";
+import {
+  formulaColumnNames,
+  FormulaError,
+  parseFormula,
+  prepareFormula,
+  type FormulaColumn,
+} from "./formulaAst";
+import { parseNumber } from "./validators";
+
+/**
+ * A column-level change to a table. DuckDB tables run these as `ALTER
+ * TABLE` statements (`alterTableSchema`); client mode applies them to the
+ * in-memory rows with `applySchemaOperation`. Columns are named rather than
+ * indexed so a request cannot land on a column that moved meanwhile.
+ * `compute` defines a computed column (see `formulaAst.ts`); computed
+ * columns always follow the table's own columns.
+ */
+export type SchemaOperation =
+  | {
+      op: "add";
+      name: string;
+      /** Defaults to the expression's type, or VARCHAR without one. */
+      type?: string;
+      /** SQL expression over the table's columns (DuckDB only). */
+      expression?: string;
+      /** Index of the new column; appended when unset. */
+      position?: number;
+    }
+  | { op: "drop"; column: string }
+  | { op: "rename"; column: string; name: string }
+  | { op: "move"; column: string; position: number }
+  | {
+      op: "retype";
+      column: string;
+      type: string;
+      /** Empty values that fail to convert instead of rejecting the change. */
+      nullOnFailure?: boolean;
+    }
+  | {
+      op: "compute";
+      name: string;
+      formula: string;
+      /** Computed column to redefine (and rename); a new one when unset. */
+      column?: string;
+    };
+
+export type SchemaOperationKind = SchemaOperation["op"];
+
+export class SchemaOperationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SchemaOperationError";
+  }
+}
+
+/** What a type change would do to a column's non-empty values. */
+export interface CastPreview {
+  checked: number;
+  failed: number;
+  /** A few distinct values that would not convert. */
+  samples: string[];
+}
+
+/** Types offered when adding or retyping a column. */
+export const COLUMN_TYPES = [
+  "VARCHAR",
+  "BIGINT",
+  "DOUBLE",
+  "BOOLEAN",
+  "DATE",
+  "TIMESTAMP",
+] as const;
+
+export const CAST_PREVIEW_SAMPLES = 5;
+
+// A type name with optional numeric arguments and array suffixes, e.g.
+// `DECIMAL(18, 3)`, `VARCHAR[]` or `TIMESTAMP WITH TIME ZONE`. Types are
+// spliced into DDL, so nothing else may get through.
+const COLUMN_TYPE_PATTERN =
+  /^[a-z][a-z0-9_]*(?: with time zone| precision| varying)?(?:\(\d+(?:, ?\d+)?\))?(?:\[\])*$/i;
+
+export function isValidColumnType(value: unknown): value is string {
+  return typeof value === "string" && COLUMN_TYPE_PATTERN.test(value);
+}
+
+const KINDS = new Set<SchemaOperationKind>([
+  "add",
+  "drop",
+  "rename",
+  "move",
+  "retype",
+  "compute",
+]);
+
+const requireName = (value: unknown, field: string): string => {
+  const name = typeof value === "string" ? value.trim() : "";
+  if (!name) throw new SchemaOperationError(`${field} is required`);
+  return name;
+};
+
+const requireType = (value: unknown): string => {
+  const type = typeof value === "string" ? value.trim() : "";
+  if (!isValidColumnType(type)) {
+    throw new SchemaOperationError(`Unsupported column type: ${String(value)}`);
+  }
+  return type;
+};
+
+const requirePosition = (value: unknown): number => {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    throw new SchemaOperationError("position must be a non-negative integer");
+  }
+  return value;
+};
+
+/** Validate an operation from a request body. */
+export function parseSchemaOperation(value: unknown): SchemaOperation {
+  const raw = (value ?? {}) as Record<string, unknown>;
+  const op = raw.op as SchemaOperationKind;
+  if (typeof value !== "object" || !KINDS.has(op)) {
+    throw new SchemaOperationError(
+      "op must be one of add, drop, rename, move, retype or compute",
+    );
+  }
+  switch (op) {
+    case "add": {
+      const expression =
+        typeof raw.expression === "string" ? raw.expression.trim() : "";
+      return {
+        op,
+        name: requireName(raw.name, "name"),
+        ...(raw.type != null ? { type: requireType(raw.type) } : {}),
+        ...(expression ? { expression } : {}),
+        ...(raw.position != null
+          ? { position: requirePosition(raw.position) }
+          : {}),
+      };
+    }
+    case "drop":
+      return { op, column: requireName(raw.column, "column") };
+    case "rename":
+      return {
+        op,
+        column: requireName(raw.column, "column"),
+        name: requireName(raw.name, "name"),
+      };
+    case "move":
+      return {
+        op,
+        column: requireName(raw.column, "column"),
+        position: requirePosition(raw.position),
+      };
+    case "retype":
+      return {
+        op,
+        column: requireName(raw.column, "column"),
+        type: requireType(raw.type),
+        nullOnFailure: raw.nullOnFailure === true,
+      };
+    case "compute":
+      return {
+        op,
+        name: requireName(raw.name, "name"),
+        formula: requireName(raw.formula, "formula"),
+        ...(raw.column != null
+          ? { column: requireName(raw.column, "column") }
+          : {}),
+      };
+  }
+}
+
+/** Index of `name`; DuckDB identifiers ignore case, so fall back to that. */
+export function findColumnIndex(names: string[], name: string): number {
+  const exact = names.indexOf(name);
+  if (exact >= 0) return exact;
+  const lower = name.toLowerCase();
+  return names.findIndex((candidate) => candidate.toLowerCase() === lower);
+}
+
+const requireColumn = (names: string[], name: string): number => {
+  const index = findColumnIndex(names, name);
+  if (index < 0)
+    throw new SchemaOperationError(`Column ${name} does not exist`);
+  return index;
+};
+
+const requireFreeName = (names: string[], name: string, except = -1) => {
+  const index = findColumnIndex(names, name);
+  if (index >= 0 && index !== except) {
+    throw new SchemaOperationError(`Column ${name} already exists`);
+  }
+};
+
+/**
+ * Column order after `operation`, as indexes into the current columns
+ * (`null` marks the added column). Throws for unknown columns, taken names
+ * and dropping the last column.
+ */
+export function planColumnOrder(
+  names: string[],
+  operation: SchemaOperation,
+): Array<number | null> {
+  const order: Array<number | null> = names.map((_, index) => index);
+  switch (operation.op) {
+    case "add": {
+      requireFreeName(names, operation.name);
+      const position = Math.min(
+        operation.position ?? names.length,
+        names.length,
+      );
+      order.splice(position, 0, null);
+      return order;
+    }
+    case "drop": {
+      const index = requireColumn(names, operation.column);
+      if (names.length === 1) {
+        throw new SchemaOperationError("A table needs at least one column");
+      }
+      order.splice(index, 1);
+      return order;
+    }
+    case "rename": {
+      const index = requireColumn(names, operation.column);
+      requireFreeName(names, operation.name, index);
+      return order;
+    }
+    case "move": {
+      const index = requireColumn(names, operation.column);
+      order.splice(index, 1);
+      order.splice(Math.min(operation.position, names.length - 1), 0, index);
+      return order;
+    }
+    case "retype":
+      requireColumn(names, operation.column);
+      return order;
+    case "compute": {
+      if (operation.column === undefined) {
+        requireFreeName(names, operation.name);
+        order.push(null);
+        return order;
+      }
+      const index = requireColumn(names, operation.column);
+      requireFreeName(names, operation.name, index);
+      return order;
+    }
+  }
+}
+
+// A stored formula that no longer parses reads nothing.
+const readsColumn = (formula: string, name: string) => {
+  const lower = name.toLowerCase();
+  try {
+    return formulaColumnNames(parseFormula(formula)).some(
+      (used) => used.toLowerCase() === lower,
+    );
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Check `operation` against the table's computed columns and return it with
+ * an unset `add` position pinned before them. Computed columns can only be
+ * redefined or dropped, base columns stay in front of them, and columns
+ * that formulas read cannot be renamed or dropped. New formulas are parsed
+ * and bound here, so both modes report the same errors.
+ */
+export function resolveSchemaOperation(
+  columns: FormulaColumn[],
+  operation: SchemaOperation,
+): SchemaOperation {
+  const names = columns.map((column) => column.name);
+  const baseCount = columns.filter((column) => !column.formula).length;
+  const target =
+    "column" in operation && operation.column !== undefined
+      ? columns[findColumnIndex(names, operation.column)]
+      : undefined;
+
+  switch (operation.op) {
+    case "add":
+      if (operation.position === undefined) {
+        return { ...operation, position: baseCount };
+      }
+      if (operation.position > baseCount) {
+        throw new SchemaOperationError(
+          "New columns must come before computed columns",
+        );
+      }
+      return operation;
+    case "move":
+      if (!target?.formula && operation.position >= baseCount) {
+        throw new SchemaOperationError(
+          "Columns cannot move past computed columns",
+        );
+      }
+      break;
+    case "compute":
+      if (target && !target.formula) {
+        throw new SchemaOperationError(
+          `${target.name} is not a computed column`,
+        );
+      }
+      try {
+        prepareFormula(
+          operation.formula,
+          columns.filter((column) => column !== target),
+        );
+      } catch (error) {
+        if (error instanceof FormulaError) {
+          throw new SchemaOperationError(error.message);
+        }
+        throw error;
+      }
+      return operation;
+    case "drop":
+      if (!target || target.formula) return operation;
+      if (baseCount === 1) {
+        throw new SchemaOperationError("A table needs at least one column");
+      }
+      break;
+  }
+  if (!target) return operation;
+  if (target.formula) {
+    throw new SchemaOperationError(
+      `${target.name} is a computed column; edit its formula instead`,
+    );
+  }
+  if (operation.op === "drop" || operation.op === "rename") {
+    const user = columns.find(
+      (column) => column.formula && readsColumn(column.formula, target.name),
+    );
+    if (user) {
+      throw new SchemaOperationError(
+        `Column ${target.name} is used by computed column ${user.name}`,
+      );
+    }
+  }
+  return operation;
+}
+
+/** Formula view of grid columns (`dataType` is the column's DuckDB type). */
+export function toFormulaColumns(columns: ColumnDef[]): FormulaColumn[] {
+  return columns.map(({ name, dataType, formula }) => ({
+    name,
+    ...(dataType ? { type: dataType } : {}),
+    ...(formula ? { formula } : {}),
+  }));
+}
+
+/**
+ * Maps a column index from before `operation` to after it, or `null` for a
+ * dropped column. Filters, sort keys and other index-keyed state use this
+ * to follow their columns.
+ */
+export function schemaIndexMapper(
+  names: string[],
+  operation: SchemaOperation,
+): (index: number) => number | null {
+  const order = planColumnOrder(names, operation);
+  const next = new Map<number, number>();
+  order.forEach((previous, index) => {
+    if (previous !== null) next.set(previous, index);
+  });
+  return (index) => next.get(index) ?? null;
+}
+
+/** Re-key an index-keyed map (e.g. column filters); dropped columns go. */
+export function remapColumnRecord<T>(
+  record: Record<number, T>,
+  mapIndex: (index: number) => number | null,
+): Record<number, T> {
+  const next: Record<number, T> = {};
+  for (const [key, value] of Object.entries(record)) {
+    const index = mapIndex(Number(key));
+    if (index !== null) next[index] = value as T;
+  }
+  return next;
+}
+
+/** Move `colIndex` entries (e.g. sort keys) along with their columns. */
+export function remapColumnKeys<T extends { colIndex: number }>(
+  items: T[],
+  mapIndex: (index: number) => number | null,
+): T[] {
+  return items.flatMap((item) => {
+    const colIndex = mapIndex(item.colIndex);
+    return colIndex === null ? [] : [{ ...item, colIndex }];
+  });
+}
+
+const TRUE_WORDS = new Set(["true", "t", "yes", "y", "1"]);
+const FALSE_WORDS = new Set(["false", "f", "no", "n", "0"]);
+const pad = (value: number, width = 2) => String(value).padStart(width, "0");
+
+/**
+ * Convert a cell for a column of `type`, roughly as DuckDB's `TRY_CAST`
+ * would, returning `null` when it cannot. Empty cells stay empty and types
+ * without a client equivalent keep their text.
+ */
+export function castCell(value: string, type: string): string | null {
+  const text = value.trim();
+  if (!text) return "";
+  const upper = type.toUpperCase();
+  if (upper === "BOOLEAN" || upper === "BOOL") {
+    const lower = text.toLowerCase();
+    if (TRUE_WORDS.has(lower)) return "true";
+    if (FALSE_WORDS.has(lower)) return "false";
+    return null;
+  }
+  if (isNumericType(upper) && !upper.startsWith("INTERVAL")) {
+    const number = parseNumber(text);
+    if (number == null) return null;
+    return String(upper.includes("INT") ? Math.round(number) : number);
+  }
+  if (isDateType(upper)) {
+    const ms = parseDateValue(text);
+    if (ms == null) return null;
+    const date = new Date(ms);
+    const day = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+    if (upper === "DATE") return day;
+    const time = `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+    const millis = date.getUTCMilliseconds();
+    return `${day} ${time}${millis ? `.${pad(millis, 3)}` : ""}`;
+  }
+  return value;
+}
+
+/** Client-side counterpart of the server's `TRY_CAST` preview. */
+export function previewCast(
+  values: Iterable<string | undefined>,
+  type: string,
+): CastPreview {
+  let checked = 0;
+  let failed = 0;
+  const samples = new Set<string>();
+  for (const value of values) {
+    if (!value?.trim()) continue;
+    checked++;
+    if (castCell(value, type) !== null) continue;
+    failed++;
+    if (samples.size < CAST_PREVIEW_SAMPLES) samples.add(value);
+  }
+  return { checked, failed, samples: [...samples] };
+}
+
+/**
+ * Apply `operation` to in-memory rows. Expressions need DuckDB, and a type
+ * change with unconvertible values is rejected unless `nullOnFailure` is
+ * set, matching `ALTER COLUMN … TYPE`. Computed cells are left for the
+ * caller to fill in (`computeFormulaCells`).
+ */
+export function applySchemaOperation(
+  columns: ColumnDef[],
+  rows: string[][],
+  requested: SchemaOperation,
+): { columns: ColumnDef[]; rows: string[][] } {
+  const names = columns.map((column) => column.name);
+  if (requested.op === "add" && requested.expression) {
+    throw new SchemaOperationError(
+      "Columns from expressions need a DuckDB table",
+    );
+  }
+  const operation = resolveSchemaOperation(
+    toFormulaColumns(columns),
+    requested,
+  );
+  const order = planColumnOrder(names, operation);
+
+  if (operation.op === "compute" && operation.column !== undefined) {
+    const index = findColumnIndex(names, operation.column);
+    const next = columns.slice();
+    next[index] = { name: operation.name, formula: operation.formula };
+    return { columns: next, rows };
+  }
+
+  if (operation.op === "rename") {
+    const index = findColumnIndex(names, operation.column);
+    const next = columns.slice();
+    next[index] = { ...columns[index]!, name: operation.name };
+    return { columns: next, rows };
+  }
+
+  if (operation.op === "retype") {
+    const index = findColumnIndex(names, operation.column);
+    const preview = previewCast(
+      rows.map((row) => row?.[index]),
+      operation.type,
+    );
+    if (preview.failed > 0 && !operation.nullOnFailure) {
+      throw new SchemaOperationError(
+        `${preview.failed} values cannot be converted to ${operation.type}`,
+      );
+    }
+    const next = columns.slice();
+    next[index] = { ...columns[index]!, dataType: operation.type };
+    return {
+      columns: next,
+      rows: rows.map((row) => {
+        if (!row) return row;
+        const copy = row.slice();
+        copy[index] = castCell(row[index] ?? "", operation.type) ?? "";
+        return copy;
+      }),
+    };
+  }
+
+  let added: ColumnDef = { name: "" };
+  if (operation.op === "add") {
+    added = {
+      name: operation.name,
+      ...(operation.type ? { dataType: operation.type } : {}),
+    };
+  } else if (operation.op === "compute") {
+    added = { name: operation.name, formula: operation.formula };
+  }
+  return {
+    columns: order.map((index) => (index === null ? added : columns[index]!)),
+    rows: rows.map((row) =>
+      row
+        ? order.map((index) => (index === null ? "" : (row[index] ?? "")))
+        : row,
+    ),
+  };
+}
@@ -14,6 +14,8 @@ test("computeSelectionStats handles empty selection", () => {
   const stats = computeSelectionStats(new Set(), [["1"]]);
   expect(stats).toEqual({
     count: 0,
+    filledCount: 0,
+    numericCount: 0,
     rowsCount: 0,
     colsCount: 0,
     sum: null,
@@ -51,6 +53,22 @@ test("computeSelectionStats ignores non-numeric and empty cells for aggregates",
   expect(stats.min).toBe(2);
   expect(stats.max).toBe(3);
   expect(stats.avg).toBe(2.5);
+  expect(stats.filledCount).toBe(3);
+  expect(stats.numericCount).toBe(2);
+});
+
+test("computeSelectionStats counts blank text as filled but not numeric", () => {
+  const model = new SelectionModel();
+  model.setRange(0, 2, 0, 0);
+  const stats = computeSelectionStats(model, [[" "], [" 4 "], ["-1e1"]]);
+  expect(stats).toMatchObject({
+    count: 3,
+    filledCount: 3,
+    numericCount: 2,
+    sum: -6,
+    min: -10,
+    max: 4,
+  });
 });
 
 describe("SelectionModel", () => {
@@ -167,16 +167,68 @@ export class SelectionModel {
   }
 }
 
-export interface SelectionStats {
+/**
+ * Aggregates over selected cells. `count` is every selected cell,
+ * `filledCount` the non-empty ones and `numericCount` those that read as
+ * numbers, which `sum`, `avg`, `min` and `max` cover (null without any).
+ */
+export interface SelectionAggregate {
   count: number;
-  rowsCount: number;
-  colsCount: number;
+  filledCount: number;
+  numericCount: number;
   sum: number | null;
   avg: number | null;
   min: number | null;
   max: number | null;
 }
 
+/** Ranges one server-side selection aggregate may cover. */
+export const MAX_AGGREGATE_RANGES = 1000;
+
+export interface SelectionStats extends SelectionAggregate {
+  rowsCount: number;
+  colsCount: number;
+}
+
+/** A cell's numeric value, or null for empty and non-numeric cells. */
+export function numericCellValue(value: string | undefined): number | null {
+  if (value == null || value.trim() === "") return null;
+  const n = Number(value);
+  return Number.isNaN(n) ? null : n;
+}
+
+class AggregateAccumulator {
+  filledCount = 0;
+  numericCount = 0;
+  sum = 0;
+  min: number | null = null;
+  max: number | null = null;
+
+  add(value: string | undefined): void {
+    if (value == null || value === "") return;
+    this.filledCount++;
+    const n = numericCellValue(value);
+    if (n === null) return;
+    this.sum += n;
+    this.numericCount++;
+    if (this.min === null || n < this.min) this.min = n;
+    if (this.max === null || n > this.max) this.max = n;
+  }
+
+  result(count: number): SelectionAggregate {
+    const numeric = this.numericCount > 0;
+    return {
+      count,
+      filledCount: this.filledCount,
+      numericCount: this.numericCount,
+      sum: numeric ? this.sum : null,
+      avg: numeric ? this.sum / this.numericCount : null,
+      min: this.min,
+      max: this.max,
+    };
+  }
+}
+
 export function computeSelectionStats(
   selection: Set<string> | SelectionModel,
   rows: string[][],
@@ -185,50 +237,19 @@ export function computeSelectionStats(
     return computeSelectionStatsFromModel(selection, rows);
   }
 
-  const count = selection.size;
-  if (count === 0) {
-    return {
-      count,
-      rowsCount: 0,
-      colsCount: 0,
-      sum: null,
-      avg: null,
-      min: null,
-      max: null,
-    };
-  }
   const rowsSet = new Set<number>();
   const colsSet = new Set<number>();
-  let sum = 0;
-  let min: number | null = null;
-  let max: number | null = null;
-  let numericCount = 0;
-
+  const acc = new AggregateAccumulator();
   for (const key of selection) {
     const [r, c] = parseSelectionKey(key);
     rowsSet.add(r);
     colsSet.add(c);
-    const v = rows[r]?.[c];
-    if (v != null && v !== "") {
-      const n = Number(v);
-      if (!Number.isNaN(n)) {
-        sum += n;
-        numericCount++;
-        if (min === null || n < min) min = n;
-        if (max === null || n > max) max = n;
-      }
-    }
+    acc.add(rows[r]?.[c]);
   }
-
-  const avg = numericCount > 0 ? sum / numericCount : null;
   return {
-    count,
+    ...acc.result(selection.size),
     rowsCount: rowsSet.size,
     colsCount: colsSet.size,
-    sum: numericCount > 0 ? sum : null,
-    avg,
-    min,
-    max,
   };
 }
 
@@ -236,53 +257,21 @@ function computeSelectionStatsFromModel(
   selection: SelectionModel,
   rows: string[][],
 ): SelectionStats {
-  const count = selection.getCellCount();
-  if (count === 0) {
-    return {
-      count,
-      rowsCount: 0,
-      colsCount: 0,
-      sum: null,
-      avg: null,
-      min: null,
-      max: null,
-    };
-  }
-
   const rowsSet = new Set<number>();
   const colsSet = new Set<number>();
-  let sum = 0;
-  let min: number | null = null;
-  let max: number | null = null;
-  let numericCount = 0;
-
+  const acc = new AggregateAccumulator();
   for (const range of selection.getRanges()) {
     for (let r = range.r1; r <= range.r2; r++) {
       rowsSet.add(r);
       for (let c = range.c1; c <= range.c2; c++) {
         colsSet.add(c);
-        const v = rows[r]?.[c];
-        if (v != null && v !== "") {
-          const n = Number(v);
-          if (!Number.isNaN(n)) {
-            sum += n;
-            numericCount++;
-            if (min === null || n < min) min = n;
-            if (max === null || n > max) max = n;
-          }
-        }
+        acc.add(rows[r]?.[c]);
       }
     }
   }
-
-  const avg = numericCount > 0 ? sum / numericCount : null;
   return {
-    count,
+    ...acc.result(selection.getCellCount()),
     rowsCount: rowsSet.size,
     colsCount: colsSet.size,
-    sum: numericCount > 0 ? sum : null,
-    avg,
-    min,
-    max,
   };
 }
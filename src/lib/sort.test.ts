@@ -0,0 +1,90 @@
+import { describe, expect, test } from "bun:test";
+import {
+  createRowComparator,
+  formatSortParam,
+  parseSortParam,
+  toggleSortKey,
+} from "./sort";
+
+describe("sort param", () => {
+  test("round-trips ordered keys", () => {
+    const keys = parseSortParam("2:asc,0:desc");
+    expect(keys).toEqual([
+      { colIndex: 2, dir: "asc" },
+      { colIndex: 0, dir: "desc" },
+    ]);
+    expect(formatSortParam(keys)).toBe("2:asc,0:desc");
+    expect(formatSortParam([])).toBeNull();
+  });
+
+  test("skips malformed and duplicate keys", () => {
+    expect(parseSortParam("1:up,x:asc,3:desc,3:asc")).toEqual([
+      { colIndex: 3, dir: "desc" },
+    ]);
+  });
+});
+
+describe("toggleSortKey", () => {
+  test("plain clicks replace the sort and cycle asc, desc, off", () => {
+    const asc = toggleSortKey([], 1, false);
+    expect(asc).toEqual([{ colIndex: 1, dir: "asc" }]);
+    const desc = toggleSortKey(asc, 1, false);
+    expect(desc).toEqual([{ colIndex: 1, dir: "desc" }]);
+    expect(toggleSortKey(desc, 1, false)).toEqual([]);
+    expect(
+      toggleSortKey(
+        [
+          { colIndex: 0, dir: "asc" },
+          { colIndex: 1, dir: "desc" },
+        ],
+        1,
+        false,
+      ),
+    ).toEqual([{ colIndex: 1, dir: "asc" }]);
+  });
+
+  test("shift clicks append and cycle a key in place", () => {
+    let keys = toggleSortKey([{ colIndex: 0, dir: "asc" }], 2, true);
+    expect(keys).toEqual([
+      { colIndex: 0, dir: "asc" },
+      { colIndex: 2, dir: "asc" },
+    ]);
+    keys = toggleSortKey(keys, 0, true);
+    expect(keys).toEqual([
+      { colIndex: 0, dir: "desc" },
+      { colIndex: 2, dir: "asc" },
+    ]);
+    expect(toggleSortKey(keys, 0, true)).toEqual([{ colIndex: 2, dir: "asc" }]);
+  });
+});
+
+describe("createRowComparator", () => {
+  const rows = [
+    ["west", "100", "2024-03-01"],
+    ["east", "250", "2024-01-15"],
+    ["west", "300", ""],
+    ["east", "250", "2023-12-31"],
+    ["", "50", "2024-02-01"],
+  ];
+  const kinds = ["text", "number", "date"] as const;
+  const order = (keys: Parameters<typeof createRowComparator>[1]) =>
+    rows.map((_, i) => i).sort(createRowComparator(rows, keys, [...kinds]));
+
+  test("orders by keys in priority order", () => {
+    expect(
+      order([
+        { colIndex: 0, dir: "asc" },
+        { colIndex: 1, dir: "desc" },
+      ]),
+    ).toEqual([1, 3, 2, 0, 4]);
+  });
+
+  test("keeps ties in original order", () => {
+    expect(order([{ colIndex: 1, dir: "desc" }])).toEqual([2, 1, 3, 0, 4]);
+  });
+
+  test("sorts dates chronologically with blanks last", () => {
+    expect(order([{ colIndex: 2, dir: "asc" }])).toEqual([3, 1, 4, 0, 2]);
+    expect(order([{ colIndex: 2, dir: "desc" }])).toEqual([0, 4, 1, 3, 2]);
+  });
+});
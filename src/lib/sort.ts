@@ -0,0 +1,133 @@
+import type { SortState } from "@/types/shared";
+import type { ColumnKind } from "./filterAst";
+import { dateSortKey } from "./filterPredicate";
+import { parseNumber } from "./validators";
+
+/** Ordered sort keys; the first entry has the highest priority. */
+export type SortKeys = SortState[];
+
+const collator =
+  typeof Intl !== "undefined" && typeof Intl.Collator === "function"
+    ? new Intl.Collator(undefined, { numeric: true, sensitivity: "base" })
+    : null;
+
+function isSortKey(value: unknown): value is SortState {
+  if (!value || typeof value !== "object") return false;
+  const { colIndex, dir } = value as Partial<SortState>;
+  return (
+    Number.isInteger(colIndex) &&
+    (colIndex as number) >= 0 &&
+    (dir === "asc" || dir === "desc")
+  );
+}
+
+/** Drop malformed entries and repeated columns (the first one wins). */
+export function normalizeSortKeys(value: unknown): SortKeys {
+  const list = Array.isArray(value) ? value : value ? [value] : [];
+  const seen = new Set<number>();
+  const out: SortKeys = [];
+  for (const entry of list) {
+    if (!isSortKey(entry) || seen.has(entry.colIndex)) continue;
+    seen.add(entry.colIndex);
+    out.push({ colIndex: entry.colIndex, dir: entry.dir });
+  }
+  return out;
+}
+
+/** Parse the `sort` URL param: `"2:asc,0:desc"` (a single key is fine). */
+export function parseSortParam(raw: string | null | undefined): SortKeys {
+  if (!raw) return [];
+  return normalizeSortKeys(
+    raw.split(",").map((part) => {
+      const [col, dir] = part.trim().split(":");
+      return { colIndex: Number(col), dir };
+    }),
+  );
+}
+
+export function formatSortParam(keys: SortKeys): string | null {
+  return keys.length > 0
+    ? keys.map((key) => `${key.colIndex}:${key.dir}`).join(",")
+    : null;
+}
+
+/**
+ * Header click behaviour. A plain click makes the column the only key and
+ * cycles asc → desc → off; an additive (shift) click appends the column as
+ * the lowest-priority key or cycles it in place.
+ */
+export function toggleSortKey(
+  keys: SortKeys,
+  colIndex: number,
+  additive: boolean,
+): SortKeys {
+  const index = keys.findIndex((key) => key.colIndex === colIndex);
+  const current = index >= 0 ? keys[index]! : null;
+  if (!additive) {
+    if (!current || keys.length > 1) return [{ colIndex, dir: "asc" }];
+    return current.dir === "asc" ? [{ colIndex, dir: "desc" }] : [];
+  }
+  if (!current) return [...keys, { colIndex, dir: "asc" }];
+  if (current.dir === "asc") {
+    return keys.map((key, i) =>
+      i === index ? { colIndex, dir: "desc" } : key,
+    );
+  }
+  return keys.filter((_, i) => i !== index);
+}
+
+/**
+ * Comparator over row indices for client-side view sorting. Numbers and
+ * dates compare by value, text by locale; empty or unparseable cells sort
+ * last in either direction, and ties fall back to the original row order.
+ */
+export function createRowComparator(
+  rows: string[][],
+  keys: SortKeys,
+  kinds: ColumnKind[] = [],
+): (a: number, b: number) => number {
+  const parsers = keys.map(({ colIndex }) => {
+    const kind = kinds[colIndex] ?? "text";
+    if (kind === "number") return (value: string) => parseNumber(value);
+    if (kind === "date") return (value: string) => dateSortKey(value, kind);
+    return null;
+  });
+  const cache = keys.map(() => new Map<number, number | null>());
+  const valueOf = (keyIndex: number, row: number): number | null => {
+    const memo = cache[keyIndex]!;
+    if (memo.has(row)) return memo.get(row)!;
+    const raw = rows[row]?.[keys[keyIndex]!.colIndex] ?? "";
+    const parsed = parsers[keyIndex]?.(raw) ?? null;
+    memo.set(row, parsed);
+    return parsed;
+  };
+
+  return (a, b) => {
+    for (let k = 0; k < keys.length; k++) {
+      const { colIndex, dir } = keys[k]!;
+      const sign = dir === "asc" ? 1 : -1;
+      const parse = parsers[k];
+      let result: number;
+      if (parse) {
+        const va = valueOf(k, a);
+        const vb = valueOf(k, b);
+        if (va == null || vb == null) {
+          result = va == null ? (vb == null ? 0 : 1) : -1;
+        } else {
+          result = (va - vb) * sign;
+        }
+      } else {
+        const va = rows[a]?.[colIndex] ?? "";
+        const vb = rows[b]?.[colIndex] ?? "";
+        if (!va || !vb) {
+          result = !va ? (!vb ? 0 : 1) : -1;
+        } else {
+          result =
+            (collator ? collator.compare(va, vb) : va.localeCompare(vb)) * sign;
+        }
+      }
+      if (result !== 0) return result;
+    }
+    return a - b;
+  };
+}
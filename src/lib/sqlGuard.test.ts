@@ -0,0 +1,113 @@
+import { describe, expect, test } from "bun:test";
+import {
+  assertReadOnlyParse,
+  assertStandaloneExpression,
+  explainTarget,
+  pivotParseProbe,
+  ReadOnlySqlError,
+  statementKind,
+  trimStatement,
+} from "./sqlGuard";
+
+const tableFunction = (name: string) => ({
+  node: {
+    type: "SELECT_NODE",
+    from_table: {
+      type: "TABLE_FUNCTION",
+      function: { class: "FUNCTION", function_name: name, children: [] },
+    },
+  },
+});
+
+describe("trimStatement", () => {
+  test("drops surrounding comments, whitespace and semicolons", () => {
+    expect(trimStatement("-- top\n  SELECT 1 ;; -- done\n")).toBe("SELECT 1");
+    expect(trimStatement("SELECT ';' /* x */;")).toBe("SELECT ';'");
+    expect(trimStatement(" ; ")).toBe("");
+  });
+});
+
+describe("statementKind", () => {
+  test("classifies by the leading keyword", () => {
+    expect(statementKind("/* c */ describe t")).toBe("show");
+    expect(statementKind("SUMMARIZE t")).toBe("show");
+    expect(statementKind("explain analyze SELECT 1")).toBe("explain");
+    expect(statementKind("WITH t AS (SELECT 1) FROM t")).toBe("select");
+  });
+
+  test("finds the statement under EXPLAIN", () => {
+    expect(explainTarget("EXPLAIN ANALYZE SELECT 1;")).toBe("SELECT 1");
+    expect(explainTarget("explain FROM t")).toBe("FROM t");
+  });
+});
+
+describe("pivotParseProbe", () => {
+  test("gives each ON column a placeholder value list", () => {
+    expect(pivotParseProbe("PIVOT t ON a, b USING sum(x)")).toBe(
+      "PIVOT t ON a IN (NULL), b IN (NULL) USING sum(x)",
+    );
+    expect(pivotParseProbe("PIVOT t ON a IN ('x'), upper(b)")).toBe(
+      "PIVOT t ON a IN ('x'), upper(b) IN (NULL)",
+    );
+  });
+
+  test("uses the pivot's ON rather than a join's", () => {
+    expect(
+      pivotParseProbe("PIVOT (FROM a JOIN b ON a.k = b.k) ON c GROUP BY d"),
+    ).toBe("PIVOT (FROM a JOIN b ON a.k = b.k) ON c IN (NULL) GROUP BY d");
+    expect(pivotParseProbe("PIVOT t")).toBeNull();
+  });
+});
+
+describe("assertStandaloneExpression", () => {
+  test("keeps an expression inside its parentheses", () => {
+    expect(assertStandaloneExpression(" upper(')') || \"a(\" ")).toBe(
+      "upper(')') || \"a(\"",
+    );
+    expect(() => assertStandaloneExpression("1) FROM t, (SELECT 2")).toThrow(
+      /parentheses/,
+    );
+    expect(() => assertStandaloneExpression("a -- b")).toThrow(/comments/);
+    expect(() => assertStandaloneExpression("a; DROP TABLE t")).toThrow(
+      ReadOnlySqlError,
+    );
+  });
+});
+
+describe("assertReadOnlyParse", () => {
+  test("accepts a single statement over safe table functions", () => {
+    expect(() =>
+      assertReadOnlyParse({ statements: [tableFunction("range")] }),
+    ).not.toThrow();
+  });
+
+  test("rejects parse errors, other statements and multiple statements", () => {
+    expect(() =>
+      assertReadOnlyParse({
+        error: true,
+        error_type: "not implemented",
+        error_message: "Only SELECT statements can be serialized to json!",
+      }),
+    ).toThrow(/read-only/);
+    expect(() =>
+      assertReadOnlyParse({
+        error: true,
+        error_type: "parser",
+        error_message: 'syntax error at or near "SELEC"',
+      }),
+    ).toThrow(/syntax error/);
+    expect(() =>
+      assertReadOnlyParse({
+        statements: [tableFunction("range"), tableFunction("range")],
+      }),
+    ).toThrow(ReadOnlySqlError);
+  });
+
+  test("blocks file readers unless allow-listed", () => {
+    const parsed = { statements: [tableFunction("read_parquet")] };
+    expect(() => assertReadOnlyParse(parsed)).toThrow(/read_parquet/);
+    expect(() =>
+      assertReadOnlyParse(parsed, new Set(["read_parquet"])),
+    ).not.toThrow();
+  });
+});
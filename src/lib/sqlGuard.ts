@@ -0,0 +1,252 @@
+import { tokenizeSql, type SqlToken } from "./sqlHighlight";
+
+/**
+ * How a vetted statement is materialised: plain queries go straight into
+ * `CREATE TABLE … AS`, DESCRIBE/SHOW/SUMMARIZE need a `FROM (…)` wrapper,
+ * and EXPLAIN has to be run on its own.
+ */
+export type ReadOnlyStatementKind = "select" | "show" | "explain";
+
+export interface ReadOnlyStatement {
+  kind: ReadOnlyStatementKind;
+  /** The statement without surrounding comments or trailing semicolons. */
+  sql: string;
+}
+
+export class ReadOnlySqlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReadOnlySqlError";
+  }
+}
+
+export const READ_ONLY_STATEMENTS_HINT =
+  "Only read-only queries are permitted (SELECT, WITH, DESCRIBE, SUMMARIZE, EXPLAIN, PIVOT)";
+
+/** Table functions that never touch files, the network or settings. */
+export const SAFE_TABLE_FUNCTIONS: ReadonlySet<string> = new Set([
+  "duckdb_columns",
+  "duckdb_functions",
+  "duckdb_tables",
+  "duckdb_types",
+  "duckdb_views",
+  "generate_series",
+  "json_each",
+  "json_tree",
+  "pragma_table_info",
+  "range",
+  "unnest",
+]);
+
+/** Scalar functions that leak the server environment or configuration. */
+const BLOCKED_FUNCTIONS = new Set(["current_setting", "getenv"]);
+
+const SHOW_KEYWORDS = new Set(["DESC", "DESCRIBE", "SHOW", "SUMMARIZE"]);
+const PIVOT_CLAUSE_END = new Set(["GROUP", "LIMIT", "ORDER", "USING"]);
+
+// A table name DuckDB could hand to a replacement scan: `FROM 'data.csv'`,
+// `FROM "s3://bucket/x.parquet"` and the like.
+const FILE_LIKE_TABLE = /[./\\:]/;
+
+const isTrivia = (token: SqlToken) =>
+  token.kind === "whitespace" || token.kind === "comment";
+
+const isWord = (token: SqlToken | undefined, word: string) =>
+  (token?.kind === "keyword" || token?.kind === "identifier") &&
+  token.text.toUpperCase() === word;
+
+/** Drop leading and trailing comments, whitespace and semicolons. */
+export function trimStatement(sql: string): string {
+  const tokens = tokenizeSql(sql);
+  let start = 0;
+  let end = tokens.length;
+  while (start < end && isTrivia(tokens[start]!)) start++;
+  while (
+    end > start &&
+    (isTrivia(tokens[end - 1]!) || tokens[end - 1]!.text === ";")
+  ) {
+    end--;
+  }
+  return tokens
+    .slice(start, end)
+    .map((token) => token.text)
+    .join("");
+}
+
+/** The statement's first keyword, uppercased ("" when there is none). */
+export function leadingKeyword(sql: string): string {
+  const token = tokenizeSql(sql).find((t) => !isTrivia(t));
+  return token?.kind === "keyword" || token?.kind === "identifier"
+    ? token.text.toUpperCase()
+    : "";
+}
+
+export function statementKind(sql: string): ReadOnlyStatementKind {
+  const keyword = leadingKeyword(sql);
+  if (keyword === "EXPLAIN") return "explain";
+  return SHOW_KEYWORDS.has(keyword) ? "show" : "select";
+}
+
+/** The statement an `EXPLAIN [ANALYZE]` wraps. */
+export function explainTarget(sql: string): string {
+  const tokens = tokenizeSql(sql);
+  let index = tokens.findIndex((t) => !isTrivia(t)) + 1;
+  while (index < tokens.length && isTrivia(tokens[index]!)) index++;
+  if (isWord(tokens[index], "ANALYZE")) index++;
+  return trimStatement(
+    tokens
+      .slice(index)
+      .map((token) => token.text)
+      .join(""),
+  );
+}
+
+/**
+ * DuckDB only serialises a PIVOT whose ON columns list their values; a bare
+ * `PIVOT t ON col` becomes several statements. Give every ON column a
+ * placeholder `IN (NULL)` so the parser can check the same tables and
+ * functions. Returns null when the ON clause cannot be found.
+ */
+export function pivotParseProbe(sql: string): string | null {
+  const tokens = tokenizeSql(sql);
+  let depth = 0;
+  let onIndex = -1;
+  tokens.forEach((token, i) => {
+    if (token.text === "(") depth++;
+    else if (token.text === ")") depth--;
+    else if (depth === 0 && isWord(token, "ON")) onIndex = i;
+  });
+  if (onIndex < 0) return null;
+
+  const out = tokens.slice(0, onIndex + 1).map((token) => token.text);
+  let hasIn = false;
+  // Where the current ON item's last token ends in `out`, -1 before any.
+  let itemEnd = -1;
+  const closeItem = () => {
+    if (itemEnd >= 0 && !hasIn) out.splice(itemEnd, 0, " IN (NULL)");
+    hasIn = false;
+    itemEnd = -1;
+  };
+  depth = 0;
+  let inClause = true;
+  for (const token of tokens.slice(onIndex + 1)) {
+    if (inClause && depth === 0) {
+      const upper = token.text.toUpperCase();
+      if (token.text === "," || token.text === ";") {
+        closeItem();
+      } else if (token.kind === "keyword" && PIVOT_CLAUSE_END.has(upper)) {
+        closeItem();
+        inClause = false;
+      } else if (isWord(token, "IN")) {
+        hasIn = true;
+      }
+    }
+    if (token.text === "(") depth++;
+    else if (token.text === ")") depth--;
+    out.push(token.text);
+    if (inClause && depth >= 0 && !isTrivia(token) && token.text !== ",") {
+      itemEnd = out.length;
+    }
+  }
+  if (inClause) closeItem();
+  return out.join("");
+}
+
+/**
+ * Check that `expression` cannot escape the parentheses it is spliced into
+ * (`SELECT (<expression>) FROM t`): no comments or semicolons, and brackets
+ * that never close more than they opened. Returns it trimmed; what it may
+ * read is checked separately by parsing the surrounding SELECT.
+ */
+export function assertStandaloneExpression(expression: string): string {
+  const trimmed = expression.trim();
+  if (!trimmed) throw new ReadOnlySqlError("An expression is required");
+  let depth = 0;
+  for (const token of tokenizeSql(trimmed)) {
+    if (token.kind === "comment" || token.text === ";") {
+      throw new ReadOnlySqlError(
+        "Expressions may not contain comments or semicolons",
+      );
+    }
+    if (token.text === "(") depth++;
+    else if (token.text === ")" && --depth < 0) break;
+  }
+  if (depth !== 0) {
+    throw new ReadOnlySqlError("Unbalanced parentheses in expression");
+  }
+  return trimmed;
+}
+
+/** What `json_serialize_sql` returns. */
+export interface SerializedSql {
+  error?: boolean;
+  error_type?: string;
+  error_message?: string;
+  statements?: unknown[];
+}
+
+function findBlockedReference(
+  node: unknown,
+  allowedTableFunctions: ReadonlySet<string>,
+): string | null {
+  if (Array.isArray(node)) {
+    for (const child of node) {
+      const found = findBlockedReference(child, allowedTableFunctions);
+      if (found) return found;
+    }
+    return null;
+  }
+  if (!node || typeof node !== "object") return null;
+  const record = node as Record<string, unknown>;
+  if (record.type === "TABLE_FUNCTION") {
+    const fn = record.function as { function_name?: unknown } | undefined;
+    const name = String(fn?.function_name ?? "").toLowerCase();
+    if (!allowedTableFunctions.has(name)) {
+      return `Table function ${name}() is not permitted`;
+    }
+  } else if (record.type === "BASE_TABLE" || record.type === "SHOW_REF") {
+    const name = String(record.table_name ?? "");
+    if (FILE_LIKE_TABLE.test(name)) {
+      return `Reading files or URLs (${name}) is not permitted`;
+    }
+  } else if (record.class === "FUNCTION") {
+    const name = String(record.function_name ?? "").toLowerCase();
+    if (BLOCKED_FUNCTIONS.has(name)) {
+      return `Function ${name}() is not permitted`;
+    }
+  }
+  for (const value of Object.values(record)) {
+    const found = findBlockedReference(value, allowedTableFunctions);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Check the output of DuckDB's `json_serialize_sql`: exactly one SELECT-like
+ * statement that only reads tables and allow-listed table functions. Throws
+ * `ReadOnlySqlError` otherwise.
+ */
+export function assertReadOnlyParse(
+  serialized: SerializedSql,
+  allowedTableFunctions: ReadonlySet<string> = SAFE_TABLE_FUNCTIONS,
+): void {
+  if (serialized.error) {
+    // Anything but a SELECT fails to serialise with a "not implemented" error.
+    throw new ReadOnlySqlError(
+      serialized.error_type === "not implemented"
+        ? READ_ONLY_STATEMENTS_HINT
+        : (serialized.error_message ?? "Could not parse the query"),
+    );
+  }
+  const statements = serialized.statements ?? [];
+  if (statements.length !== 1) {
+    throw new ReadOnlySqlError(
+      statements.length === 0
+        ? "SQL query is required"
+        : "Run one statement at a time",
+    );
+  }
+  const blocked = findBlockedReference(statements, allowedTableFunctions);
+  if (blocked) throw new ReadOnlySqlError(blocked);
+}
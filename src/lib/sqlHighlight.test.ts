@@ -0,0 +1,53 @@
+import { describe, expect, test } from "bun:test";
+import { tokenizeSql } from "./sqlHighlight";
+
+const kinds = (sql: string) =>
+  tokenizeSql(sql)
+    .filter((t) => t.kind !== "whitespace")
+    .map((t) => [t.kind, t.text]);
+
+describe("tokenizeSql", () => {
+  test("classifies keywords, functions, literals and identifiers", () => {
+    expect(
+      kinds(`select count(*) AS n, "Order Id" FROM orders WHERE x >= 1.5e3`),
+    ).toEqual([
+      ["keyword", "select"],
+      ["function", "count"],
+      ["other", "("],
+      ["operator", "*"],
+      ["other", ")"],
+      ["keyword", "AS"],
+      ["identifier", "n"],
+      ["other", ","],
+      ["quoted", '"Order Id"'],
+      ["keyword", "FROM"],
+      ["identifier", "orders"],
+      ["keyword", "WHERE"],
+      ["identifier", "x"],
+      ["operator", ">="],
+      ["number", "1.5e3"],
+    ]);
+  });
+
+  test("handles comments, escaped quotes and unterminated literals", () => {
+    expect(kinds("-- note\nSELECT 'it''s' /* block */")).toEqual([
+      ["comment", "-- note"],
+      ["keyword", "SELECT"],
+      ["string", "'it''s'"],
+      ["comment", "/* block */"],
+    ]);
+    expect(kinds("SELECT 'open")).toEqual([
+      ["keyword", "SELECT"],
+      ["string", "'open"],
+    ]);
+  });
+
+  test("round-trips the input text", () => {
+    const sql = "WITH t AS (SELECT 1::INT a)\n  SELECT a || '€' FROM t; @x";
+    expect(
+      tokenizeSql(sql)
+        .map((t) => t.text)
+        .join(""),
+    ).toBe(sql);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * A small SQL lexer for the console's syntax highlighting. It only has to
+ * colour text, so it never fails: anything it does not recognise becomes an
+ * `other` token, and concatenating the token texts always gives back the
+ * input.
+ */
+export type SqlTokenKind =
+  | "keyword"
+  | "function"
+  | "identifier"
+  | "quoted"
+  | "string"
+  | "number"
+  | "comment"
+  | "operator"
+  | "whitespace"
+  | "other";
+
+export interface SqlToken {
+  kind: SqlTokenKind;
+  text: string;
+}
+
+export const SQL_KEYWORDS = new Set(
+  [
+    "all",
+    "and",
+    "anti",
+    "as",
+    "asc",
+    "between",
+    "by",
+    "case",
+    "cast",
+    "create",
+    "cross",
+    "cube",
+    "delete",
+    "desc",
+    "describe",
+    "distinct",
+    "drop",
+    "else",
+    "end",
+    "except",
+    "exclude",
+    "exists",
+    "explain",
+    "false",
+    "filter",
+    "first",
+    "from",
+    "full",
+    "group",
+    "having",
+    "ilike",
+    "in",
+    "inner",
+    "insert",
+    "intersect",
+    "interval",
+    "into",
+    "is",
+    "join",
+    "last",
+    "lateral",
+    "left",
+    "like",
+    "limit",
+    "natural",
+    "not",
+    "null",
+    "nulls",
+    "offset",
+    "on",
+    "or",
+    "order",
+    "outer",
+    "over",
+    "partition",
+    "pivot",
+    "positional",
+    "qualify",
+    "recursive",
+    "replace",
+    "right",
+    "rollup",
+    "sample",
+    "select",
+    "semi",
+    "set",
+    "show",
+    "similar",
+    "summarize",
+    "table",
+    "then",
+    "true",
+    "union",
+    "unnest",
+    "unpivot",
+    "update",
+    "using",
+    "values",
+    "when",
+    "where",
+    "window",
+    "with",
+  ].map((word) => word.toUpperCase()),
+);
+
+const TOKEN_PATTERNS: Array<[SqlTokenKind, RegExp]> = [
+  ["whitespace", /\s+/y],
+  ["comment", /--[^\n]*/y],
+  ["comment", /\/\*[\s\S]*?(?:\*\/|$)/y],
+  // Unterminated literals run to the end of the text.
+  ["string", /'(?:[^']|'')*(?:'|$)/y],
+  ["quoted", /"(?:[^"]|"")*(?:"|$)/y],
+  ["number", /(?:\d+(?:\.\d*)?|\.\d+)(?:e[+-]?\d+)?/iy],
+  ["identifier", /[A-Za-z_][A-Za-z0-9_$]*/y],
+  ["operator", /::|<=|>=|<>|!=|\|\||->>|->|[-+*/%<>=~^&|!]/y],
+];
+const CALL_PATTERN = /\s*\(/y;
+
+export function tokenizeSql(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let index = 0;
+  while (index < sql.length) {
+    let matched: SqlToken | null = null;
+    for (const [kind, pattern] of TOKEN_PATTERNS) {
+      pattern.lastIndex = index;
+      const match = pattern.exec(sql);
+      if (match && match[0].length > 0) {
+        matched = { kind, text: match[0] };
+        break;
+      }
+    }
+    matched ??= { kind: "other", text: sql[index]! };
+    if (matched.kind === "identifier") {
+      const upper = matched.text.toUpperCase();
+      if (SQL_KEYWORDS.has(upper)) {
+        matched.kind = "keyword";
+      } else {
+        CALL_PATTERN.lastIndex = index + matched.text.length;
+        if (CALL_PATTERN.test(sql)) matched.kind = "function";
+      }
+    }
+    tokens.push(matched);
+    index += matched.text.length;
+  }
+  return tokens;
+}
@@ -75,3 +75,29 @@ test("parseStream awaits async onRows handlers sequentially", async () => {
   });
   expect(batches).toEqual([1, 1]);
 });
+
+test("parseStream applies import options", async () => {
+  const rows: string[][] = [];
+  const columns: string[][] = [];
+  const reader = readerFromChunks(["title\n1;2,", "5\n3;NA\n"]);
+  await parseStream(reader, {
+    dialect: {
+      delimiter: ";",
+      header: false,
+      skipRows: 1,
+      nullStrings: ["NA"],
+      decimalSeparator: ",",
+    },
+    onColumns: (cols) => {
+      columns.push(cols);
+    },
+    onRows: (batch) => {
+      rows.push(...batch);
+    },
+  });
+  expect(columns).toEqual([["column0", "column1"]]);
+  expect(rows).toEqual([
+    ["1", "2.5"],
+    ["3", ""],
+  ]);
+});
@@ -1,3 +1,12 @@
+import {
+  CsvTokenizer,
+  DEFAULT_CSV_IMPORT_OPTIONS,
+  createCellNormalizer,
+  createCsvDecoder,
+  headerlessColumnNames,
+  type CsvImportOptions,
+} from "./csvDialect";
+
 export type CSVBatch = string[][];
 
 export interface StreamProgress {
@@ -8,6 +17,8 @@ export interface StreamProgress {
 export interface ParseStreamOptions {
   batchSize?: number;
   totalBytes?: number;
+  /** Import options; unset fields default to comma-separated UTF-8 with a header. */
+  dialect?: Partial<CsvImportOptions>;
   onColumns?: (cols: string[]) => void;
   onRows?: (rows: CSVBatch) => void | Promise<void>;
   onProgress?: (p: StreamProgress) => void;
@@ -18,14 +29,15 @@ export async function parseStream(
   reader: ReadableStreamDefaultReader<Uint8Array>,
   options: ParseStreamOptions,
 ) {
-  const decoder = new TextDecoder();
+  const dialect = { ...DEFAULT_CSV_IMPORT_OPTIONS, ...options.dialect };
+  const decoder = createCsvDecoder(dialect.encoding);
+  const tokenizer = new CsvTokenizer(dialect);
+  const normalize = createCellNormalizer(dialect);
   const batchSize = options.batchSize ?? 2000;
   let loaded = 0;
 
-  let carry = "";
-  let inQuotes = false;
+  let skip = dialect.skipRows;
   let headerParsed = false;
-  let columns: string[] = [];
   const batch: string[][] = [];
 
   const throwIfAborted = () => {
@@ -46,35 +58,23 @@ export async function parseStream(
     options.onProgress?.({ loaded, total: options.totalBytes });
   };
 
-  const parseLine = (line: string): string[] => {
-    const row: string[] = [];
-    let field = "";
-    let i = 0;
-    let q = false;
-
-    while (i < line.length) {
-      const ch = line[i];
-      if (ch === '"') {
-        if (q && line[i + 1] === '"') {
-          field += '"';
-          i += 2;
-          continue;
-        }
-        q = !q;
-        i++;
+  const handleRecords = async (records: string[][]) => {
+    for (const record of records) {
+      if (skip > 0) {
+        skip--;
         continue;
       }
-      if (ch === "," && !q) {
-        row.push(field);
-        field = "";
-        i++;
-        continue;
+      if (!headerParsed) {
+        headerParsed = true;
+        if (dialect.header) {
+          options.onColumns?.(record);
+          continue;
+        }
+        options.onColumns?.(headerlessColumnNames(record.length));
       }
-      field += ch;
-      i++;
+      batch.push(normalize ? record.map(normalize) : record);
+      if (batch.length >= batchSize) await flushBatch();
     }
-    row.push(field);
-    return row;
   };
 
   let doneReading = false;
@@ -87,48 +87,15 @@ export async function parseStream(
     }
     loaded += value.byteLength;
     emitProgress();
-
-    const text = decoder.decode(value, { stream: true });
-    for (let i = 0; i < text.length; i++) {
-      const ch = text[i];
-      carry += ch;
-      if (ch === '"') {
-        if (inQuotes && text[i + 1] === '"') {
-          carry += '"';
-          i++;
-          continue;
-        }
-        inQuotes = !inQuotes;
-        continue;
-      }
-      if (!inQuotes && ch === "\n") {
-        const record = carry.endsWith("\r\n")
-          ? carry.slice(0, -2)
-          : carry.slice(0, -1);
-        if (record.length > 0 || headerParsed) {
-          if (!headerParsed) {
-            columns = parseLine(record);
-            headerParsed = true;
-            options.onColumns?.(columns);
-          } else {
-            batch.push(parseLine(record));
-            if (batch.length >= batchSize) await flushBatch();
-          }
-        }
-        carry = "";
-      }
-    }
-  }
-
-  if (carry && !inQuotes) {
-    if (!headerParsed) {
-      const header = parseLine(carry);
-      options.onColumns?.(header);
-    } else {
-      batch.push(parseLine(carry));
-    }
+    await handleRecords(
+      tokenizer.push(decoder.decode(value, { stream: true })),
+    );
   }
 
+  await handleRecords([
+    ...tokenizer.push(decoder.decode()),
+    ...tokenizer.flush(),
+  ]);
   await flushBatch();
   options.onProgress?.({ loaded, total: options.totalBytes });
 }
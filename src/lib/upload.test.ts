@@ -0,0 +1,138 @@
+import { describe, expect, test } from "bun:test";
+import { existsSync } from "node:fs";
+import { unlink } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  UploadTooLargeError,
+  parseByteSize,
+  readJsonBody,
+  readMultipartForm,
+  writeStreamToFile,
+} from "./upload";
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const enc = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(enc.encode(chunk));
+      controller.close();
+    },
+  });
+}
+
+describe("parseByteSize", () => {
+  test("reads units and plain byte counts", () => {
+    expect(parseByteSize("5GB")).toBe(5 * 1024 ** 3);
+    expect(parseByteSize("512 mb")).toBe(512 * 1024 ** 2);
+    expect(parseByteSize("1000")).toBe(1000);
+    expect(parseByteSize("lots")).toBeNull();
+    expect(parseByteSize(undefined)).toBeNull();
+  });
+});
+
+describe("writeStreamToFile", () => {
+  test("writes chunks to disk and reports progress", async () => {
+    const path = join(tmpdir(), `upload_${Date.now()}.csv`);
+    const progress: number[] = [];
+    try {
+      const bytes = await writeStreamToFile(
+        streamOf(["a,b\n", "1,2\n"]),
+        path,
+        {
+          onBytes: (n) => progress.push(n),
+        },
+      );
+      expect(bytes).toBe(8);
+      expect(progress).toEqual([4, 8]);
+      expect(await Bun.file(path).text()).toBe("a,b\n1,2\n");
+    } finally {
+      await unlink(path).catch(() => undefined);
+    }
+  });
+
+  test("stops at the size limit and removes the partial file", async () => {
+    const path = join(tmpdir(), `upload_limit_${Date.now()}.csv`);
+    await expect(
+      writeStreamToFile(streamOf(["12345", "67890"]), path, { maxBytes: 8 }),
+    ).rejects.toBeInstanceOf(UploadTooLargeError);
+    expect(existsSync(path)).toBe(false);
+  });
+});
+
+describe("readMultipartForm", () => {
+  const form = () => {
+    const body = new FormData();
+    body.append("table", "sales");
+    body.append("file", new File(["a,b\n1,2\n"], "sales.csv"));
+    return body;
+  };
+
+  test("parses a form under the limit", async () => {
+    const parsed = await readMultipartForm(
+      new Request("http://localhost/", { method: "POST", body: form() }),
+    );
+    expect(parsed.get("table")).toBe("sales");
+    expect(await (parsed.get("file") as File).text()).toBe("a,b\n1,2\n");
+  });
+
+  test("refuses a form over the limit, declared or not", async () => {
+    const encoded = new Request("http://localhost/", {
+      method: "POST",
+      body: form(),
+    });
+    const contentType = encoded.headers.get("content-type")!;
+    const bytes = new Uint8Array(await encoded.arrayBuffer());
+    const declared = new Request("http://localhost/", {
+      method: "POST",
+      headers: {
+        "content-type": contentType,
+        "content-length": String(bytes.byteLength),
+      },
+      body: bytes,
+    });
+    await expect(readMultipartForm(declared, 16)).rejects.toThrow(
+      "send larger files to /api/db/load as a raw application/octet-stream body",
+    );
+
+    const streamed = new Request("http://localhost/", {
+      method: "POST",
+      headers: { "content-type": contentType },
+      body: new ReadableStream({
+        start(controller) {
+          controller.enqueue(bytes);
+          controller.close();
+        },
+      }),
+    });
+    expect(streamed.headers.get("content-length")).toBeNull();
+    await expect(readMultipartForm(streamed, 16)).rejects.toBeInstanceOf(
+      UploadTooLargeError,
+    );
+  });
+});
+
+describe("readJsonBody", () => {
+  const post = (body: BodyInit) =>
+    new Request("http://localhost/", { method: "POST", body });
+
+  test("parses JSON and reads anything else as null", async () => {
+    expect(await readJsonBody(post('{"table":"sales"}'))).toEqual({
+      table: "sales",
+    });
+    expect(await readJsonBody(post("{oops"))).toBeNull();
+    expect(
+      await readJsonBody(new Request("http://localhost/", { method: "POST" })),
+    ).toBeNull();
+  });
+
+  test("refuses a body over the limit", async () => {
+    const body = JSON.stringify({ rows: "x".repeat(64) });
+    await expect(readJsonBody(post(body), 16)).rejects.toThrow(
+      "Request body exceeds",
+    );
+    await expect(
+      readJsonBody(post(new Blob([body]).stream()), 16),
+    ).rejects.toBeInstanceOf(UploadTooLargeError);
+  });
+});
@@ -0,0 +1,182 @@
+import { unlink } from "node:fs/promises";
+
+const SIZE_UNITS: Record<string, number> = {
+  B: 1,
+  KB: 1024,
+  MB: 1024 ** 2,
+  GB: 1024 ** 3,
+  TB: 1024 ** 4,
+};
+
+/** Parse `"5GB"`, `"512 MB"` or a plain byte count; null when invalid. */
+export function parseByteSize(value: string | undefined): number | null {
+  const match = value?.trim().match(/^(\d+(?:\.\d+)?)\s*([KMGT]?B)?$/i);
+  if (!match) return null;
+  const bytes = Number(match[1]) * SIZE_UNITS[(match[2] ?? "B").toUpperCase()]!;
+  return Number.isFinite(bytes) && bytes > 0 ? Math.floor(bytes) : null;
+}
+
+/** Largest upload or remote file `/api/db/load` accepts (`DUCKDB_MAX_UPLOAD_SIZE`). */
+export const MAX_UPLOAD_BYTES =
+  parseByteSize(Bun.env.DUCKDB_MAX_UPLOAD_SIZE) ?? 5 * 1024 ** 3;
+
+/**
+ * Largest multipart body the load endpoints parse
+ * (`DUCKDB_MAX_MULTIPART_SIZE`). Bun parses forms in memory, so bigger files
+ * must be sent as a raw body, which streams to disk.
+ */
+export const MAX_MULTIPART_BYTES = Math.min(
+  parseByteSize(Bun.env.DUCKDB_MAX_MULTIPART_SIZE) ?? 100 * 1024 ** 2,
+  MAX_UPLOAD_BYTES,
+);
+
+const megabytes = (bytes: number) => Math.round(bytes / 1024 ** 2);
+
+export class UploadTooLargeError extends Error {
+  constructor(
+    readonly limit: number,
+    message = `File exceeds the ${megabytes(limit)} MB upload limit`,
+  ) {
+    super(message);
+    this.name = "UploadTooLargeError";
+  }
+}
+
+/**
+ * Largest JSON body the API parses (`DUCKDB_MAX_JSON_SIZE`). The server's
+ * own body limit has to admit raw uploads, so JSON routes read through
+ * `readJsonBody` instead of `request.json()`.
+ */
+export const MAX_JSON_BYTES =
+  parseByteSize(Bun.env.DUCKDB_MAX_JSON_SIZE) ?? 32 * 1024 ** 2;
+
+/**
+ * Parse a request body with `parse`, refusing one over `maxBytes` (declared
+ * or as received) with `tooLarge()` before more than that is buffered.
+ */
+async function readCappedBody<T>(
+  request: Request,
+  maxBytes: number,
+  tooLarge: () => Error,
+  parse: (body: Response) => Promise<T>,
+): Promise<T> {
+  if (Number(request.headers.get("content-length")) > maxBytes) {
+    throw tooLarge();
+  }
+  let bytes = 0;
+  const counted = request.body?.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        bytes += chunk.byteLength;
+        if (bytes > maxBytes) throw tooLarge();
+        controller.enqueue(chunk);
+      },
+    }),
+  );
+  try {
+    return await parse(
+      new Response(counted ?? null, {
+        headers: { "content-type": request.headers.get("content-type") ?? "" },
+      }),
+    );
+  } catch (error) {
+    throw bytes > maxBytes ? tooLarge() : error;
+  }
+}
+
+/**
+ * Parse a multipart request body, refusing one over `maxBytes` with an
+ * `UploadTooLargeError` that points at the raw upload.
+ */
+export function readMultipartForm(
+  request: Request,
+  maxBytes = MAX_MULTIPART_BYTES,
+): Promise<FormData> {
+  return readCappedBody(
+    request,
+    maxBytes,
+    () =>
+      new UploadTooLargeError(
+        maxBytes,
+        `Multipart uploads are limited to ${megabytes(maxBytes)} MB; send larger files to /api/db/load as a raw application/octet-stream body`,
+      ),
+    (body) => body.formData(),
+  );
+}
+
+/**
+ * Parse a JSON request body; null when it is empty or not JSON. A body over
+ * `maxBytes` throws `UploadTooLargeError`.
+ */
+export function readJsonBody(request: Request, maxBytes = MAX_JSON_BYTES) {
+  return readCappedBody(
+    request,
+    maxBytes,
+    () =>
+      new UploadTooLargeError(
+        maxBytes,
+        `Request body exceeds the ${megabytes(maxBytes)} MB limit`,
+      ),
+    async (body) => {
+      const text = await body.text();
+      try {
+        return JSON.parse(text);
+      } catch {
+        return null;
+      }
+    },
+  );
+}
+
+/** Bytes received so far and, when the sender declared it, the total. */
+export type ByteProgress = (bytes: number, totalBytes?: number) => void;
+
+export interface WriteStreamOptions {
+  maxBytes?: number;
+  /** Called with the running byte count after each chunk. */
+  onBytes?: ByteProgress;
+  signal?: AbortSignal;
+}
+
+/**
+ * Copy a byte stream to `path` chunk by chunk so large uploads never sit in
+ * memory. Exceeding `maxBytes` cancels the stream, removes the partial file
+ * and throws `UploadTooLargeError`.
+ */
+export async function writeStreamToFile(
+  stream: ReadableStream<Uint8Array>,
+  path: string,
+  { maxBytes = MAX_UPLOAD_BYTES, onBytes, signal }: WriteStreamOptions = {},
+): Promise<number> {
+  const reader = stream.getReader();
+  const writer = Bun.file(path).writer();
+  let bytes = 0;
+  try {
+    let doneReading = false;
+    while (!doneReading) {
+      if (signal?.aborted) {
+        throw new DOMException("Aborted", "AbortError");
+      }
+      const { value, done } = await reader.read();
+      if (done) {
+        doneReading = true;
+        continue;
+      }
+      bytes += value.byteLength;
+      if (bytes > maxBytes) throw new UploadTooLargeError(maxBytes);
+      writer.write(value);
+      // Let the writer drain before pulling more from the network.
+      await writer.flush();
+      onBytes?.(bytes);
+    }
+    await writer.end();
+    return bytes;
+  } catch (error) {
+    await reader.cancel().catch(() => undefined);
+    await Promise.resolve(writer.end()).catch(() => undefined);
+    await unlink(path).catch(() => undefined);
+    throw error;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -33,6 +33,38 @@ export function isCSVFile(filename: string): boolean {
   return ext === "csv" || ext === "tsv";
 }
 
+/** File formats DuckDB reads natively, keeping their column types. */
+export type NativeDataFormat = "parquet" | "json" | "ndjson" | "arrow";
+
+const NATIVE_FORMAT_BY_EXTENSION: Record<string, NativeDataFormat> = {
+  parquet: "parquet",
+  json: "json",
+  ndjson: "ndjson",
+  jsonl: "ndjson",
+  arrow: "arrow",
+};
+
+export const NATIVE_FORMAT_LABELS: Record<NativeDataFormat, string> = {
+  parquet: "Parquet",
+  json: "JSON",
+  ndjson: "NDJSON",
+  arrow: "Arrow",
+};
+
+export function getNativeDataFormat(filename: string): NativeDataFormat | null {
+  if (!filename || typeof filename !== "string") return null;
+  const ext = filename.toLowerCase().split(".").pop() ?? "";
+  return NATIVE_FORMAT_BY_EXTENSION[ext] ?? null;
+}
+
 export function isSupportedFile(filename: string): boolean {
-  return isCSVFile(filename) || isExcelFile(filename);
+  return (
+    isCSVFile(filename) ||
+    isExcelFile(filename) ||
+    getNativeDataFormat(filename) !== null
+  );
 }
+
+/** `accept` attribute for file pickers. */
+export const SUPPORTED_FILE_ACCEPT =
+  ".csv,.tsv,.xlsx,.xls,.parquet,.json,.ndjson,.jsonl,.arrow";
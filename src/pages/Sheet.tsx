@@ -6,14 +6,63 @@ import {
   useState,
   type FormEvent,
 } from "react";
-import { DataGrid } from "@/components/sheet/DataGrid";
+import {
+  DataGrid,
+  type ColumnAction,
+  type RowAction,
+} from "@/components/sheet/DataGrid";
+import { FilterInput } from "@/components/sheet/FilterInput";
 import { SearchOverlay } from "@/components/sheet/SearchOverlay";
 import { ShortcutsHelp } from "@/components/sheet/ShortcutsHelp";
+import { ImportDialog } from "@/components/sheet/ImportDialog";
+import {
+  ColumnSchemaDialog,
+  type ColumnSchemaRequest,
+} from "@/components/sheet/ColumnSchemaDialog";
+import { ColumnProfilePanel } from "@/components/sheet/ColumnProfilePanel";
+import { SelectionStats } from "@/components/sheet/SelectionStats";
+import { useSelectionStats } from "@/hooks/useSelectionStats";
+import { useRowGroups } from "@/hooks/useRowGroups";
+import { useChartData } from "@/hooks/useChartData";
+import { SheetTabs } from "@/components/sheet/SheetTabs";
+import { TableTabs } from "@/components/sheet/TableTabs";
+import { SqlConsole, type SqlConsoleDock } from "@/components/sheet/SqlConsole";
+import { PivotPanel } from "@/components/sheet/PivotPanel";
+import { ChartPanel } from "@/components/sheet/ChartPanel";
 import { useCSVLoader, type CSVLoaderState } from "@/hooks/useCSVLoader";
+import { useDuckDBTables } from "@/hooks/useDuckDBTables";
 import { useSheetSort } from "@/hooks/useSheetSort";
+import { useSheetFilters } from "@/hooks/useSheetFilters";
 import { useSheetSearch } from "@/hooks/useSheetSearch";
 import { useSheetKeyboardShortcuts } from "@/hooks/useSheetKeyboardShortcuts";
+import { useSheetExport } from "@/hooks/useSheetExport";
 import { useDebouncedValue } from "@/lib/useDebouncedValue";
+import { createFilterPredicate, inferColumnKinds } from "@/lib/filterPredicate";
+import { createRowComparator } from "@/lib/sort";
+import {
+  remapColumnKeys,
+  remapColumnRecord,
+  type SchemaOperation,
+} from "@/lib/schemaOps";
+import { equalsFilter } from "@/lib/filterAst";
+import type { PivotSpec } from "@/lib/pivot";
+import {
+  groupSortKeys,
+  MAX_GROUP_COLUMNS,
+  rowGroupId,
+  type RowGroup,
+} from "@/lib/rowGroups";
+import {
+  defaultChartConfig,
+  formatChartParam,
+  parseChartParam,
+  type ChartConfig,
+} from "@/lib/chart";
+import {
+  EXPORT_FORMATS,
+  type ExportFormat,
+  type ExportScope,
+} from "@/lib/export";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { PerfHUD } from "@/components/PerfHUD";
 import {
@@ -21,8 +70,15 @@ import {
   HelpCircle,
   Download,
   FileText,
+  Filter,
   Undo2,
   Redo2,
+  SquareTerminal,
+  Table2,
+  ChartColumn,
+  ChevronsDownUp,
+  ChevronsUpDown,
+  X,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -38,14 +94,58 @@ import {
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/components/ui/toast-provider";
 import { logger } from "@/lib/logger";
+import { cn } from "@/lib/utils";
 import { LoadingBanner } from "@/components/ui/loading-banner";
-// Filters are disabled for now
+import { getNativeDataFormat, isExcelFile } from "@/lib/validators";
+import type { CsvImportOptions } from "@/lib/csvDialect";
+
+const MAX_SUGGESTION_ROWS = 1000;
+const MAX_SUGGESTIONS_PER_COLUMN = 200;
+
+const fetchDistinctColumnValues = async (
+  table: string,
+  column: string,
+): Promise<string[]> => {
+  const params = new URLSearchParams({ table, column, limit: "100" });
+  const response = await fetch(`/api/db/distinct?${params.toString()}`);
+  if (!response.ok) {
+    const detail = await response.text().catch(() => "");
+    throw new Error(detail || `Distinct values failed (${response.status})`);
+  }
+  const payload = (await response.json()) as { values?: unknown[] };
+  return Array.isArray(payload.values)
+    ? payload.values.map((v) => String(v ?? ""))
+    : [];
+};
+
+const compactFilters = (filters: Record<number, string>) => {
+  const out: Record<number, string> = {};
+  for (const [key, value] of Object.entries(filters)) {
+    if (typeof value === "string" && value.trim().length > 0) {
+      out[Number(key)] = value;
+    }
+  }
+  return out;
+};
+
+/** CSV/TSV or an unknown extension, i.e. something the import dialog can read. */
+const isDelimitedTextName = (url: string) => {
+  let path = url;
+  try {
+    path = new URL(url).pathname;
+  } catch {
+    // Not absolute; use as-is.
+  }
+  return !isExcelFile(path) && getNativeDataFormat(path) === null;
+};
 
 const formatBytes = (bytes: number) => {
   if (!Number.isFinite(bytes) || bytes <= 0) return "0 B";
@@ -84,13 +184,22 @@ export function Sheet({
   initialUrl,
   initialSortParam,
   initialQueryParam,
+  initialFiltersParam,
+  initialChartParam,
   onSearchChange,
   autoLoadDefault = false,
 }: {
   initialUrl?: string;
   initialSortParam?: string;
   initialQueryParam?: string;
-  onSearchChange?: (next: { sort?: string | null; q?: string | null }) => void;
+  initialFiltersParam?: string;
+  initialChartParam?: string;
+  onSearchChange?: (next: {
+    sort?: string | null;
+    q?: string | null;
+    filters?: string | null;
+    chart?: string | null;
+  }) => void;
   autoLoadDefault?: boolean;
 }) {
   const {
@@ -98,12 +207,23 @@ export function Sheet({
     rows,
     rowCount,
     isChunked,
+    isDuckDB,
+    currentTable,
     loadedRowIndices,
     loadSource,
     setFiltersAndSort,
+    workbook,
+    loadWorkbookSheets,
     updateCell,
     applyPaste,
     clearCells,
+    alterSchema,
+    insertRows,
+    duplicateRows,
+    deleteRows,
+    previewColumnCast,
+    profileColumn,
+    runPivot,
     undo,
     redo,
     canUndo,
@@ -205,22 +325,128 @@ export function Sheet({
 
   // File upload handlers removed
 
+  const [importRequest, setImportRequest] = useState<{
+    url: string;
+    sample: Uint8Array;
+    options: CsvImportOptions;
+  } | null>(null);
+
+  const loadRemote = useCallback(
+    async (url: string, csvOptions?: CsvImportOptions) => {
+      try {
+        await loadSource({ type: "duckdb", url, csvOptions });
+        setDatasetUrl(url);
+        updateUrlParam(`duckdb:url=${encodeURIComponent(url)}`);
+      } catch (err) {
+        logger.error("Failed to load remote CSV into DuckDB:", err);
+      }
+    },
+    [loadSource],
+  );
+
+  // Reloaded whenever a load settles, so counts follow new tables and edits.
+  const {
+    tables: duckdbTables,
+    refresh: refreshTables,
+    renameTable,
+    dropTable,
+  } = useDuckDBTables({ enabled: isDuckDB && !isLoading });
+
+  const switchTable = useCallback(
+    async (table: string) => {
+      try {
+        await loadSource({ type: "duckdb", table });
+        updateUrlParam(`duckdb:table=${table}`);
+      } catch (err) {
+        logger.error("Failed to switch DuckDB table:", err);
+      }
+    },
+    [loadSource],
+  );
+
+  const handleRenameTable = useCallback(
+    async (from: string, to: string) => {
+      try {
+        await renameTable(from, to);
+      } catch (err) {
+        showToast({
+          variant: "error",
+          title: "Rename failed",
+          description: err instanceof Error ? err.message : String(err),
+        });
+        throw err;
+      }
+      if (from === currentTable) await switchTable(to);
+    },
+    [renameTable, currentTable, switchTable, showToast],
+  );
+
+  const handleDropTable = useCallback(
+    async (table: string) => {
+      const fallback = duckdbTables.find((t) => t.name !== table)?.name;
+      try {
+        await dropTable(table);
+      } catch (err) {
+        showToast({
+          variant: "error",
+          title: "Drop failed",
+          description: err instanceof Error ? err.message : String(err),
+        });
+        throw err;
+      }
+      showToast({ title: "Table dropped", description: table });
+      if (table === currentTable && fallback) await switchTable(fallback);
+    },
+    [duckdbTables, dropTable, currentTable, switchTable, showToast],
+  );
+
+  // Delimited text gets the import dialog first; other formats (and URLs
+  // the server cannot sample) load straight away.
   const handleLoadUrlSubmit = useCallback(
     async (event: FormEvent<HTMLFormElement>) => {
       event.preventDefault();
       const trimmed = datasetUrl.trim();
       if (!trimmed) return;
-      try {
-        await loadSource({ type: "duckdb", url: trimmed });
-        setDatasetUrl(trimmed);
-        updateUrlParam(`duckdb:url=${encodeURIComponent(trimmed)}`);
-      } catch (err) {
-        logger.error("Failed to load remote CSV into DuckDB:", err);
+      if (isDelimitedTextName(trimmed)) {
+        try {
+          const response = await fetch("/api/db/load/sniff", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ url: trimmed }),
+          });
+          if (response.ok) {
+            const payload = (await response.json()) as {
+              options: CsvImportOptions;
+              sample: string;
+            };
+            setImportRequest({
+              url: trimmed,
+              options: payload.options,
+              sample: Uint8Array.from(atob(payload.sample), (c) =>
+                c.charCodeAt(0),
+              ),
+            });
+            return;
+          }
+        } catch (err) {
+          logger.warn("Sheet: CSV sniffing failed, loading directly", err);
+        }
       }
+      await loadRemote(trimmed);
     },
-    [datasetUrl, loadSource],
+    [datasetUrl, loadRemote],
   );
 
+  const handleImportConfirm = useCallback(
+    (options: CsvImportOptions) => {
+      const request = importRequest;
+      setImportRequest(null);
+      if (request) void loadRemote(request.url, options);
+    },
+    [importRequest, loadRemote],
+  );
+  const handleImportClose = useCallback(() => setImportRequest(null), []);
+
   // Sample dataset loader removed
 
   const handleVisibleRangeChange = useCallback(
@@ -245,6 +471,182 @@ export function Sheet({
     [ensureRange, loadedRowIndices, isChunked],
   );
 
+  const { sort, setSort, toggleSort } = useSheetSort({
+    initialSortParam,
+    onSearchChange,
+  });
+
+  // Row grouping, by column name so it follows columns through schema
+  // changes. The view sorts by the group columns first.
+  const [groupBy, setGroupBy] = useState<string[]>([]);
+  const [collapsedGroups, setCollapsedGroups] = useState<ReadonlySet<string>>(
+    () => new Set(),
+  );
+  const groupIndexes = useMemo(
+    () =>
+      groupBy
+        .map((name) => columns.findIndex((column) => column.name === name))
+        .filter((index) => index >= 0),
+    [groupBy, columns],
+  );
+  const viewSort = useMemo(
+    () => groupSortKeys(sort, groupIndexes),
+    [sort, groupIndexes],
+  );
+  const changeGroupBy = useCallback((next: string[]) => {
+    setGroupBy(next);
+    setCollapsedGroups(new Set());
+  }, []);
+
+  // The chart panel is open while it has a config, which is kept in the URL
+  // with the rest of the view.
+  const [chartConfig, setChartConfig] = useState<ChartConfig | null>(() =>
+    parseChartParam(initialChartParam),
+  );
+  useEffect(() => {
+    onSearchChange?.({ chart: formatChartParam(chartConfig) });
+  }, [chartConfig, onSearchChange]);
+  const handleChartClose = useCallback(() => setChartConfig(null), []);
+  const { filters, setFilters, debouncedFilters, showFilters, setShowFilters } =
+    useSheetFilters({ initialFiltersParam, onSearchChange });
+  const activeFilters = useMemo(
+    () => compactFilters(debouncedFilters),
+    [debouncedFilters],
+  );
+  const activeFilterCount = Object.keys(activeFilters).length;
+
+  // The pivot covers the filtered view, so drilling into a cell adds exact
+  // matches on the cell's keys to the filters; the grand total is the view.
+  const handlePivotDrill = useCallback(
+    (keys: Array<{ column: string; value: string }>) => {
+      if (keys.length === 0) return;
+      const next: Record<number, string> = { ...activeFilters };
+      for (const { column, value } of keys) {
+        const index = columns.findIndex((c) => c.name === column);
+        if (index >= 0) next[index] = equalsFilter(value);
+      }
+      setFilters(next);
+      setShowFilters(true);
+    },
+    [activeFilters, columns, setFilters, setShowFilters],
+  );
+
+  // DuckDB filters and sorts server-side. This runs before the initial load
+  // effect so the first worker init already carries the view from the URL.
+  const appliedViewRef = useRef<string | null>(null);
+  const viewRefreshRef = useRef(false);
+  const [filterSortKey, setFilterSortKey] = useState(0);
+
+  useEffect(() => {
+    const nextView = JSON.stringify({ filters: activeFilters, sort: viewSort });
+    if (appliedViewRef.current === nextView) return;
+    const isFirstView = appliedViewRef.current === null;
+    appliedViewRef.current = nextView;
+    if (!isFirstView && isDuckDB) viewRefreshRef.current = true;
+    void setFiltersAndSort(activeFilters, viewSort).then(() => {
+      if (!isFirstView) setFilterSortKey((k) => k + 1);
+    });
+  }, [activeFilters, viewSort, setFiltersAndSort, isDuckDB]);
+
+  // Filters, sort keys and widths follow their columns through a schema
+  // change; the loader has already moved the DuckDB view along.
+  const [schemaRequest, setSchemaRequest] =
+    useState<ColumnSchemaRequest | null>(null);
+
+  const applySchemaChange = useCallback(
+    async (operation: SchemaOperation) => {
+      const mapIndex = await alterSchema(operation);
+      setFilters((prev) => remapColumnRecord(prev, mapIndex));
+      setSort((prev) => remapColumnKeys(prev, mapIndex));
+      const renamed =
+        operation.op === "rename" ||
+        (operation.op === "compute" && operation.column !== undefined)
+          ? { from: operation.column!, to: operation.name }
+          : null;
+      if (renamed) {
+        setGroupBy((prev) =>
+          prev.map((name) => (name === renamed.from ? renamed.to : name)),
+        );
+        setChartConfig((prev) =>
+          prev && (prev.x === renamed.from || prev.y === renamed.from)
+            ? {
+                ...prev,
+                x: prev.x === renamed.from ? renamed.to : prev.x,
+                y: prev.y === renamed.from ? renamed.to : prev.y,
+              }
+            : prev,
+        );
+        setWidthOverrides((prev) => {
+          const width = prev[renamed.from];
+          if (width === undefined || renamed.from === renamed.to) return prev;
+          const next = { ...prev, [renamed.to]: width };
+          delete next[renamed.from];
+          return next;
+        });
+      }
+      if (isDuckDB) void refreshTables();
+    },
+    [alterSchema, setFilters, setSort, isDuckDB, refreshTables],
+  );
+
+  // The profile follows its column by name through schema changes.
+  const [profiledColumn, setProfiledColumn] = useState<string | null>(null);
+  const handleProfileClose = useCallback(() => setProfiledColumn(null), []);
+
+  const handleColumnAction = useCallback(
+    (colIndex: number, action: ColumnAction) => {
+      const column = columns[colIndex];
+      if (!column) return;
+      if (action === "moveLeft" || action === "moveRight") {
+        const position = action === "moveLeft" ? colIndex - 1 : colIndex + 1;
+        applySchemaChange({ op: "move", column: column.name, position }).catch(
+          (err: unknown) => {
+            showToast({
+              variant: "error",
+              title: "Move failed",
+              description: err instanceof Error ? err.message : String(err),
+            });
+          },
+        );
+        return;
+      }
+      if (action === "profile") {
+        setProfiledColumn(column.name);
+        return;
+      }
+      if (action === "group") {
+        if (groupBy.length < MAX_GROUP_COLUMNS) {
+          changeGroupBy([...groupBy, column.name]);
+        }
+        return;
+      }
+      if (action === "ungroup") {
+        changeGroupBy(groupBy.filter((name) => name !== column.name));
+        return;
+      }
+      if (action === "insertLeft" || action === "insertRight") {
+        setSchemaRequest({
+          action: "insert",
+          colIndex,
+          position: action === "insertLeft" ? colIndex : colIndex + 1,
+        });
+        return;
+      }
+      setSchemaRequest({ action, colIndex });
+    },
+    [columns, applySchemaChange, showToast, groupBy, changeGroupBy],
+  );
+
+  const handleSchemaSubmit = useCallback(
+    async (operation: SchemaOperation) => {
+      await applySchemaChange(operation);
+      setSchemaRequest(null);
+    },
+    [applySchemaChange],
+  );
+
+  const handleSchemaClose = useCallback(() => setSchemaRequest(null), []);
+
   const hasInitialLoadRef = useRef(false);
 
   useEffect(() => {
@@ -292,62 +694,83 @@ export function Sheet({
     void runInitialLoad();
   }, [initialUrl, loadSource, autoLoadDefault]);
 
-  const { sort, toggleSort } = useSheetSort({
-    initialSortParam,
-    onSearchChange,
-  });
-  // Filters disabled
-  const prevSortRef = useRef<{ colIndex: number; dir: "asc" | "desc" } | null>(
-    null,
-  );
-  const [filterSortKey, setFilterSortKey] = useState(0);
-
-  useEffect(() => {
-    if (!isChunked || !setFiltersAndSort || isLoading) return;
-    if (rows.length === 0) {
-      prevSortRef.current = sort;
-      return;
-    }
-    const sortChanged =
-      JSON.stringify(prevSortRef.current) !== JSON.stringify(sort);
-    if (!sortChanged) return;
-    prevSortRef.current = sort;
-    void setFiltersAndSort({}, sort ?? undefined).then(() => {
-      setFilterSortKey((k) => k + 1);
-    });
-  }, [isChunked, sort, setFiltersAndSort, isLoading, rows.length]);
-
   const selectionCount = useMemo(() => selection.size, [selection]);
 
   const cancelRequestedRef = useRef(false);
   const wasLoadingRef = useRef(false);
   const [shortcutsOpen, setShortcutsOpen] = useState(false);
+  const [sqlOpen, setSqlOpen] = useState(false);
+  const [sqlDock, setSqlDock] = useState<SqlConsoleDock>(() => {
+    if (typeof window === "undefined") return "bottom";
+    return window.localStorage.getItem("sheet.sql.dock") === "right"
+      ? "right"
+      : "bottom";
+  });
+  const handleSqlDockChange = useCallback((dock: SqlConsoleDock) => {
+    setSqlDock(dock);
+    try {
+      window.localStorage.setItem("sheet.sql.dock", dock);
+    } catch (error) {
+      logger.warn("Sheet: failed to persist SQL console dock", error);
+    }
+  }, []);
+  const handleSqlClose = useCallback(() => setSqlOpen(false), []);
+  const [pivotOpen, setPivotOpen] = useState(false);
+  const handlePivotClose = useCallback(() => setPivotOpen(false), []);
+
+  const columnKinds = useMemo(
+    () => (isDuckDB ? [] : inferColumnKinds(rows, columns)),
+    [rows, columns, isDuckDB],
+  );
 
   const viewIndices = useMemo(() => {
-    if (isChunked) return null;
-    const idx = Array.from({ length: rows.length }, (_, i) => i);
-    if (!sort) return idx;
-    const { colIndex, dir } = sort;
-    const isNumeric = idx
-      .slice(0, 50)
-      .every(
-        (i) =>
-          rows[i]?.[colIndex] === undefined ||
-          rows[i]?.[colIndex] === "" ||
-          !isNaN(Number(rows[i]?.[colIndex])),
-      );
-    const cmp = (a: number, b: number) => {
-      const va = rows[a]?.[colIndex] ?? "";
-      const vb = rows[b]?.[colIndex] ?? "";
-      if (isNumeric) {
-        const na = Number(va);
-        const nb = Number(vb);
-        return (na - nb) * (dir === "asc" ? 1 : -1);
+    if (isDuckDB) return null;
+    const predicates = Object.entries(activeFilters).map(([key, value]) => {
+      const colIndex = Number(key);
+      return {
+        colIndex,
+        test: createFilterPredicate(value, {
+          kind: columnKinds[colIndex] ?? "text",
+        }),
+      };
+    });
+    const idx: number[] = [];
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows[i];
+      if (predicates.every(({ colIndex, test }) => test(row?.[colIndex] ?? "")))
+        idx.push(i);
+    }
+    if (viewSort.length === 0) return idx;
+    return idx.sort(createRowComparator(rows, viewSort, columnKinds));
+  }, [rows, viewSort, isDuckDB, activeFilters, columnKinds]);
+
+  const columnSuggestions = useMemo(() => {
+    if (!showFilters || isDuckDB) return [];
+    return columns.map((_, colIndex) => {
+      const seen = new Set<string>();
+      for (
+        let r = 0;
+        r < rows.length &&
+        r < MAX_SUGGESTION_ROWS &&
+        seen.size < MAX_SUGGESTIONS_PER_COLUMN;
+        r++
+      ) {
+        const value = rows[r]?.[colIndex];
+        if (value && value.trim()) seen.add(value);
       }
-      return va.localeCompare(vb) * (dir === "asc" ? 1 : -1);
-    };
-    return idx.sort(cmp);
-  }, [rows, sort, isChunked]);
+      return Array.from(seen);
+    });
+  }, [showFilters, isDuckDB, columns, rows]);
+
+  const distinctFetchers = useMemo(
+    () =>
+      isDuckDB
+        ? columns.map(
+            (col) => () => fetchDistinctColumnValues(currentTable, col.name),
+          )
+        : [],
+    [isDuckDB, columns, currentTable],
+  );
 
   const viewRows = useMemo(() => {
     if (!viewIndices) return rows;
@@ -368,6 +791,58 @@ export function Sheet({
     [viewIndices],
   );
 
+  // Pivots cover the rows in view, like profiles; the panel re-runs when
+  // the filters change.
+  const runViewPivot = useCallback(
+    (spec: PivotSpec) =>
+      runPivot(spec, activeFilters, viewIndices ?? undefined),
+    [runPivot, activeFilters, viewIndices],
+  );
+
+  const profiledIndex = profiledColumn
+    ? columns.findIndex((column) => column.name === profiledColumn)
+    : -1;
+  // Profiles cover the rows in view: client mode passes them, DuckDB applies
+  // its filters server-side (the panel remounts once they are in place).
+  const loadProfile = useCallback(
+    () => profileColumn(profiledIndex, viewIndices ?? undefined),
+    [profileColumn, profiledIndex, viewIndices],
+  );
+
+  const handleRowAction = useCallback(
+    (viewRowIndexes: number[], action: RowAction) => {
+      const rowIndexes = viewRowIndexes
+        .map(mapToAbsoluteRow)
+        .filter((row): row is number => row != null);
+      const change =
+        action === "insertAbove" || action === "insertBelow"
+          ? insertRows(rowIndexes, action === "insertAbove" ? "above" : "below")
+          : action === "duplicate"
+            ? duplicateRows(rowIndexes)
+            : deleteRows(rowIndexes);
+      change
+        .then(() => {
+          if (isDuckDB) void refreshTables();
+        })
+        .catch((err: unknown) => {
+          showToast({
+            variant: "error",
+            title: "Row change failed",
+            description: err instanceof Error ? err.message : String(err),
+          });
+        });
+    },
+    [
+      mapToAbsoluteRow,
+      insertRows,
+      duplicateRows,
+      deleteRows,
+      isDuckDB,
+      refreshTables,
+      showToast,
+    ],
+  );
+
   const {
     searchOpen,
     setSearchOpen,
@@ -385,16 +860,127 @@ export function Sheet({
     onSearchChange,
   });
 
+  const [exportScope, setExportScope] = useState<ExportScope>("view");
+  const effectiveExportScope =
+    exportScope === "selection" && selectionCount === 0 ? "view" : exportScope;
+  const { exportData, isExporting } = useSheetExport({
+    isDuckDB,
+    table: currentTable,
+    columns,
+    rows,
+    viewRows,
+    filters: activeFilters,
+    sort: viewSort,
+    selection,
+  });
+  const { stats: selectionStats, isAggregating } = useSelectionStats({
+    isDuckDB,
+    table: currentTable,
+    viewRows,
+    filters: activeFilters,
+    sort: viewSort,
+    selection,
+    version: isSaving,
+  });
+  const {
+    groups: rowGroups,
+    error: groupError,
+    isGrouping,
+  } = useRowGroups({
+    isDuckDB,
+    table: currentTable,
+    groupBy: groupIndexes,
+    viewRows,
+    columnKinds,
+    filters: activeFilters,
+    sort: viewSort,
+    version: isSaving,
+  });
+  const columnNames = useMemo(
+    () => columns.map((column) => column.name),
+    [columns],
+  );
+  const {
+    chart,
+    error: chartError,
+    isCharting,
+  } = useChartData({
+    isDuckDB,
+    table: currentTable,
+    config: chartConfig,
+    columns: columnNames,
+    viewRows,
+    filters: activeFilters,
+    sort: viewSort,
+    selection,
+    version: isSaving,
+  });
+  const toggleGroup = useCallback((key: string[]) => {
+    setCollapsedGroups((prev) => {
+      const next = new Set(prev);
+      const id = rowGroupId(key);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+  }, []);
+  const collapseAllGroups = useCallback(
+    (groups: RowGroup[]) =>
+      setCollapsedGroups(new Set(groups.map((group) => rowGroupId(group.key)))),
+    [],
+  );
+  const handleCopyFigure = useCallback(
+    (label: string, value: string) => {
+      navigator.clipboard?.writeText(value).then(
+        () => showToast({ title: `${label} copied`, description: value }),
+        (err: unknown) => logger.warn("Sheet: failed to copy figure", err),
+      );
+    },
+    [showToast],
+  );
+
+  const handleExport = useCallback(
+    (format: ExportFormat) => {
+      exportData(format, effectiveExportScope).catch((err) => {
+        logger.error("Export failed:", err);
+        showToast({
+          variant: "error",
+          title: "Export failed",
+          description: err instanceof Error ? err.message : String(err),
+        });
+      });
+    },
+    [exportData, effectiveExportScope, showToast],
+  );
+
   useSheetKeyboardShortcuts({
     searchQuery,
     onSearchOpen: () => setSearchOpen(true),
     onGoToNext: goToNextMatch,
     onGoToPrevious: goToPreviousMatch,
+    onToggleFilters: () => setShowFilters((visible) => !visible),
     onToggleHelp: () => setShortcutsOpen((o) => !o),
     onUndo: undo,
     onRedo: redo,
   });
 
+  const filtersRow =
+    showFilters && colsState.length > 0
+      ? colsState.map((col, i) => (
+          <div key={`${col.name}-${i}`} className="px-1">
+            <FilterInput
+              value={filters[i] ?? ""}
+              onChange={(value) =>
+                setFilters((prev) => ({ ...prev, [i]: value }))
+              }
+              placeholder="Filter…"
+              columnValues={columnSuggestions[i]}
+              fetchDistinctValues={distinctFetchers[i]}
+              ariaLabel={`Filter ${col.name}`}
+            />
+          </div>
+        ))
+      : null;
+
   const percentLoaded =
     progress.total && progress.total > 0
       ? Math.min(100, Math.round((progress.loaded / progress.total) * 100))
@@ -440,6 +1026,7 @@ export function Sheet({
       if (
         !error &&
         !cancelRequestedRef.current &&
+        !viewRefreshRef.current &&
         rows.length > 0 &&
         fullyLoaded
       ) {
@@ -450,6 +1037,7 @@ export function Sheet({
         });
       }
       cancelRequestedRef.current = false;
+      viewRefreshRef.current = false;
     }
     wasLoadingRef.current = isLoading;
   }, [
@@ -501,7 +1089,78 @@ export function Sheet({
           </div>
 
           <div className="flex items-center gap-2">
-            {/* Filters UI removed */}
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant={showFilters ? "secondary" : "ghost"}
+                  size="sm"
+                  onClick={() => setShowFilters((visible) => !visible)}
+                  aria-label="Toggle filters"
+                  aria-pressed={showFilters}
+                  disabled={columns.length === 0}
+                >
+                  <Filter className="h-4 w-4" />
+                  {activeFilterCount > 0 && (
+                    <Badge variant="secondary" className="h-5 px-1.5 font-mono">
+                      {activeFilterCount}
+                    </Badge>
+                  )}
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>Filters (Ctrl/Cmd+Shift+F)</TooltipContent>
+            </Tooltip>
+
+            {groupIndexes.length > 0 && (
+              <div
+                role="group"
+                aria-label="Row grouping"
+                className="flex items-center gap-0.5 rounded-md border border-border/60 pl-2 text-xs"
+              >
+                <span
+                  className={cn(
+                    "max-w-48 truncate",
+                    groupError ? "text-destructive" : "text-muted-foreground",
+                  )}
+                  title={groupError ?? undefined}
+                >
+                  {groupError ??
+                    `Grouped by ${groupIndexes
+                      .map((index) => columns[index]!.name)
+                      .join(" › ")}`}
+                </span>
+                {isGrouping && (
+                  <span className="inline-flex h-2 w-2 rounded-full border border-primary border-t-transparent animate-spin" />
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => collapseAllGroups(rowGroups ?? [])}
+                  disabled={!rowGroups}
+                  aria-label="Collapse all groups"
+                >
+                  <ChevronsDownUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => setCollapsedGroups(new Set())}
+                  disabled={collapsedGroups.size === 0}
+                  aria-label="Expand all groups"
+                >
+                  <ChevronsUpDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => changeGroupBy([])}
+                  aria-label="Remove grouping"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+
+            <Separator orientation="vertical" className="h-6" />
 
             {/* Saving status */}
             <div className="hidden sm:flex items-center gap-2 text-xs text-muted-foreground">
@@ -565,6 +1224,55 @@ export function Sheet({
               <TooltipContent>Search (Ctrl+F)</TooltipContent>
             </Tooltip>
 
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant={sqlOpen ? "secondary" : "ghost"}
+                  size="icon-sm"
+                  onClick={() => setSqlOpen((visible) => !visible)}
+                  aria-label="Toggle SQL console"
+                  aria-pressed={sqlOpen}
+                >
+                  <SquareTerminal className="h-4 w-4" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>SQL console</TooltipContent>
+            </Tooltip>
+
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant={pivotOpen ? "secondary" : "ghost"}
+                  size="icon-sm"
+                  onClick={() => setPivotOpen((visible) => !visible)}
+                  aria-label="Toggle pivot"
+                  aria-pressed={pivotOpen}
+                >
+                  <Table2 className="h-4 w-4" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>Pivot</TooltipContent>
+            </Tooltip>
+
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant={chartConfig ? "secondary" : "ghost"}
+                  size="icon-sm"
+                  onClick={() =>
+                    setChartConfig((prev) =>
+                      prev ? null : defaultChartConfig(columnNames),
+                    )
+                  }
+                  aria-label="Toggle chart"
+                  aria-pressed={chartConfig !== null}
+                >
+                  <ChartColumn className="h-4 w-4" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>Chart</TooltipContent>
+            </Tooltip>
+
             <Tooltip>
               <TooltipTrigger asChild>
                 <Button
@@ -588,7 +1296,7 @@ export function Sheet({
                     <Button
                       variant="ghost"
                       size="icon-sm"
-                      disabled={rows.length === 0}
+                      disabled={rows.length === 0 || isExporting}
                       aria-label="Export data"
                     >
                       <Download className="h-4 w-4" />
@@ -598,11 +1306,46 @@ export function Sheet({
                 <TooltipContent>Export data</TooltipContent>
               </Tooltip>
               <DropdownMenuContent align="end">
-                <DropdownMenuLabel>Export as</DropdownMenuLabel>
+                <DropdownMenuLabel>Export rows</DropdownMenuLabel>
+                <DropdownMenuRadioGroup
+                  value={effectiveExportScope}
+                  onValueChange={(value) =>
+                    setExportScope(value as ExportScope)
+                  }
+                >
+                  <DropdownMenuRadioItem
+                    value="table"
+                    onSelect={(e) => e.preventDefault()}
+                  >
+                    Whole table
+                  </DropdownMenuRadioItem>
+                  <DropdownMenuRadioItem
+                    value="view"
+                    onSelect={(e) => e.preventDefault()}
+                  >
+                    Current view
+                  </DropdownMenuRadioItem>
+                  <DropdownMenuRadioItem
+                    value="selection"
+                    disabled={selectionCount === 0}
+                    onSelect={(e) => e.preventDefault()}
+                  >
+                    Selection
+                  </DropdownMenuRadioItem>
+                </DropdownMenuRadioGroup>
                 <DropdownMenuSeparator />
-                <DropdownMenuItem disabled>CSV (coming soon)</DropdownMenuItem>
-                <DropdownMenuItem disabled>JSON (coming soon)</DropdownMenuItem>
-                <DropdownMenuItem disabled>SQL (coming soon)</DropdownMenuItem>
+                <DropdownMenuLabel>Export as</DropdownMenuLabel>
+                {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(
+                  (format) => (
+                    <DropdownMenuItem
+                      key={format}
+                      disabled={format === "parquet" && !isDuckDB}
+                      onSelect={() => handleExport(format)}
+                    >
+                      {EXPORT_FORMATS[format].label}
+                    </DropdownMenuItem>
+                  ),
+                )}
               </DropdownMenuContent>
             </DropdownMenu>
 
@@ -624,48 +1367,116 @@ export function Sheet({
           />
         </div>
       )}
-      <div className="flex-1 min-h-0">
-        <DataGrid
-          key={isChunked ? filterSortKey : undefined}
-          columns={colsState}
-          rows={viewRows}
-          totalRows={rowCount}
-          rowHeight={32}
-          onRangeChange={isChunked ? handleVisibleRangeChange : undefined}
-          onSelectionChange={setSelection}
-          onColumnsResize={handleColumnsResize}
-          onHeaderClick={toggleSort}
-          onEditCell={(r, c, v) => {
-            const absoluteRow = mapToAbsoluteRow(r);
-            if (absoluteRow == null) return;
-            updateCell(absoluteRow, c, v);
-          }}
-          onPaste={(r, c, vals) => {
-            const absoluteRow = mapToAbsoluteRow(r);
-            if (absoluteRow == null) return;
-            applyPaste(absoluteRow, c, vals);
-          }}
-          onClear={(cells) => {
-            const mapped = cells
-              .map(({ row, col }) => {
-                const absoluteRow = mapToAbsoluteRow(row);
-                if (absoluteRow == null) return null;
-                return { row: absoluteRow, col };
-              })
-              .filter(
-                (cell): cell is { row: number; col: number } => cell !== null,
-              );
-            if (mapped.length > 0) clearCells(mapped);
+      <div
+        className={cn(
+          "flex flex-1 min-h-0",
+          sqlOpen && sqlDock === "right" ? "flex-row" : "flex-col",
+        )}
+      >
+        <div className="flex-1 min-h-0 min-w-0">
+          <DataGrid
+            key={isDuckDB ? filterSortKey : undefined}
+            columns={colsState}
+            rows={viewRows}
+            totalRows={rowCount}
+            rowHeight={32}
+            onRangeChange={isChunked ? handleVisibleRangeChange : undefined}
+            onSelectionChange={setSelection}
+            onColumnsResize={handleColumnsResize}
+            onHeaderClick={toggleSort}
+            onColumnAction={isLoading ? undefined : handleColumnAction}
+            onRowAction={isLoading ? undefined : handleRowAction}
+            groupBy={groupIndexes}
+            rowGroups={groupIndexes.length > 0 ? rowGroups : null}
+            collapsedGroups={collapsedGroups}
+            onToggleGroup={toggleGroup}
+            onEditCell={(r, c, v) => {
+              const absoluteRow = mapToAbsoluteRow(r);
+              if (absoluteRow == null) return;
+              updateCell(absoluteRow, c, v);
+            }}
+            onPaste={(r, c, vals) => {
+              const absoluteRow = mapToAbsoluteRow(r);
+              if (absoluteRow == null) return;
+              applyPaste(absoluteRow, c, vals);
+            }}
+            onClear={(cells) => {
+              const mapped = cells
+                .map(({ row, col }) => {
+                  const absoluteRow = mapToAbsoluteRow(row);
+                  if (absoluteRow == null) return null;
+                  return { row: absoluteRow, col };
+                })
+                .filter(
+                  (cell): cell is { row: number; col: number } => cell !== null,
+                );
+              if (mapped.length > 0) clearCells(mapped);
+            }}
+            onSearchShortcut={() => setSearchOpen(true)}
+            currentSearchKey={currentSearchKey}
+            searchQuery={searchQuery}
+            focusCellRequest={focusCellRequest}
+            sortState={sort}
+            filtersRow={filtersRow}
+            onUndo={undo}
+            onRedo={redo}
+          />
+        </div>
+        {sqlOpen && (
+          <SqlConsole
+            dock={sqlDock}
+            defaultTable={currentTable}
+            onDockChange={handleSqlDockChange}
+            onClose={handleSqlClose}
+          />
+        )}
+      </div>
+      {pivotOpen && (
+        <PivotPanel
+          key={currentTable}
+          table={currentTable}
+          columns={columns}
+          onRun={runViewPivot}
+          onDrillDown={handlePivotDrill}
+          onClose={handlePivotClose}
+        />
+      )}
+      {chartConfig && (
+        <ChartPanel
+          table={currentTable}
+          columns={columns}
+          config={chartConfig}
+          onConfigChange={setChartConfig}
+          chart={chart}
+          error={chartError}
+          isCharting={isCharting}
+          hasSelection={selectionCount > 0}
+          onClose={handleChartClose}
+        />
+      )}
+      {workbook && workbook.sheets.length > 1 && (
+        <SheetTabs
+          sheets={workbook.sheets}
+          loaded={workbook.tables}
+          activeSheet={workbook.activeSheet}
+          disabled={isLoading}
+          onSelect={(sheets) => {
+            loadWorkbookSheets(sheets).catch((err) => {
+              logger.error("Failed to load workbook sheet:", err);
+            });
           }}
-          onSearchShortcut={() => setSearchOpen(true)}
-          currentSearchKey={currentSearchKey}
-          searchQuery={searchQuery}
-          focusCellRequest={focusCellRequest}
-          sortState={sort}
-          onUndo={undo}
-          onRedo={redo}
         />
-      </div>
+      )}
+      {isDuckDB && duckdbTables.length > 0 && (
+        <TableTabs
+          tables={duckdbTables}
+          activeTable={currentTable}
+          disabled={isLoading}
+          onSelect={(table) => void switchTable(table)}
+          onRename={handleRenameTable}
+          onDrop={handleDropTable}
+        />
+      )}
       <div className="border-t border-border/50 bg-background/80 backdrop-blur-md px-4 sm:px-6 py-2 sm:py-3 text-xs flex items-center gap-3 sm:gap-4 overflow-x-auto">
         <TooltipProvider>
           <div className="flex items-center gap-3">
@@ -712,6 +1523,12 @@ export function Sheet({
                     {selectionCount} cells selected
                   </TooltipContent>
                 </Tooltip>
+
+                <SelectionStats
+                  stats={selectionStats}
+                  isAggregating={isAggregating}
+                  onCopy={handleCopyFigure}
+                />
               </>
             )}
           </div>
@@ -735,6 +1552,36 @@ export function Sheet({
         open={shortcutsOpen}
         onClose={() => setShortcutsOpen(false)}
       />
+      {importRequest && (
+        <ImportDialog
+          key={importRequest.url}
+          open
+          sourceLabel={importRequest.url}
+          sample={importRequest.sample}
+          initialOptions={importRequest.options}
+          onConfirm={handleImportConfirm}
+          onClose={handleImportClose}
+        />
+      )}
+      {schemaRequest && (
+        <ColumnSchemaDialog
+          key={`${schemaRequest.action}:${schemaRequest.colIndex}`}
+          request={schemaRequest}
+          columns={columns}
+          allowExpressions={isDuckDB}
+          onPreviewCast={previewColumnCast}
+          onSubmit={handleSchemaSubmit}
+          onClose={handleSchemaClose}
+        />
+      )}
+      {profiledIndex >= 0 && (
+        <ColumnProfilePanel
+          key={`${profiledColumn}:${filterSortKey}`}
+          columnName={profiledColumn!}
+          onLoad={loadProfile}
+          onClose={handleProfileClose}
+        />
+      )}
     </div>
   );
 }
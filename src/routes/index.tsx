@@ -6,6 +6,8 @@ function MainRouteComponent() {
     url?: string;
     sort?: string;
     q?: string;
+    filters?: string;
+    chart?: string;
   };
   const navigate = Route.useNavigate();
 
@@ -14,13 +16,22 @@ function MainRouteComponent() {
       initialUrl={search.url}
       initialSortParam={search.sort}
       initialQueryParam={search.q}
+      initialFiltersParam={search.filters}
+      initialChartParam={search.chart}
       autoLoadDefault={!search.url} // Auto-load sample if no URL specified
       onSearchChange={(partial) => {
         navigate({
           search: (prev) => ({
             ...prev,
-            sort: partial.sort ?? undefined,
-            q: partial.q ?? undefined,
+            // Each hook reports only its own key; keep the others intact.
+            ...("sort" in partial ? { sort: partial.sort ?? undefined } : {}),
+            ...("q" in partial ? { q: partial.q ?? undefined } : {}),
+            ...("filters" in partial
+              ? { filters: partial.filters ?? undefined }
+              : {}),
+            ...("chart" in partial
+              ? { chart: partial.chart ?? undefined }
+              : {}),
           }),
           replace: true,
         });
@@ -34,10 +45,16 @@ export const Route = createFileRoute("/")({
   validateSearch: (search: Record<string, unknown>) => {
     const safe = (v: unknown): string | undefined =>
       typeof v === "string" && v.length > 0 ? v : undefined;
+    // The router JSON-decodes search values, so a filters map may arrive as
+    // an object; normalise it back to the string form Sheet expects.
+    const safeJson = (v: unknown): string | undefined =>
+      v && typeof v === "object" ? JSON.stringify(v) : safe(v);
     return {
       url: safe(search.url),
       sort: safe(search.sort),
       q: safe(search.q),
+      filters: safeJson(search.filters),
+      chart: safeJson(search.chart),
     };
   },
 });
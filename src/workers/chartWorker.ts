@@ -0,0 +1,28 @@
+/* eslint-disable no-restricted-globals */
+import { computeChart, type ChartConfig, type ChartData } from "@/lib/chart";
+
+type ChartWorkerRequest = {
+  config: ChartConfig;
+  /** Column names, in the order of the row cells. */
+  columns: string[];
+  /** The charted rows: the view, or the selected view rows. */
+  rows: string[][];
+};
+
+type ChartWorkerMessage =
+  | { type: "chart"; chart: ChartData }
+  | { type: "error"; message: string };
+
+const post = (message: ChartWorkerMessage) => self.postMessage(message);
+
+self.addEventListener("message", (event: MessageEvent<ChartWorkerRequest>) => {
+  try {
+    const { config, columns, rows } = event.data;
+    post({ type: "chart", chart: computeChart(config, columns, rows) });
+  } catch (error) {
+    post({
+      type: "error",
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
@@ -1,12 +1,14 @@
 /* eslint-disable no-restricted-globals */
 import { parseStream } from "@/lib/streamingCSV";
 import { logger } from "@/lib/logger";
+import type { CsvImportOptions } from "@/lib/csvDialect";
 
 type WorkerLoadRequest = {
   type: "load";
   url?: string;
   file?: File;
   batchSize?: number;
+  csvOptions?: Partial<CsvImportOptions>;
 };
 
 type WorkerAbortRequest = { type: "abort" };
@@ -79,7 +81,7 @@ self.addEventListener(
 
     if (data?.type !== "load" || isLoading) return;
 
-    const { url, file, batchSize = 2000 } = data;
+    const { url, file, batchSize = 2000, csvOptions } = data;
     abortController = new AbortController();
     isLoading = true;
     aborted = false;
@@ -97,6 +99,7 @@ self.addEventListener(
         await parseStream(reader, {
           batchSize,
           totalBytes,
+          dialect: csvOptions,
           signal: abortController.signal,
           onColumns: (columns) =>
             self.postMessage({ type: "columns", columns }),
@@ -122,6 +125,7 @@ self.addEventListener(
         await parseStream(reader, {
           batchSize,
           totalBytes: file.size,
+          dialect: csvOptions,
           signal: abortController.signal,
           onColumns: (columns) =>
             self.postMessage({ type: "columns", columns }),
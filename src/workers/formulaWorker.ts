@@ -0,0 +1,42 @@
+/* eslint-disable no-restricted-globals */
+import type { FormulaColumn } from "@/lib/formulaAst";
+import { compileComputedColumns } from "@/lib/formulaEval";
+
+type FormulaWorkerRequest = {
+  columns: FormulaColumn[];
+  rows: Array<string[] | undefined>;
+};
+
+type FormulaWorkerValuesMessage = {
+  type: "values";
+  /** Cells of each computed column, one per row. */
+  columns: Array<{ index: number; values: string[] }>;
+};
+type FormulaWorkerErrorMessage = { type: "error"; message: string };
+
+type FormulaWorkerMessage =
+  | FormulaWorkerValuesMessage
+  | FormulaWorkerErrorMessage;
+
+const post = (message: FormulaWorkerMessage) => self.postMessage(message);
+
+self.addEventListener(
+  "message",
+  (event: MessageEvent<FormulaWorkerRequest>) => {
+    try {
+      const { columns, rows } = event.data;
+      post({
+        type: "values",
+        columns: compileComputedColumns(columns).map(({ index, evaluate }) => ({
+          index,
+          values: rows.map((row) => (row ? evaluate(row) : "")),
+        })),
+      });
+    } catch (error) {
+      post({
+        type: "error",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  },
+);
@@ -0,0 +1,27 @@
+/* eslint-disable no-restricted-globals */
+import { computePivot, type PivotResult, type PivotSpec } from "@/lib/pivot";
+
+type PivotWorkerRequest = {
+  spec: PivotSpec;
+  /** Column names, in the order of the row cells. */
+  columns: string[];
+  rows: string[][];
+};
+
+type PivotWorkerMessage =
+  | { type: "pivot"; pivot: PivotResult }
+  | { type: "error"; message: string };
+
+const post = (message: PivotWorkerMessage) => self.postMessage(message);
+
+self.addEventListener("message", (event: MessageEvent<PivotWorkerRequest>) => {
+  try {
+    const { spec, columns, rows } = event.data;
+    post({ type: "pivot", pivot: computePivot(spec, columns, rows) });
+  } catch (error) {
+    post({
+      type: "error",
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
@@ -0,0 +1,30 @@
+/* eslint-disable no-restricted-globals */
+import { profileValues, type ColumnProfile } from "@/lib/columnProfile";
+
+type ProfileWorkerRequest = {
+  column: string;
+  cells: Array<string | undefined>;
+  /** The column's DuckDB type; inferred from the cells when unset. */
+  type?: string;
+};
+
+type ProfileWorkerMessage =
+  | { type: "profile"; profile: ColumnProfile }
+  | { type: "error"; message: string };
+
+const post = (message: ProfileWorkerMessage) => self.postMessage(message);
+
+self.addEventListener(
+  "message",
+  (event: MessageEvent<ProfileWorkerRequest>) => {
+    try {
+      const { column, cells, type } = event.data;
+      post({ type: "profile", profile: profileValues(column, cells, type) });
+    } catch (error) {
+      post({
+        type: "error",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  },
+);
@@ -1,5 +1,6 @@
 /* eslint-disable no-restricted-globals */
 import { logger } from "@/lib/logger";
+import type { SortKeys } from "@/lib/sort";
 
 type DuckDBWorkerContext = typeof globalThis & {
   DUCKDB_WORKER_CACHE_SIZE?: number | string;
@@ -10,6 +11,7 @@ declare const self: DuckDBWorkerContext;
 interface ColumnMeta {
   name: string;
   type: string;
+  formula?: string;
 }
 
 interface InitMessage {
@@ -19,7 +21,8 @@ interface InitMessage {
   columns?: ColumnMeta[];
   rowCount?: number;
   filters?: Record<number, string>;
-  sort?: { colIndex: number; dir: string };
+  /** Sort keys in priority order. */
+  sort?: SortKeys;
 }
 
 interface LoadRangeMessage {
@@ -40,10 +43,13 @@ type IncomingMessage =
   | InvalidateMessage
   | { type: "reset" };
 
+/** A view row; `id` is its table row id, which edits address. */
+type RowEntry = { index: number; values: string[]; id: number };
+
 type RowsMessage = {
   type: "rows";
   requestId: number;
-  rows: Array<{ index: number; values: string[] }>;
+  rows: RowEntry[];
   rowCount?: number;
   columns?: ColumnMeta[];
 };
@@ -56,6 +62,11 @@ type ReadyMessage = {
 
 type ErrorMessage = { type: "error"; requestId?: number; message: string };
 
+interface Chunk {
+  rows: string[][];
+  rowIds: number[];
+}
+
 interface ChunkMetadata {
   accessCount: number;
   lastAccess: number;
@@ -66,14 +77,15 @@ interface WorkerState {
   chunkSize: number;
   columns: ColumnMeta[];
   rowCount: number;
-  chunks: Map<number, string[][]>;
+  rowCountKnown: boolean;
+  chunks: Map<number, Chunk>;
   chunkAccessOrder: number[];
   chunkMetadata: Map<number, ChunkMetadata>;
   chunkETags: Map<number, string>;
   inflight: Map<number, Promise<void>>;
   controller: AbortController | null;
   filters: Record<number, string>;
-  sort: { colIndex: number; dir: string } | null;
+  sort: SortKeys;
 }
 
 const MAX_CACHED_CHUNKS = Number(self.DUCKDB_WORKER_CACHE_SIZE ?? "50");
@@ -83,6 +95,7 @@ const state: WorkerState = {
   chunkSize: 2000,
   columns: [],
   rowCount: 0,
+  rowCountKnown: false,
   chunks: new Map(),
   chunkAccessOrder: [],
   chunkMetadata: new Map(),
@@ -90,7 +103,7 @@ const state: WorkerState = {
   inflight: new Map(),
   controller: null,
   filters: {},
-  sort: null,
+  sort: [],
 };
 
 const post = (message: RowsMessage | ReadyMessage | ErrorMessage) => {
@@ -164,20 +177,36 @@ const evictOldChunks = () => {
   }
 };
 
+// Identifies the filtered/sorted view a chunk belongs to so responses that
+// arrive after the view changed are not cached under the new state.
+const viewKey = () =>
+  JSON.stringify({
+    table: state.table,
+    filters: state.filters,
+    sort: state.sort,
+  });
+
+const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === "AbortError";
+
 const ensureChunk = (index: number): Promise<void> => {
   if (state.chunks.has(index)) return Promise.resolve();
   const existing = state.inflight.get(index);
   if (existing) return existing;
   const promise = fetchChunk(index)
     .catch((error) => {
-      post({
-        type: "error",
-        message: error instanceof Error ? error.message : String(error),
-      });
+      if (!isAbortError(error)) {
+        post({
+          type: "error",
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
       throw error;
     })
     .finally(() => {
-      state.inflight.delete(index);
+      if (state.inflight.get(index) === promise) {
+        state.inflight.delete(index);
+      }
     });
   state.inflight.set(index, promise);
   return promise;
@@ -186,6 +215,7 @@ const ensureChunk = (index: number): Promise<void> => {
 const fetchChunk = async (index: number): Promise<void> => {
   const controller = state.controller ?? new AbortController();
   state.controller = controller;
+  const requestedView = viewKey();
   const offset = index * state.chunkSize;
 
   const params = new URLSearchParams({
@@ -198,7 +228,7 @@ const fetchChunk = async (index: number): Promise<void> => {
     params.set("filters", JSON.stringify(state.filters));
   }
 
-  if (state.sort) {
+  if (state.sort.length > 0) {
     params.set("sort", JSON.stringify(state.sort));
   }
 
@@ -216,6 +246,8 @@ const fetchChunk = async (index: number): Promise<void> => {
     headers,
   });
 
+  if (requestedView !== viewKey()) return;
+
   if (response.status === 304) {
     trackChunkAccess(index);
     return;
@@ -227,35 +259,42 @@ const fetchChunk = async (index: number): Promise<void> => {
   }
 
   const etag = response.headers.get("etag");
-  if (etag) {
-    state.chunkETags.set(index, etag);
-  }
   const payload = (await response.json()) as {
     columns?: ColumnMeta[];
     rows?: string[][];
+    rowIds?: number[];
     rowCount?: number;
     offset: number;
     limit: number;
   };
+  if (requestedView !== viewKey()) return;
+  if (etag) {
+    state.chunkETags.set(index, etag);
+  }
   if (Array.isArray(payload.columns) && payload.columns.length > 0) {
     state.columns = payload.columns;
   }
+  const rows = Array.isArray(payload.rows) ? payload.rows : [];
+  const rowIds = Array.isArray(payload.rowIds) ? payload.rowIds : [];
+  // An empty page past the end reports a zero window count, so only trust it
+  // when it has rows or starts the view.
   if (
     typeof payload.rowCount === "number" &&
-    Number.isFinite(payload.rowCount)
+    Number.isFinite(payload.rowCount) &&
+    (rows.length > 0 || offset === 0)
   ) {
     state.rowCount = payload.rowCount;
+    state.rowCountKnown = true;
   }
-  const rows = Array.isArray(payload.rows) ? payload.rows : [];
 
   evictOldChunks();
 
-  state.chunks.set(index, rows);
+  state.chunks.set(index, { rows, rowIds });
   trackChunkAccess(index);
 };
 
 const gatherRows = (start: number, end: number) => {
-  const rows: Array<{ index: number; values: string[] }> = [];
+  const rows: RowEntry[] = [];
   const total = state.rowCount;
   const maxIndex = Math.max(end, total - 1);
   for (let rowIndex = start; rowIndex <= maxIndex; rowIndex++) {
@@ -266,17 +305,22 @@ const gatherRows = (start: number, end: number) => {
 
     trackChunkAccess(chunkIndex);
 
-    const values = chunk[within];
-    if (!values) continue;
-    rows.push({ index: rowIndex, values });
+    const values = chunk.rows[within];
+    const id = chunk.rowIds[within];
+    if (!values || id === undefined) continue;
+    rows.push({ index: rowIndex, values, id });
   }
   const lastLoadedIndex =
     rows.length > 0 ? rows[rows.length - 1]!.index + 1 : 0;
   const inferredRowCount = Math.max(total, lastLoadedIndex, end + 1);
-  return { rows, rowCount: total > 0 ? total : inferredRowCount };
+  return {
+    rows,
+    rowCount: total > 0 || state.rowCountKnown ? total : inferredRowCount,
+  };
 };
 
 const handleInit = (message: InitMessage) => {
+  const tableChanged = state.table !== message.table;
   state.table = message.table;
   state.chunkSize =
     message.chunkSize > 0 ? Math.floor(message.chunkSize) : 2000;
@@ -284,31 +328,37 @@ const handleInit = (message: InitMessage) => {
   const filtersChanged =
     JSON.stringify(state.filters) !== JSON.stringify(message.filters ?? {});
   const sortChanged =
-    JSON.stringify(state.sort) !== JSON.stringify(message.sort ?? null);
+    JSON.stringify(state.sort) !== JSON.stringify(message.sort ?? []);
 
   state.filters = message.filters ?? {};
-  state.sort = message.sort ?? null;
+  state.sort = message.sort ?? [];
 
-  if (filtersChanged || sortChanged) {
+  if (tableChanged || filtersChanged || sortChanged) {
     state.chunks.clear();
     state.chunkAccessOrder = [];
     state.chunkMetadata.clear();
     state.chunkETags.clear();
     state.inflight.clear();
+    state.rowCount = 0;
+    state.rowCountKnown = false;
     abortCurrent();
   }
 
   state.columns = Array.isArray(message.columns)
     ? message.columns
     : state.columns;
-  state.rowCount =
-    typeof message.rowCount === "number" && Number.isFinite(message.rowCount)
-      ? message.rowCount
-      : state.rowCount;
+  if (
+    typeof message.rowCount === "number" &&
+    Number.isFinite(message.rowCount)
+  ) {
+    state.rowCount = message.rowCount;
+    state.rowCountKnown = true;
+  }
   post({ type: "ready", columns: state.columns, rowCount: state.rowCount });
 };
 
-const handleLoadRange = async (message: LoadRangeMessage) => {
+const handleLoadRange = async (message: LoadRangeMessage): Promise<void> => {
+  const requestedView = viewKey();
   try {
     const start = Math.max(0, Math.min(message.start, message.end));
     const end = Math.max(start, message.end);
@@ -317,6 +367,8 @@ const handleLoadRange = async (message: LoadRangeMessage) => {
     for (let chunk = firstChunk; chunk <= lastChunk; chunk++) {
       await ensureChunk(chunk);
     }
+    // Filters or sort changed mid-request: answer from the new view instead.
+    if (requestedView !== viewKey()) return handleLoadRange(message);
     const payload = gatherRows(start, end);
     post({
       type: "rows",
@@ -326,6 +378,9 @@ const handleLoadRange = async (message: LoadRangeMessage) => {
       columns: state.columns,
     });
   } catch (error) {
+    if (isAbortError(error) && requestedView !== viewKey()) {
+      return handleLoadRange(message);
+    }
     post({
       type: "error",
       requestId: message.requestId,